@@ -12,6 +12,11 @@ import { JwtTokenWrapperModule } from './modules/jwt/jwt-token-wrapper.module';
 
 import { User, Agents, Bet, WalletAudit, WalletRetryJob } from '@games-vector/game-core';
 import { Game } from './entities/game.entity';
+import { CrashRound } from './entities/crash-round.entity';
+import { ServerSeedChain } from './entities/server-seed-chain.entity';
+import { GameConfigRevision } from './entities/game-config-revision.entity';
+import { ConfigEntry } from './entities/config-entry.entity';
+import { CurrencyRate } from './entities/currency-rate.entity';
 
 import { HealthController } from './routes/extra/health.controller';
 import { BetConfigModule } from './modules/bet-config/bet-config.module';
@@ -28,9 +33,13 @@ import { DiverGameModule } from './games/diver-game/diver-game.module';
 import { ChickenRoadGameModule } from './games/chicken-road-game/chicken-road-game.module';
 import { CommonApiFunctionsModule } from './routes/common-api-functions/common-api-functions.module';
 import { GameApiRoutesModule } from './routes/game-api-routes/game-api-routes.module';
+import { FairnessRoutesModule } from './routes/fairness-routes/fairness-routes.module';
+import { AdminRoutesModule } from './routes/admin-routes/admin-routes.module';
 import { BetCleanupSchedulerModule } from './modules/bet-cleanup/bet-cleanup-scheduler.module';
 import { RefundSchedulerModule } from './modules/refund-scheduler/refund-scheduler.module';
 import { WalletNotificationModule } from './modules/wallet-notification/wallet-notification.module';
+import { MaintenanceModule } from './modules/maintenance/maintenance.module';
+import { GameAvailabilityModule } from './modules/game-availability/game-availability.module';
 
 @Module({
   imports: [
@@ -75,7 +84,7 @@ import { WalletNotificationModule } from './modules/wallet-notification/wallet-n
           database,
           synchronize,
           autoLoadEntities: true,
-          entities: [User, Agents, Bet, WalletAudit, WalletRetryJob, Game],
+          entities: [User, Agents, Bet, WalletAudit, WalletRetryJob, Game, CrashRound, ServerSeedChain, ConfigEntry, GameConfigRevision, CurrencyRate],
           extra: {
             connectionLimit: parseInt(
               process.env.DB_CONNECTION_LIMIT || '30',
@@ -97,9 +106,9 @@ import { WalletNotificationModule } from './modules/wallet-notification/wallet-n
     forwardRef(() => WalletConfigModule),
     forwardRef(() => WalletAuditModule),
     forwardRef(() => WalletRetryModule),
-    // JWT configuration - loaded from game config table (platform config)
+    // JWT configuration - loaded from the config store (platform config)
     // Falls back to environment variable, then to defaults
-    // To configure: INSERT INTO game_config_platform (`key`, `value`) VALUES ('jwt.expiresIn', '24h');
+    // To configure: PUT /api/admin/configs/platform/jwt.expiresIn with {"value": "24h"}
     JwtTokenWrapperModule.forRootAsync({
       imports: [GameConfigModule],
       inject: [ConfigService, GameConfigService],
@@ -151,6 +160,8 @@ import { WalletNotificationModule } from './modules/wallet-notification/wallet-n
     BetCleanupSchedulerModule, // Monthly bet cleanup
     RefundSchedulerModule, // Refunds old PLACED bets
     WalletNotificationModule, // Wallet failure notifications
+    MaintenanceModule, // Maintenance mode flags (gateway, bets)
+    GameAvailabilityModule, // Scheduled availability windows (gateway)
     GamesModule, // Provides GameDispatcherService globally - MUST be imported before game modules
     // Common Game Gateway - handles all WebSocket connections
     // Game Modules - register their handlers with dispatcher
@@ -160,6 +171,8 @@ import { WalletNotificationModule } from './modules/wallet-notification/wallet-n
     // API Routes
     CommonApiFunctionsModule, // /wallet/* endpoints (createMember, login, doLoginAndLaunchGame, logout)
     GameApiRoutesModule, // /api/* endpoints (auth, games, online-counter)
+    FairnessRoutesModule, // /api/fairness/* endpoints (provably fair verification)
+    AdminRoutesModule, // /api/admin/* endpoints (require ADMIN_API_KEY)
   ],
   controllers: [HealthController, AppController],
   providers: [
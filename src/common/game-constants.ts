@@ -23,6 +23,7 @@ export const GAME_CONSTANTS = {
     CRASH_COEFF_MIN: 1.00,
     CRASH_COEFF_MAX: 10.00,
     COEFF_SPEED_PER_SECOND: 0.5, // Coefficient increase per second (linear progression)
+    MAX_LATENCY_ALLOWANCE_MS: 150, // Cap on the latency compensation of manual cashouts (0 = off)
     // Default coefficient distribution (industry standard)
     DEFAULT_DISTRIBUTION: {
       ranges: [
@@ -53,6 +54,7 @@ export const GAME_CONSTANTS = {
     CRASH_COEFF_MIN: 1.00,
     CRASH_COEFF_MAX: 10.00,
     COEFF_SPEED_PER_SECOND: 0.5,
+    MAX_LATENCY_ALLOWANCE_MS: 150,
     DEFAULT_DISTRIBUTION: {
       ranges: [
         { name: 'low', min: 1.02, max: 3.0, weight: 0.75 },
@@ -79,4 +81,51 @@ export const GAME_CONSTANTS = {
     DECIMAL_PLACES: 2,
     ROUNDING_PRECISION: 100, // For rounding: Math.round(value * 100) / 100
   },
+
+  // Provably fair crash point derivation
+  CRASH_FAIRNESS: {
+    CLIENT_SEEDS_COUNT: 3, // First N client seeds of a round are mixed into the hash
+    HASH_SLICE_HEX_CHARS: 13, // 13 hex chars = 52 bits, exactly representable as a double
+  },
+
+  // Pre-committed server seed hash chain (one active chain per crash game)
+  SEED_CHAIN: {
+    LENGTH: 1000000, // Rounds per chain (~230 days at 20s per round)
+    CHECKPOINT_INTERVAL: 10000, // Stored every N hashes; bounds the work to reach any position
+    MAX_LENGTH: 10000000,
+    CREATE_LOCK_TTL: 120, // seconds
+    CONSUME_RETRIES: 3,
+    SALT_BYTES: 16, // Public per-chain salt mixed into every round hash
+  },
+
+  // Time-based multiplier curve (multiplierCurve config key)
+  MULTIPLIER_CURVE: {
+    MAX_EXPONENTIAL_RATE: 10, // per second
+    MAX_PIECEWISE_POINTS: 50,
+  },
+
+  // Server-side autobet series of crash games
+  AUTOBET: {
+    MAX_ROUNDS: 1000,
+    MAX_ADJUST_PERCENT: 1000, // on win / on loss stake increase
+    SERIES_TTL_SECONDS: 24 * 60 * 60, // refreshed every round
+    LOCK_TTL_SECONDS: 15, // series lock, held while a round is booked and the next bet placed
+    LOCK_WAIT_MS: 5000, // how long a start, cancel or booking waits for the series lock
+    LOCK_RETRY_MS: 50,
+  },
+
+  // Round liability (liabilityLimit config key)
+  LIABILITY: {
+    EXPOSURE_TTL_SECONDS: 60, // published exposure expires if the leader stops updating it
+  },
+
+  // Write-time config validation limits (match what the loaders accept)
+  CONFIG_VALIDATION: {
+    RTP_MIN: 0, // exclusive
+    RTP_MAX: 100,
+    COEFF_SPEED_MAX: 10,
+    MAX_DECIMAL_PLACES: 8,
+    WEIGHT_TOLERANCE: 0.01, // coefficientDistribution weights must sum to 1.0 within this
+    RTP_WARNING_THRESHOLD: 100, // warn when any Chicken Road cashout step returns more than this (percent)
+  },
 } as const;
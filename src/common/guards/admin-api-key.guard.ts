@@ -0,0 +1,42 @@
+import { CanActivate, ExecutionContext, Injectable, Logger, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+
+export const ADMIN_API_KEY_HEADER = 'x-admin-key';
+// Name the caller gives for audit trails; the key is shared, so it is recorded as unverified
+export const ADMIN_USER_HEADER = 'x-admin-user';
+
+/**
+ * Protects admin endpoints with a shared key from ADMIN_API_KEY
+ * Rejects every request when no key is configured
+ */
+@Injectable()
+export class AdminApiKeyGuard implements CanActivate {
+  private readonly logger = new Logger(AdminApiKeyGuard.name);
+
+  constructor(private readonly configService: ConfigService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest();
+    const expected = this.configService.get<string>('app.adminApiKey') || '';
+    const provided = String(request.headers?.[ADMIN_API_KEY_HEADER] || '');
+
+    if (!expected) {
+      this.logger.warn(`Admin request rejected: ADMIN_API_KEY is not configured path=${request.url}`);
+      throw new UnauthorizedException('Admin API is disabled');
+    }
+
+    // Compared as bytes: a multi-byte key can match in characters but not in length
+    const providedBuffer = Buffer.from(provided);
+    const expectedBuffer = Buffer.from(expected);
+    const valid =
+      providedBuffer.length === expectedBuffer.length &&
+      crypto.timingSafeEqual(providedBuffer, expectedBuffer);
+    if (!valid) {
+      this.logger.warn(`Admin request rejected: invalid key path=${request.url} ip=${request.ip}`);
+      throw new UnauthorizedException('Invalid admin key');
+    }
+
+    return true;
+  }
+}
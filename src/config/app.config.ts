@@ -11,6 +11,8 @@ export interface AppConfig {
   env: string;
   /** Whether authentication guards are enabled */
   enableAuth: boolean;
+  /** Shared key for admin endpoints (`x-admin-key` header); admin API is closed when empty */
+  adminApiKey: string;
 }
 
 /**
@@ -22,6 +24,7 @@ export interface AppConfig {
  * - APP_PORT: Application port number (default: 3000)
  * - APP_ENV: Environment name (default: 'production')
  * - ENABLE_AUTH: Authentication toggle, set to 'false' to disable (default: true)
+ * - ADMIN_API_KEY: Key required by admin endpoints (default: empty - admin API disabled)
  *
  * @returns Application configuration object
  */
@@ -34,5 +37,6 @@ export default registerAs(
       process.env.ENABLE_AUTH === undefined
         ? DEFAULTS.APP.ENABLE_AUTH
         : process.env.ENABLE_AUTH !== 'false',
+    adminApiKey: process.env.ADMIN_API_KEY || '',
   }),
 );
@@ -83,6 +83,50 @@ const PLATFORM_CONFIG = {
     AGENT_REJECTED: 'agent_rejected',
     NO_ACTIVE_SESSION: 'no_active_session',
     SETTLEMENT_FAILED: 'settlement_failed Please contact support',
+    MAINTENANCE: 'maintenance',
+    CURRENCY_MISMATCH: 'currency_mismatch',
+    UNSUPPORTED_CURRENCY: 'unsupported_currency',
+  },
+
+  // Scheduled availability (availabilitySchedule config key of each game)
+  AVAILABILITY: {
+    CONFIG_KEY: 'availabilitySchedule',
+    WARNING_MINUTES: 10, // Connected players are warned this long before a scheduled cutoff
+    CHECK_INTERVAL_MS: 60000, // How often connected sockets are checked against the schedule
+    ROUND_RECHECK_MS: 30000, // How often an offline crash game checks whether it is back
+  },
+
+  // Maintenance mode (state shared by all pods through Redis + pub/sub)
+  MAINTENANCE: {
+    STATE_KEY: 'platform:maintenance',
+    CHANNEL: 'platform:maintenance:changed',
+  },
+
+  // Bet limits converted out of betConfig's base currency (BetLimitsService)
+  BET_LIMITS: {
+    CONVERSION_CONFIG_KEY: 'betLimitConversion',
+    NICE_STEPS: [1, 2, 2.5, 5], // Mantissas converted amounts snap to (x 10^n)
+  },
+
+  // Exchange rates (CurrencyRatesService, currency_rates table)
+  CURRENCY_RATES: {
+    CACHE_KEY: 'platform:currency-rates',
+    CACHE_TTL_SECONDS: 300, // Upper bound for picking up rows edited directly in the database
+    STALE_AFTER_HOURS: 48, // Rates quoted longer ago are logged as stale (still used)
+    FILE_PATH: 'currency-rates.json', // "file" importer, relative to the working directory; CURRENCY_RATES_FILE overrides
+  },
+
+  // Game config cache (GameConfigService)
+  CONFIG_CACHE: {
+    TTL_MS: 30000, // Upper bound for picking up rows edited directly in the database
+    CHANNEL: 'game-config:changed',
+  },
+
+  // Import of the legacy game_config_<gameCode> tables on the first start with an empty config store
+  LEGACY_CONFIG_IMPORT: {
+    LOCK_KEY: 'game-config:legacy-import-lock',
+    LOCK_TTL_SECONDS: 300,
+    AUTHOR: 'startup',
   },
 
   // Common Game Payload Settings (defaults - games can override)
@@ -120,11 +164,6 @@ const GAMES_CONFIG = {
       currency: 'INR',
     },
     
-    // Bet Ranges per Currency (game-specific)
-    BET_RANGES: {
-      INR: ['0.01', '200.00'],
-    },
-    
     // Default Currency (game-specific, overrides platform default)
     DEFAULT_CURRENCY: 'INR',
 
@@ -165,10 +204,6 @@ const GAMES_CONFIG = {
       currency: 'INR',
     },
     
-    BET_RANGES: {
-      INR: ['0.01', '200.00'],
-    },
-    
     DEFAULT_CURRENCY: 'INR',
 
     GAME_PAYLOADS: {
@@ -271,9 +306,6 @@ const GAMES_CONFIG = {
       DEFAULT_STATUS: 'placed',
       DEFAULT_PLATFORM: 'SPADE',
       DEFAULT_GAME_TYPE: 'LIVE',
-      DEFAULT_BET_RANGES: {
-        INR: ['0.01', '150.00'],
-      },
     },
 
     // Last Win Configuration (game-specific)
@@ -286,6 +318,21 @@ const GAMES_CONFIG = {
       FALLBACK_CURRENCY: 'INR',
     },
 
+    // Autoplay (server walks the lane to a target step, optionally for N bets in a row)
+    AUTOPLAY: {
+      MAX_BETS: 500,
+      STATE_TTL_SECONDS: 3600,
+    },
+
+    // Abandoned sessions (settled per abandonedSessionPolicy shortly before the session TTL runs out)
+    ABANDONED_SESSION: {
+      EXPIRY_SET_KEY: 'chicken-road:session_expiry',
+      SWEEP_INTERVAL_MS: 15000,
+      EXPIRY_LEAD_SECONDS: 60,
+      LOCK_KEY: 'chicken-road-session-expiry-lock',
+      LOCK_TTL_SECONDS: 60,
+    },
+
     // Fairness/Seeds Configuration (provably fair - game-specific)
     FAIRNESS: {
       LEGACY_CLIENT_SEED: 'e0b4c48b46701588',
@@ -307,7 +354,12 @@ const GAMES_CONFIG = {
     // Game-specific Error Messages
     ERROR_MESSAGES: {
       INVALID_DIFFICULTY_CONFIG: 'invalid_difficulty_config',
+      DIFFICULTY_DISABLED: 'difficulty_disabled',
       INVALID_STEP_SEQUENCE: 'invalid_step_sequence',
+      INVALID_AUTOPLAY_TARGET: 'invalid_autoplay_target',
+      AUTOPLAY_RUNNING: 'autoplay_running',
+      NO_AUTOPLAY: 'no_autoplay',
+      SESSION_BUSY: 'session_busy',
     },
   },
 } as const;
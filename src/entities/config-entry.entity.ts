@@ -0,0 +1,51 @@
+import { Column, CreateDateColumn, Entity, Index, PrimaryGeneratedColumn, UpdateDateColumn } from "typeorm";
+
+export enum ConfigScope {
+    PLATFORM = 'platform',
+    GAME = 'game',
+    OPERATOR = 'operator',
+    CURRENCY = 'currency',
+}
+
+/**
+ * One config value of the unified config store (replaces the game_config_<gameCode> tables)
+ *
+ * - platform: gameCode 'platform' (jwt.expiresIn, email_notification_config, ...)
+ * - game: gameCode only
+ * - operator: gameCode + operatorId, optionally narrowed to a currency
+ * - currency: gameCode + currency
+ *
+ * Unused columns hold '' rather than NULL so the unique index covers every layer.
+ */
+@Entity({ name: 'config_entries' })
+@Index(['gameCode', 'operatorId', 'currency', 'key'], { unique: true })
+@Index(['key', 'gameCode'])
+export class ConfigEntry {
+    @PrimaryGeneratedColumn('uuid')
+    id: string;
+
+    @Column({ type: 'enum', enum: ConfigScope })
+    scope: ConfigScope;
+
+    @Column({ nullable: false })
+    gameCode: string;
+
+    @Column({ nullable: false, default: '' })
+    operatorId: string;
+
+    @Column({ nullable: false, default: '' })
+    currency: string;
+
+    @Column({ nullable: false })
+    key: string;
+
+    // Text as written (JSON text for JSON keys), so "1.10" reads back as "1.10"; parsed when resolved
+    @Column({ type: 'text', nullable: false })
+    value: string;
+
+    @CreateDateColumn()
+    createdAt: Date;
+
+    @UpdateDateColumn()
+    updatedAt: Date;
+}
@@ -0,0 +1,62 @@
+import { Column, CreateDateColumn, Entity, Index, PrimaryGeneratedColumn } from "typeorm";
+
+/**
+ * Finished crash round with its revealed fairness data
+ * Written once per round when the round ends - used for public fairness verification
+ */
+@Entity({ name: 'crash_rounds' })
+@Index(['gameCode', 'roundId'])
+export class CrashRound {
+    @PrimaryGeneratedColumn('uuid')
+    id: string;
+
+    @Column({ nullable: false })
+    gameCode: string;
+
+    @Column({ nullable: false, unique: true })
+    gameUUID: string;
+
+    @Column({ type: 'bigint', nullable: false })
+    roundId: string;
+
+    @Column({ type: 'decimal', precision: 14, scale: 2, nullable: false })
+    crashCoeff: string;
+
+    @Column({ nullable: false })
+    serverSeed: string;
+
+    @Column({ nullable: false })
+    hashedServerSeed: string;
+
+    @Column({ type: 'json', nullable: false })
+    clientsSeeds: Array<{
+        userId: string;
+        seed: string;
+        nickname: string;
+        gameAvatar: number | null;
+    }>;
+
+    @Column({ nullable: false })
+    combinedHash: string;
+
+    @Column({ nullable: false })
+    decimal: string;
+
+    @Column({ type: 'json', nullable: true })
+    distribution?: {
+        ranges: Array<{ name: string; min: number; max: number; weight: number }>;
+        distributionType: 'uniform' | 'power' | 'house-edge';
+        rtp?: number;
+        maxCoeff?: number;
+    } | null;
+
+    // Position of serverSeed in the game's pre-committed seed chain (null for unchained rounds)
+    @Column({ nullable: true })
+    seedChainId?: string | null;
+
+    @Column({ type: 'int', nullable: true })
+    seedChainIndex?: number | null;
+
+    @CreateDateColumn()
+    createdAt: Date;
+}
@@ -0,0 +1,27 @@
+import { Column, Entity, PrimaryColumn, UpdateDateColumn } from "typeorm";
+
+/**
+ * Exchange rate of one currency: units of the currency per 1 USD
+ *
+ * Written by the admin bulk upload and by the rate importers (CurrencyRatesService).
+ * fetchedAt is when the source quoted the rate, so stale rates can be told apart from
+ * rows that were merely re-saved.
+ */
+@Entity({ name: 'currency_rates' })
+export class CurrencyRate {
+    @PrimaryColumn({ length: 10 })
+    currency: string;
+
+    @Column({ type: 'double', nullable: false })
+    rate: number;
+
+    // Importer name, or 'upload' for the admin bulk upload
+    @Column({ nullable: false })
+    source: string;
+
+    @Column({ type: 'datetime', nullable: false })
+    fetchedAt: Date;
+
+    @UpdateDateColumn()
+    updatedAt: Date;
+}
@@ -0,0 +1,62 @@
+import { Column, CreateDateColumn, Entity, Index, PrimaryGeneratedColumn } from "typeorm";
+
+export enum GameConfigRevisionAction {
+    SET = 'set',
+    DELETE = 'delete',
+    REVERT = 'revert',
+    IMPORT = 'import', // Copied from a legacy game_config_<gameCode> table
+}
+
+export interface GameConfigDiffEntry {
+    path: string; // dot path inside a JSON value, '' for the whole value
+    from: unknown;
+    to: unknown;
+}
+
+/**
+ * Audit trail of config values (every layer of config_entries)
+ *
+ * One row per write through GameConfigService; newValue is the version the key held after
+ * the change (null when deleted), so any row can be restored with a revert.
+ * operatorId / currency name the layer written ('' for the game and platform layers).
+ */
+@Entity({ name: 'game_config_revisions' })
+@Index(['gameCode', 'key', 'createdAt'])
+export class GameConfigRevision {
+    @PrimaryGeneratedColumn('uuid')
+    id: string;
+
+    @Column({ nullable: false })
+    gameCode: string;
+
+    @Column({ nullable: false, default: '' })
+    operatorId: string;
+
+    @Column({ nullable: false, default: '' })
+    currency: string;
+
+    @Column({ nullable: false })
+    key: string;
+
+    @Column({ type: 'enum', enum: GameConfigRevisionAction })
+    action: GameConfigRevisionAction;
+
+    @Column({ type: 'longtext', nullable: true })
+    previousValue: string | null;
+
+    @Column({ type: 'longtext', nullable: true })
+    newValue: string | null;
+
+    @Column({ type: 'json', nullable: false })
+    diff: GameConfigDiffEntry[];
+
+    @Column({ nullable: false })
+    author: string;
+
+    // Revision restored by a revert
+    @Column({ nullable: true })
+    revertedFromId?: string | null;
+
+    @CreateDateColumn()
+    createdAt: Date;
+}
@@ -0,0 +1,58 @@
+import { Column, CreateDateColumn, Entity, Index, PrimaryGeneratedColumn } from "typeorm";
+
+export enum ServerSeedChainStatus {
+    ACTIVE = 'active',
+    RETIRED = 'retired',
+}
+
+/**
+ * Pre-committed server seed hash chain of a crash game
+ *
+ * h(0) = chainSeed, h(i + 1) = SHA-256(h(i)), terminalHash = h(length)
+ * Rounds consume the chain in reverse: h(length - 1), h(length - 2), ..., h(0)
+ * Only the terminal hash and the salt are public until a seed has been used by a round
+ */
+@Entity({ name: 'server_seed_chains' })
+@Index(['gameCode', 'status'])
+export class ServerSeedChain {
+    @PrimaryGeneratedColumn('uuid')
+    id: string;
+
+    @Column({ nullable: false })
+    gameCode: string;
+
+    @Column({ type: 'enum', enum: ServerSeedChainStatus, default: ServerSeedChainStatus.ACTIVE })
+    status: ServerSeedChainStatus;
+
+    @Column({ type: 'int', nullable: false })
+    length: number;
+
+    @Column({ type: 'int', nullable: false })
+    checkpointInterval: number;
+
+    // Secret - h(0); never exposed through the API
+    @Column({ nullable: false })
+    chainSeed: string;
+
+    // Secret - h(0), h(interval), h(2 * interval), ... so any position is reachable in < interval hashes
+    @Column({ type: 'json', nullable: false })
+    checkpoints: string[];
+
+    @Column({ nullable: false, unique: true })
+    terminalHash: string;
+
+    // Public - fixed with the terminal hash; every round hash of the chain is HMAC-SHA256(serverSeed, salt).
+    // Chains created before the salt existed have none and are rolled over before use
+    @Column({ nullable: true })
+    salt?: string | null;
+
+    // Number of seeds handed out to rounds; the next round uses h(length - consumed - 1)
+    @Column({ type: 'int', default: 0 })
+    consumed: number;
+
+    @CreateDateColumn()
+    createdAt: Date;
+
+    @Column({ type: 'datetime', nullable: true })
+    retiredAt?: Date | null;
+}
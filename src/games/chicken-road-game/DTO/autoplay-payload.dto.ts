@@ -0,0 +1,33 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsInt, IsNumberString, IsOptional, Max, Min } from 'class-validator';
+import { BetPayloadDto } from './bet-payload.dto';
+import { DEFAULTS } from '../../../config/defaults.config';
+
+export class AutoplayPayloadDto extends BetPayloadDto {
+  @ApiProperty({
+    example: 10,
+    description: 'Number of bets to play, each walking to the target',
+  })
+  @IsInt()
+  @Min(1)
+  @Max(DEFAULTS.GAMES.CHICKEN_ROAD.AUTOPLAY.MAX_BETS)
+  bets: number;
+
+  @ApiProperty({
+    example: '100.00',
+    description: 'Stop once the net profit of the autoplay reaches this amount',
+    required: false,
+  })
+  @IsNumberString()
+  @IsOptional()
+  stopOnProfit?: string;
+
+  @ApiProperty({
+    example: '50.00',
+    description: 'Stop once the net loss of the autoplay reaches this amount',
+    required: false,
+  })
+  @IsNumberString()
+  @IsOptional()
+  stopOnLoss?: string;
+}
@@ -1,5 +1,5 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsEnum, IsNotEmpty, IsNumberString, IsOptional, IsString } from 'class-validator';
+import { IsEnum, IsInt, IsNotEmpty, IsNumberString, IsOptional, IsString, Min } from 'class-validator';
 
 export enum Difficulty {
   EASY = 'EASY',
@@ -44,4 +44,25 @@ export class BetPayloadDto {
   @IsString()
   @IsOptional()
   countryCode?: string | null;
+
+  @ApiProperty({
+    example: 5,
+    description:
+      'Autoplay: line number the server walks to before cashing out automatically',
+    required: false,
+  })
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  targetStep?: number;
+
+  @ApiProperty({
+    example: '2.50',
+    description:
+      'Autoplay: walk to the first line whose coefficient reaches this multiplier (ignored when targetStep is set)',
+    required: false,
+  })
+  @IsNumberString()
+  @IsOptional()
+  targetCoeff?: string;
 }
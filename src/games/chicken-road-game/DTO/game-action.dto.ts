@@ -14,6 +14,8 @@ export enum GameAction {
   SET_USER_SEED = 'set-user-seed',
   GET_GAME_STATE = 'get-game-state',
   GET_MY_BETS_HISTORY = 'gameService-get-my-bets-history',
+  AUTOPLAY = 'autoplay',
+  CANCEL_AUTOPLAY = 'cancel-autoplay',
 }
 
 export class GameActionDto {
@@ -38,6 +40,8 @@ export class GameActionDto {
         value: { betAmount: 500, difficulty: 'medium' },
       },
       step: { value: { lineNumber: 3 } },
+      autoBet: { value: { betAmount: 500, difficulty: 'MEDIUM', currency: 'USD', targetStep: 5 } },
+      autoplay: { value: { betAmount: 500, difficulty: 'MEDIUM', currency: 'USD', targetCoeff: '2.5', bets: 10, stopOnLoss: '2000' } },
       withdraw: { value: undefined },
     },
   })
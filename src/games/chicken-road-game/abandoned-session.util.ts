@@ -0,0 +1,63 @@
+/**
+ * What happens to a Chicken Road session the player walked away from
+ *
+ * An active session lives in Redis for the game's session TTL. Shortly before it expires
+ * the session is settled according to the abandonedSessionPolicy config key:
+ *
+ *   { "policy": "cashout" }
+ *
+ * policy:
+ * - refund:  the stake is returned, whatever steps were taken (default, previous behaviour)
+ * - cashout: the session is cashed out at the last safe step (the stake when no step was taken)
+ * - forfeit: the bet is settled as lost
+ *
+ * The outcome is recorded on the bet as its settleType (ABANDONED_SETTLE_TYPES).
+ */
+
+export type AbandonedSessionPolicy = 'refund' | 'cashout' | 'forfeit';
+
+export const ABANDONED_SESSION_POLICIES: readonly AbandonedSessionPolicy[] = ['refund', 'cashout', 'forfeit'];
+
+export const DEFAULT_ABANDONED_SESSION_POLICY: AbandonedSessionPolicy = 'refund';
+
+/**
+ * Reason codes written to the bet record for each policy
+ */
+export const ABANDONED_SETTLE_TYPES: Record<AbandonedSessionPolicy, string> = {
+  refund: 'abandoned_refund',
+  cashout: 'abandoned_cashout',
+  forfeit: 'abandoned_forfeit',
+};
+
+/**
+ * Reasons an abandonedSessionPolicy value can't be used (empty when valid)
+ */
+export function abandonedSessionPolicyErrors(config: unknown): string[] {
+  if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+    return ['abandonedSessionPolicy must be an object'];
+  }
+
+  const value = config as Record<string, any>;
+  if (!ABANDONED_SESSION_POLICIES.includes(value.policy)) {
+    return [`abandonedSessionPolicy.policy must be one of ${ABANDONED_SESSION_POLICIES.join(', ')}`];
+  }
+  return [];
+}
+
+/**
+ * Parse the abandonedSessionPolicy config row
+ * @returns the default policy when missing or invalid
+ */
+export function parseAbandonedSessionPolicy(configRaw: string | null): AbandonedSessionPolicy {
+  if (!configRaw || configRaw === '{}') {
+    return DEFAULT_ABANDONED_SESSION_POLICY;
+  }
+
+  let config: any;
+  try {
+    config = JSON.parse(configRaw);
+  } catch {
+    return DEFAULT_ABANDONED_SESSION_POLICY;
+  }
+  return abandonedSessionPolicyErrors(config).length ? DEFAULT_ABANDONED_SESSION_POLICY : config.policy;
+}
@@ -0,0 +1,217 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { v4 as uuidv4 } from 'uuid';
+import { AutoplayPayloadDto } from './DTO/autoplay-payload.dto';
+import { BetStepResponse, ChickenRoadGameService } from './chicken-road-game.service';
+import { RedisService } from '../../modules/redis/redis.service';
+import { DEFAULTS } from '../../config/defaults.config';
+
+export type AutoplayStatus = 'running' | 'finished' | 'stopped' | 'cancelled';
+
+export type AutoplayStopReason = 'bets' | 'profit' | 'loss' | 'cancelled' | 'bet_failed';
+
+export interface AutoplayState {
+  autoplayId: string;
+  userId: string;
+  agentId: string;
+  gameCode: string;
+  settings: AutoplayPayloadDto;
+  status: AutoplayStatus;
+  stopReason?: AutoplayStopReason;
+  betsPlayed: number;
+  totalStaked: string;
+  totalWon: string;
+  profit: string;
+  lastResult?: BetStepResponse;
+  lastError?: string;
+  startedAt: number;
+  updatedAt: number;
+}
+
+const ERROR_MESSAGES = {
+  ...DEFAULTS.PLATFORM.ERROR_MESSAGES,
+  ...DEFAULTS.GAMES.CHICKEN_ROAD.ERROR_MESSAGES,
+};
+
+/**
+ * Chicken Road autoplay
+ *
+ * Plays up to `bets` auto bets (see ChickenRoadGameService.performAutoBetFlow) one after another
+ * on the server, stopping early on the profit / loss thresholds, a failed bet or a cancel.
+ * The state lives in Redis so a cancel from any socket or instance is picked up before the next bet.
+ */
+@Injectable()
+export class ChickenRoadAutoplayService {
+  private readonly logger = new Logger(ChickenRoadAutoplayService.name);
+
+  constructor(
+    private readonly chickenRoadGameService: ChickenRoadGameService,
+    private readonly redisService: RedisService,
+  ) {}
+
+  /**
+   * Validate and start an autoplay; bets run in the background
+   * @param onProgress - called with the state after every bet and when the autoplay stops
+   */
+  async startAutoplay(
+    userId: string,
+    agentId: string,
+    gameCode: string,
+    incoming: any,
+    onProgress: (state: AutoplayState) => void,
+  ): Promise<AutoplayState | { error: string; details?: any[] }> {
+    const dto = plainToInstance(AutoplayPayloadDto, incoming);
+    const errors = await validate(dto, { whitelist: true });
+    if (errors.length) {
+      return {
+        error: ERROR_MESSAGES.VALIDATION_FAILED,
+        details: errors.map((e) => Object.values(e.constraints || {})),
+      };
+    }
+    if (dto.targetStep === undefined && dto.targetCoeff === undefined) {
+      return { error: ERROR_MESSAGES.INVALID_AUTOPLAY_TARGET };
+    }
+
+    const redisKey = this.getRedisKey(userId, agentId, gameCode);
+    const existing = await this.redisService.get<AutoplayState>(redisKey);
+    if (existing && existing.status === 'running') {
+      return { error: ERROR_MESSAGES.AUTOPLAY_RUNNING };
+    }
+
+    const now = Date.now();
+    const state: AutoplayState = {
+      autoplayId: uuidv4(),
+      userId,
+      agentId,
+      gameCode,
+      settings: { ...dto },
+      status: 'running',
+      betsPlayed: 0,
+      totalStaked: '0.00',
+      totalWon: '0.00',
+      profit: '0.00',
+      startedAt: now,
+      updatedAt: now,
+    };
+    await this.saveState(state);
+
+    this.logger.log(
+      `[AUTOPLAY_START] user=${userId} agent=${agentId} autoplayId=${state.autoplayId} bets=${dto.bets} amount=${dto.betAmount} targetStep=${dto.targetStep ?? 'N/A'} targetCoeff=${dto.targetCoeff ?? 'N/A'}`,
+    );
+
+    this.runAutoplay(state, onProgress).catch((error) => {
+      this.logger.error(
+        `[AUTOPLAY] Run failed: user=${userId} autoplayId=${state.autoplayId} error=${(error as Error).message}`,
+      );
+    });
+
+    return state;
+  }
+
+  /**
+   * Stop the player's autoplay before its next bet; a bet already walking finishes
+   */
+  async cancelAutoplay(
+    userId: string,
+    agentId: string,
+    gameCode: string,
+  ): Promise<AutoplayState | { error: string }> {
+    const state = await this.redisService.get<AutoplayState>(this.getRedisKey(userId, agentId, gameCode));
+    if (!state || state.status !== 'running') {
+      return { error: ERROR_MESSAGES.NO_AUTOPLAY };
+    }
+
+    state.status = 'cancelled';
+    state.stopReason = 'cancelled';
+    await this.saveState(state);
+
+    this.logger.log(`[AUTOPLAY_CANCEL] user=${userId} agent=${agentId} autoplayId=${state.autoplayId}`);
+    return state;
+  }
+
+  private async runAutoplay(state: AutoplayState, onProgress: (state: AutoplayState) => void): Promise<void> {
+    const { userId, agentId, gameCode, settings } = state;
+    const redisKey = this.getRedisKey(userId, agentId, gameCode);
+
+    while (state.status === 'running') {
+      const stored = await this.redisService.get<AutoplayState>(redisKey);
+      if (!stored || stored.autoplayId !== state.autoplayId || stored.status !== 'running') {
+        state.status = 'cancelled';
+        state.stopReason = 'cancelled';
+        break;
+      }
+
+      let result: BetStepResponse | { error: string };
+      try {
+        result = await this.chickenRoadGameService.performAutoBetFlow(userId, agentId, gameCode, settings);
+      } catch (error) {
+        result = { error: (error as Error).message };
+      }
+
+      if ('error' in result) {
+        this.logger.warn(
+          `[AUTOPLAY] Bet failed: user=${userId} autoplayId=${state.autoplayId} error=${result.error}`,
+        );
+        state.status = 'stopped';
+        state.stopReason = 'bet_failed';
+        state.lastError = result.error;
+        break;
+      }
+
+      const win = result.isWin ? parseFloat(result.winAmount) : 0;
+      state.betsPlayed++;
+      state.totalStaked = (parseFloat(state.totalStaked) + parseFloat(result.betAmount)).toFixed(2);
+      state.totalWon = (parseFloat(state.totalWon) + win).toFixed(2);
+      state.profit = (parseFloat(state.totalWon) - parseFloat(state.totalStaked)).toFixed(2);
+      state.lastResult = result;
+
+      // Don't overwrite a cancel that came in while the bet was walking
+      const cancelled = (await this.redisService.get<AutoplayState>(redisKey))?.status === 'cancelled';
+      const stopReason = cancelled ? 'cancelled' : this.getStopReason(state);
+      if (stopReason) {
+        state.status = stopReason === 'bets' ? 'finished' : stopReason === 'cancelled' ? 'cancelled' : 'stopped';
+        state.stopReason = stopReason;
+        break;
+      }
+
+      await this.saveState(state);
+      onProgress(state);
+    }
+
+    await this.saveState(state);
+    this.logger.log(
+      `[AUTOPLAY_STOP] user=${userId} autoplayId=${state.autoplayId} reason=${state.stopReason} bets=${state.betsPlayed} profit=${state.profit}`,
+    );
+    onProgress(state);
+  }
+
+  private getStopReason(state: AutoplayState): AutoplayStopReason | null {
+    const { settings } = state;
+    const profit = parseFloat(state.profit);
+
+    if (settings.stopOnProfit !== undefined && profit >= parseFloat(settings.stopOnProfit)) {
+      return 'profit';
+    }
+    if (settings.stopOnLoss !== undefined && -profit >= parseFloat(settings.stopOnLoss)) {
+      return 'loss';
+    }
+    if (state.betsPlayed >= settings.bets) {
+      return 'bets';
+    }
+    return null;
+  }
+
+  private async saveState(state: AutoplayState): Promise<void> {
+    state.updatedAt = Date.now();
+    await this.redisService.set(
+      this.getRedisKey(state.userId, state.agentId, state.gameCode),
+      state,
+      DEFAULTS.GAMES.CHICKEN_ROAD.AUTOPLAY.STATE_TTL_SECONDS,
+    );
+  }
+
+  private getRedisKey(userId: string, agentId: string, gameCode: string): string {
+    return `autoplay:${userId}-${agentId}-${gameCode}`;
+  }
+}
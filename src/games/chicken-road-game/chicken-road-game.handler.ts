@@ -3,6 +3,7 @@ import { Server, Socket } from 'socket.io';
 import { WalletService, UserService, AgentsService } from '@games-vector/game-core';
 import { GameAction } from './DTO/game-action.dto';
 import { ChickenRoadGameService } from './chicken-road-game.service';
+import { AutoplayState, ChickenRoadAutoplayService } from './chicken-road-autoplay.service';
 import { LastWinBroadcasterService } from './modules/last-win/last-win-broadcaster.service';
 import { FairnessService } from './modules/fairness/fairness.service';
 import { GameService } from '../../modules/games/game.service';
@@ -20,6 +21,7 @@ const WS_EVENTS = {
   BETS_RANGES: 'betsRanges',
   PING: 'ping',
   PONG: 'pong',
+  AUTOPLAY_PROGRESS: 'gameService-onAutoplayProgress',
 } as const;
 
 const ERROR_RESPONSES = {
@@ -34,6 +36,7 @@ const ERROR_RESPONSES = {
   GET_SESSION_FAILED: 'get_session_failed',
   UNSUPPORTED_ACTION: 'unsupported_action',
   MISSING_GAME_CODE: 'missing_game_code',
+  AUTOPLAY_FAILED: 'autoplay_failed',
 } as const;
 
 interface BalanceEventPayload {
@@ -60,6 +63,7 @@ export class ChickenRoadGameHandler implements IGameHandler {
 
   constructor(
     private readonly chickenRoadGameService: ChickenRoadGameService,
+    private readonly chickenRoadAutoplayService: ChickenRoadAutoplayService,
     private readonly walletService: WalletService,
     private readonly userService: UserService,
     private readonly lastWinBroadcasterService: LastWinBroadcasterService,
@@ -97,35 +101,32 @@ export class ChickenRoadGameHandler implements IGameHandler {
       balance: DEFAULTS.PLATFORM.CURRENCY.DEFAULT_BALANCE,
     };
 
+    const userData = await this.userService.findOne(userId, agentId);
+    const currency = (userData.currency || DEFAULTS.PLATFORM.CURRENCY.DEFAULT).toUpperCase();
+
     const walletBalance = await this.walletService.getBalance(agentId, userId);
     balance.balance = walletBalance.balance.toString();
-    balance.currency = DEFAULTS.PLATFORM.CURRENCY.DEFAULT;
+    balance.currency = currency;
+
+    // Operator / currency overrides apply, and limits are converted to the player's currency
+    const limits = await this.chickenRoadGameService.getBetLimits(gameCode, agentId, currency);
 
     const betsRanges = {
-      [DEFAULTS.GAMES.CHICKEN_ROAD.betConfig.currency]: [
-        DEFAULTS.GAMES.CHICKEN_ROAD.betConfig.minBetAmount,
-        DEFAULTS.GAMES.CHICKEN_ROAD.betConfig.maxBetAmount,
-      ],
+      [currency]: [limits.minBetAmount, limits.maxBetAmount],
     };
 
-    const { betConfig: dbBetConfig } = await this.chickenRoadGameService.getGameConfigPayload(gameCode);
-
-    // Use default config values if database config is empty or missing required fields
-    const defaultBetConfig = DEFAULTS.GAMES.CHICKEN_ROAD.betConfig;
     const betConfig = {
-      [defaultBetConfig.currency]: {
-        minBetAmount: dbBetConfig?.minBetAmount || defaultBetConfig.minBetAmount,
-        maxBetAmount: dbBetConfig?.maxBetAmount || defaultBetConfig.maxBetAmount,
-        maxWinAmount: dbBetConfig?.maxWinAmount || defaultBetConfig.maxWinAmount,
-        defaultBetAmount: dbBetConfig?.defaultBetAmount || defaultBetConfig.defaultBetAmount,
-        betPresets: dbBetConfig?.betPresets || defaultBetConfig.betPresets,
-        decimalPlaces: dbBetConfig?.decimalPlaces || defaultBetConfig.decimalPlaces,
-        currency: defaultBetConfig.currency,
+      [currency]: {
+        minBetAmount: limits.minBetAmount,
+        maxBetAmount: limits.maxBetAmount,
+        maxWinAmount: limits.maxWinAmount,
+        defaultBetAmount: limits.defaultBetAmount,
+        betPresets: limits.betPresets,
+        decimalPlaces: limits.decimalPlaces,
+        currency,
       },
     };
 
-    const userData = await this.userService.findOne(userId, agentId);
-
     const myData: MyDataEvent = {
       userId: userId,
       nickname: userData.username || userId,
@@ -256,8 +257,13 @@ export class ChickenRoadGameHandler implements IGameHandler {
         this.logger.debug(
           `Bet action received: socket=${client.id} user=${userId} agent=${agentId} payload=${JSON.stringify(data?.payload)}`,
         );
-        this.chickenRoadGameService
-          .performBetFlow(userId, agentId, gameCode, data?.payload)
+        // A target step / multiplier makes the server walk the lane and cash out by itself
+        const isAutoBet =
+          data?.payload?.targetStep !== undefined || data?.payload?.targetCoeff !== undefined;
+        const betFlow = isAutoBet
+          ? this.chickenRoadGameService.performAutoBetFlow(userId, agentId, gameCode, data?.payload)
+          : this.chickenRoadGameService.performBetFlow(userId, agentId, gameCode, data?.payload);
+        betFlow
           .then(async (resp) => {
             if ('error' in resp) {
               ack(formatErrorResponse(resp.error));
@@ -367,6 +373,53 @@ export class ChickenRoadGameHandler implements IGameHandler {
         return;
       }
 
+      if (rawAction === GameAction.AUTOPLAY) {
+        if (!userId || !agentId || !gameCode) {
+          return ack(formatErrorResponse(ERROR_RESPONSES.MISSING_USER_OR_AGENT));
+        }
+        this.logger.debug(
+          `Autoplay action received: socket=${client.id} user=${userId} agent=${agentId} payload=${JSON.stringify(data?.payload)}`,
+        );
+        this.chickenRoadAutoplayService
+          .startAutoplay(userId, agentId, gameCode, data?.payload, (state) => {
+            this.sendAutoplayProgress(client, state).catch((e) => {
+              this.logger.error(`Autoplay progress failed: ${e}`);
+            });
+          })
+          .then((r) => {
+            if ('error' in r) {
+              ack(formatErrorResponse(r.error));
+            } else {
+              ack(r);
+            }
+          })
+          .catch((e) => {
+            this.logger.error(`Autoplay start failed: ${e}`);
+            ack(formatErrorResponse(ERROR_RESPONSES.AUTOPLAY_FAILED));
+          });
+        return;
+      }
+
+      if (rawAction === GameAction.CANCEL_AUTOPLAY) {
+        if (!userId || !agentId || !gameCode) {
+          return ack(formatErrorResponse(ERROR_RESPONSES.MISSING_USER_OR_AGENT));
+        }
+        this.chickenRoadAutoplayService
+          .cancelAutoplay(userId, agentId, gameCode)
+          .then((r) => {
+            if ('error' in r) {
+              ack(formatErrorResponse(r.error));
+            } else {
+              ack(r);
+            }
+          })
+          .catch((e) => {
+            this.logger.error(`Autoplay cancel failed: ${e}`);
+            ack(formatErrorResponse(ERROR_RESPONSES.AUTOPLAY_FAILED));
+          });
+        return;
+      }
+
       if (rawAction === GameAction.GET_GAME_SESSION) {
         this.logger.log(`Get game session action received: socket=${client.id} user=${userId} agent=${agentId}`);
         if (!userId || !agentId || !gameCode) {
@@ -443,4 +496,21 @@ export class ChickenRoadGameHandler implements IGameHandler {
 
     client.prependListener('gameService-get-my-bets-history', betHistoryHandler);
   }
+
+  /**
+   * Send autoplay progress and the balance it left to the socket that started it
+   */
+  private async sendAutoplayProgress(client: Socket, state: AutoplayState): Promise<void> {
+    if (!client.connected) {
+      return;
+    }
+    client.emit(WS_EVENTS.AUTOPLAY_PROGRESS, state);
+
+    const walletBalance = await this.walletService.getBalance(state.agentId, state.userId);
+    const balanceEvent: BalanceEventPayload = {
+      currency: DEFAULTS.PLATFORM.CURRENCY.DEFAULT,
+      balance: walletBalance.balance.toString(),
+    };
+    client.emit(WS_EVENTS.BALANCE_CHANGE, balanceEvent);
+  }
 }
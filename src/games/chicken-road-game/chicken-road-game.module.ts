@@ -4,6 +4,8 @@ import { GameModule } from '../../modules/games/game.module';
 import { GameService } from '../../modules/games/game.service';
 import { ChickenRoadGameHandler } from './chicken-road-game.handler';
 import { ChickenRoadGameService } from './chicken-road-game.service';
+import { ChickenRoadAutoplayService } from './chicken-road-autoplay.service';
+import { ChickenRoadSessionExpiryService } from './chicken-road-session-expiry.service';
 import { FairnessModule } from './modules/fairness/fairness.module';
 import { GameConfigModule } from '../../modules/game-config/game-config.module';
 import { HazardModule } from './modules/hazard/hazard.module';
@@ -11,6 +13,9 @@ import { LastWinModule } from './modules/last-win/last-win.module';
 import { RedisModule } from '../../modules/redis/redis.module';
 import { WalletConfigModule } from '../../modules/wallet-config/wallet-config.module';
 import { BetConfigModule } from '../../modules/bet-config/bet-config.module';
+import { MaintenanceModule } from '../../modules/maintenance/maintenance.module';
+import { BetLimitsModule } from '../../modules/bet-limits/bet-limits.module';
+import { CurrencyRatesModule } from '../../modules/currency-rates/currency-rates.module';
 import { GameDispatcherService } from '../game-dispatcher.service';
 import { GameRegistryService } from '../game-registry.service';
 import { DEFAULTS } from '../../config/defaults.config';
@@ -35,8 +40,16 @@ import { initializeGameModule, IBaseGameModule } from '../interfaces/base-game-m
     UserModule,
     LastWinModule,
     GameModule,
+    MaintenanceModule,
+    BetLimitsModule,
+    CurrencyRatesModule,
+  ],
+  providers: [
+    ChickenRoadGameHandler,
+    ChickenRoadGameService,
+    ChickenRoadAutoplayService,
+    ChickenRoadSessionExpiryService,
   ],
-  providers: [ChickenRoadGameHandler, ChickenRoadGameService],
   exports: [ChickenRoadGameHandler, ChickenRoadGameService],
 })
 export class ChickenRoadGameModule implements OnModuleInit, IBaseGameModule {
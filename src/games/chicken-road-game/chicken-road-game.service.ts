@@ -2,18 +2,39 @@ import { Injectable, Logger } from '@nestjs/common';
 import { plainToInstance } from 'class-transformer';
 import { validate } from 'class-validator';
 import { v4 as uuidv4 } from 'uuid';
-import { BetService } from '@games-vector/game-core';
+import { BetService, BetStatus, UserService } from '@games-vector/game-core';
 import { BetPayloadDto, Difficulty } from './DTO/bet-payload.dto';
 
 import { FairnessService } from './modules/fairness/fairness.service';
 import { GameConfigService } from '../../modules/game-config/game-config.service';
+import { capWinAmount } from '../../modules/game-config/max-win.util';
+import { ConfigContext } from '../../modules/game-config/config-resolver.util';
+import { BetLimitsService } from '../../modules/bet-limits/bet-limits.service';
+import { BetLimits, UnsupportedCurrencyError } from '../../modules/bet-limits/bet-limits.util';
+import { CurrencyRatesService } from '../../modules/currency-rates/currency-rates.service';
+import {
+  applyCoefficientOverride,
+  isDifficultyEnabled,
+} from '../../modules/game-config/difficulty-overrides.util';
+import {
+  ABANDONED_SETTLE_TYPES,
+  AbandonedSessionPolicy,
+  parseAbandonedSessionPolicy,
+} from './abandoned-session.util';
 import { HazardSchedulerService } from './modules/hazard/hazard-scheduler.service';
 import { RedisService } from '../../modules/redis/redis.service';
+import { MaintenanceService } from '../../modules/maintenance/maintenance.service';
 import { GameService } from '../../modules/games/game.service';
 import { WalletService } from '@games-vector/game-core';
 
 import { DEFAULTS } from '../../config/defaults.config';
 
+export interface SessionStep {
+  lineNumber: number;
+  coeff: string;
+  hitHazard: boolean;
+}
+
 interface GameSession {
   userId: string;
   agentId: string;
@@ -31,9 +52,15 @@ interface GameSession {
   isWin: boolean;
   createdAt: Date;
   collisionColumns?: number[];
+  hazardColumns?: number[]; // Derived from seeds at bet time, revealed when the session ends
+  hazardCount?: number;
+  maxWinAmount?: number; // Payout cap resolved at bet time (operator / currency)
+  steps?: SessionStep[]; // Every step taken, recorded with the settlement's fairness data
   platformBetTxId: string;
   roundId: string;
   gameCode: string;
+  walletSettled?: AbandonedSessionPolicy; // Abandoned-session settlement the wallet accepted; only the bet record is left
+  walletBalance?: string; // Balance the wallet reported for that settlement
 }
 
 export interface BetStepResponse {
@@ -47,8 +74,13 @@ export interface BetStepResponse {
   isWin?: boolean;
   endReason?: string;
   collisionPositions?: number[];
+  maxWinCapped?: boolean;
+  targetStep?: number; // Autoplay bets only
+  steps?: SessionStep[]; // Autoplay bets only
 }
 
+type StepEndReason = 'win' | 'cashout' | 'hazard' | 'max_win';
+
 type GameConfigPayload =
   {
     betConfig: Record<string, any>;
@@ -98,6 +130,10 @@ export class ChickenRoadGameService {
     private readonly hazardSchedulerService: HazardSchedulerService,
     private readonly fairnessService: FairnessService,
     private readonly gameService: GameService,
+    private readonly maintenanceService: MaintenanceService,
+    private readonly betLimitsService: BetLimitsService,
+    private readonly currencyRatesService: CurrencyRatesService,
+    private readonly userService: UserService,
   ) { }
 
   async performBetFlow(
@@ -107,8 +143,14 @@ export class ChickenRoadGameService {
     incoming: any,
   ): Promise<BetStepResponse | { error: string; details?: any[] }> {
 
+    // Maintenance only stops new bets; open sessions can still step and cash out
+    if (this.maintenanceService.getMaintenance(gameCode)) {
+      this.logger.warn(`Bet rejected during maintenance: user=${userId} agent=${agentId}`);
+      return { error: ERROR_MESSAGES.MAINTENANCE };
+    }
+
     // Acquire distributed lock to prevent concurrent bet placement
-    const lockKey = `bet-lock:${userId}-${agentId}`;
+    const lockKey = this.getSessionLockKey(userId, agentId);
     const lockAcquired = await this.redisService.acquireLock(lockKey, 30); // 30 second lock
     
     if (!lockAcquired) {
@@ -151,6 +193,41 @@ export class ChickenRoadGameService {
     const difficultyUC = dto.difficulty;
     const currencyUC = dto.currency.toUpperCase();
 
+    // Bets are in the account currency, the one limits were served in on connect
+    const userData = await this.userService.findOne(userId, agentId);
+    const accountCurrency = (userData.currency || DEFAULTS.PLATFORM.CURRENCY.DEFAULT).toUpperCase();
+    if (currencyUC !== accountCurrency) {
+      this.logger.warn(
+        `Bet currency mismatch: user=${userId} agent=${agentId} bet=${currencyUC} account=${accountCurrency}`,
+      );
+      return { error: ERROR_MESSAGES.CURRENCY_MISMATCH };
+    }
+
+    let betLimits: BetLimits;
+    try {
+      betLimits = await this.getBetLimits(gameCode, agentId, currencyUC);
+    } catch (error) {
+      if (error instanceof UnsupportedCurrencyError) {
+        return { error: ERROR_MESSAGES.UNSUPPORTED_CURRENCY };
+      }
+      throw error;
+    }
+    if (betNumber < parseFloat(betLimits.minBetAmount) || betNumber > parseFloat(betLimits.maxBetAmount)) {
+      this.logger.warn(
+        `Bet amount outside limits: user=${userId} amount=${betAmountStr} ${currencyUC} limits=${betLimits.minBetAmount}-${betLimits.maxBetAmount}`,
+      );
+      return { error: ERROR_MESSAGES.INVALID_BET_AMOUNT };
+    }
+
+    // Operator difficulty override is resolved before the wallet is debited
+    const difficultyOverride = await this.gameConfigService.getDifficultyOverride(gameCode, agentId);
+    if (!isDifficultyEnabled(difficultyOverride, difficultyUC)) {
+      this.logger.warn(
+        `Difficulty disabled for operator: user=${userId} agent=${agentId} difficulty=${difficultyUC}`,
+      );
+      return { error: ERROR_MESSAGES.DIFFICULTY_DISABLED };
+    }
+
     const roundId = `${userId}${Date.now()}`;
     const platformTxId = `${uuidv4()}`;
 
@@ -283,7 +360,7 @@ export class ChickenRoadGameService {
       };
     }
 
-    const cfgPayload = await this.getGameConfigPayload(gameCode);
+    const cfgPayload = await this.getGameConfigPayload(gameCode, agentId, currencyUC);
     const coefficients = cfgPayload.coefficients || {};
     
     // Normalize difficulty to uppercase for lookup (coefficients are stored as EASY, MEDIUM, HARD, DAREDEVIL)
@@ -307,6 +384,27 @@ export class ChickenRoadGameService {
       agentId,
     );
 
+    // Hazard layout of this bet is fixed up front by the user's seeds and nonce
+    const hazardCount = difficultyOverride?.hazards?.[difficultyUC] ??
+      await this.hazardSchedulerService.getHazardCount(
+        gameCode,
+        difficultyUC as Difficulty,
+      );
+    const hazardColumns = this.fairnessService.deriveHazardColumns(
+      fairnessData.userSeed,
+      fairnessData.serverSeed,
+      fairnessData.nonce,
+      hazardCount,
+      coeffArray.length,
+    );
+
+    const maxWinAmount = await this.gameConfigService.getMaxWinAmount(
+      gameCode,
+      currencyUC,
+      agentId,
+      betLimits.maxWinAmount,
+    );
+
     const session: GameSession = {
       userId,
       agentId,
@@ -325,13 +423,15 @@ export class ChickenRoadGameService {
       serverSeed: fairnessData.serverSeed,
       hashedServerSeed: fairnessData.hashedServerSeed,
       nonce: fairnessData.nonce,
+      hazardColumns,
+      hazardCount,
+      maxWinAmount: maxWinAmount ?? undefined,
       gameCode,
     };
     this.logger.debug(
       `Creating game session in Redis: user=${userId} agent=${agentId} key=${redisKey} step=${session.currentStep}`,
     );
-    const sessionTTL = await this.redisService.getSessionTTL(gameCode);
-    await this.redisService.set(redisKey, session, sessionTTL);
+    await this.saveSession(redisKey, session, gameCode);
 
     const resp: BetStepResponse = {
       isFinished: false,
@@ -364,6 +464,17 @@ export class ChickenRoadGameService {
     agentId: string,
     gameCode: string,
     lineNumber: number,
+  ): Promise<BetStepResponse | { error: string }> {
+    return this.withSessionLock(userId, agentId, () =>
+      this.stepFlow(userId, agentId, gameCode, lineNumber),
+    );
+  }
+
+  private async stepFlow(
+    userId: string,
+    agentId: string,
+    gameCode: string,
+    lineNumber: number,
   ): Promise<BetStepResponse | { error: string }> {
     const redisKey = this.getRedisKey(userId, agentId, gameCode);
     this.logger.debug(
@@ -408,7 +519,7 @@ export class ChickenRoadGameService {
       `Step validation passed: user=${userId} currentStep=${gameSession.currentStep} nextStep=${lineNumber} totalColumns=${totalColumns}`,
     );
 
-    let endReason: 'win' | 'cashout' | 'hazard' | undefined;
+    let endReason: StepEndReason | undefined;
     let hazardColumns: number[] = [];
 
     if (lineNumber === totalColumns - 1) {
@@ -419,16 +530,12 @@ export class ChickenRoadGameService {
 
       gameSession.isActive = false;
       gameSession.isWin = true;
-      endReason = 'win';
+      endReason = this.applyMaxWinCap(gameSession) ? 'max_win' : 'win';
       this.logger.log(
-        `[GAME_STEP] user=${userId} agent=${agentId} step=${lineNumber} multiplier=${gameSession.coefficients[gameSession.currentStep]} winAmount=${gameSession.winAmount} hitHazard=false endReason=win`,
+        `[GAME_STEP] user=${userId} agent=${agentId} step=${lineNumber} multiplier=${gameSession.coefficients[gameSession.currentStep]} winAmount=${gameSession.winAmount} hitHazard=false endReason=${endReason}`,
       );
     } else {
-      // Get active hazard columns from scheduler
-      hazardColumns = await this.hazardSchedulerService.getActiveHazards(
-        gameCode,
-        gameSession.difficulty,
-      );
+      hazardColumns = await this.getSessionHazards(gameSession, gameCode);
 
       this.logger.log(
         `Step check: user=${userId} line=${lineNumber} difficulty=${gameSession.difficulty} hazards=[${hazardColumns.join(',')}]`,
@@ -444,6 +551,15 @@ export class ChickenRoadGameService {
         this.logger.log(
           `[GAME_STEP] user=${userId} agent=${agentId} step=${gameSession.currentStep} multiplier=${gameSession.coefficients[gameSession.currentStep]} winAmount=${gameSession.winAmount} hitHazard=false`,
         );
+        if (this.applyMaxWinCap(gameSession)) {
+          // Reaching the payout cap completes the session as if the player cashed out
+          gameSession.isActive = false;
+          gameSession.isWin = true;
+          endReason = 'max_win';
+          this.logger.log(
+            `[GAME_STEP] user=${userId} agent=${agentId} step=${gameSession.currentStep} winAmount=${gameSession.winAmount} endReason=max_win`,
+          );
+        }
       } else {
         gameSession.isActive = false;
         gameSession.isWin = false;
@@ -456,6 +572,12 @@ export class ChickenRoadGameService {
         );
       }
     }
+    (gameSession.steps ||= []).push({
+      lineNumber,
+      coeff: endReason === 'hazard' ? '0' : gameSession.coefficients[lineNumber],
+      hitHazard: endReason === 'hazard',
+    });
+
     const currentMultiplier =
       gameSession.currentStep >= 0
         ? Number(gameSession.coefficients[gameSession.currentStep])
@@ -469,16 +591,15 @@ export class ChickenRoadGameService {
       return { error: ERROR_MESSAGES.NO_ACTIVE_SESSION };
     }
 
-    const sessionTTL = await this.redisService.getSessionTTL(gameCode);
-    await this.redisService.set(redisKey, gameSession, sessionTTL);
+    await this.saveSession(redisKey, gameSession, gameCode);
 
     let settlementAmount = 0;
     if (endReason === 'hazard') {
       settlementAmount = DEFAULTS.GAMES.CHICKEN_ROAD.GAME.SETTLEMENT_AMOUNT_ZERO;
-    } else if (endReason === 'win') {
+    } else if (endReason === 'win' || endReason === 'max_win') {
       settlementAmount = gameSession.winAmount;
     }
-    if (endReason === 'win' || endReason === 'hazard') {
+    if (endReason === 'win' || endReason === 'max_win' || endReason === 'hazard') {
       try {
         // WalletService automatically gets gamePayloads via WalletApiAdapter (GameService)
         const settleResult = await this.walletService.settleBet({
@@ -510,6 +631,7 @@ export class ChickenRoadGameService {
           gameSession.userSeed,
           gameSession.serverSeed,
           gameSession.roundId,
+          gameSession,
         );
 
         this.logger.debug(
@@ -518,6 +640,7 @@ export class ChickenRoadGameService {
         await this.betService.recordSettlement({
           externalPlatformTxId: gameSession.platformBetTxId,
           winAmount: settlementAmount.toFixed(GAME_CONSTANTS.DECIMAL_PLACES),
+          ...(endReason === 'max_win' ? { settleType: 'max_win' } : {}),
           settledAt: new Date(),
           balanceAfterSettlement: settleResult.balance
             ? String(settleResult.balance)
@@ -574,14 +697,100 @@ export class ChickenRoadGameService {
       gameSession.difficulty,
       gameSession.currency,
       endReason,
-      endReason === 'hazard' ? hazardColumns : undefined,
+      endReason === 'hazard' || endReason === 'max_win' ? hazardColumns : undefined,
     );
   }
 
+  /**
+   * Bet that walks the lane by itself
+   * Places the bet, steps line by line up to the target and cashes out there,
+   * unless a hazard (or the max win cap) ends the session first
+   */
+  async performAutoBetFlow(
+    userId: string,
+    agentId: string,
+    gameCode: string,
+    incoming: any,
+  ): Promise<BetStepResponse | { error: string; details?: any[] }> {
+    const targetStep = await this.resolveTargetStep(gameCode, agentId, incoming);
+    if (targetStep === null) {
+      this.logger.warn(
+        `Invalid autoplay target: user=${userId} targetStep=${incoming?.targetStep} targetCoeff=${incoming?.targetCoeff}`,
+      );
+      return { error: ERROR_MESSAGES.INVALID_AUTOPLAY_TARGET };
+    }
+
+    const betResp = await this.performBetFlow(userId, agentId, gameCode, incoming);
+    if ('error' in betResp) {
+      return betResp;
+    }
+
+    const steps: SessionStep[] = [];
+    for (let lineNumber = GAME_CONSTANTS.INITIAL_STEP + 1; lineNumber <= targetStep; lineNumber++) {
+      const stepResp = await this.performStepFlow(userId, agentId, gameCode, lineNumber);
+      if ('error' in stepResp) {
+        // Session stays active, the player can carry on manually
+        return stepResp;
+      }
+
+      const hitHazard = stepResp.isFinished && !stepResp.isWin;
+      steps.push({ lineNumber, coeff: hitHazard ? '0' : stepResp.coeff, hitHazard });
+      if (stepResp.isFinished) {
+        return { ...stepResp, targetStep, steps };
+      }
+    }
+
+    this.logger.log(
+      `[AUTO_BET] user=${userId} agent=${agentId} reached targetStep=${targetStep}, cashing out`,
+    );
+    const cashoutResp = await this.performCashOutFlow(userId, agentId, gameCode);
+    if ('error' in cashoutResp) {
+      return cashoutResp;
+    }
+    return { ...cashoutResp, targetStep, steps };
+  }
+
+  /**
+   * Line an autoplay bet walks to, from targetStep or the first line reaching targetCoeff
+   * @returns null when the target is missing or out of the difficulty's lane
+   */
+  private async resolveTargetStep(gameCode: string, agentId: string, incoming: any): Promise<number | null> {
+    const currency = typeof incoming?.currency === 'string' ? incoming.currency.toUpperCase() : undefined;
+    const { coefficients } = await this.getGameConfigPayload(gameCode, agentId, currency);
+    const coeffArray: string[] = coefficients?.[String(incoming?.difficulty).toUpperCase()] || [];
+    if (!coeffArray.length) {
+      return null;
+    }
+
+    if (incoming?.targetStep !== undefined) {
+      const targetStep = Number(incoming.targetStep);
+      return Number.isInteger(targetStep) && targetStep >= 0 && targetStep < coeffArray.length
+        ? targetStep
+        : null;
+    }
+
+    const targetCoeff = parseFloat(incoming?.targetCoeff);
+    if (!isFinite(targetCoeff) || targetCoeff <= 0) {
+      return null;
+    }
+    const targetStep = coeffArray.findIndex((coeff) => parseFloat(coeff) >= targetCoeff);
+    return targetStep >= 0 ? targetStep : null;
+  }
+
   async performCashOutFlow(
     userId: string,
     agentId: string,
     gameCode: string,
+  ): Promise<BetStepResponse | { error: string }> {
+    return this.withSessionLock(userId, agentId, () =>
+      this.cashOutFlow(userId, agentId, gameCode),
+    );
+  }
+
+  private async cashOutFlow(
+    userId: string,
+    agentId: string,
+    gameCode: string,
   ): Promise<BetStepResponse | { error: string }> {
     const redisKey = this.getRedisKey(userId, agentId, gameCode);
 
@@ -600,14 +809,14 @@ export class ChickenRoadGameService {
 
     gameSession.isActive = false;
     gameSession.isWin = true;
+    const maxWinCapped = this.applyMaxWinCap(gameSession);
 
     const currentMultiplier =
       gameSession.currentStep >= 0
         ? Number(gameSession.coefficients[gameSession.currentStep])
         : 0;
 
-    const sessionTTL = await this.redisService.getSessionTTL(gameCode);
-    await this.redisService.set(redisKey, gameSession, sessionTTL);
+    await this.saveSession(redisKey, gameSession, gameCode);
 
     const settlementAmount = gameSession.winAmount;
 
@@ -646,6 +855,7 @@ export class ChickenRoadGameService {
         gameSession.userSeed,
         gameSession.serverSeed,
         gameSession.roundId,
+        gameSession,
       );
 
       this.logger.debug(
@@ -654,6 +864,7 @@ export class ChickenRoadGameService {
       await this.betService.recordSettlement({
         externalPlatformTxId: gameSession.platformBetTxId,
         winAmount: settlementAmount.toFixed(GAME_CONSTANTS.DECIMAL_PLACES),
+        ...(maxWinCapped ? { settleType: 'max_win' } : {}),
         settledAt: new Date(),
         balanceAfterSettlement: settleResult.balance
           ? String(settleResult.balance)
@@ -699,10 +910,7 @@ export class ChickenRoadGameService {
       throw new Error(ERROR_MESSAGES.SETTLEMENT_FAILED);
     }
 
-    let hazardColumns = await this.hazardSchedulerService.getActiveHazards(
-        gameCode,
-        gameSession.difficulty,
-      );
+    const hazardColumns = await this.getSessionHazards(gameSession, gameCode);
 
     return this.sendStepResponse(
       gameSession.isActive,
@@ -713,7 +921,7 @@ export class ChickenRoadGameService {
       currentMultiplier,
       gameSession.difficulty,
       gameSession.currency,
-      'cashout',
+      maxWinCapped ? 'max_win' : 'cashout',
       hazardColumns
     );
   }
@@ -806,6 +1014,23 @@ export class ChickenRoadGameService {
     );
   }
 
+  /**
+   * Hazard columns of a session
+   * Sessions created before per-bet hazards existed fall back to the global rotating pattern
+   */
+  private async getSessionHazards(
+    gameSession: GameSession,
+    gameCode: string,
+  ): Promise<number[]> {
+    if (gameSession.hazardColumns) {
+      return gameSession.hazardColumns;
+    }
+    return this.hazardSchedulerService.getActiveHazards(
+      gameCode,
+      gameSession.difficulty,
+    );
+  }
+
   private getStepCoeff(session: GameSession, stepIndex: number): number {
     if (stepIndex < 0) return DEFAULTS.GAMES.CHICKEN_ROAD.GAME.DEFAULT_MULTIPLIER;
     const arr: string[] = session.coefficients || [];
@@ -814,6 +1039,16 @@ export class ChickenRoadGameService {
     return isFinite(val) ? val : DEFAULTS.GAMES.CHICKEN_ROAD.GAME.DEFAULT_MULTIPLIER;
   }
 
+  /**
+   * Clamp the session win to its payout cap
+   * @returns true when the cap was reached
+   */
+  private applyMaxWinCap(session: GameSession): boolean {
+    const { winAmount, capped } = capWinAmount(session.winAmount, session.maxWinAmount ?? null);
+    session.winAmount = winAmount;
+    return capped;
+  }
+
   private sendStepResponse(
     isActive: boolean,
     isWin: boolean,
@@ -823,7 +1058,7 @@ export class ChickenRoadGameService {
     multiplier: number,
     difficulty: Difficulty,
     currency: string,
-    endReason?: 'win' | 'cashout' | 'hazard',
+    endReason?: StepEndReason,
     collisionColumns?: number[],
   ): BetStepResponse {
     const response: BetStepResponse = {
@@ -837,9 +1072,13 @@ export class ChickenRoadGameService {
     };
 
     // For win or cashout: include isWin: true and collisionPositions with final position
-    if (endReason && (endReason === 'win' || endReason === 'cashout')) {
+    if (endReason && (endReason === 'win' || endReason === 'cashout' || endReason === 'max_win')) {
       response.isWin = true;
       response.collisionPositions = collisionColumns;
+      if (endReason === 'max_win') {
+        response.endReason = endReason;
+        response.maxWinCapped = true;
+      }
     }
     // For hazard: do NOT include isWin, but include collisionPositions
     else if (endReason && endReason === 'hazard') {
@@ -889,10 +1128,10 @@ export class ChickenRoadGameService {
     }
   }
 
-  private async safeGetConfig(gameCode: string, key: string): Promise<string> {
+  private async safeGetConfig(gameCode: string, key: string, context: ConfigContext = {}): Promise<string> {
     try {
       //TODO: Add support for multiple games
-      const raw = await this.gameConfigService.getConfig(gameCode, key);
+      const raw = await this.gameConfigService.getConfig(gameCode, key, context);
       return typeof raw === 'string' ? raw : JSON.stringify(raw);
     } catch (e) {
       this.logger.warn(`Config key ${key} not available: ${e}`);
@@ -908,191 +1147,31 @@ export class ChickenRoadGameService {
     }
   }
 
-  async getCurrencies(): Promise<any> {
-    return {
-      "ADA": 2.493846558309699,
-      "AED": 3.6725,
-      "AFN": 70,
-      "ALL": 85.295,
-      "AMD": 383.82,
-      "ANG": 1.8022999999999998,
-      "AOA": 918.65,
-      "ARS": 1371.4821,
-      "AUD": 1.5559,
-      "AWG": 1.79,
-      "AZN": 1.7,
-      "BAM": 1.7004695059,
-      "BBD": 2.0181999999999998,
-      "BCH": 0.0020396093727826324,
-      "BDT": 122.24999999999999,
-      "BGN": 1.712,
-      "BHD": 0.377,
-      "BIF": 2981,
-      "BMD": 1,
-      "BNB": 0.0012299246747673688,
-      "BND": 1.2974999999999999,
-      "BOB": 6.907100000000001,
-      "BRL": 5.6015,
-      "BSD": 0.9997,
-      "BTC": 0.000012050399374548936,
-      "BTN": 89.6467799909,
-      "BUSD": 0.9996936638705801,
-      "BWP": 13.6553,
-      "BYN": 3.2712,
-      "BZD": 2.0078,
-      "CAD": 1.3858,
-      "CDF": 2277.4996633416,
-      "CHF": 0.8140000000000001,
-      "CLF": 0.0238335343,
-      "CLP": 972.65,
-      "COP": 4186.71,
-      "CRC": 505.29,
-      "CSC": 33830.23149660104,
-      "CUP": 23.990199999999998,
-      "CVE": 95.8727355712,
-      "CZK": 21.5136,
-      "DASH": 0.015423150141854353,
-      "DJF": 178.08,
-      "DKK": 6.5351,
-      "DLS": 33.333333333333336,
-      "DOGE": 7.249083135964963,
-      "DOP": 61,
-      "DZD": 130.923,
-      "EGP": 48.57,
-      "EOS": 1.2787330681036353,
-      "ERN": 15,
-      "ETB": 138.20000000000002,
-      "ETC": 0.07559846492841533,
-      "ETH": 0.00036986204295658424,
-      "EUR": 0.8755000000000001,
-      "FJD": 2.2723999999999998,
-      "FKP": 0.7642057337999999,
-      "GBP": 0.7571,
-      "GC": 1,
-      "GEL": 2.7035,
-      "GHS": 10.5,
-      "GIP": 0.7642057337999999,
-      "GMD": 72.815,
-      "GMS": 1,
-      "GNF": 8674.5,
-      "GTQ": 7.675,
-      "GYD": 209.143149197,
-      "HKD": 7.849799999999999,
-      "HNL": 26.2787,
-      "HRK": 6.550767445000001,
-      "HTG": 131.16899999999998,
-      "HUF": 350.19,
-      "IDR": 16443.4,
-      "ILS": 3.3960999999999997,
-      "INR": 87.503,
-      "IQD": 1310,
-      "IRR": 42112.5,
-      "ISK": 124.46999999999998,
-      "JMD": 159.94400000000002,
-      "JOD": 0.709,
-      "JPY": 150.81,
-      "KES": 129.2,
-      "KGS": 87.45,
-      "KHR": 4015,
-      "KMF": 431.5,
-      "KPW": 899.9849041373,
-      "KRW": 1392.51,
-      "KWD": 0.30610000000000004,
-      "KYD": 0.8315739408,
-      "KZT": 540.8199999999999,
-      "LAK": 21580,
-      "LBP": 89550,
-      "LKR": 302.25,
-      "LRD": 181.4831374426,
-      "LSL": 18.2179,
-      "LTC": 0.01219800670691517,
-      "LYD": 5.415,
-      "MAD": 9.154300000000001,
-      "MDL": 17.08,
-      "MGA": 4430,
-      "MKD": 52.885000000000005,
-      "MMK": 3247.961,
-      "MNT": 3590,
-      "MOP": 8.089,
-      "MRU": 39.626114384800005,
-      "MUR": 46.65,
-      "MVR": 15.459999999999999,
-      "MWK": 1733.67,
-      "MXN": 18.869,
-      "MYR": 4.265,
-      "MZN": 63.910000000000004,
-      "NAD": 18.2179,
-      "NGN": 1532.39,
-      "NIO": 36.75,
-      "NOK": 10.3276,
-      "NPR": 140.07,
-      "NZD": 1.6986,
-      "OMR": 0.385,
-      "PAB": 1.0009,
-      "PEN": 3.569,
-      "PGK": 4.1303,
-      "PHP": 58.27,
-      "PKR": 283.25,
-      "PLN": 3.7442,
-      "PYG": 7486.400000000001,
-      "QAR": 3.6408,
-      "R$": 476.1904761904762,
-      "RON": 4.440300000000001,
-      "RSD": 102.56500000000001,
-      "RUB": 79.87530000000001,
-      "RWF": 1440,
-      "SAR": 3.7513,
-      "SBD": 8.2464031996,
-      "SC": 1,
-      "SCR": 14.1448,
-      "SDG": 600.5,
-      "SEK": 9.7896,
-      "SGD": 1.2979,
-      "SHIB": 128205.1282051282,
-      "SHP": 0.7642057337999999,
-      "SLE": 22.830015851400002,
-      "SOL": 0.007978209381592608,
-      "SOS": 571.5,
-      "SRD": 38.553892635900006,
-      "SSP": 130.26,
-      "SVC": 8.7464,
-      "SYP": 13005,
-      "SZL": 18.01,
-      "THB": 32.752,
-      "TND": 2.88,
-      "TON": 0.6662012207757025,
-      "TRX": 3.6218917423077635,
-      "TRY": 40.6684,
-      "TWD": 29.918000000000003,
-      "TZS": 2570,
-      "UAH": 41.6966,
-      "uBTC": 12.050399374548936,
-      "UGX": 3583.3,
-      "USD": 1,
-      "USDC": 0.999303605303536,
-      "USDT": 1,
-      "UYU": 40.0886,
-      "UZS": 12605,
-      "VEF": 23922474.033511065,
-      "VES": 123.7216,
-      "VND": 26199,
-      "XAF": 573.151,
-      "XLM": 4.4032459143712215,
-      "XMR": 0.008457936691358008,
-      "XOF": 566.5,
-      "XRP": 0.5234373962121788,
-      "ZAR": 18.2178,
-      "ZEC": 0.0016208628014450959,
-      "ZMW": 23.1485244936,
-      "ZWL": 26.852999999999998
-    };
+  async getCurrencies(): Promise<Record<string, number>> {
+    return this.currencyRatesService.getRates();
   }
 
-  async getGameConfigPayload(gameCode: string): Promise<GameConfigPayload> {
+  /**
+   * Bet limits of a player: betConfig of the operator / currency layer over the defaults,
+   * converted to the player's currency
+   */
+  async getBetLimits(gameCode: string, agentId?: string, currency?: string): Promise<BetLimits> {
+    return this.betLimitsService.getBetLimits(gameCode, DEFAULTS.GAMES.CHICKEN_ROAD.betConfig, {
+      operatorId: agentId,
+      currency,
+    });
+  }
+
+  /**
+   * Bet config and coefficient tables of the game
+   * With an agentId (and currency), betConfig comes from the operator's override layer when it has one,
+   * and the operator's difficulty override (coefficients, enabled difficulties) is applied to the
+   * game's coefficients; betConfig amounts are in the player's currency
+   */
+  async getGameConfigPayload(gameCode: string, agentId?: string, currency?: string): Promise<GameConfigPayload> {
     try {
-      const betConfigRaw = await this.safeGetConfig(gameCode, 'betConfig');
       const coeffRaw = await this.safeGetConfig(gameCode, 'coefficients');
-      const betConfig = this.tryParseJson(betConfigRaw) || {};
+      const betConfig = await this.getBetLimits(gameCode, agentId, currency);
       let coefficients = this.tryParseJson(coeffRaw) || {};
       
       // If coefficients is empty or doesn't have the expected structure, use defaults
@@ -1110,12 +1189,11 @@ export class ChickenRoadGameService {
         );
       }
       
-      let newBetConfig = betConfig;
-      try {
-        const { currency, decimalPlaces, ...rest } = betConfig;
-        newBetConfig = rest;
-      } catch (e) {
-        this.logger.error(`Failed to parse bet config: ${e}`);
+      const { currency: _currency, decimalPlaces: _decimalPlaces, ...newBetConfig } = betConfig;
+
+      const difficultyOverride = await this.gameConfigService.getDifficultyOverride(gameCode, agentId);
+      if (difficultyOverride) {
+        coefficients = applyCoefficientOverride(coefficients, difficultyOverride);
       }
 
       return {
@@ -1194,19 +1272,33 @@ export class ChickenRoadGameService {
     userSeed?: string,
     serverSeed?: string,
     roundId?: string,
+    gameSession?: GameSession,
   ): {
     decimal: string;
     clientSeed: string;
     serverSeed: string;
     combinedHash: string;
     hashedServerSeed: string;
+    steps?: SessionStep[];
   } {
     // If seeds are provided, use fairness service
     if (userSeed && serverSeed) {
-      return this.fairnessService.generateFairnessDataForBet(
-        userSeed,
-        serverSeed,
-      );
+      const hazards = gameSession?.hazardColumns
+        ? {
+            nonce: gameSession.nonce ?? 0,
+            hazardCount: gameSession.hazardCount ?? gameSession.hazardColumns.length,
+            totalColumns: gameSession.coefficients.length,
+            hazardColumns: gameSession.hazardColumns,
+          }
+        : undefined;
+      return {
+        ...this.fairnessService.generateFairnessDataForBet(
+          userSeed,
+          serverSeed,
+          hazards,
+        ),
+        ...(gameSession?.steps ? { steps: gameSession.steps } : {}),
+      };
     }
 
     // Legacy fallback (for backward compatibility)
@@ -1293,6 +1385,267 @@ export class ChickenRoadGameService {
     return `gameSession:${userId}-${agentId}-${gameCode}`;
   }
 
+  /**
+   * Per-player lock held by bets, steps, cashouts and the abandoned-session sweep
+   */
+  private getSessionLockKey(userId: string, agentId: string): string {
+    return `bet-lock:${userId}-${agentId}`;
+  }
+
+  /**
+   * Run a step or cashout holding the player's session lock, so its read-modify-write of the
+   * session can't interleave with another flow or the abandoned-session sweep
+   */
+  private async withSessionLock(
+    userId: string,
+    agentId: string,
+    flow: () => Promise<BetStepResponse | { error: string }>,
+  ): Promise<BetStepResponse | { error: string }> {
+    const lockKey = this.getSessionLockKey(userId, agentId);
+    const lockAcquired = await this.redisService.acquireLock(lockKey, 30); // 30 second lock
+    if (!lockAcquired) {
+      this.logger.warn(`Session busy, request blocked: user=${userId} agent=${agentId}`);
+      return { error: ERROR_MESSAGES.SESSION_BUSY };
+    }
+
+    try {
+      return await flow();
+    } finally {
+      await this.redisService.releaseLock(lockKey);
+    }
+  }
+
+  /**
+   * Store a session for the game's session TTL
+   * Active sessions are tracked by expiry time so they can be settled before they expire
+   */
+  private async saveSession(redisKey: string, session: GameSession, gameCode: string): Promise<void> {
+    const sessionTTL = await this.redisService.getSessionTTL(gameCode);
+    await this.redisService.set(redisKey, session, sessionTTL);
+
+    const expirySetKey = DEFAULTS.GAMES.CHICKEN_ROAD.ABANDONED_SESSION.EXPIRY_SET_KEY;
+    try {
+      if (session.isActive) {
+        await this.redisService.getClient().zadd(expirySetKey, Date.now() + sessionTTL * 1000, redisKey);
+      } else {
+        await this.redisService.getClient().zrem(expirySetKey, redisKey);
+      }
+    } catch (error) {
+      this.logger.warn(`Failed to track session expiry: key=${redisKey} error=${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Session keys whose TTL runs out before `before` (epoch ms)
+   */
+  async getExpiringSessionKeys(before: number): Promise<string[]> {
+    return this.redisService.getClient().zrangebyscore(
+      DEFAULTS.GAMES.CHICKEN_ROAD.ABANDONED_SESSION.EXPIRY_SET_KEY,
+      0,
+      before,
+    );
+  }
+
+  /**
+   * Settle a session the player walked away from, following the game's abandonedSessionPolicy
+   * @returns the policy applied, or null when the session is gone, already finished, or was played again
+   */
+  async settleAbandonedSession(redisKey: string): Promise<AbandonedSessionPolicy | null> {
+    const listedSession = await this.redisService.get<GameSession>(redisKey);
+    if (!listedSession || (!listedSession.isActive && !listedSession.walletSettled)) {
+      // Expired already: the refund scheduler picks up the PLACED bet
+      await this.redisService.getClient().zrem(DEFAULTS.GAMES.CHICKEN_ROAD.ABANDONED_SESSION.EXPIRY_SET_KEY, redisKey);
+      return null;
+    }
+
+    // A step or cashout in flight holds the lock; the next sweep looks at the session again
+    const lockKey = this.getSessionLockKey(listedSession.userId, listedSession.agentId);
+    const lockAcquired = await this.redisService.acquireLock(lockKey, 30); // 30 second lock
+    if (!lockAcquired) {
+      this.logger.debug(`Abandoned session busy, retrying next sweep: key=${redisKey}`);
+      return null;
+    }
+
+    try {
+      return await this.closeAbandonedSession(redisKey);
+    } finally {
+      await this.redisService.releaseLock(lockKey);
+    }
+  }
+
+  /**
+   * Re-read the session under the session lock and settle it
+   */
+  private async closeAbandonedSession(redisKey: string): Promise<AbandonedSessionPolicy | null> {
+    const expirySetKey = DEFAULTS.GAMES.CHICKEN_ROAD.ABANDONED_SESSION.EXPIRY_SET_KEY;
+    const gameSession = await this.redisService.get<GameSession>(redisKey);
+    if (!gameSession || (!gameSession.isActive && !gameSession.walletSettled)) {
+      // Expired already: the refund scheduler picks up the PLACED bet
+      await this.redisService.getClient().zrem(expirySetKey, redisKey);
+      return null;
+    }
+
+    // The wallet already took an earlier attempt; only the bet record is left to write
+    if (gameSession.walletSettled) {
+      await this.finishAbandonedSession(redisKey, gameSession);
+      return gameSession.walletSettled;
+    }
+
+    // A step since the sweep listed the key pushed its expiry back
+    const ttlSeconds = await this.redisService.getClient().ttl(redisKey);
+    if (ttlSeconds > DEFAULTS.GAMES.CHICKEN_ROAD.ABANDONED_SESSION.EXPIRY_LEAD_SECONDS) {
+      return null;
+    }
+
+    const { userId, agentId, gameCode } = gameSession;
+    const policy = parseAbandonedSessionPolicy(await this.safeGetConfig(gameCode, 'abandonedSessionPolicy'));
+    const betAmount = parseFloat(gameSession.betAmount.toString());
+
+    // Closed before the wallet call so a late step or cashout finds no active session
+    const remainingTTL = Math.max(ttlSeconds, 1);
+    gameSession.isActive = false;
+    gameSession.isWin = policy === 'cashout';
+    await this.redisService.set(redisKey, gameSession, remainingTTL);
+
+    this.logger.log(
+      `[ABANDONED_SESSION] user=${userId} agent=${agentId} step=${gameSession.currentStep} policy=${policy} txId=${gameSession.platformBetTxId}`,
+    );
+
+    try {
+      if (policy === 'refund') {
+        const betRecord = await this.betService.getByExternalTxId(gameSession.platformBetTxId, gameCode);
+        const refundResult = await this.walletService.refundBet({
+          agentId,
+          userId,
+          refundTransactions: [
+            {
+              platformTxId: gameSession.platformBetTxId,
+              refundPlatformTxId: gameSession.platformBetTxId,
+              betAmount,
+              winAmount: 0,
+              turnover: 0,
+              betTime: (betRecord?.betPlacedAt || new Date(gameSession.createdAt)).toISOString(),
+              updateTime: new Date().toISOString(),
+              roundId: gameSession.roundId,
+              gameCode,
+            },
+          ],
+        });
+        if (refundResult.status !== '0000') {
+          throw new Error(`Agent rejected refund with status: ${refundResult.status}`);
+        }
+      } else {
+        const settleResult = await this.walletService.settleBet({
+          agentId,
+          platformTxId: gameSession.platformBetTxId,
+          userId,
+          winAmount: this.getAbandonedSettlementAmount(gameSession, policy),
+          roundId: gameSession.roundId,
+          betAmount,
+          gameCode,
+          gameSession,
+        });
+        if (settleResult.status !== '0000') {
+          throw new Error(`Agent rejected settlement with status: ${settleResult.status}`);
+        }
+        gameSession.walletBalance = settleResult.balance ? String(settleResult.balance) : undefined;
+      }
+    } catch (error) {
+      // Reopened with its remaining TTL: the next sweep retries, or the refund scheduler once it expires
+      gameSession.isActive = true;
+      gameSession.isWin = false;
+      await this.redisService.set(redisKey, gameSession, remainingTTL);
+      throw error;
+    }
+
+    // The wallet has the money now: a failed bet record below must never send it again.
+    // Kept for a full session TTL and listed as due, so each sweep retries the bookkeeping
+    gameSession.walletSettled = policy;
+    await this.redisService.set(redisKey, gameSession, await this.redisService.getSessionTTL(gameCode));
+    try {
+      await this.redisService.getClient().zadd(expirySetKey, Date.now(), redisKey);
+    } catch (error) {
+      this.logger.warn(`Failed to track session expiry: key=${redisKey} error=${(error as Error).message}`);
+    }
+
+    await this.finishAbandonedSession(redisKey, gameSession);
+    return policy;
+  }
+
+  /**
+   * Record the settlement of an abandoned session the wallet has already accepted, then drop the session
+   */
+  private async finishAbandonedSession(redisKey: string, gameSession: GameSession): Promise<void> {
+    const { userId, agentId } = gameSession;
+    const policy = gameSession.walletSettled!;
+    const settleType = ABANDONED_SETTLE_TYPES[policy];
+    const betAmount = parseFloat(gameSession.betAmount.toString());
+    const fairnessData = this.generateFairnessData(
+      gameSession.userSeed,
+      gameSession.serverSeed,
+      gameSession.roundId,
+      gameSession,
+    );
+
+    try {
+      if (policy === 'refund') {
+        await this.betService.recordSettlement({
+          externalPlatformTxId: gameSession.platformBetTxId,
+          winAmount: betAmount.toFixed(GAME_CONSTANTS.DECIMAL_PLACES),
+          settleType,
+          settledAt: new Date(),
+          updatedBy: 'abandoned-session',
+          finalCoeff: '0',
+          withdrawCoeff: '0',
+          fairnessData,
+        });
+        await this.betService.updateStatus({
+          externalPlatformTxId: gameSession.platformBetTxId,
+          status: BetStatus.REFUNDED,
+          updatedBy: 'abandoned-session',
+        });
+      } else {
+        const settlementAmount = this.getAbandonedSettlementAmount(gameSession, policy);
+        await this.betService.recordSettlement({
+          externalPlatformTxId: gameSession.platformBetTxId,
+          winAmount: settlementAmount.toFixed(GAME_CONSTANTS.DECIMAL_PLACES),
+          settleType,
+          settledAt: new Date(),
+          balanceAfterSettlement: gameSession.walletBalance,
+          updatedBy: 'abandoned-session',
+          finalCoeff: policy === 'cashout' && gameSession.currentStep >= 0
+            ? gameSession.coefficients[gameSession.currentStep]
+            : '0',
+          withdrawCoeff: betAmount > 0 && settlementAmount > 0
+            ? (settlementAmount / betAmount).toFixed(3)
+            : '0',
+          fairnessData,
+        });
+      }
+    } catch (error) {
+      this.logger.error(
+        `[ABANDONED_SESSION] Wallet settled but bet record failed, retrying next sweep: user=${userId} agent=${agentId} policy=${policy} txId=${gameSession.platformBetTxId} error=${(error as Error).message}`,
+      );
+      throw error;
+    }
+
+    try {
+      await this.fairnessService.rotateSeeds(userId, agentId);
+    } catch (rotateError) {
+      this.logger.warn(
+        `Failed to rotate seeds after abandoned session: user=${userId} agent=${agentId} error=${(rotateError as Error).message}`,
+      );
+    }
+    await this.redisService.del(redisKey);
+    await this.redisService.getClient().zrem(DEFAULTS.GAMES.CHICKEN_ROAD.ABANDONED_SESSION.EXPIRY_SET_KEY, redisKey);
+  }
+
+  private getAbandonedSettlementAmount(gameSession: GameSession, policy: AbandonedSessionPolicy): number {
+    return policy === 'cashout'
+      ? gameSession.winAmount
+      : DEFAULTS.GAMES.CHICKEN_ROAD.GAME.SETTLEMENT_AMOUNT_ZERO;
+  }
+
   async cleanupOnDisconnect(): Promise<void> {
     try {
       this.logger.warn('[cleanupOnDisconnect] Clearing all Redis data...');
@@ -0,0 +1,68 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { ChickenRoadGameService } from './chicken-road-game.service';
+import { RedisService } from '../../modules/redis/redis.service';
+import { DEFAULTS } from '../../config/defaults.config';
+
+const EXPIRY_CONSTANTS = DEFAULTS.GAMES.CHICKEN_ROAD.ABANDONED_SESSION;
+
+/**
+ * Chicken Road abandoned sessions
+ *
+ * Every few seconds, settles the active sessions whose TTL runs out within EXPIRY_LEAD_SECONDS
+ * (see ChickenRoadGameService.settleAbandonedSession and abandoned-session.util).
+ * One instance sweeps at a time; sessions lost before a sweep reached them are still
+ * refunded by RefundSchedulerService.
+ */
+@Injectable()
+export class ChickenRoadSessionExpiryService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(ChickenRoadSessionExpiryService.name);
+  private intervalTimer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly chickenRoadGameService: ChickenRoadGameService,
+    private readonly redisService: RedisService,
+  ) {}
+
+  onModuleInit() {
+    this.intervalTimer = setInterval(() => {
+      this.sweep().catch((error) =>
+        this.logger.error(`Abandoned session sweep failed: ${error.message}`, error.stack),
+      );
+    }, EXPIRY_CONSTANTS.SWEEP_INTERVAL_MS);
+  }
+
+  onModuleDestroy() {
+    if (this.intervalTimer) {
+      clearInterval(this.intervalTimer);
+      this.intervalTimer = undefined;
+    }
+  }
+
+  private async sweep(): Promise<void> {
+    const lockAcquired = await this.redisService.acquireLock(
+      EXPIRY_CONSTANTS.LOCK_KEY,
+      EXPIRY_CONSTANTS.LOCK_TTL_SECONDS,
+    );
+    if (!lockAcquired) {
+      return;
+    }
+
+    try {
+      const redisKeys = await this.chickenRoadGameService.getExpiringSessionKeys(
+        Date.now() + EXPIRY_CONSTANTS.EXPIRY_LEAD_SECONDS * 1000,
+      );
+      for (const redisKey of redisKeys) {
+        try {
+          await this.chickenRoadGameService.settleAbandonedSession(redisKey);
+        } catch (error) {
+          this.logger.error(
+            `Failed to settle abandoned session ${redisKey}: ${(error as Error).message}`,
+            (error as Error).stack,
+          );
+        }
+      }
+    } finally {
+      await this.redisService.releaseLock(EXPIRY_CONSTANTS.LOCK_KEY);
+    }
+  }
+}
@@ -11,6 +11,91 @@ export interface FairnessData {
   updatedAt: Date;
 }
 
+/**
+ * Hazard layout of a single bet, stored alongside the seeds in bet history
+ * so the player can re-run deriveHazardColumns() and compare
+ */
+export interface HazardFairnessData {
+  nonce: number;
+  hazardCount: number;
+  totalColumns: number;
+  hazardColumns: number[];
+}
+
+/**
+ * Generate a stream of uniform floats in [0, 1) from the seeds
+ * Block N is HMAC-SHA256(serverSeed, "<userSeed>:<nonce>:<N>"), each 4 bytes of a block give one float
+ */
+function generateFloats(
+  userSeed: string,
+  serverSeed: string,
+  nonce: number,
+  count: number,
+): number[] {
+  const floats: number[] = [];
+  let cursor = 0;
+
+  while (floats.length < count) {
+    const block = crypto
+      .createHmac('sha256', serverSeed)
+      .update(`${userSeed}:${nonce}:${cursor}`)
+      .digest();
+
+    for (let offset = 0; offset < block.length && floats.length < count; offset += 4) {
+      let value = 0;
+      for (let i = 0; i < 4; i++) {
+        value += block[offset + i] / Math.pow(256, i + 1);
+      }
+      floats.push(value);
+    }
+    cursor++;
+  }
+
+  return floats;
+}
+
+/**
+ * Provably fair hazard layout of a bet
+ * Column c is a hazard when float(c) < hazardCount / totalColumns, the same per-column odds
+ * as the global rotating pattern; the last column finishes the road and is never a hazard.
+ * Pure function - the result only depends on its arguments
+ * @returns Sorted array of hazard column indices
+ */
+export function deriveHazardColumns(
+  userSeed: string,
+  serverSeed: string,
+  nonce: number,
+  hazardCount: number,
+  totalColumns: number,
+): number[] {
+  if (totalColumns <= 1 || hazardCount <= 0) {
+    return [];
+  }
+
+  const hazardProbability = Math.min(1, hazardCount / totalColumns);
+  const floats = generateFloats(userSeed, serverSeed, nonce, totalColumns - 1);
+
+  const hazards: number[] = [];
+  floats.forEach((value, column) => {
+    if (value < hazardProbability) {
+      hazards.push(column);
+    }
+  });
+  return hazards;
+}
+
+/**
+ * Probability that a bet crosses its first `steps` columns without a hazard under deriveHazardColumns()
+ * Used for theoretical RTP: cashing out after step k returns coefficient[k - 1] * survival(k)
+ */
+export function hazardSurvivalProbability(hazardCount: number, totalColumns: number, steps: number): number {
+  if (totalColumns <= 1 || hazardCount <= 0) {
+    return 1;
+  }
+  const hazardProbability = Math.min(1, hazardCount / totalColumns);
+  return Math.pow(1 - hazardProbability, Math.min(steps, totalColumns - 1));
+}
+
 @Injectable()
 export class FairnessService {
   private readonly logger = new Logger(FairnessService.name);
@@ -182,19 +267,35 @@ export class FairnessService {
     return decimalValue;
   }
 
+  /**
+   * Derive the hazard columns of a bet from the user's seeds and nonce
+   * @returns Sorted array of unique column indices
+   */
+  deriveHazardColumns(
+    userSeed: string,
+    serverSeed: string,
+    nonce: number,
+    hazardCount: number,
+    totalColumns: number,
+  ): number[] {
+    return deriveHazardColumns(userSeed, serverSeed, nonce, hazardCount, totalColumns);
+  }
+
   /**
    * Generate complete fairness data for bet history
+   * When the bet's hazard layout is given it is included, so the hazards can be recomputed
    */
   generateFairnessDataForBet(
     userSeed: string,
     serverSeed: string,
+    hazards?: HazardFairnessData,
   ): {
     decimal: string;
     clientSeed: string;
     serverSeed: string;
     combinedHash: string;
     hashedServerSeed: string;
-  } {
+  } & Partial<HazardFairnessData> {
     const combinedHash = this.calculateCombinedHash(userSeed, serverSeed);
     const hashedServerSeed = this.hashServerSeed(serverSeed);
     const decimal = this.calculateDecimal(combinedHash);
@@ -205,6 +306,7 @@ export class FairnessService {
       serverSeed,
       combinedHash,
       hashedServerSeed,
+      ...hazards,
     };
   }
 }
@@ -94,6 +94,13 @@ export class HazardSchedulerService implements OnModuleInit, OnModuleDestroy {
 
     // All servers (leader and followers) listen for rotation notifications
     // Note: We'll subscribe to channels dynamically when games are accessed
+
+    // Pick up hazardConfig edits without a restart
+    this.gameConfigService.onConfigChange(async ({ gameCode, key }) => {
+      if (key === null || key === 'hazardConfig') {
+        await this.reloadGameConfig(gameCode);
+      }
+    });
     
     this.logger.log(
       `Hazard scheduler initialization complete: isLeader=${this.isLeader} serverId=${this.leaderElection.getServerId()}`,
@@ -120,6 +127,24 @@ export class HazardSchedulerService implements OnModuleInit, OnModuleDestroy {
     this.logger.debug(`[${gameCode}] Config cache invalidated`);
   }
 
+  /**
+   * Reload the hazard configuration of a game after it changed
+   * Reschedules the rotation timers when hazardRefreshMs changed
+   */
+  private async reloadGameConfig(gameCode: string): Promise<void> {
+    const previousRefreshMs = this.gameConfigs[gameCode]?.hazardRefreshMs;
+    if (previousRefreshMs === undefined) {
+      return; // Not loaded on this pod yet - the next access reads the new config
+    }
+
+    this.invalidateGameConfig(gameCode);
+    const { hazardRefreshMs } = await this.loadGameConfig(gameCode);
+    if (hazardRefreshMs !== previousRefreshMs) {
+      this.logger.log(`[${gameCode}] Hazard refresh interval changed: ${previousRefreshMs}ms -> ${hazardRefreshMs}ms`);
+      await this.updateRefreshInterval(gameCode, hazardRefreshMs);
+    }
+  }
+
   /**
    * Load and cache hazard configuration for a specific game
    * Configs are cached per game to reduce database calls
@@ -204,8 +229,9 @@ export class HazardSchedulerService implements OnModuleInit, OnModuleDestroy {
 
   /**
    * Get hazard count for a specific game and difficulty
+   * Also used to size the per-bet hazard layout derived from fairness seeds
    */
-  private async getHazardCount(gameCode: string, difficulty: Difficulty): Promise<number> {
+  async getHazardCount(gameCode: string, difficulty: Difficulty): Promise<number> {
     const config = await this.loadGameConfig(gameCode);
     return config.hazards[difficulty] || DEFAULTS.GAMES.CHICKEN_ROAD.hazardConfig.hazards[difficulty];
   }
@@ -0,0 +1,20 @@
+import { GAME_CONSTANTS } from '../../common/game-constants';
+import { DEFAULTS } from '../../config/defaults.config';
+import { CrashGameDefinition } from '../shared/crash-game-kit/crash-game-definition';
+
+export const DIVER_GAME: CrashGameDefinition = {
+  gameCode: DEFAULTS.DIVER.GAME_CODE,
+  gameName: DEFAULTS.DIVER.GAME_NAME,
+  platform: DEFAULTS.DIVER.PLATFORM,
+  gameType: DEFAULTS.DIVER.GAME_TYPE,
+  settleType: DEFAULTS.DIVER.GAME_PAYLOADS.SETTLE_TYPE,
+  constants: GAME_CONSTANTS.DIVER,
+  defaults: {
+    rtp: DEFAULTS.DIVER.RTP,
+    betConfig: DEFAULTS.DIVER.BET_CONFIG,
+    currency: DEFAULTS.DIVER.DEFAULT_CURRENCY,
+  },
+  theme: {
+    chatRoomPrefix: 'diver',
+  },
+};
@@ -2,6 +2,7 @@ import { Global, Module } from '@nestjs/common';
 import { GameDispatcherService } from './game-dispatcher.service';
 import { GameRegistryService } from './game-registry.service';
 import { CriticalHandlersService } from './utils/critical-handlers.service';
+import { CrashGameRegistryService } from './shared/crash-game-kit/crash-game-registry.service';
 
 /**
  * Games Module
@@ -10,13 +11,14 @@ import { CriticalHandlersService } from './utils/critical-handlers.service';
  * - GameDispatcherService: Routes WebSocket connections to game handlers
  * - GameRegistryService: Centralized game information and statistics
  * - CriticalHandlersService: Registers critical handlers to prevent race conditions
+ * - CrashGameRegistryService: Definitions of the registered crash games
  * 
  * This module must be imported before any game-specific modules
  * to ensure GameDispatcherService is available for handler registration.
  */
 @Global()
 @Module({
-  providers: [GameDispatcherService, GameRegistryService, CriticalHandlersService],
-  exports: [GameDispatcherService, GameRegistryService, CriticalHandlersService],
+  providers: [GameDispatcherService, GameRegistryService, CriticalHandlersService, CrashGameRegistryService],
+  exports: [GameDispatcherService, GameRegistryService, CriticalHandlersService, CrashGameRegistryService],
 })
 export class GamesModule {}
@@ -15,6 +15,11 @@ export interface GameConnectionContext {
   ipAddress?: string;
 }
 
+/**
+ * Player behind a socket, as kept in socket.data
+ */
+export type GamePlayerContext = Pick<GameConnectionContext, 'userId' | 'agentId' | 'gameCode'>;
+
 /**
  * Interface that all game handlers must implement
  * Each game module provides a handler that implements this interface
@@ -114,4 +119,15 @@ export interface IGameHandler {
    * @returns Game config object with betConfig, coefficients, and lastWin
    */
   getGameConfigResponse?(): any;
+
+  /**
+   * Optional: Whether the player has play that must finish before the socket is cut off
+   *
+   * Checked by CommonGameGateway when the availability schedule takes the game offline for
+   * the player's operator: the socket stays connected (new bets are refused) until this
+   * returns false. Without it the socket is disconnected right away.
+   *
+   * @param context - player of the socket
+   */
+  hasPlayInProgress?(context: GamePlayerContext): Promise<boolean>;
 }
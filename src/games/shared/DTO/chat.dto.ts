@@ -7,12 +7,12 @@ export interface ChatAuthor {
 }
 
 export interface ChatMessage {
-  chatRoom: string;
+  chatRoom: string; // Format: "{chatRoomPrefix}-chat-{languageCode}"
   message: string;
   author: ChatAuthor;
 }
 
 export interface JoinChatRoomPayload {
-  chatRoom?: string;
+  chatRoom?: string; // Language code like "en", "es", "fr", etc.
   language?: string;
 }
@@ -1,3 +1,9 @@
+/**
+ * DTOs for crash game state and events
+ */
+
+import { MultiplierCurve } from '../crash-multiplier-curve.util';
+
 export enum GameStatus {
   WAIT_GAME = 'WAIT_GAME',
   IN_GAME = 'IN_GAME',
@@ -11,13 +17,28 @@ export interface BetData {
   nickname: string;
   currency: string;
   betAmount: string;
-  betNumber: number;
+  betNumber: number; // 0 or 1 (0 = manual, 1 = auto)
   gameAvatar: number | null;
   playerGameId: string;
-  coeffAuto?: string;
-  coeffWin?: string;
-  winAmount?: string;
+  coeffAuto?: string; // Auto cashout coefficient
+  coeffWin?: string; // Winning coefficient
+  winAmount?: string; // Win amount
   userAvatar?: string | null;
+  maxWinAmount?: string; // Payout cap of the bet (server side only, not broadcast)
+  agentId?: string; // Operator the bet was placed through (server side only, not broadcast)
+  maxWinCapped?: boolean; // Settled at the payout cap
+  partialCashouts?: PartialCashout[]; // Parts of the stake taken out while the round ran
+  remainingBetAmount?: string; // Stake still riding after partial cashouts (betAmount stays the original stake)
+}
+
+/**
+ * Part of a bet's stake cashed out before the rest; its win is locked in and
+ * paid with the bet's final settlement
+ */
+export interface PartialCashout {
+  betAmount: string; // stake taken out
+  coeff: string;
+  winAmount: string;
 }
 
 export interface BetsData {
@@ -51,8 +72,11 @@ export interface GameStateChangePayload {
   waitTime: number | null;
   bets: BetsData;
   previousBets: PreviousBetsData;
-  coeffCrash?: number;
-  coefficients?: CoefficientHistory[];
+  coeffCrash?: number; // Only present in FINISH_GAME
+  coefficients?: CoefficientHistory[]; // Only present in FINISH_GAME
+  multiplierCurve?: MultiplierCurve; // Only present in IN_GAME - coeff = m(serverNow - startTime)
+  startTime?: number; // Only present in IN_GAME - round start (epoch ms, server clock)
+  serverTime?: number; // Only present in IN_GAME - server clock when the payload was built
 }
 
 export interface CoefficientChangePayload {
@@ -61,8 +85,12 @@ export interface CoefficientChangePayload {
 
 export interface LatencyTestPayload {
   date: number;
+  rtt?: number; // Client's last measured round trip (ms); used for cashout latency compensation
 }
 
+/**
+ * Pending bet that will be placed in the next round
+ */
 export interface PendingBet {
   userId: string;
   agentId: string;
@@ -70,16 +98,20 @@ export interface PendingBet {
   betAmount: string;
   currency: string;
   coeffAuto?: string;
-  betNumber: number;
+  betNumber: number; // 0 = manual, 1 = auto
   nickname: string;
   gameAvatar: number | null;
   userAvatar?: string | null;
-  queuedAt: number;
-  platformTxId: string;
-  gameCode: string;
-  playerGameId: string;
+  queuedAt: number; // timestamp when bet was queued
+  platformTxId: string; // Transaction ID from wallet API when balance was deducted
+  gameCode: string; // Game code from WebSocket connection
+  playerGameId: string; // The playerGameId returned to the user (preserved from queue time)
 }
 
+/**
+ * Game state for onConnectGame response (user-specific)
+ * Note: This is different from GameStateChangePayload - it doesn't include previousBets
+ */
 export interface ConnectGameState {
   bets: BetsData;
   roundId: number;
@@ -88,11 +120,15 @@ export interface ConnectGameState {
   coeffCrash: number | null;
 }
 
+/**
+ * Response payload for gameService-onConnectGame event
+ * Sent when client sends {"action": "join"}
+ */
 export interface OnConnectGamePayload {
   success: boolean;
-  myBets: BetData[];
-  myNextGameBets: BetData[];
-  isNextRoundBetExist: boolean;
+  myBets: BetData[]; // User's bets for current round
+  myNextGameBets: BetData[]; // User's bets for next round
+  isNextRoundBetExist: boolean; // Whether user has bets for next round
   state: ConnectGameState;
-  coefficients: CoefficientHistory[];
-}
+  coefficients: CoefficientHistory[]; // Previous rounds' coefficients (up to 50)
+}
\ No newline at end of file
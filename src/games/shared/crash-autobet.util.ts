@@ -0,0 +1,155 @@
+import { GAME_CONSTANTS } from '../../common/game-constants';
+
+/**
+ * Server-side autobet series of crash games
+ *
+ * A series bets `rounds` times in a row with the same auto cashout coefficient. After each
+ * round the stake is reset to the base amount or increased by a percentage, depending on
+ * whether the bet won, and the series stops early once its profit or loss reaches a threshold.
+ */
+
+export interface AutobetStakeAdjustment {
+  action: 'reset' | 'increase';
+  percent?: number; // increase only
+}
+
+export interface AutobetSettings {
+  betAmount: string;
+  currency: string;
+  coeffAuto: string;
+  rounds: number;
+  betNumber: number;
+  stopOnProfit?: string;
+  stopOnLoss?: string;
+  onWin: AutobetStakeAdjustment;
+  onLoss: AutobetStakeAdjustment;
+}
+
+export type AutobetStatus = 'running' | 'finished' | 'stopped' | 'cancelled';
+
+export type AutobetStopReason = 'rounds' | 'profit' | 'loss' | 'cancelled' | 'bet_rejected' | 'bet_cancelled';
+
+export interface AutobetRoundResult {
+  playerGameId: string;
+  roundId: number;
+  betAmount: string;
+  winAmount: string;
+  isWin: boolean;
+}
+
+export interface AutobetSeries {
+  seriesId: string;
+  userId: string;
+  agentId: string;
+  operatorId: string;
+  gameCode: string;
+  nickname: string;
+  gameAvatar: number | null;
+  userAvatar: string | null;
+  settings: AutobetSettings;
+  status: AutobetStatus;
+  stopReason?: AutobetStopReason;
+  nextBetAmount: string;
+  roundsPlayed: number;
+  totalStaked: string;
+  totalWon: string;
+  profit: string;
+  lastResult?: AutobetRoundResult;
+  // Bet currently in play: placed in lastBetRoundId, or queued while lastBetQueuedInRound was running
+  lastPlayerGameId?: string;
+  lastBetRoundId?: number;
+  lastBetQueuedInRound?: number;
+  startedAt: number;
+  updatedAt: number;
+}
+
+function isAmount(value: unknown): boolean {
+  const amount = parseFloat(String(value ?? ''));
+  return isFinite(amount) && amount > 0;
+}
+
+function adjustmentErrors(field: string, adjustment: unknown): string[] {
+  if (adjustment === undefined) return [];
+  const value = adjustment as Record<string, any>;
+  if (typeof adjustment !== 'object' || adjustment === null || !['reset', 'increase'].includes(value.action)) {
+    return [`${field}.action must be reset or increase`];
+  }
+  const maxPercent = GAME_CONSTANTS.AUTOBET.MAX_ADJUST_PERCENT;
+  if (value.action === 'increase' && !(typeof value.percent === 'number' && value.percent > 0 && value.percent <= maxPercent)) {
+    return [`${field}.percent must be a number > 0 and <= ${maxPercent}`];
+  }
+  return [];
+}
+
+/**
+ * Reasons autobet settings can't be used (empty when valid)
+ * Bet amount, currency and coefficient limits are checked again when each bet is placed
+ */
+export function autobetSettingsErrors(settings: Record<string, any>): string[] {
+  const errors: string[] = [];
+  const maxRounds = GAME_CONSTANTS.AUTOBET.MAX_ROUNDS;
+
+  if (!isAmount(settings.betAmount)) {
+    errors.push('betAmount must be a positive amount');
+  }
+  if (typeof settings.currency !== 'string' || !settings.currency) {
+    errors.push('currency is required');
+  }
+  if (!isAmount(settings.coeffAuto) || parseFloat(settings.coeffAuto) < 1.01) {
+    errors.push('coeffAuto must be at least 1.01');
+  }
+  if (!Number.isInteger(settings.rounds) || settings.rounds < 1 || settings.rounds > maxRounds) {
+    errors.push(`rounds must be an integer between 1 and ${maxRounds}`);
+  }
+  if (settings.betNumber !== undefined && settings.betNumber !== 0 && settings.betNumber !== 1) {
+    errors.push('betNumber must be 0 or 1');
+  }
+  if (settings.stopOnProfit !== undefined && !isAmount(settings.stopOnProfit)) {
+    errors.push('stopOnProfit must be a positive amount');
+  }
+  if (settings.stopOnLoss !== undefined && !isAmount(settings.stopOnLoss)) {
+    errors.push('stopOnLoss must be a positive amount');
+  }
+  errors.push(...adjustmentErrors('onWin', settings.onWin));
+  errors.push(...adjustmentErrors('onLoss', settings.onLoss));
+
+  return errors;
+}
+
+/**
+ * Book a finished round on the series and decide what comes next
+ * @param betLimits - stake limits the next bet is clamped to
+ * @returns Stop reason, or null when the series goes on with series.nextBetAmount
+ */
+export function applyAutobetResult(
+  series: AutobetSeries,
+  result: AutobetRoundResult,
+  betLimits: { min: number; max: number },
+): AutobetStopReason | null {
+  const stake = parseFloat(result.betAmount);
+  const win = parseFloat(result.winAmount);
+
+  series.roundsPlayed++;
+  series.totalStaked = (parseFloat(series.totalStaked) + stake).toFixed(2);
+  series.totalWon = (parseFloat(series.totalWon) + win).toFixed(2);
+  series.profit = (parseFloat(series.totalWon) - parseFloat(series.totalStaked)).toFixed(2);
+  series.lastResult = result;
+
+  const { settings } = series;
+  const adjustment = result.isWin ? settings.onWin : settings.onLoss;
+  const base = parseFloat(settings.betAmount);
+  const next = adjustment.action === 'increase' ? stake * (1 + (adjustment.percent || 0) / 100) : base;
+  series.nextBetAmount = Math.min(betLimits.max, Math.max(betLimits.min, next)).toFixed(2);
+
+  const profit = parseFloat(series.profit);
+  if (settings.stopOnProfit !== undefined && profit >= parseFloat(settings.stopOnProfit)) {
+    return 'profit';
+  }
+  if (settings.stopOnLoss !== undefined && -profit >= parseFloat(settings.stopOnLoss)) {
+    return 'loss';
+  }
+  if (series.roundsPlayed >= settings.rounds) {
+    return 'rounds';
+  }
+  return null;
+}
@@ -0,0 +1,68 @@
+import { BetData } from './DTO/game-state.dto';
+
+/**
+ * Stake and win bookkeeping of crash bets with partial cashouts
+ *
+ * betAmount always holds the original stake. A partial cashout moves part of it into
+ * partialCashouts (locking in its win) and leaves the rest in remainingBetAmount.
+ * The wallet transaction of the bet is settled once, for the locked wins plus whatever
+ * the remaining stake pays when it is cashed out or crashes.
+ */
+
+function toAmount(value: string | undefined): number {
+  const amount = parseFloat(value || '0');
+  return isFinite(amount) ? amount : 0;
+}
+
+/**
+ * Stake of a bet still riding the multiplier
+ */
+export function betStakeInPlay(bet: BetData): number {
+  return bet.remainingBetAmount !== undefined ? toAmount(bet.remainingBetAmount) : toAmount(bet.betAmount);
+}
+
+/**
+ * Wins locked in by partial cashouts, not yet settled with the wallet
+ */
+export function betLockedWin(bet: BetData): number {
+  return (bet.partialCashouts || []).reduce((sum, part) => sum + toAmount(part.winAmount), 0);
+}
+
+/**
+ * True when part of the stake was still riding when the round ended
+ * (after a partial cashout the bet carries win amounts without having been cashed out)
+ */
+export function hasStakeInPlay(bet: BetData): boolean {
+  return bet.remainingBetAmount !== undefined && toAmount(bet.remainingBetAmount) > 0;
+}
+
+/**
+ * Stake a partial cashout request takes out, floored to cents
+ * @param request - fraction of the riding stake (0-1) or a stake amount
+ * @returns null when the request is invalid; a value >= stakeInPlay means a full cashout
+ */
+export function resolvePartialStake(
+  stakeInPlay: number,
+  request: { fraction?: number | string; amount?: number | string },
+): number | null {
+  let stake: number;
+  if (request.amount !== undefined && request.amount !== null && request.amount !== '') {
+    stake = typeof request.amount === 'number' ? request.amount : parseFloat(request.amount);
+  } else {
+    const fraction = typeof request.fraction === 'number' ? request.fraction : parseFloat(String(request.fraction));
+    if (!isFinite(fraction) || fraction <= 0 || fraction > 1) {
+      return null;
+    }
+    stake = stakeInPlay * fraction;
+  }
+
+  if (!isFinite(stake) || stake <= 0) {
+    return null;
+  }
+  stake = Math.floor(stake * 100 + 1e-9) / 100;
+  if (stake <= 0 || stake > stakeInPlay) {
+    return null;
+  }
+  // Less than a cent left riding: take it all
+  return Math.round((stakeInPlay - stake) * 100) < 1 ? stakeInPlay : stake;
+}
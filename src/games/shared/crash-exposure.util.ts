@@ -0,0 +1,239 @@
+import { BetData } from './DTO/game-state.dto';
+import { betLockedWin, betStakeInPlay } from './crash-bet.util';
+
+/**
+ * Round exposure (liability) of a crash game
+ *
+ * Exposure is what the house would pay if every real bet still in play cashed out now:
+ * bet * current multiplier, or bet * auto-cashout target when the target is higher,
+ * plus wins locked in by partial cashouts, each clamped to the bet's maxWinAmount.
+ * Mock bets and cashed out bets don't count.
+ * Each bet's payout is converted to the exposure currency at the rates fixed when betting
+ * opens (ExposureRates) before it is summed; a currency without a rate counts at face value.
+ *
+ * The liabilityLimit config key caps it per game and per operator (agentId), in its currency
+ * (the game's default currency when omitted):
+ *
+ *   { "limit": "100000", "operators": { "<agentId>": "20000" }, "currency": "INR", "behaviour": "reject_bets" }
+ *
+ * behaviour:
+ * - reject_bets:   new bets are rejected in WAIT_GAME when they would push exposure over a limit
+ * - force_cashout: bets are cashed out at the current multiplier once exposure reaches a limit
+ */
+
+export type LiabilityBehaviour = 'reject_bets' | 'force_cashout';
+
+export const LIABILITY_BEHAVIOURS: readonly LiabilityBehaviour[] = ['reject_bets', 'force_cashout'];
+
+export interface LiabilityLimit {
+  limit: number | null; // whole round, null when uncapped
+  operators: Record<string, number>; // per agentId
+  currency: string | null; // currency of the amounts, null for the game's default currency
+  behaviour: LiabilityBehaviour;
+}
+
+/**
+ * Currency a round's exposure is summed in, with the rates to convert bets to it
+ */
+export interface ExposureRates {
+  currency: string;
+  rates: Record<string, number>; // units of each currency per 1 USD
+}
+
+export interface RoundExposure {
+  currency: string | null; // null when bets are summed in their own currencies
+  total: number; // at current multiplier, raised to auto-cashout targets
+  atCurrentCoeff: number; // at current multiplier only
+  betCount: number; // real bets still in play
+  operators: Record<string, number>; // total per agentId
+}
+
+/**
+ * Exposure published to Redis for health / admin readers
+ */
+export interface PublishedRoundExposure extends RoundExposure {
+  gameCode: string;
+  roundId: number;
+  status: string;
+  currentCoeff: number;
+  limit: LiabilityLimit | null;
+  exceeded: boolean;
+  updatedAt: number;
+}
+
+/**
+ * Redis key the round exposure of a game is published under
+ */
+export function roundExposureKey(gameCode: string): string {
+  return `${gameCode}:round_exposure`;
+}
+
+function toAmount(value: unknown): number | null {
+  const amount = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  return isFinite(amount) && amount > 0 ? amount : null;
+}
+
+const CURRENCY_CODE = /^[A-Z0-9]{2,10}$/;
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Amount of a bet currency in the exposure currency (unchanged without a rate for either)
+ */
+export function toExposureCurrency(amount: number, currency: string, rates: ExposureRates | null): number {
+  if (!rates || currency === rates.currency) {
+    return amount;
+  }
+  const fromRate = rates.rates[currency];
+  const toRate = rates.rates[rates.currency];
+  return fromRate > 0 && toRate > 0 ? (amount * toRate) / fromRate : amount;
+}
+
+/**
+ * Potential payout of one bet at the current multiplier
+ * @returns 0 for cashed out bets
+ */
+export function betExposure(bet: BetData, currentCoeff: number): { total: number; atCurrentCoeff: number } {
+  if (bet.coeffWin && bet.winAmount) {
+    return { total: 0, atCurrentCoeff: 0 };
+  }
+
+  const stake = betStakeInPlay(bet);
+  const lockedWin = betLockedWin(bet);
+  const maxWin = toAmount(bet.maxWinAmount) ?? Infinity;
+  const autoCoeff = toAmount(bet.coeffAuto) ?? 0;
+
+  const atCurrentCoeff = Math.min(lockedWin + stake * currentCoeff, maxWin);
+  const total = Math.min(lockedWin + stake * Math.max(currentCoeff, autoCoeff), maxWin);
+  return { total, atCurrentCoeff };
+}
+
+/**
+ * Exposure of a round
+ * @param isMockBet - excludes simulated bets
+ * @param rates - converts each bet to the exposure currency; null sums bets as they are
+ */
+export function computeRoundExposure(
+  bets: Iterable<BetData>,
+  currentCoeff: number,
+  isMockBet: (bet: BetData) => boolean,
+  rates: ExposureRates | null,
+): RoundExposure {
+  const exposure: RoundExposure = {
+    currency: rates?.currency ?? null,
+    total: 0,
+    atCurrentCoeff: 0,
+    betCount: 0,
+    operators: {},
+  };
+
+  for (const bet of bets) {
+    if (isMockBet(bet)) continue;
+
+    const payout = betExposure(bet, currentCoeff);
+    if (payout.total <= 0) continue;
+
+    const total = toExposureCurrency(payout.total, bet.currency, rates);
+    const atCurrentCoeff = toExposureCurrency(payout.atCurrentCoeff, bet.currency, rates);
+
+    const operatorId = bet.agentId || bet.operatorId;
+    exposure.total += total;
+    exposure.atCurrentCoeff += atCurrentCoeff;
+    exposure.betCount++;
+    exposure.operators[operatorId] = (exposure.operators[operatorId] || 0) + total;
+  }
+
+  exposure.total = round2(exposure.total);
+  exposure.atCurrentCoeff = round2(exposure.atCurrentCoeff);
+  for (const operatorId of Object.keys(exposure.operators)) {
+    exposure.operators[operatorId] = round2(exposure.operators[operatorId]);
+  }
+  return exposure;
+}
+
+/**
+ * Limits an exposure has reached
+ * @returns round: whole-round limit reached, operators: agentIds at their limit
+ */
+export function reachedLiabilityLimits(
+  exposure: RoundExposure,
+  limit: LiabilityLimit,
+): { round: boolean; operators: string[] } {
+  return {
+    round: limit.limit !== null && exposure.total >= limit.limit,
+    operators: Object.keys(exposure.operators).filter(
+      (operatorId) => limit.operators[operatorId] !== undefined && exposure.operators[operatorId] >= limit.operators[operatorId],
+    ),
+  };
+}
+
+/**
+ * Reasons a liabilityLimit value can't be used (empty when valid)
+ */
+export function liabilityLimitErrors(config: unknown): string[] {
+  if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+    return ['liabilityLimit must be an object'];
+  }
+
+  const value = config as Record<string, any>;
+  const errors: string[] = [];
+
+  if (!LIABILITY_BEHAVIOURS.includes(value.behaviour)) {
+    errors.push(`liabilityLimit.behaviour must be one of ${LIABILITY_BEHAVIOURS.join(', ')}`);
+  }
+  if (value.limit !== undefined && toAmount(value.limit) === null) {
+    errors.push('liabilityLimit.limit must be a positive amount');
+  }
+  if (value.currency !== undefined && (typeof value.currency !== 'string' || !CURRENCY_CODE.test(value.currency))) {
+    errors.push('liabilityLimit.currency must be a currency code (2-10 capital letters or digits)');
+  }
+  if (value.operators !== undefined) {
+    if (typeof value.operators !== 'object' || value.operators === null || Array.isArray(value.operators)) {
+      errors.push('liabilityLimit.operators must be an object of agentId -> amount');
+    } else {
+      for (const [operatorId, amount] of Object.entries(value.operators)) {
+        if (toAmount(amount) === null) {
+          errors.push(`liabilityLimit.operators.${operatorId} must be a positive amount`);
+        }
+      }
+    }
+  }
+  if (!errors.length && value.limit === undefined && !Object.keys(value.operators || {}).length) {
+    errors.push('liabilityLimit must set limit or operators');
+  }
+
+  return errors;
+}
+
+/**
+ * Parse the liabilityLimit config row
+ * @returns null when missing or invalid (no limit)
+ */
+export function parseLiabilityLimit(configRaw: string | null): LiabilityLimit | null {
+  if (!configRaw || configRaw === '{}') {
+    return null;
+  }
+
+  let config: any;
+  try {
+    config = JSON.parse(configRaw);
+  } catch {
+    return null;
+  }
+  if (liabilityLimitErrors(config).length) {
+    return null;
+  }
+
+  const operators: Record<string, number> = {};
+  for (const [operatorId, amount] of Object.entries(config.operators || {})) {
+    operators[operatorId] = toAmount(amount) as number;
+  }
+  return {
+    limit: toAmount(config.limit),
+    operators,
+    currency: config.currency ?? null,
+    behaviour: config.behaviour,
+  };
+}
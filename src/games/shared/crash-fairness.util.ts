@@ -0,0 +1,305 @@
+import * as crypto from 'crypto';
+import { GAME_CONSTANTS } from '../../common/game-constants';
+
+/**
+ * Provably fair crash point derivation
+ *
+ * The crash coefficient of a round is a pure function of:
+ * - the round's server seed (hash published to players before betting closes)
+ * - the public salt of the seed chain the server seed came from, fixed when the chain
+ *   was created: combinedHash = HMAC-SHA256(key = serverSeed, message = salt)
+ * - the game's crash model (distribution config)
+ *
+ * The server can't re-roll any input once the chain's terminal hash and salt are published.
+ * Rounds without a chain salt (unchained fallback seeds, rounds played before salts) use the
+ * older SHA-256 of server seed, client seeds of the first N players and round number; the
+ * client seeds are still shown with every round, but no longer affect chained rounds.
+ *
+ * Everything except the distribution and the salt is stored in the CoefficientHistory entry
+ * (the salt is listed with the chain), so any historical crash point can be recomputed with
+ * deriveCrashCoefficient().
+ *
+ * Live rounds use the 'house-edge' model: crash = (RTP / 100) / (1 - U), floored to
+ * 2 decimals and capped at maxCoeff. P(crash >= m) = (RTP / 100) / m, so every cashout
+ * target returns exactly RTP. 'uniform' / 'power' range distributions are only kept
+ * so rounds played before the RTP model can still be verified.
+ */
+
+export interface CrashDistributionRange {
+  name: string;
+  min: number;
+  max: number;
+  weight: number;
+}
+
+export interface CrashDistributionConfig {
+  ranges: CrashDistributionRange[];
+  distributionType: 'uniform' | 'power' | 'house-edge';
+  rtp?: number; // house-edge only - percent, e.g. 96
+  maxCoeff?: number; // house-edge only - highest crash point
+}
+
+export interface CrashFairnessInput {
+  serverSeed: string;
+  clientSeeds: string[];
+  roundId: number;
+  salt?: string | null; // seed chain salt; when set, clientSeeds and roundId are not used
+}
+
+export interface CrashFairnessResult {
+  combinedHash: string;
+  decimal: string;
+  crashCoeff: number;
+  rangeName: string;
+}
+
+/**
+ * Combined hash formulas, published with verification results
+ */
+export const CHAINED_HASH_FORMULA = 'HMAC-SHA256(serverSeed, salt)';
+export const SEEDED_HASH_FORMULA = 'SHA-256(serverSeed + clientSeeds.join("") + ":" + roundId)';
+
+/**
+ * Combined hash: HMAC-SHA256(serverSeed, salt) for chained rounds,
+ * else SHA-256 of "<serverSeed><clientSeed1><clientSeed2>...:<roundId>"
+ * Chained rounds take no client seeds: their outcome is fixed by the chain before any player joins
+ */
+export function calculateCombinedHash(input: CrashFairnessInput): string {
+  if (input.salt) {
+    return crypto.createHmac('sha256', input.serverSeed).update(input.salt).digest('hex');
+  }
+  const seedString = `${input.serverSeed}${input.clientSeeds.join('')}:${input.roundId}`;
+  return crypto.createHash('sha256').update(seedString).digest('hex');
+}
+
+export function combinedHashFormula(salt?: string | null): string {
+  return salt ? CHAINED_HASH_FORMULA : SEEDED_HASH_FORMULA;
+}
+
+/**
+ * Read a uniform value in [0, 1) from a 52-bit slice of the hash
+ * @param sliceIndex - 0 for the first 13 hex chars, 1 for the next 13, ...
+ */
+export function hashSliceToUnit(combinedHash: string, sliceIndex: number): number {
+  const size = GAME_CONSTANTS.CRASH_FAIRNESS.HASH_SLICE_HEX_CHARS;
+  const hexValue = combinedHash.substring(sliceIndex * size, (sliceIndex + 1) * size);
+  return parseInt(hexValue, 16) / Math.pow(16, size);
+}
+
+/**
+ * Map two uniform values onto the weighted coefficient distribution
+ * - rangeRandom selects the range by cumulative weight
+ * - valueRandom positions the coefficient inside the range
+ */
+export function coefficientFromDistribution(
+  distribution: CrashDistributionConfig,
+  rangeRandom: number,
+  valueRandom: number,
+): { coeff: number; rangeName: string } {
+  let cumulativeWeight = 0;
+  let selectedRange = distribution.ranges[0];
+
+  for (const range of distribution.ranges) {
+    cumulativeWeight += range.weight;
+    if (rangeRandom < cumulativeWeight) {
+      selectedRange = range;
+      break;
+    }
+  }
+
+  const rangeSize = selectedRange.max - selectedRange.min;
+  let coeff: number;
+  if (distribution.distributionType === 'power') {
+    // Power distribution within range (0.5 = moderate bias toward lower end)
+    coeff = selectedRange.min + rangeSize * Math.pow(valueRandom, 0.5);
+  } else {
+    coeff = selectedRange.min + rangeSize * valueRandom;
+  }
+
+  coeff = Math.max(selectedRange.min, Math.min(selectedRange.max, coeff));
+
+  return {
+    coeff: parseFloat(coeff.toFixed(GAME_CONSTANTS.COEFFICIENT.DECIMAL_PLACES)),
+    rangeName: selectedRange.name,
+  };
+}
+
+/**
+ * Map a uniform value onto the house-edge crash curve
+ * Flooring keeps P(crash >= m) = (rtp / 100) / m exact for every 2-decimal target m
+ */
+export function coefficientFromHouseEdge(rtp: number, maxCoeff: number, random: number): number {
+  const precision = GAME_CONSTANTS.COEFFICIENT.ROUNDING_PRECISION;
+  const raw = rtp / 100 / (1 - random);
+  const floored = Math.floor(raw * precision) / precision;
+  const coeff = Math.max(1, Math.min(maxCoeff, floored));
+  return parseFloat(coeff.toFixed(GAME_CONSTANTS.COEFFICIENT.DECIMAL_PLACES));
+}
+
+/**
+ * Derive the crash coefficient for a round
+ * Deterministic: identical inputs always produce the identical result
+ */
+export function deriveCrashCoefficient(
+  input: CrashFairnessInput,
+  distribution: CrashDistributionConfig,
+): CrashFairnessResult {
+  const combinedHash = calculateCombinedHash(input);
+  const rangeRandom = hashSliceToUnit(combinedHash, 0);
+
+  if (distribution.distributionType === 'house-edge') {
+    return {
+      combinedHash,
+      decimal: rangeRandom.toExponential(),
+      crashCoeff: coefficientFromHouseEdge(distribution.rtp!, distribution.maxCoeff!, rangeRandom),
+      rangeName: 'house-edge',
+    };
+  }
+
+  const valueRandom = hashSliceToUnit(combinedHash, 1);
+  const { coeff, rangeName } = coefficientFromDistribution(distribution, rangeRandom, valueRandom);
+
+  return {
+    combinedHash,
+    decimal: rangeRandom.toExponential(),
+    crashCoeff: coeff,
+    rangeName,
+  };
+}
+
+/**
+ * Select the client seeds that take part in the round hash
+ * Only the first N seeds (in join order) are used, so later joiners can't change the outcome
+ */
+export function selectFairnessClientSeeds<T extends { seed: string }>(
+  clientsSeeds: T[],
+  limit: number = GAME_CONSTANTS.CRASH_FAIRNESS.CLIENT_SEEDS_COUNT,
+): T[] {
+  return (clientsSeeds || []).slice(0, limit);
+}
+
+/**
+ * Parse a coefficientDistribution config value
+ * Returns null when the value is missing, malformed or its weights don't sum to 1.0
+ */
+export function parseCrashDistribution(configRaw: string | null): CrashDistributionConfig | null {
+  if (!configRaw || configRaw === '{}') {
+    return null;
+  }
+
+  let config: any;
+  try {
+    config = JSON.parse(configRaw);
+  } catch {
+    return null;
+  }
+
+  if (crashDistributionErrors(config).length) {
+    return null;
+  }
+
+  if (config.distributionType === 'house-edge') {
+    return { ranges: [], distributionType: 'house-edge', rtp: Number(config.rtp), maxCoeff: Number(config.maxCoeff) };
+  }
+
+  return {
+    ranges: config.ranges,
+    distributionType: config.distributionType || 'uniform',
+  };
+}
+
+/**
+ * Reasons a coefficientDistribution value can't be used (empty when valid)
+ */
+export function crashDistributionErrors(config: any): string[] {
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    return ['distribution must be an object'];
+  }
+
+  if (config.distributionType === 'house-edge') {
+    const errors: string[] = [];
+    if (!(Number(config.rtp) > 0 && Number(config.rtp) <= 100)) {
+      errors.push('house-edge rtp must be in (0, 100]');
+    }
+    if (!(Number(config.maxCoeff) >= 1)) {
+      errors.push('house-edge maxCoeff must be >= 1');
+    }
+    return errors;
+  }
+
+  if (!Array.isArray(config.ranges) || config.ranges.length === 0) {
+    return ['ranges must be a non-empty array'];
+  }
+  const totalWeight = config.ranges.reduce((sum: number, r: any) => sum + (r?.weight || 0), 0);
+  if (Math.abs(totalWeight - 1.0) >= 0.01) {
+    return [`range weights must sum to 1.0 (got ${totalWeight})`];
+  }
+  return [];
+}
+
+/**
+ * Build the live crash model of a game
+ * RTP decides the odds; the configured distribution only contributes its upper bound (max of range maxima)
+ */
+export function buildHouseEdgeDistribution(
+  rtp: number,
+  configured: CrashDistributionConfig | null,
+  fallbackMaxCoeff: number,
+): CrashDistributionConfig {
+  let maxCoeff = fallbackMaxCoeff;
+  if (configured?.distributionType === 'house-edge' && configured.maxCoeff) {
+    maxCoeff = configured.maxCoeff;
+  } else if (configured && configured.ranges.length > 0) {
+    maxCoeff = Math.max(...configured.ranges.map((r) => r.max));
+  }
+
+  return { ranges: [], distributionType: 'house-edge', rtp, maxCoeff };
+}
+
+/**
+ * Probability that a round reaches coefficient m
+ */
+export function crashSurvivalProbability(distribution: CrashDistributionConfig, m: number): number {
+  if (distribution.distributionType === 'house-edge') {
+    if (m <= 1) return 1;
+    if (m > distribution.maxCoeff!) return 0;
+    return Math.min(1, distribution.rtp! / 100 / m);
+  }
+
+  let probability = 0;
+  for (const range of distribution.ranges) {
+    const size = range.max - range.min;
+    let inRange: number;
+    if (m <= range.min) {
+      inRange = 1;
+    } else if (m > range.max || size <= 0) {
+      inRange = 0;
+    } else if (distribution.distributionType === 'power') {
+      inRange = 1 - Math.pow((m - range.min) / size, 2);
+    } else {
+      inRange = (range.max - m) / size;
+    }
+    probability += range.weight * inRange;
+  }
+  return probability;
+}
+
+/**
+ * Theoretical RTP (percent) of a crash model
+ * House-edge: the configured RTP, independent of the cashout target.
+ * Range distributions: the RTP of the best fixed cashout target (m * P(crash >= m) maximised over 1.01 .. max)
+ */
+export function theoreticalCrashRtp(distribution: CrashDistributionConfig): number {
+  if (distribution.distributionType === 'house-edge') {
+    return distribution.rtp!;
+  }
+
+  const precision = GAME_CONSTANTS.COEFFICIENT.ROUNDING_PRECISION;
+  const maxCoeff = Math.max(...distribution.ranges.map((r) => r.max));
+  let best = 0;
+  for (let step = precision + 1; step <= Math.round(maxCoeff * precision); step++) {
+    const m = step / precision;
+    best = Math.max(best, m * crashSurvivalProbability(distribution, m));
+  }
+  return parseFloat((best * 100).toFixed(GAME_CONSTANTS.COEFFICIENT.DECIMAL_PLACES));
+}
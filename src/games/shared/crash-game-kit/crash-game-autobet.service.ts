@@ -0,0 +1,360 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { v4 as uuidv4 } from 'uuid';
+import { RedisService } from '../../../modules/redis/redis.service';
+import { GAME_CONSTANTS } from '../../../common/game-constants';
+import { BetData } from '../DTO/game-state.dto';
+import { CRASH_GAME_ERROR_CODES, createErrorResponse, createSuccessResponse } from '../error-helpers';
+import {
+  applyAutobetResult,
+  AutobetSeries,
+  AutobetSettings,
+  AutobetStopReason,
+  autobetSettingsErrors,
+} from '../crash-autobet.util';
+import { CrashGameBetService } from './crash-game-bet.service';
+import { CrashGameService } from './crash-game.service';
+import { CRASH_GAME_DEFINITION } from './crash-game-definition';
+import type { CrashGameDefinition } from './crash-game-definition';
+
+export interface AutobetPlayer {
+  userId: string;
+  agentId: string;
+  operatorId: string;
+  gameCode: string;
+  nickname: string;
+  gameAvatar: number | null;
+  userAvatar: string | null;
+}
+
+/**
+ * Autobet series of a crash game
+ *
+ * Series live in Redis (`<gameCode>:autobet:<userId>:<agentId>:<betNumber>`, indexed by `<gameCode>:autobets`)
+ * and are driven by the engine leader: when a round ends, each series books its bet's result and
+ * queues the next bet through the pending-bet queue, so it keeps going without the client.
+ * Starting, booking and cancelling a series run under its lock, so a cancel never races a booking.
+ */
+@Injectable()
+export class CrashGameAutobetService {
+  private readonly logger: Logger;
+  private readonly gameCode: string;
+  private readonly REDIS_KEY_INDEX: string;
+  private progressListener: ((series: AutobetSeries) => void) | null = null;
+
+  constructor(
+    private readonly crashGameBetService: CrashGameBetService,
+    private readonly crashGameService: CrashGameService,
+    private readonly redisService: RedisService,
+    @Inject(CRASH_GAME_DEFINITION)
+    private readonly definition: CrashGameDefinition,
+  ) {
+    this.gameCode = definition.gameCode;
+    this.logger = new Logger(`${CrashGameAutobetService.name}[${this.gameCode}]`);
+    this.REDIS_KEY_INDEX = `${this.gameCode}:autobets`;
+  }
+
+  /**
+   * Called with the series whenever it changes (started, round booked, stopped)
+   */
+  setProgressListener(listener: (series: AutobetSeries) => void): void {
+    this.progressListener = listener;
+  }
+
+  async startAutobet(
+    player: AutobetPlayer,
+    request: Record<string, any>,
+  ): Promise<{ success: boolean; error?: string; code?: string; series?: AutobetSeries }> {
+    const errors = autobetSettingsErrors(request);
+    if (errors.length) {
+      return createErrorResponse(errors.join('; '), CRASH_GAME_ERROR_CODES.INVALID_AUTOBET);
+    }
+
+    const settings: AutobetSettings = {
+      betAmount: parseFloat(request.betAmount).toFixed(2),
+      currency: request.currency,
+      coeffAuto: parseFloat(request.coeffAuto).toFixed(2),
+      rounds: request.rounds,
+      betNumber: request.betNumber ?? 0,
+      stopOnProfit: request.stopOnProfit !== undefined ? String(request.stopOnProfit) : undefined,
+      stopOnLoss: request.stopOnLoss !== undefined ? String(request.stopOnLoss) : undefined,
+      onWin: request.onWin ?? { action: 'reset' },
+      onLoss: request.onLoss ?? { action: 'reset' },
+    };
+
+    const locked = await this.withSeriesLock(player.userId, player.agentId, settings.betNumber, () =>
+      this.startSeries(player, settings),
+    );
+    if (!locked) {
+      return createErrorResponse('Autobet busy, try again', CRASH_GAME_ERROR_CODES.AUTOBET_BUSY);
+    }
+    return locked.result;
+  }
+
+  private async startSeries(
+    player: AutobetPlayer,
+    settings: AutobetSettings,
+  ): Promise<{ success: boolean; error?: string; code?: string; series?: AutobetSeries }> {
+    if (await this.getSeries(player.userId, player.agentId, settings.betNumber)) {
+      return createErrorResponse(
+        `Autobet already running for betNumber ${settings.betNumber}`,
+        CRASH_GAME_ERROR_CODES.AUTOBET_ALREADY_RUNNING,
+      );
+    }
+
+    const now = Date.now();
+    const series: AutobetSeries = {
+      seriesId: uuidv4(),
+      ...player,
+      settings,
+      status: 'running',
+      nextBetAmount: settings.betAmount,
+      roundsPlayed: 0,
+      totalStaked: '0.00',
+      totalWon: '0.00',
+      profit: '0.00',
+      startedAt: now,
+      updatedAt: now,
+    };
+
+    const placed = await this.placeNextBet(series);
+    if (!placed.success) {
+      return createErrorResponse(placed.error || 'Bet rejected', CRASH_GAME_ERROR_CODES.BET_REJECTED);
+    }
+
+    await this.saveSeries(series);
+    this.logger.log(
+      `[AUTOBET_START] user=${series.userId} seriesId=${series.seriesId} betNumber=${settings.betNumber} amount=${settings.betAmount} coeffAuto=${settings.coeffAuto} rounds=${settings.rounds}`,
+    );
+    this.notify(series);
+
+    return createSuccessResponse({ series });
+  }
+
+  /**
+   * Stop a player's series; bets already placed or queued stay in play
+   * @param betNumber - series of one bet slot, all of the player's series when omitted
+   * @returns The cancelled series, and whether a slot stayed locked by a round being booked
+   */
+  async cancelAutobet(
+    userId: string,
+    agentId: string,
+    betNumber?: number,
+  ): Promise<{ cancelled: AutobetSeries[]; busy: boolean }> {
+    const betNumbers = betNumber !== undefined ? [betNumber] : [0, 1];
+    const cancelled: AutobetSeries[] = [];
+    let busy = false;
+
+    for (const slot of betNumbers) {
+      const locked = await this.withSeriesLock(userId, agentId, slot, async () => {
+        const series = await this.getSeries(userId, agentId, slot);
+        if (series) {
+          await this.stopSeries(series, 'cancelled');
+        }
+        return series;
+      });
+      if (!locked) {
+        busy = true;
+      } else if (locked.result) {
+        cancelled.push(locked.result);
+      }
+    }
+
+    return { cancelled, busy };
+  }
+
+  async getUserAutobets(userId: string, agentId: string): Promise<AutobetSeries[]> {
+    const series = await Promise.all([this.getSeries(userId, agentId, 0), this.getSeries(userId, agentId, 1)]);
+    return series.filter((s): s is AutobetSeries => s !== null);
+  }
+
+  /**
+   * Book a finished round on every running series and queue their next bets
+   * Called by the engine leader once the round's bets are settled
+   */
+  async onRoundFinished(roundId: number, bets: Map<string, BetData>): Promise<void> {
+    const members = await this.redisService.getClient().smembers(this.REDIS_KEY_INDEX);
+
+    for (const member of members) {
+      const [userId, agentId, betNumberStr] = member.split(':');
+      const betNumber = parseInt(betNumberStr, 10);
+      try {
+        const locked = await this.withSeriesLock(userId, agentId, betNumber, async () => {
+          // Re-read under the lock: a cancel may have stopped the series since the index was listed
+          const series = await this.getSeries(userId, agentId, betNumber);
+          if (!series) {
+            await this.redisService.getClient().srem(this.REDIS_KEY_INDEX, member);
+            return;
+          }
+          await this.bookRound(series, roundId, bets);
+        });
+        if (!locked) {
+          this.logger.warn(`[AUTOBET_ROUND] Series lock not acquired, round not booked: ${member} roundId=${roundId}`);
+        }
+      } catch (error) {
+        this.logger.error(`[AUTOBET_ROUND] Error for ${member}: ${(error as Error).message}`);
+      }
+    }
+  }
+
+  private async bookRound(series: AutobetSeries, roundId: number, bets: Map<string, BetData>): Promise<void> {
+    // A bet queued while this round ran belongs to the next one
+    if (series.lastBetRoundId === undefined && series.lastBetQueuedInRound === roundId) {
+      return;
+    }
+
+    const bet = series.lastPlayerGameId ? bets.get(series.lastPlayerGameId) : undefined;
+    if (!bet) {
+      this.logger.warn(
+        `[AUTOBET_ROUND] Bet of series not in round: user=${series.userId} seriesId=${series.seriesId} playerGameId=${series.lastPlayerGameId} roundId=${roundId}`,
+      );
+      await this.stopSeries(series, 'bet_cancelled');
+      return;
+    }
+
+    const winAmount = parseFloat(bet.winAmount || '0');
+    const betConfig = await this.crashGameService.getBetConfig(series.gameCode, {
+      operatorId: series.agentId,
+      currency: series.settings.currency,
+    });
+    const stopReason = applyAutobetResult(
+      series,
+      {
+        playerGameId: bet.playerGameId,
+        roundId,
+        betAmount: bet.betAmount,
+        winAmount: winAmount.toFixed(2),
+        isWin: winAmount > 0,
+      },
+      {
+        min: parseFloat(betConfig.minBetAmount),
+        max: parseFloat(betConfig.maxBetAmount),
+      },
+    );
+
+    if (stopReason) {
+      await this.stopSeries(series, stopReason);
+      return;
+    }
+
+    const placed = await this.placeNextBet(series);
+    if (!placed.success) {
+      this.logger.warn(
+        `[AUTOBET_ROUND] Next bet rejected: user=${series.userId} seriesId=${series.seriesId} error=${placed.error}`,
+      );
+      await this.stopSeries(series, 'bet_rejected');
+      return;
+    }
+
+    await this.saveSeries(series);
+    this.notify(series);
+  }
+
+  /**
+   * Place the series' next bet: straight into the round in WAIT_GAME, queued otherwise
+   */
+  private async placeNextBet(series: AutobetSeries): Promise<{ success: boolean; error?: string }> {
+    const { settings } = series;
+    const activeRound = await this.crashGameService.getActiveRound();
+    const result = await this.crashGameBetService.placeBet(
+      series.userId,
+      series.agentId,
+      series.operatorId,
+      series.gameCode,
+      {
+        betAmount: series.nextBetAmount,
+        currency: settings.currency,
+        coeffAuto: settings.coeffAuto,
+        betNumber: settings.betNumber,
+      },
+      series.nickname,
+      series.gameAvatar,
+      series.userAvatar,
+    );
+
+    if (!result.success || !result.playerGameId) {
+      return { success: false, error: result.error };
+    }
+
+    series.lastPlayerGameId = result.playerGameId;
+    if (result.isNextRoundAddBet) {
+      series.lastBetRoundId = undefined;
+      series.lastBetQueuedInRound = activeRound?.roundId ?? 0;
+    } else {
+      series.lastBetRoundId = activeRound?.roundId;
+      series.lastBetQueuedInRound = undefined;
+    }
+    return { success: true };
+  }
+
+  private async stopSeries(series: AutobetSeries, reason: AutobetStopReason): Promise<void> {
+    series.status = reason === 'rounds' ? 'finished' : reason === 'cancelled' ? 'cancelled' : 'stopped';
+    series.stopReason = reason;
+    series.updatedAt = Date.now();
+
+    await this.redisService.del(this.getSeriesKey(series.userId, series.agentId, series.settings.betNumber));
+    await this.redisService.getClient().srem(this.REDIS_KEY_INDEX, this.getIndexMember(series));
+
+    this.logger.log(
+      `[AUTOBET_STOP] user=${series.userId} seriesId=${series.seriesId} reason=${reason} rounds=${series.roundsPlayed} profit=${series.profit}`,
+    );
+    this.notify(series);
+  }
+
+  private async saveSeries(series: AutobetSeries): Promise<void> {
+    series.updatedAt = Date.now();
+    await this.redisService.set(
+      this.getSeriesKey(series.userId, series.agentId, series.settings.betNumber),
+      series,
+      GAME_CONSTANTS.AUTOBET.SERIES_TTL_SECONDS,
+    );
+    await this.redisService.getClient().sadd(this.REDIS_KEY_INDEX, this.getIndexMember(series));
+  }
+
+  private async getSeries(userId: string, agentId: string, betNumber: number): Promise<AutobetSeries | null> {
+    return await this.redisService.get<AutobetSeries>(this.getSeriesKey(userId, agentId, betNumber));
+  }
+
+  private getSeriesKey(userId: string, agentId: string, betNumber: number): string {
+    return `${this.gameCode}:autobet:${userId}:${agentId}:${betNumber}`;
+  }
+
+  private getIndexMember(series: AutobetSeries): string {
+    return `${series.userId}:${series.agentId}:${series.settings.betNumber}`;
+  }
+
+  /**
+   * Run `flow` holding the series lock, waiting a few seconds for a booking or cancel in progress
+   * @returns The flow's result, or null when the lock stayed taken
+   */
+  private async withSeriesLock<T>(
+    userId: string,
+    agentId: string,
+    betNumber: number,
+    flow: () => Promise<T>,
+  ): Promise<{ result: T } | null> {
+    const lockKey = `${this.gameCode}:autobet-lock:${userId}:${agentId}:${betNumber}`;
+    const deadline = Date.now() + GAME_CONSTANTS.AUTOBET.LOCK_WAIT_MS;
+
+    while (!(await this.redisService.acquireLock(lockKey, GAME_CONSTANTS.AUTOBET.LOCK_TTL_SECONDS))) {
+      if (Date.now() >= deadline) {
+        return null;
+      }
+      await new Promise(resolve => setTimeout(resolve, GAME_CONSTANTS.AUTOBET.LOCK_RETRY_MS));
+    }
+
+    try {
+      return { result: await flow() };
+    } finally {
+      await this.redisService.releaseLock(lockKey);
+    }
+  }
+
+  private notify(series: AutobetSeries): void {
+    if (!this.progressListener) return;
+    try {
+      this.progressListener(series);
+    } catch (error) {
+      this.logger.error(`[AUTOBET_PROGRESS] Listener error: ${(error as Error).message}`);
+    }
+  }
+}
@@ -1,13 +1,18 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Inject, Injectable, Logger } from '@nestjs/common';
 import { v4 as uuidv4 } from 'uuid';
 import * as crypto from 'crypto';
-import { WalletService, BetService as CoreBetService, BetStatus } from '@games-vector/game-core';
-import { BetData, PendingBet } from './DTO/game-state.dto';
-import { SugarDaddyGameService } from './sugar-daddy-game.service';
-import { RedisService } from '../../modules/redis/redis.service';
-import { GameStatus } from './DTO/game-state.dto';
-import { SUGAR_DADDY_ERROR_CODES, createErrorResponse, createSuccessResponse } from './errors/sugar-daddy-game-errors';
-import { DEFAULTS } from '../../config/defaults.config';
+import { WalletService, BetService as CoreBetService, BetStatus, UserService } from '@games-vector/game-core';
+import { BetData, PartialCashout, PendingBet } from '../DTO/game-state.dto';
+import { CrashGameService } from './crash-game.service';
+import { RedisService } from '../../../modules/redis/redis.service';
+import { MaintenanceService } from '../../../modules/maintenance/maintenance.service';
+import { GameAvailabilityService } from '../../../modules/game-availability/game-availability.service';
+import { UnsupportedCurrencyError } from '../../../modules/bet-limits/bet-limits.util';
+import { betLockedWin, betStakeInPlay, hasStakeInPlay, resolvePartialStake } from '../crash-bet.util';
+import { GameStatus } from '../DTO/game-state.dto';
+import { CRASH_GAME_ERROR_CODES, createErrorResponse, createSuccessResponse } from '../error-helpers';
+import { CRASH_GAME_DEFINITION } from './crash-game-definition';
+import type { CrashBetConfig, CrashGameDefinition } from './crash-game-definition';
 
 export interface PlaceBetPayload {
   betAmount: string;
@@ -30,16 +35,41 @@ export interface PlaceBetResponse {
   balanceCurrency?: string; // Currency of the balance
 }
 
+/**
+ * Part of the stake to cash out: a fraction (0-1) of the stake in play or a stake amount
+ */
+export interface PartialCashoutRequest {
+  fraction?: number | string;
+  amount?: number | string;
+}
+
+/**
+ * Timing of a manual cashout request; auto and forced cashouts have none and are priced when processed
+ */
+export interface CashoutTiming {
+  receivedAt: number; // server receive timestamp (epoch ms)
+  rttMs?: number | null; // client's last measured round trip
+}
+
 @Injectable()
-export class SugarDaddyGameBetService {
-  private readonly logger = new Logger(SugarDaddyGameBetService.name);
+export class CrashGameBetService {
+  private readonly logger: Logger;
+  private readonly gameCode: string;
 
   constructor(
     private readonly walletService: WalletService,
     private readonly betService: CoreBetService,
-    private readonly sugarDaddyGameService: SugarDaddyGameService,
+    private readonly crashGameService: CrashGameService,
     private readonly redisService: RedisService,
-  ) {}
+    private readonly maintenanceService: MaintenanceService,
+    private readonly userService: UserService,
+    private readonly gameAvailabilityService: GameAvailabilityService,
+    @Inject(CRASH_GAME_DEFINITION)
+    private readonly definition: CrashGameDefinition,
+  ) {
+    this.gameCode = definition.gameCode;
+    this.logger = new Logger(`${CrashGameBetService.name}[${this.gameCode}]`);
+  }
 
   async placeBet(
     userId: string,
@@ -52,12 +82,31 @@ export class SugarDaddyGameBetService {
     userAvatar?: string | null,
   ): Promise<PlaceBetResponse> {
     try {
-      const validationError = this.validateBetPayload(payload);
+      const validationError = await this.validateBetPayload(userId, agentId, gameCode, payload);
       if (validationError) {
         return validationError;
       }
 
-      const activeRound = await this.sugarDaddyGameService.getActiveRound();
+      // Covers both the current round and queueBetForNextRound; bets already placed play out
+      if (this.maintenanceService.getMaintenance(gameCode)) {
+        this.logger.warn(`[BET_PLACE] Rejected during maintenance: user=${userId} agent=${agentId}`);
+        return createErrorResponse(
+          'Game is under maintenance',
+          CRASH_GAME_ERROR_CODES.MAINTENANCE,
+        );
+      }
+
+      // Rounds keep running for other operators; this operator's players only see theirs out
+      const availability = await this.gameAvailabilityService.getAvailability(gameCode, agentId);
+      if (!availability.online) {
+        this.logger.warn(`[BET_PLACE] Rejected outside the availability schedule: user=${userId} agent=${agentId}`);
+        return createErrorResponse(
+          'Game is not available at this time',
+          CRASH_GAME_ERROR_CODES.GAME_OFFLINE,
+        );
+      }
+
+      const activeRound = await this.crashGameService.getActiveRound();
       const normalizedUserAvatar = userAvatar ?? null;
 
       if (activeRound && activeRound.status === GameStatus.WAIT_GAME) {
@@ -101,33 +150,69 @@ export class SugarDaddyGameBetService {
       this.logger.error(`[BET_PLACE_ERROR] user=${userId} error=${error.message}`);
       return createErrorResponse(
         error.message || 'Failed to place bet',
-        SUGAR_DADDY_ERROR_CODES.BET_REJECTED,
+        CRASH_GAME_ERROR_CODES.BET_REJECTED,
       );
     }
   }
 
-  private validateBetPayload(payload: PlaceBetPayload): PlaceBetResponse | null {
+  /**
+   * Bets are in the player's account currency; limits are betConfig resolved for the operator (agentId),
+   * converted to that currency
+   */
+  private async validateBetPayload(
+    userId: string,
+    agentId: string,
+    gameCode: string,
+    payload: PlaceBetPayload,
+  ): Promise<PlaceBetResponse | null> {
     const betAmount = parseFloat(payload.betAmount);
     if (isNaN(betAmount) || betAmount <= 0) {
       return createErrorResponse(
         'Invalid bet amount',
-        SUGAR_DADDY_ERROR_CODES.INVALID_BET_AMOUNT,
+        CRASH_GAME_ERROR_CODES.INVALID_BET_AMOUNT,
       );
     }
 
-    const minBet = parseFloat(DEFAULTS.SUGAR_DADDY.BET_CONFIG.minBetAmount);
-    const maxBet = parseFloat(DEFAULTS.SUGAR_DADDY.BET_CONFIG.maxBetAmount);
-    if (betAmount < minBet || betAmount > maxBet) {
+    if (!payload.currency || payload.currency.length < 3 || payload.currency.length > 4) {
       return createErrorResponse(
-        `Bet amount must be between ${minBet} and ${maxBet}`,
-        SUGAR_DADDY_ERROR_CODES.INVALID_BET_AMOUNT,
+        'Invalid currency code',
+        CRASH_GAME_ERROR_CODES.INVALID_CURRENCY,
       );
     }
 
-    if (!payload.currency || payload.currency.length < 3 || payload.currency.length > 4) {
+    const userData = await this.userService.findOne(userId, agentId);
+    const accountCurrency = (userData.currency || this.definition.defaults.currency).toUpperCase();
+    if (payload.currency.toUpperCase() !== accountCurrency) {
+      this.logger.warn(
+        `[BET_PLACE] Currency mismatch: user=${userId} agent=${agentId} bet=${payload.currency} account=${accountCurrency}`,
+      );
       return createErrorResponse(
-        'Invalid currency code',
-        SUGAR_DADDY_ERROR_CODES.INVALID_CURRENCY,
+        `Bets must be placed in ${accountCurrency}`,
+        CRASH_GAME_ERROR_CODES.INVALID_CURRENCY,
+      );
+    }
+
+    let betConfig: CrashBetConfig;
+    try {
+      betConfig = await this.crashGameService.getBetConfig(gameCode, {
+        operatorId: agentId,
+        currency: accountCurrency,
+      });
+    } catch (error) {
+      if (error instanceof UnsupportedCurrencyError) {
+        return createErrorResponse(
+          `Currency ${accountCurrency} is not supported`,
+          CRASH_GAME_ERROR_CODES.INVALID_CURRENCY,
+        );
+      }
+      throw error;
+    }
+    const minBet = parseFloat(betConfig.minBetAmount);
+    const maxBet = parseFloat(betConfig.maxBetAmount);
+    if (betAmount < minBet || betAmount > maxBet) {
+      return createErrorResponse(
+        `Bet amount must be between ${minBet} and ${maxBet}`,
+        CRASH_GAME_ERROR_CODES.INVALID_BET_AMOUNT,
       );
     }
 
@@ -135,16 +220,18 @@ export class SugarDaddyGameBetService {
     if (betNumber !== 0 && betNumber !== 1) {
       return createErrorResponse(
         'Bet number must be 0 or 1',
-        SUGAR_DADDY_ERROR_CODES.INVALID_BET_NUMBER,
+        CRASH_GAME_ERROR_CODES.INVALID_BET_NUMBER,
       );
     }
 
     if (payload.coeffAuto !== undefined && payload.coeffAuto !== null) {
       const coeffAuto = parseFloat(payload.coeffAuto);
-      if (isNaN(coeffAuto) || coeffAuto < 1.00 || coeffAuto > 1000.00) {
+      // Rounds never go past the crash cap, so a higher target could never pay
+      const maxCoeffAuto = Math.min(1000.00, await this.crashGameService.getMaxCrashCoeff());
+      if (isNaN(coeffAuto) || coeffAuto < 1.00 || coeffAuto > maxCoeffAuto) {
         return createErrorResponse(
-          'Auto cashout coefficient must be between 1.00 and 1000.00',
-          SUGAR_DADDY_ERROR_CODES.INVALID_COEFF_AUTO,
+          `Auto cashout coefficient must be between 1.00 and ${maxCoeffAuto.toFixed(2)}`,
+          CRASH_GAME_ERROR_CODES.INVALID_COEFF_AUTO,
         );
       }
 
@@ -152,7 +239,7 @@ export class SugarDaddyGameBetService {
       if (decimalPlaces > 2) {
         return createErrorResponse(
           'Auto cashout coefficient must have at most 2 decimal places',
-          SUGAR_DADDY_ERROR_CODES.INVALID_COEFF_AUTO,
+          CRASH_GAME_ERROR_CODES.INVALID_COEFF_AUTO,
         );
       }
     }
@@ -175,12 +262,12 @@ export class SugarDaddyGameBetService {
     const betNumber = payload.betNumber ?? 0;
 
     // Check for existing bets in active round
-    const userBets = await this.sugarDaddyGameService.getUserBets(userId);
+    const userBets = await this.crashGameService.getUserBets(userId);
     const existingBetWithSameNumber = userBets.find(bet => bet.betNumber === betNumber);
     
     if (existingBetWithSameNumber) {
       // Verify bet is not refunded in database
-      const mappingKey = `sugar-daddy:bet:${existingBetWithSameNumber.playerGameId}`;
+      const mappingKey = `${this.gameCode}:bet:${existingBetWithSameNumber.playerGameId}`;
       const externalPlatformTxId = await this.redisService.get<string>(mappingKey);
       
       if (externalPlatformTxId) {
@@ -193,7 +280,7 @@ export class SugarDaddyGameBetService {
         } else {
           return createErrorResponse(
             `Bet already exists for betNumber ${betNumber}. Please cancel the existing bet first.`,
-            SUGAR_DADDY_ERROR_CODES.DUPLICATE_BET_NUMBER,
+            CRASH_GAME_ERROR_CODES.DUPLICATE_BET_NUMBER,
           );
         }
       } else {
@@ -205,11 +292,11 @@ export class SugarDaddyGameBetService {
     }
 
     // Also check for pending bets with the same betNumber
-    const existingPendingBet = await this.sugarDaddyGameService.getPendingBet(userId, betNumber);
+    const existingPendingBet = await this.crashGameService.getPendingBet(userId, betNumber);
     if (existingPendingBet) {
       return createErrorResponse(
         `Bet already exists for betNumber ${betNumber}. Please cancel the existing bet first.`,
-        SUGAR_DADDY_ERROR_CODES.DUPLICATE_BET_NUMBER,
+        CRASH_GAME_ERROR_CODES.DUPLICATE_BET_NUMBER,
       );
     }
 
@@ -235,7 +322,7 @@ export class SugarDaddyGameBetService {
       // If the bet was cancelled, the playerGameId won't exist and we need to create a new bet
       const cachedPlayerGameId = idempotencyCheck.data.response.playerGameId;
       if (cachedPlayerGameId) {
-        const cachedBet = await this.sugarDaddyGameService.getBet(cachedPlayerGameId);
+        const cachedBet = await this.crashGameService.getBet(cachedPlayerGameId);
         if (cachedBet && cachedBet.userId === userId) {
           this.logger.log(
             `[IDEMPOTENCY] Duplicate bet request detected: user=${userId} agent=${agentId} roundId=${roundId} amount=${betAmount} betNumber=${betNumber}. Returning stored response.`,
@@ -257,6 +344,26 @@ export class SugarDaddyGameBetService {
       }
     }
 
+    const maxWinAmount = await this.crashGameService.getBetMaxWinAmount(payload.currency, agentId);
+    const liabilityRejection = await this.crashGameService.checkBetLiability({
+      userId,
+      operatorId,
+      agentId,
+      currency: payload.currency,
+      betAmount: payload.betAmount,
+      coeffAuto: payload.coeffAuto,
+      maxWinAmount,
+    } as BetData);
+    if (liabilityRejection) {
+      this.logger.warn(
+        `[BET_PLACE] Rejected by liability limit: user=${userId} agent=${agentId} amount=${betAmount} reason=${liabilityRejection}`,
+      );
+      return createErrorResponse(
+        'Bet limit for this round reached. Please try again next round.',
+        CRASH_GAME_ERROR_CODES.LIABILITY_LIMIT_REACHED,
+      );
+    }
+
     this.logger.log(
       `[BET_PLACE] user=${userId} agent=${agentId} amount=${betAmount} currency=${payload.currency} roundId=${roundId} txId=${platformTxId} betNumber=${betNumber}`,
     );
@@ -277,7 +384,7 @@ export class SugarDaddyGameBetService {
       );
       return createErrorResponse(
         'Bet rejected by agent',
-        SUGAR_DADDY_ERROR_CODES.BET_REJECTED,
+        CRASH_GAME_ERROR_CODES.BET_REJECTED,
       );
     }
 
@@ -346,11 +453,11 @@ export class SugarDaddyGameBetService {
       
       return createErrorResponse(
         'Bet placement failed. Your balance has been refunded. Please try again.',
-        SUGAR_DADDY_ERROR_CODES.BET_REJECTED,
+        CRASH_GAME_ERROR_CODES.BET_REJECTED,
       );
     }
 
-    const mappingKey = `sugar-daddy:bet:${playerGameId}`;
+    const mappingKey = `${this.gameCode}:bet:${playerGameId}`;
     await this.redisService.set(mappingKey, platformTxId, 60 * 60 * 24);
 
     const betData: BetData = {
@@ -365,9 +472,11 @@ export class SugarDaddyGameBetService {
       playerGameId,
       coeffAuto: payload.coeffAuto,
       userAvatar,
+      maxWinAmount,
+      agentId,
     };
 
-    await this.sugarDaddyGameService.addBet(betData);
+    await this.crashGameService.addBet(betData);
 
     this.logger.log(
       `[BET_PLACED] user=${userId} playerGameId=${playerGameId} amount=${betAmount} currency=${payload.currency} betNumber=${betNumber}`,
@@ -405,7 +514,7 @@ export class SugarDaddyGameBetService {
   ): Promise<PlaceBetResponse> {
     const betAmount = parseFloat(payload.betAmount);
     const betNumber = payload.betNumber ?? 0;
-      const activeRound = await this.sugarDaddyGameService.getActiveRound();
+    const activeRound = await this.crashGameService.getActiveRound();
     const roundId = activeRound ? String(activeRound.roundId) : 'pending';
     const platformTxId = uuidv4();
 
@@ -428,7 +537,7 @@ export class SugarDaddyGameBetService {
       // If the bet was cancelled, the playerGameId won't exist and we need to create a new bet
       const cachedPlayerGameId = idempotencyCheck.data.response.playerGameId;
       if (cachedPlayerGameId) {
-        const allPendingBets = await this.sugarDaddyGameService.getAllPendingBetsForUser(userId);
+        const allPendingBets = await this.crashGameService.getAllPendingBetsForUser(userId);
         const cachedPendingBet = allPendingBets.find(bet => bet.playerGameId === cachedPlayerGameId);
         if (cachedPendingBet && cachedPendingBet.userId === userId) {
           this.logger.log(
@@ -471,14 +580,14 @@ export class SugarDaddyGameBetService {
       );
       return createErrorResponse(
         'Bet rejected by agent',
-        SUGAR_DADDY_ERROR_CODES.BET_REJECTED,
+        CRASH_GAME_ERROR_CODES.BET_REJECTED,
       );
     }
 
     // Store wallet result for potential refund
     const walletAmount = betAmount;
 
-      const existingPendingBet = await this.sugarDaddyGameService.getPendingBet(userId, betNumber);
+      const existingPendingBet = await this.crashGameService.getPendingBet(userId, betNumber);
     if (existingPendingBet) {
       this.logger.log(
         `[QUEUE_BET] Replacing existing pending bet for userId=${userId} betNumber=${betNumber}`,
@@ -505,10 +614,10 @@ export class SugarDaddyGameBetService {
     };
 
     try {
-      const pendingBetMappingKey = `sugar-daddy:pending_bet:${tempPlayerGameId}`;
+      const pendingBetMappingKey = `${this.gameCode}:pending_bet:${tempPlayerGameId}`;
       await this.redisService.set(pendingBetMappingKey, userId, 300);
 
-      await this.sugarDaddyGameService.queueBetForNextRound(pendingBet);
+      await this.crashGameService.queueBetForNextRound(pendingBet);
     } catch (storageError) {
       this.logger.error(
         `[COMPENSATING_TX] Pending bet storage failed after wallet deduction: user=${userId} txId=${platformTxId} error=${(storageError as Error).message}. Initiating refund.`,
@@ -550,7 +659,7 @@ export class SugarDaddyGameBetService {
       
       return createErrorResponse(
         'Bet queuing failed. Your balance has been refunded. Please try again.',
-        SUGAR_DADDY_ERROR_CODES.BET_REJECTED,
+        CRASH_GAME_ERROR_CODES.BET_REJECTED,
       );
     }
 
@@ -602,7 +711,7 @@ export class SugarDaddyGameBetService {
     };
 
     try {
-      const betIdentifiers = await this.sugarDaddyGameService.getAllPendingBetIdentifiers();
+      const betIdentifiers = await this.crashGameService.getAllPendingBetIdentifiers();
       
       this.logger.log(
         `[PROCESS_PENDING_BETS] Found ${betIdentifiers.length} pending bets to process for roundId=${roundId}`,
@@ -620,10 +729,10 @@ export class SugarDaddyGameBetService {
         }
 
         try {
-          const pendingBet = await this.sugarDaddyGameService.getPendingBet(userId, betNumber);
+          const pendingBet = await this.crashGameService.getPendingBet(userId, betNumber);
           
           if (!pendingBet) {
-            await this.sugarDaddyGameService.removePendingBet(userId, betNumber);
+            await this.crashGameService.removePendingBet(userId, betNumber);
             continue;
           }
 
@@ -632,19 +741,19 @@ export class SugarDaddyGameBetService {
             this.logger.warn(
               `[PROCESS_PENDING_BET] Invalid bet amount for userId=${userId} betNumber=${betNumber}, removing pending bet`,
             );
-            await this.sugarDaddyGameService.removePendingBet(userId, betNumber);
+            await this.crashGameService.removePendingBet(userId, betNumber);
             result.failed++;
             result.errors.push({ userId, error: 'Invalid bet amount' });
             continue;
           }
 
-          const userBets = await this.sugarDaddyGameService.getUserBets(userId);
+          const userBets = await this.crashGameService.getUserBets(userId);
           const existingBetWithSameNumber = userBets.find(bet => bet.betNumber === pendingBet.betNumber);
           if (existingBetWithSameNumber) {
             this.logger.warn(
               `[PROCESS_PENDING_BET] Duplicate betNumber ${pendingBet.betNumber} for userId=${userId}, removing pending bet`,
             );
-            await this.sugarDaddyGameService.removePendingBet(userId, betNumber);
+            await this.crashGameService.removePendingBet(userId, betNumber);
             result.failed++;
             result.errors.push({ userId, error: `Duplicate betNumber ${pendingBet.betNumber}` });
             continue;
@@ -654,7 +763,7 @@ export class SugarDaddyGameBetService {
             this.logger.error(
               `[PROCESS_PENDING_BET] Missing platformTxId for userId=${userId} betNumber=${betNumber}, removing pending bet`,
             );
-            await this.sugarDaddyGameService.removePendingBet(userId, betNumber);
+            await this.crashGameService.removePendingBet(userId, betNumber);
             result.failed++;
             result.errors.push({ userId, error: 'Missing platformTxId' });
             continue;
@@ -686,12 +795,12 @@ export class SugarDaddyGameBetService {
             operatorId: pendingBet.operatorId,
           });
 
-          const mappingKey = `sugar-daddy:bet:${playerGameId}`;
+          const mappingKey = `${this.gameCode}:bet:${playerGameId}`;
           await this.redisService.set(mappingKey, platformTxId, 60 * 60 * 24);
 
-          await this.sugarDaddyGameService.addPendingBetToRound(pendingBet, gameUUID, playerGameId);
+          await this.crashGameService.addPendingBetToRound(pendingBet, gameUUID, playerGameId);
 
-          await this.sugarDaddyGameService.removePendingBet(userId, betNumber);
+          await this.crashGameService.removePendingBet(userId, betNumber);
 
           result.processed++;
           this.logger.log(
@@ -701,7 +810,7 @@ export class SugarDaddyGameBetService {
           this.logger.error(
             `[PROCESS_PENDING_BET] Error processing bet for userId=${userId} betNumber=${betNumber}: ${error.message}`,
           );
-          await this.sugarDaddyGameService.removePendingBet(userId, betNumber);
+          await this.crashGameService.removePendingBet(userId, betNumber);
           result.failed++;
           result.errors.push({ userId, error: error.message || 'Failed to process bet' });
         }
@@ -739,7 +848,7 @@ export class SugarDaddyGameBetService {
   } | null> {
     try {
       // First try to get from activeRound (for current round bets)
-      const activeRound = await this.sugarDaddyGameService.getActiveRound();
+      const activeRound = await this.crashGameService.getActiveRound();
       
       if (activeRound && activeRound.serverSeed) {
         // Check if this is the correct round
@@ -778,7 +887,7 @@ export class SugarDaddyGameBetService {
               ? decimalValue.toExponential() 
               : decimalValue.toString();
 
-            const topClientsSeeds = this.sugarDaddyGameService.buildTopClientsSeeds();
+            const topClientsSeeds = this.crashGameService.buildTopClientsSeeds();
 
             return {
               decimal,
@@ -807,7 +916,7 @@ export class SugarDaddyGameBetService {
       // If not found in activeRound, try to get from coefficient history (for older bets or current round)
       // IMPORTANT: For current round, coefficient history is stored during endRound(), so it should be available
       if (roundId) {
-        const coefficientsHistory = await this.sugarDaddyGameService.getCoefficientsHistory(1000);
+        const coefficientsHistory = await this.crashGameService.getCoefficientsHistory(1000);
         const coeffHistory = coefficientsHistory.find(h => h.gameId === roundId);
         
         if (coeffHistory && coeffHistory.serverSeed) {
@@ -904,7 +1013,7 @@ export class SugarDaddyGameBetService {
             ? decimalValue.toExponential() 
             : decimalValue.toString();
 
-          const topClientsSeeds = this.sugarDaddyGameService.buildTopClientsSeeds();
+          const topClientsSeeds = this.crashGameService.buildTopClientsSeeds();
 
           return {
             decimal,
@@ -931,28 +1040,38 @@ export class SugarDaddyGameBetService {
     operatorId: string,
     gameCode: string,
     playerGameId: string,
-  ): Promise<{ success: boolean; error?: string; code?: string; bet?: BetData; balance?: string; balanceCurrency?: string }> {
+    timing?: CashoutTiming,
+    partial?: PartialCashoutRequest,
+  ): Promise<{
+    success: boolean;
+    error?: string;
+    code?: string;
+    bet?: BetData;
+    partialCashout?: PartialCashout;
+    balance?: string;
+    balanceCurrency?: string;
+  }> {
     try {
-      const activeRound = await this.sugarDaddyGameService.getActiveRound();
+      const activeRound = await this.crashGameService.getActiveRound();
       if (!activeRound || activeRound.status !== GameStatus.IN_GAME) {
         return createErrorResponse(
           'Cannot cash out: game not in IN_GAME state',
-          SUGAR_DADDY_ERROR_CODES.INVALID_GAME_STATE,
+          CRASH_GAME_ERROR_CODES.INVALID_GAME_STATE,
         );
       }
 
-      let bet = await this.sugarDaddyGameService.getBet(playerGameId);
+      let bet = await this.crashGameService.getBet(playerGameId);
       
       if (!bet) {
         this.logger.debug(
           `[CASHOUT] Bet not found in active round, checking if it's pending: playerGameId=${playerGameId}`,
         );
         
-        const pendingBetMappingKey = `sugar-daddy:pending_bet:${playerGameId}`;
+        const pendingBetMappingKey = `${this.gameCode}:pending_bet:${playerGameId}`;
         const pendingBetUserId = await this.redisService.get<string>(pendingBetMappingKey);
         
         if (pendingBetUserId && pendingBetUserId === userId) {
-          const allPendingBets = await this.sugarDaddyGameService.getAllPendingBetsForUser(userId);
+          const allPendingBets = await this.crashGameService.getAllPendingBetsForUser(userId);
           const pendingBet = allPendingBets.find(bet => bet.playerGameId === playerGameId) || null;
           
           if (pendingBet) {
@@ -961,12 +1080,12 @@ export class SugarDaddyGameBetService {
             );
             return createErrorResponse(
               'Bet is still pending and will be placed in the next round. You can cancel it instead of cashing out.',
-              SUGAR_DADDY_ERROR_CODES.BET_NOT_FOUND,
+              CRASH_GAME_ERROR_CODES.BET_NOT_FOUND,
             );
           }
         }
         
-        const mappingKey = `sugar-daddy:bet:${playerGameId}`;
+        const mappingKey = `${this.gameCode}:bet:${playerGameId}`;
         const platformTxId = await this.redisService.get<string>(mappingKey);
         
         if (platformTxId) {
@@ -1018,7 +1137,7 @@ export class SugarDaddyGameBetService {
         );
         return createErrorResponse(
           'Bet not found',
-          SUGAR_DADDY_ERROR_CODES.BET_NOT_FOUND,
+          CRASH_GAME_ERROR_CODES.BET_NOT_FOUND,
         );
       }
       
@@ -1029,25 +1148,76 @@ export class SugarDaddyGameBetService {
       if (bet.userId !== userId) {
         return createErrorResponse(
           'Bet does not belong to user',
-          SUGAR_DADDY_ERROR_CODES.BET_NOT_FOUND,
+          CRASH_GAME_ERROR_CODES.BET_NOT_FOUND,
         );
       }
 
       if (bet.coeffWin && bet.winAmount) {
         return createErrorResponse(
           'Bet already cashed out',
-          SUGAR_DADDY_ERROR_CODES.BET_ALREADY_CASHED_OUT,
+          CRASH_GAME_ERROR_CODES.BET_ALREADY_CASHED_OUT,
+        );
+      }
+
+      // Priced by the server from the receive time, not the last tick: manual cashouts when the
+      // request arrived, auto and forced cashouts (max win, liability limit) when processed
+      const receivedAt = timing ? timing.receivedAt : Date.now();
+      const price = await this.crashGameService.priceCashout(receivedAt, timing?.rttMs);
+      if (!price || price.tooLate) {
+        this.logger.warn(
+          `[CASHOUT] Rejected late cashout: playerGameId=${playerGameId} receivedAt=${receivedAt} crashAt=${price ? Math.round(price.crashAt) : 'N/A'} auto=${!timing}`,
+        );
+        return createErrorResponse(
+          'Cannot cash out: round already crashed',
+          CRASH_GAME_ERROR_CODES.CASHOUT_TOO_LATE,
         );
       }
 
-      // For auto-cashout bets, use the bet's coeffAuto; for manual cashout, use currentCoeff
-      const cashoutCoeff = bet.coeffAuto ? parseFloat(bet.coeffAuto) : activeRound.currentCoeff;
-      const cashedOutBet = await this.sugarDaddyGameService.cashOutBet(playerGameId, cashoutCoeff);
+      let cashoutCoeff = price.coeff;
+      if (!timing) {
+        // Auto cashout pays the bet's target coefficient once reached; forced cashouts happen below it
+        const autoCoeff = bet.coeffAuto ? parseFloat(bet.coeffAuto) : null;
+        if (autoCoeff !== null && autoCoeff <= price.coeff) {
+          cashoutCoeff = autoCoeff;
+        }
+      }
+
+      if (partial) {
+        const stakeInPlay = betStakeInPlay(bet);
+        const stake = resolvePartialStake(stakeInPlay, partial);
+        if (stake === null) {
+          return createErrorResponse(
+            `Invalid partial cashout: fraction must be in (0, 1] or amount in (0, ${stakeInPlay.toFixed(2)}]`,
+            CRASH_GAME_ERROR_CODES.INVALID_CASHOUT_AMOUNT,
+          );
+        }
+
+        // Taking the whole stake, or a part that reaches the payout cap, is a regular cashout
+        const maxWin = parseFloat(bet.maxWinAmount || '');
+        const reachesMaxWin = maxWin > 0 && betLockedWin(bet) + stake * cashoutCoeff >= maxWin;
+        if (stake < stakeInPlay && !reachesMaxWin) {
+          const partialBet = await this.crashGameService.partialCashOutBet(playerGameId, cashoutCoeff, stake);
+          if (!partialBet?.partialCashouts?.length) {
+            return createErrorResponse(
+              'Failed to cash out bet',
+              CRASH_GAME_ERROR_CODES.BET_REJECTED,
+            );
+          }
+
+          // Nothing is paid yet: the wallet settles the bet once, when the rest is cashed out or crashes
+          return createSuccessResponse({
+            bet: partialBet,
+            partialCashout: partialBet.partialCashouts[partialBet.partialCashouts.length - 1],
+          });
+        }
+      }
+
+      const cashedOutBet = await this.crashGameService.cashOutBet(playerGameId, cashoutCoeff);
 
       if (!cashedOutBet) {
         return createErrorResponse(
           'Failed to cash out bet',
-          SUGAR_DADDY_ERROR_CODES.BET_REJECTED,
+          CRASH_GAME_ERROR_CODES.BET_REJECTED,
         );
       }
 
@@ -1059,7 +1229,7 @@ export class SugarDaddyGameBetService {
         `[CASHOUT] user=${userId} playerGameId=${playerGameId} coeff=${cashedOutBet.coeffWin} winAmount=${winAmount}`,
       );
 
-      const mappingKey = `sugar-daddy:bet:${playerGameId}`;
+      const mappingKey = `${this.gameCode}:bet:${playerGameId}`;
       const externalPlatformTxId = await this.redisService.get<string>(mappingKey);
 
       if (!externalPlatformTxId) {
@@ -1068,7 +1238,7 @@ export class SugarDaddyGameBetService {
         );
         return createErrorResponse(
           'Bet record not found',
-          SUGAR_DADDY_ERROR_CODES.BET_NOT_FOUND,
+          CRASH_GAME_ERROR_CODES.BET_NOT_FOUND,
         );
       }
 
@@ -1080,7 +1250,7 @@ export class SugarDaddyGameBetService {
         );
         return createErrorResponse(
           'Bet record not found',
-          SUGAR_DADDY_ERROR_CODES.BET_NOT_FOUND,
+          CRASH_GAME_ERROR_CODES.BET_NOT_FOUND,
         );
       }
 
@@ -1098,7 +1268,7 @@ export class SugarDaddyGameBetService {
       await this.betService.recordSettlement({
         externalPlatformTxId,
         winAmount: cashedOutBet.winAmount || '0',
-        settleType: 'cashout',
+        settleType: cashedOutBet.maxWinCapped ? 'max_win' : 'cashout',
         settledAt: new Date(),
         updatedBy: userId,
         withdrawCoeff: cashedOutBet.coeffWin,
@@ -1127,7 +1297,7 @@ export class SugarDaddyGameBetService {
         );
         return createErrorResponse(
           'Wallet settlement failed',
-          SUGAR_DADDY_ERROR_CODES.BET_REJECTED,
+          CRASH_GAME_ERROR_CODES.BET_REJECTED,
         );
       }
 
@@ -1142,7 +1312,7 @@ export class SugarDaddyGameBetService {
       this.logger.error(`[CASHOUT_ERROR] user=${userId} error=${error.message}`);
       return createErrorResponse(
         error.message || 'Failed to cash out',
-        SUGAR_DADDY_ERROR_CODES.BET_REJECTED,
+        CRASH_GAME_ERROR_CODES.BET_REJECTED,
       );
     }
   }
@@ -1156,7 +1326,7 @@ export class SugarDaddyGameBetService {
         bet.status === BetStatus.WON || bet.status === BetStatus.LOST
       );
       
-      const coefficientsHistory = await this.sugarDaddyGameService.getCoefficientsHistory(1000);
+      const coefficientsHistory = await this.crashGameService.getCoefficientsHistory(1000);
       const coeffHistoryMap = new Map<number, any>();
       coefficientsHistory.forEach((coeff) => {
         coeffHistoryMap.set(coeff.gameId, coeff);
@@ -1265,35 +1435,35 @@ export class SugarDaddyGameBetService {
     balanceCurrency?: string;
   }> {
     try {
-      const activeRound = await this.sugarDaddyGameService.getActiveRound();
+      const activeRound = await this.crashGameService.getActiveRound();
       
       // First, try to find the bet in active round by playerGameId
       let bet: BetData | null = null;
       if (activeRound) {
-        bet = await this.sugarDaddyGameService.getBet(playerGameId);
+        bet = await this.crashGameService.getBet(playerGameId);
       }
 
       // If not found in active round, check if it's a pending bet
       let pendingBet: PendingBet | null = null;
       if (!bet) {
-        const pendingBetMappingKey = `sugar-daddy:pending_bet:${playerGameId}`;
+        const pendingBetMappingKey = `${this.gameCode}:pending_bet:${playerGameId}`;
         const pendingBetUserId = await this.redisService.get<string>(pendingBetMappingKey);
         
         if (pendingBetUserId && pendingBetUserId === userId) {
-          const allPendingBets = await this.sugarDaddyGameService.getAllPendingBetsForUser(userId);
+          const allPendingBets = await this.crashGameService.getAllPendingBetsForUser(userId);
           pendingBet = allPendingBets.find(bet => bet.playerGameId === playerGameId) || null;
         }
       }
 
       // If still not found, try to find by Redis mapping key (fallback for active bets)
       if (!bet && !pendingBet) {
-        const mappingKey = `sugar-daddy:bet:${playerGameId}`;
+        const mappingKey = `${this.gameCode}:bet:${playerGameId}`;
         const externalPlatformTxId = await this.redisService.get<string>(mappingKey);
         
         if (externalPlatformTxId) {
           // Found mapping, try to find bet in active round by matching properties
           if (activeRound) {
-            const userBets = await this.sugarDaddyGameService.getUserBets(userId);
+            const userBets = await this.crashGameService.getUserBets(userId);
             // Try to find bet by matching platformTxId from database
             try {
               const betRecord = await this.betService.getByExternalTxId(externalPlatformTxId, gameCode);
@@ -1326,7 +1496,7 @@ export class SugarDaddyGameBetService {
 
       // If still not found, check all pending bets for this user (by betNumber if we can infer it)
       if (!bet && !pendingBet) {
-        const allPendingBets = await this.sugarDaddyGameService.getAllPendingBetsForUser(userId);
+        const allPendingBets = await this.crashGameService.getAllPendingBetsForUser(userId);
         pendingBet = allPendingBets.find(bet => bet.playerGameId === playerGameId) || null;
       }
 
@@ -1336,7 +1506,7 @@ export class SugarDaddyGameBetService {
         );
         return createErrorResponse(
           'Bet not found',
-          SUGAR_DADDY_ERROR_CODES.BET_NOT_FOUND,
+          CRASH_GAME_ERROR_CODES.BET_NOT_FOUND,
         );
       }
 
@@ -1344,32 +1514,32 @@ export class SugarDaddyGameBetService {
         if (bet.userId !== userId) {
           return createErrorResponse(
             'Bet does not belong to user',
-            SUGAR_DADDY_ERROR_CODES.BET_NOT_FOUND,
+            CRASH_GAME_ERROR_CODES.BET_NOT_FOUND,
           );
         }
 
         if (bet.coeffWin && bet.winAmount) {
           return createErrorResponse(
             'Cannot cancel bet: already cashed out',
-            SUGAR_DADDY_ERROR_CODES.CANNOT_CANCEL_BET,
+            CRASH_GAME_ERROR_CODES.CANNOT_CANCEL_BET,
           );
         }
 
         if (activeRound?.status === GameStatus.FINISH_GAME) {
           return createErrorResponse(
             'Cannot cancel bet: round already finished',
-            SUGAR_DADDY_ERROR_CODES.CANNOT_CANCEL_BET,
+            CRASH_GAME_ERROR_CODES.CANNOT_CANCEL_BET,
           );
         }
 
         // Use the actual bet's playerGameId (in case we found it via fallback)
         const betPlayerGameId = bet.playerGameId || playerGameId;
-        let mappingKey = `sugar-daddy:bet:${betPlayerGameId}`;
+        let mappingKey = `${this.gameCode}:bet:${betPlayerGameId}`;
         let externalPlatformTxId = await this.redisService.get<string>(mappingKey);
 
         // If mapping not found with bet's playerGameId, try the original playerGameId
         if (!externalPlatformTxId && betPlayerGameId !== playerGameId) {
-          const fallbackMappingKey = `sugar-daddy:bet:${playerGameId}`;
+          const fallbackMappingKey = `${this.gameCode}:bet:${playerGameId}`;
           const fallbackPlatformTxId = await this.redisService.get<string>(fallbackMappingKey);
           if (fallbackPlatformTxId) {
             this.logger.log(
@@ -1388,7 +1558,7 @@ export class SugarDaddyGameBetService {
           );
           return createErrorResponse(
             'Bet record not found',
-            SUGAR_DADDY_ERROR_CODES.BET_NOT_FOUND,
+            CRASH_GAME_ERROR_CODES.BET_NOT_FOUND,
           );
         }
 
@@ -1399,7 +1569,7 @@ export class SugarDaddyGameBetService {
           );
           return createErrorResponse(
             'Bet record not found',
-            SUGAR_DADDY_ERROR_CODES.BET_NOT_FOUND,
+            CRASH_GAME_ERROR_CODES.BET_NOT_FOUND,
           );
         }
 
@@ -1429,7 +1599,7 @@ export class SugarDaddyGameBetService {
           );
           return createErrorResponse(
             'Failed to refund bet',
-            SUGAR_DADDY_ERROR_CODES.BET_REJECTED,
+            CRASH_GAME_ERROR_CODES.BET_REJECTED,
           );
         }
 
@@ -1441,7 +1611,7 @@ export class SugarDaddyGameBetService {
 
         // Delete bet from active round
         // Reload active round to ensure we have the latest state before deletion
-        const currentActiveRound = await this.sugarDaddyGameService.getActiveRound();
+        const currentActiveRound = await this.crashGameService.getActiveRound();
         if (currentActiveRound) {
           // Delete using the bet's actual playerGameId (which may have been updated)
           const finalPlayerGameId = bet.playerGameId || playerGameId;
@@ -1454,13 +1624,13 @@ export class SugarDaddyGameBetService {
           
           // Save the active round immediately to persist the deletion
           // This ensures the game state broadcast shows the correct state
-          await this.sugarDaddyGameService.saveActiveRoundToRedis();
+          await this.crashGameService.saveActiveRoundToRedis();
         }
 
         await this.redisService.del(mappingKey);
 
         // Clear idempotency key to prevent reusing the same playerGameId for a new bet
-        const currentRoundForIdempotency = await this.sugarDaddyGameService.getActiveRound();
+        const currentRoundForIdempotency = await this.crashGameService.getActiveRound();
         if (currentRoundForIdempotency) {
           const roundId = String(currentRoundForIdempotency.roundId);
           const idempotencyKey = this.redisService.generateIdempotencyKey(
@@ -1494,7 +1664,7 @@ export class SugarDaddyGameBetService {
         if (pendingBet.userId !== userId) {
           return createErrorResponse(
             'Bet does not belong to user',
-            SUGAR_DADDY_ERROR_CODES.BET_NOT_FOUND,
+            CRASH_GAME_ERROR_CODES.BET_NOT_FOUND,
           );
         }
 
@@ -1523,18 +1693,18 @@ export class SugarDaddyGameBetService {
           );
           return createErrorResponse(
             'Failed to refund bet',
-            SUGAR_DADDY_ERROR_CODES.BET_REJECTED,
+            CRASH_GAME_ERROR_CODES.BET_REJECTED,
           );
         }
 
         if (pendingBet.betNumber !== undefined) {
-          await this.sugarDaddyGameService.removePendingBet(userId, pendingBet.betNumber);
+          await this.crashGameService.removePendingBet(userId, pendingBet.betNumber);
         } else {
-          await this.sugarDaddyGameService.removePendingBet(userId);
+          await this.crashGameService.removePendingBet(userId);
         }
 
         // Clear idempotency key for pending bet to prevent reusing the same playerGameId
-        const currentRoundForPending = await this.sugarDaddyGameService.getActiveRound();
+        const currentRoundForPending = await this.crashGameService.getActiveRound();
         const roundIdForPending = currentRoundForPending ? String(currentRoundForPending.roundId) : 'pending';
         const idempotencyKeyForPending = this.redisService.generateIdempotencyKey(
           gameCode,
@@ -1564,20 +1734,20 @@ export class SugarDaddyGameBetService {
 
       return createErrorResponse(
         'Bet not found',
-        SUGAR_DADDY_ERROR_CODES.BET_NOT_FOUND,
+        CRASH_GAME_ERROR_CODES.BET_NOT_FOUND,
       );
     } catch (error: any) {
       this.logger.error(`[CANCEL_BET_ERROR] user=${userId} error=${error.message}`);
       return createErrorResponse(
         error.message || 'Failed to cancel bet',
-        SUGAR_DADDY_ERROR_CODES.BET_REJECTED,
+        CRASH_GAME_ERROR_CODES.BET_REJECTED,
       );
     }
   }
 
   async settleUncashedBets(roundId: number, gameCode: string): Promise<void> {
     try {
-      const activeRound = await this.sugarDaddyGameService.getActiveRound();
+      const activeRound = await this.crashGameService.getActiveRound();
       if (!activeRound) {
         this.logger.warn(`[SETTLE_UNCASHED] No active round found for roundId=${roundId}`);
         return;
@@ -1612,7 +1782,8 @@ export class SugarDaddyGameBetService {
         const winAmount = parseFloat(bet.winAmount || '0');
         const coeffWin = parseFloat(bet.coeffWin || '0');
 
-        if (winAmount > 0 && coeffWin > 0) {
+        // Bets crashed after a partial cashout carry their locked win but still need settling
+        if (winAmount > 0 && coeffWin > 0 && !hasStakeInPlay(bet)) {
           cashedOutBets.push({ playerGameId, bet });
         } else {
           uncashedBets.push({ playerGameId, bet });
@@ -1621,7 +1792,7 @@ export class SugarDaddyGameBetService {
 
       for (const { playerGameId, bet } of cashedOutBets) {
         try {
-          const mappingKey = `sugar-daddy:bet:${playerGameId}`;
+          const mappingKey = `${this.gameCode}:bet:${playerGameId}`;
           const externalPlatformTxId = await this.redisService.get<string>(mappingKey);
 
           if (externalPlatformTxId) {
@@ -1668,7 +1839,7 @@ export class SugarDaddyGameBetService {
             `[SETTLE_UNCASHED] Processing uncashed bet: playerGameId=${playerGameId} userId=${bet.userId} betAmount=${bet.betAmount}`,
           );
           
-          const mappingKey = `sugar-daddy:bet:${playerGameId}`;
+          const mappingKey = `${this.gameCode}:bet:${playerGameId}`;
           const externalPlatformTxId = await this.redisService.get<string>(mappingKey);
 
           if (!externalPlatformTxId) {
@@ -1693,7 +1864,9 @@ export class SugarDaddyGameBetService {
             continue;
           }
 
-          const winAmount = '0';
+          const lockedWin = betLockedWin(bet);
+          const winAmount = lockedWin.toFixed(2);
+          const withdrawCoeff = lockedWin > 0 ? bet.coeffWin || '0.00' : '0.00';
           const finalCoeff = crashCoeff.toFixed(2);
 
           // Generate fairness data for the bet - pass roundId to get from coefficient history if needed
@@ -1705,7 +1878,7 @@ export class SugarDaddyGameBetService {
               `[SETTLE_UNCASHED] fairnessData generation failed for userId=${bet.userId} roundId=${roundId}, attempting fallback`,
             );
             
-            const coefficientsHistory = await this.sugarDaddyGameService.getCoefficientsHistory(1000);
+            const coefficientsHistory = await this.crashGameService.getCoefficientsHistory(1000);
             const coeffHistory = coefficientsHistory.find(h => h.gameId === roundId);
             
             if (coeffHistory && coeffHistory.serverSeed) {
@@ -1739,7 +1912,7 @@ export class SugarDaddyGameBetService {
             settleType: 'crash',
             settledAt: new Date(),
             updatedBy: 'system',
-            withdrawCoeff: '0.00',
+            withdrawCoeff,
             finalCoeff,
             fairnessData: fairnessData ?? undefined,
           });
@@ -1753,7 +1926,7 @@ export class SugarDaddyGameBetService {
             agentId: bet.operatorId,
             userId: bet.userId,
             platformTxId: externalPlatformTxId,
-            winAmount: 0,
+            winAmount: lockedWin,
             roundId: String(roundId),
             betAmount,
             gameCode,
@@ -1762,7 +1935,7 @@ export class SugarDaddyGameBetService {
           await this.redisService.del(mappingKey);
 
           this.logger.log(
-            `[SETTLE_UNCASHED] ✅ Settled uncashed bet: userId=${bet.userId} playerGameId=${playerGameId} externalPlatformTxId=${externalPlatformTxId} winAmount=0 status=LOST fairnessData=${fairnessData ? 'stored' : 'missing'}`,
+            `[SETTLE_UNCASHED] ✅ Settled uncashed bet: userId=${bet.userId} playerGameId=${playerGameId} externalPlatformTxId=${externalPlatformTxId} winAmount=${winAmount} status=${lockedWin > 0 ? 'WON' : 'LOST'} fairnessData=${fairnessData ? 'stored' : 'missing'}`,
           );
         } catch (error: any) {
           this.logger.error(
@@ -0,0 +1,69 @@
+import { GAME_CONSTANTS } from '../../../common/game-constants';
+import { MockBetsConfig } from '../mock-bets.service';
+import { MultiplierCurve } from '../crash-multiplier-curve.util';
+
+/**
+ * Crash game kit - declaration of a crash title
+ *
+ * A crash game is fully described by a CrashGameDefinition; CrashGameKitModule.register()
+ * turns it into the service, bet service, handler, scheduler and dispatcher registration.
+ * Redis keys are derived from the game code (`<gameCode>:active_round`, `<gameCode>:bet:<id>`, ...).
+ */
+
+/**
+ * Engine constants of a crash game (same shape as GAME_CONSTANTS.SUGAR_DADDY)
+ */
+export type CrashGameConstants = {
+  readonly [K in keyof typeof GAME_CONSTANTS.SUGAR_DADDY]: K extends 'DEFAULT_DISTRIBUTION'
+    ? {
+        readonly ranges: ReadonlyArray<{ name: string; min: number; max: number; weight: number }>;
+        readonly distributionType: 'uniform' | 'power';
+      }
+    : number;
+};
+
+export interface CrashBetConfig {
+  minBetAmount: string;
+  maxBetAmount: string;
+  maxWinAmount: string;
+  defaultBetAmount: string;
+  betPresets: readonly string[];
+  decimalPlaces: string;
+  currency: string;
+}
+
+/**
+ * Presentation hooks - everything a title may change without touching the engine
+ */
+export interface CrashGameTheme {
+  /** Chat rooms are `<chatRoomPrefix>-chat-<language>` (default: game code) */
+  chatRoomPrefix?: string;
+  /** First system message of the chat (default: "Welcome to <gameName>! Good luck! 🍀") */
+  welcomeMessage?: string;
+  /** Overrides for the simulated bets shown in each round */
+  mockBets?: Partial<MockBetsConfig>;
+}
+
+export interface CrashGameDefinition {
+  gameCode: string;
+  gameName: string;
+  platform: string;
+  gameType: string;
+  settleType: string;
+  /** Extra game codes served by the same handler */
+  additionalGameCodes?: string[];
+  constants: CrashGameConstants;
+  defaults: {
+    rtp: number;
+    betConfig: CrashBetConfig;
+    currency: string;
+    /** Used when the game has no multiplierCurve config (default: linear at COEFF_SPEED_PER_SECOND) */
+    multiplierCurve?: MultiplierCurve;
+  };
+  theme?: CrashGameTheme;
+}
+
+/**
+ * Injection token of the definition inside a kit module
+ */
+export const CRASH_GAME_DEFINITION = 'CRASH_GAME_DEFINITION';
@@ -0,0 +1,117 @@
+import { DynamicModule, Inject, Logger, Module, OnModuleInit } from '@nestjs/common';
+import { ScheduleModule } from '@nestjs/schedule';
+import { JwtTokenModule, UserModule, AgentsModule } from '@games-vector/game-core';
+import { RedisModule } from '../../../modules/redis/redis.module';
+import { GameModule } from '../../../modules/games/game.module';
+import { GameService } from '../../../modules/games/game.service';
+import { GameConfigModule } from '../../../modules/game-config/game-config.module';
+import { CrashRoundHistoryModule } from '../../../modules/crash-round-history/crash-round-history.module';
+import { SeedChainModule } from '../../../modules/seed-chain/seed-chain.module';
+import { MaintenanceModule } from '../../../modules/maintenance/maintenance.module';
+import { GameAvailabilityModule } from '../../../modules/game-availability/game-availability.module';
+import { BetLimitsModule } from '../../../modules/bet-limits/bet-limits.module';
+import { CurrencyRatesModule } from '../../../modules/currency-rates/currency-rates.module';
+import { GameDispatcherService } from '../../game-dispatcher.service';
+import { GameRegistryService } from '../../game-registry.service';
+import { CrashGameRegistryService } from './crash-game-registry.service';
+import { initializeGameModule, IBaseGameModule } from '../../interfaces/base-game-module.interface';
+import { CRASH_GAME_DEFINITION } from './crash-game-definition';
+import type { CrashGameDefinition } from './crash-game-definition';
+import { CrashGameService } from './crash-game.service';
+import { CrashGameHandler } from './crash-game.handler';
+import { CrashGameScheduler } from './crash-game.scheduler';
+import { CrashGameBetService } from './crash-game-bet.service';
+import { CrashGameAutobetService } from './crash-game-autobet.service';
+
+/**
+ * Crash Game Kit Module
+ *
+ * Wires a CrashGameDefinition into the crash engine and registers it with the dispatcher:
+ *   @Module({ imports: [CrashGameKitModule.register(MY_CRASH_GAME)] })
+ */
+@Module({})
+export class CrashGameKitModule implements OnModuleInit, IBaseGameModule {
+  private readonly logger: Logger;
+
+  constructor(
+    private readonly gameService: GameService,
+    private readonly gameDispatcher: GameDispatcherService,
+    private readonly gameRegistry: GameRegistryService,
+    private readonly crashGameRegistry: CrashGameRegistryService,
+    private readonly crashGameHandler: CrashGameHandler,
+    @Inject(CRASH_GAME_DEFINITION)
+    private readonly definition: CrashGameDefinition,
+  ) {
+    this.logger = new Logger(`${CrashGameKitModule.name}[${definition.gameCode}]`);
+    if (!this.gameDispatcher) {
+      this.logger.error('[CRASH_GAME_MODULE] GameDispatcherService is not available!');
+    }
+  }
+
+  static register(definition: CrashGameDefinition): DynamicModule {
+    return {
+      module: CrashGameKitModule,
+      imports: [
+        ScheduleModule.forRoot(),
+        JwtTokenModule,
+        UserModule,
+        AgentsModule,
+        RedisModule,
+        GameModule,
+        GameConfigModule,
+        CrashRoundHistoryModule,
+        SeedChainModule,
+        MaintenanceModule,
+        GameAvailabilityModule,
+        BetLimitsModule,
+        CurrencyRatesModule,
+      ],
+      providers: [
+        { provide: CRASH_GAME_DEFINITION, useValue: definition },
+        CrashGameService,
+        CrashGameHandler,
+        CrashGameScheduler,
+        CrashGameBetService,
+        CrashGameAutobetService,
+      ],
+      exports: [
+        CrashGameService,
+        CrashGameHandler,
+      ],
+    };
+  }
+
+  getHandler() {
+    return this.crashGameHandler;
+  }
+
+  getGameCode(): string {
+    return this.definition.gameCode;
+  }
+
+  getAdditionalGameCodes(): string[] {
+    return this.definition.additionalGameCodes || [];
+  }
+
+  async onModuleInit() {
+    this.crashGameRegistry.register(this.definition);
+
+    await initializeGameModule(
+      this,
+      {
+        gameCode: this.getGameCode(),
+        gameName: this.definition.gameName,
+        platform: this.definition.platform,
+        gameType: this.definition.gameType,
+        settleType: this.definition.settleType,
+        isActive: true,
+        additionalGameCodes: this.getAdditionalGameCodes(),
+      },
+      this.gameDispatcher,
+      this.gameService,
+      this.logger,
+    );
+
+    this.gameRegistry.refreshRegistry();
+  }
+}
@@ -0,0 +1,28 @@
+import { Injectable, Logger } from '@nestjs/common';
+import type { CrashGameDefinition } from './crash-game-definition';
+
+/**
+ * Crash Game Registry Service
+ *
+ * Definitions of the crash games this instance runs, filled by CrashGameKitModule as each
+ * registered game starts. Routes that serve every crash game (fairness verification, seed
+ * chains) look games up here instead of listing them.
+ */
+@Injectable()
+export class CrashGameRegistryService {
+  private readonly logger = new Logger(CrashGameRegistryService.name);
+  private readonly definitions = new Map<string, CrashGameDefinition>();
+
+  register(definition: CrashGameDefinition): void {
+    this.definitions.set(definition.gameCode, definition);
+    this.logger.log(`Crash game registered: ${definition.gameCode}`);
+  }
+
+  getDefinition(gameCode: string): CrashGameDefinition | undefined {
+    return this.definitions.get(gameCode);
+  }
+
+  getGameCodes(): string[] {
+    return Array.from(this.definitions.keys());
+  }
+}
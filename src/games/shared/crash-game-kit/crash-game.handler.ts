@@ -1,13 +1,20 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Inject, Injectable, Logger } from '@nestjs/common';
 import { Server, Socket } from 'socket.io';
 import { JwtTokenService, UserTokenPayload, WalletService, UserService, AgentsService } from '@games-vector/game-core';
-import { SugarDaddyGameService } from './sugar-daddy-game.service';
-import { SugarDaddyGameBetService, PlaceBetPayload } from './sugar-daddy-game-bet.service';
-import { GameService } from '../../modules/games/game.service';
-import { GameStatus, CoefficientChangePayload, GameStateChangePayload, LatencyTestPayload, OnConnectGamePayload, BetData } from './DTO/game-state.dto';
-import { JoinChatRoomPayload, ChatMessage } from './DTO/chat.dto';
-import { DEFAULTS } from '../../config/defaults.config';
-import { IGameHandler, GameConnectionContext } from '../interfaces/game-handler.interface';
+import { CrashGameService } from './crash-game.service';
+import { CrashGameBetService, PartialCashoutRequest, PlaceBetPayload } from './crash-game-bet.service';
+import { CrashGameAutobetService } from './crash-game-autobet.service';
+import { CRASH_GAME_DEFINITION } from './crash-game-definition';
+import type { CrashGameDefinition } from './crash-game-definition';
+import { GameService } from '../../../modules/games/game.service';
+import { GameStatus, CoefficientChangePayload, GameStateChangePayload, LatencyTestPayload, OnConnectGamePayload, BetData } from '../DTO/game-state.dto';
+import { JoinChatRoomPayload, ChatMessage } from '../DTO/chat.dto';
+import { DEFAULTS } from '../../../config/defaults.config';
+import { AutobetSeries } from '../crash-autobet.util';
+import { CRASH_GAME_ERROR_CODES } from '../error-helpers';
+import { IGameHandler, GameConnectionContext, GamePlayerContext } from '../../interfaces/game-handler.interface';
+import { CurrencyRatesService } from '../../../modules/currency-rates/currency-rates.service';
+import { UnsupportedCurrencyError } from '../../../modules/bet-limits/bet-limits.util';
 
 const WS_EVENTS = {
   GAME_SERVICE_ON_CHANGE_COEFF: 'gameService-onChangeCoeffGame',
@@ -27,13 +34,21 @@ const WS_EVENTS = {
   BET: 'bet',
   CASHOUT: 'cashout',
   WITHDRAW: 'withdraw',
+  AUTOBET_PROGRESS: 'gameService-onAutobetProgress',
 } as const;
 
+/**
+ * Room of one player's sockets (all pods, through the Redis adapter)
+ */
+function userRoom(gameCode: string, agentId: string, userId: string): string {
+  return `user:${gameCode}:${agentId}:${userId}`;
+}
+
 @Injectable()
-export class SugarDaddyGameHandler implements IGameHandler {
-  readonly gameCode = DEFAULTS.SUGAR_DADDY.GAME_CODE;
+export class CrashGameHandler implements IGameHandler {
+  readonly gameCode: string;
 
-  private readonly logger = new Logger(SugarDaddyGameHandler.name);
+  private readonly logger: Logger;
   private server: Server | null = null;
   private coefficientUpdateInterval: NodeJS.Timeout | null = null;
   private gameStateBroadcastInterval: NodeJS.Timeout | null = null;
@@ -41,13 +56,21 @@ export class SugarDaddyGameHandler implements IGameHandler {
 
   constructor(
     private readonly jwtTokens: JwtTokenService,
-    private readonly sugarDaddyGameService: SugarDaddyGameService,
-    private readonly sugarDaddyGameBetService: SugarDaddyGameBetService,
+    private readonly crashGameService: CrashGameService,
+    private readonly crashGameBetService: CrashGameBetService,
+    private readonly crashGameAutobetService: CrashGameAutobetService,
     private readonly walletService: WalletService,
     private readonly userService: UserService,
     private readonly gameService: GameService,
     private readonly agentsService: AgentsService,
-  ) { }
+    private readonly currencyRatesService: CurrencyRatesService,
+    @Inject(CRASH_GAME_DEFINITION)
+    private readonly definition: CrashGameDefinition,
+  ) {
+    this.gameCode = definition.gameCode;
+    this.logger = new Logger(`${CrashGameHandler.name}[${this.gameCode}]`);
+    this.crashGameAutobetService.setProgressListener((series) => this.sendAutobetProgress(series));
+  }
 
   setOnRoundEndCallback(callback: () => void): void {
     this.onRoundEndCallback = callback;
@@ -55,7 +78,7 @@ export class SugarDaddyGameHandler implements IGameHandler {
 
   onGatewayInit(server: Server): void {
     this.server = server;
-    this.logger.log('[SUGAR_DADDY_HANDLER] Gateway initialized, server instance stored');
+    this.logger.log('[CRASH_HANDLER] Gateway initialized, server instance stored');
   }
 
   getServer(): Server | null {
@@ -64,7 +87,7 @@ export class SugarDaddyGameHandler implements IGameHandler {
 
   getGameConfigResponse(): any {
     try {
-      const defaultBetConfig = DEFAULTS.GAMES.SUGAR_DADDY.BET_CONFIG;
+      const defaultBetConfig = this.definition.defaults.betConfig;
 
       const response = {
         betConfig: {
@@ -74,13 +97,13 @@ export class SugarDaddyGameHandler implements IGameHandler {
           defaultBetAmount: defaultBetConfig.defaultBetAmount,
           betPresets: defaultBetConfig.betPresets,
           decimalPlaces: defaultBetConfig.decimalPlaces,
-          currency: defaultBetConfig.currency || DEFAULTS.GAMES.SUGAR_DADDY.DEFAULT_CURRENCY,
+          currency: defaultBetConfig.currency || this.definition.defaults.currency,
         },
         coefficients: {},
         lastWin: {
           username: 'Player',
           winAmount: '0',
-          currency: defaultBetConfig.currency || DEFAULTS.GAMES.SUGAR_DADDY.DEFAULT_CURRENCY,
+          currency: defaultBetConfig.currency || this.definition.defaults.currency,
         },
       };
 
@@ -97,6 +120,8 @@ export class SugarDaddyGameHandler implements IGameHandler {
 
     const gameRoom = `game:${gameCode}`;
     client.join(gameRoom);
+    // Per-player room: events driven by the leader pod reach the player's sockets on any pod
+    client.join(userRoom(gameCode, agentId, userId));
 
     const rooms = Array.from(client.rooms);
     this.logger.log(
@@ -104,43 +129,42 @@ export class SugarDaddyGameHandler implements IGameHandler {
     );
 
     try {
-      const configPayload = await this.sugarDaddyGameService.getGameConfigPayload(gameCode);
-      const dbBetConfig = configPayload.betConfig;
-      const defaultBetConfig = DEFAULTS.GAMES.SUGAR_DADDY.BET_CONFIG;
+      const userData = await this.userService.findOne(userId, agentId);
+      const currency = (userData.currency || this.definition.defaults.currency).toUpperCase();
+      // Operator / currency overrides apply, and limits are converted to the player's currency
+      const { betConfig: limits } = await this.crashGameService.getGameConfigPayload(gameCode, {
+        operatorId: agentId,
+        currency,
+      });
 
       const betConfig = {
-        [defaultBetConfig.currency || DEFAULTS.GAMES.SUGAR_DADDY.DEFAULT_CURRENCY]: {
-          betPresets: dbBetConfig.betPresets || defaultBetConfig.betPresets,
-          minBetAmount: dbBetConfig.minBetAmount || defaultBetConfig.minBetAmount,
-          maxBetAmount: dbBetConfig.maxBetAmount || defaultBetConfig.maxBetAmount,
-          maxWinAmount: dbBetConfig.maxWinAmount || defaultBetConfig.maxWinAmount,
-          defaultBetAmount: dbBetConfig.defaultBetAmount || defaultBetConfig.defaultBetAmount,
-          decimalPlaces: dbBetConfig.decimalPlaces || defaultBetConfig.decimalPlaces,
+        [currency]: {
+          betPresets: limits.betPresets,
+          minBetAmount: limits.minBetAmount,
+          maxBetAmount: limits.maxBetAmount,
+          maxWinAmount: limits.maxWinAmount,
+          defaultBetAmount: limits.defaultBetAmount,
+          decimalPlaces: limits.decimalPlaces,
         },
       };
 
-      const defaultCurrency = defaultBetConfig.currency || DEFAULTS.GAMES.SUGAR_DADDY.DEFAULT_CURRENCY;
       const betsRanges = {
-        [defaultCurrency]: [
-          dbBetConfig.minBetAmount || defaultBetConfig.minBetAmount,
-          dbBetConfig.maxBetAmount || defaultBetConfig.maxBetAmount,
-        ],
+        [currency]: [limits.minBetAmount, limits.maxBetAmount],
       };
 
       const walletBalance = await this.walletService.getBalance(agentId, userId);
       const balance = {
-        currency: defaultCurrency,
+        currency,
         balance: walletBalance.balance.toString(),
       };
 
-      const userData = await this.userService.findOne(userId, agentId);
       const myData = {
         userId: userId,
         nickname: userData.username || userId,
         gameAvatar: userData.avatar || DEFAULTS.USER.DEFAULT_AVATAR,
       };
 
-      const currencies = this.getCurrencies();
+      const currencies = await this.currencyRatesService.getRates();
 
       client.emit(WS_EVENTS.BALANCE_CHANGE, balance);
       client.emit(WS_EVENTS.BETS_RANGES, betsRanges);
@@ -148,28 +172,32 @@ export class SugarDaddyGameHandler implements IGameHandler {
       client.emit(WS_EVENTS.MY_DATA, myData);
       client.emit(WS_EVENTS.CURRENCIES, currencies);
     } catch (error) {
+      // The gateway refuses the connection
+      if (error instanceof UnsupportedCurrencyError) {
+        throw error;
+      }
       this.logger.error(
         `[WS_PLATFORM_MESSAGES] Failed to send platform messages: ${error.message}`,
       );
       const balance = {
-        currency: DEFAULTS.SUGAR_DADDY.DEFAULT_CURRENCY,
+        currency: this.definition.defaults.currency,
         balance: DEFAULTS.CURRENCY.DEFAULT_BALANCE,
       };
-      const defaultCurrency = DEFAULTS.SUGAR_DADDY.DEFAULT_CURRENCY;
+      const defaultCurrency = this.definition.defaults.currency;
       const betsRanges = {
-        [defaultCurrency]: DEFAULTS.SUGAR_DADDY.BET_RANGES[defaultCurrency] || [
-          DEFAULTS.SUGAR_DADDY.BET_CONFIG.minBetAmount,
-          DEFAULTS.SUGAR_DADDY.BET_CONFIG.maxBetAmount,
+        [defaultCurrency]: [
+          this.definition.defaults.betConfig.minBetAmount,
+          this.definition.defaults.betConfig.maxBetAmount,
         ],
       };
       const betConfig = {
         [defaultCurrency]: {
-          betPresets: DEFAULTS.SUGAR_DADDY.BET_CONFIG.betPresets,
-          minBetAmount: DEFAULTS.SUGAR_DADDY.BET_CONFIG.minBetAmount,
-          maxBetAmount: DEFAULTS.SUGAR_DADDY.BET_CONFIG.maxBetAmount,
-          maxWinAmount: DEFAULTS.SUGAR_DADDY.BET_CONFIG.maxWinAmount,
-          defaultBetAmount: DEFAULTS.SUGAR_DADDY.BET_CONFIG.defaultBetAmount,
-          decimalPlaces: DEFAULTS.SUGAR_DADDY.BET_CONFIG.decimalPlaces,
+          betPresets: this.definition.defaults.betConfig.betPresets,
+          minBetAmount: this.definition.defaults.betConfig.minBetAmount,
+          maxBetAmount: this.definition.defaults.betConfig.maxBetAmount,
+          maxWinAmount: this.definition.defaults.betConfig.maxWinAmount,
+          defaultBetAmount: this.definition.defaults.betConfig.defaultBetAmount,
+          decimalPlaces: this.definition.defaults.betConfig.decimalPlaces,
         },
       };
       const myData = {
@@ -177,7 +205,7 @@ export class SugarDaddyGameHandler implements IGameHandler {
         nickname: userId,
         gameAvatar: DEFAULTS.USER.DEFAULT_AVATAR,
       };
-      const currencies = this.getCurrencies();
+      const currencies = await this.currencyRatesService.getRates();
 
       client.emit(WS_EVENTS.BALANCE_CHANGE, balance);
       client.emit(WS_EVENTS.BETS_RANGES, betsRanges);
@@ -187,6 +215,13 @@ export class SugarDaddyGameHandler implements IGameHandler {
     }
   }
 
+  /**
+   * A player cut off by the availability schedule stays connected until their bets settle
+   */
+  async hasPlayInProgress(context: GamePlayerContext): Promise<boolean> {
+    return this.crashGameService.hasUnsettledBets(context.userId);
+  }
+
   async handleDisconnection(context: GameConnectionContext): Promise<void> {
     const { client, userId, agentId, gameCode } = context;
 
@@ -203,6 +238,10 @@ export class SugarDaddyGameHandler implements IGameHandler {
     const { client, userId, agentId, operatorId, gameCode, authPayload } = context;
 
     client.on(WS_EVENTS.GAME_SERVICE_LATENCY_TEST, (data: LatencyTestPayload, ack?: Function) => {
+      // Keep the client's measured RTT for cashout latency compensation
+      if (typeof data?.rtt === 'number' && isFinite(data.rtt) && data.rtt >= 0) {
+        (client.data ||= {}).rttMs = data.rtt;
+      }
       if (typeof ack === 'function') {
         ack({ date: data.date });
       }
@@ -219,14 +258,14 @@ export class SugarDaddyGameHandler implements IGameHandler {
       await this.handleGetBetsHistory(client, userId, gameCode, ack);
     });
 
-    client.on('gameService', async (data: { action?: string; payload?: any; betAmount?: string; currency?: string; coeffAuto?: string; betNumber?: number; playerGameId?: string }) => {
+    client.on('gameService', async (data: { action?: string; payload?: any; betAmount?: string; currency?: string; coeffAuto?: string; betNumber?: number; playerGameId?: string; fraction?: number | string; amount?: number | string }) => {
       if (data?.action === 'join') {
         this.logger.log(`[WS_JOIN] Client ${client.id} joined game`);
         this.sendOnConnectGame(client, userId).catch((error) => {
           this.logger.error(`[WS_JOIN] Error sending onConnectGame: ${error.message}`);
         });
 
-        const gameState = await this.sugarDaddyGameService.getCurrentGameState();
+        const gameState = await this.crashGameService.getCurrentGameState();
         if (gameState) {
           client.emit(WS_EVENTS.GAME_SERVICE_ON_CHANGE_STATE, gameState);
         } else {
@@ -263,14 +302,26 @@ export class SugarDaddyGameHandler implements IGameHandler {
         this.logger.log(`[WS_BET] Received bet action: ${JSON.stringify(betPayload)}`);
         await this.handleBetAction(client, betPayload, userId, agentId, operatorId, gameCode, authPayload);
       } else if (data?.action === 'cashout' || data?.action === 'withdraw') {
+        const receivedAt = Date.now();
         const payload = data.payload || {};
         const playerGameId = payload.playerGameId || data.playerGameId;
-        const cashoutPayload = { playerGameId };
-        this.logger.log(`[WS_CASHOUT] Received cashout/withdraw action: playerGameId=${playerGameId}`);
-        await this.handleCashoutAction(client, cashoutPayload, userId, agentId, operatorId, gameCode);
+        const cashoutPayload = {
+          playerGameId,
+          fraction: payload.fraction ?? data.fraction,
+          amount: payload.amount ?? data.amount,
+        };
+        this.logger.log(
+          `[WS_CASHOUT] Received cashout/withdraw action: playerGameId=${playerGameId} fraction=${cashoutPayload.fraction ?? 'N/A'} amount=${cashoutPayload.amount ?? 'N/A'}`,
+        );
+        await this.handleCashoutAction(client, cashoutPayload, userId, agentId, operatorId, gameCode, receivedAt);
       } else if (data?.action === 'cancelBet') {
         const cancelPayload = data.payload || {};
         await this.handleCancelBetAction(client, cancelPayload, userId, agentId, operatorId, gameCode);
+      } else if (data?.action === 'startAutobet') {
+        await this.handleStartAutobetAction(client, data.payload || {}, userId, agentId, operatorId, gameCode, authPayload);
+      } else if (data?.action === 'cancelAutobet') {
+        const payload = data.payload || {};
+        await this.handleCancelAutobetAction(client, payload.betNumber ?? data.betNumber, userId, agentId);
       }
     });
 
@@ -278,12 +329,12 @@ export class SugarDaddyGameHandler implements IGameHandler {
       await this.handleBetAction(client, payload, userId, agentId, operatorId, gameCode, authPayload);
     });
 
-    client.on(WS_EVENTS.CASHOUT, async (payload: { playerGameId: string }) => {
-      await this.handleCashoutAction(client, payload, userId, agentId, operatorId, gameCode);
+    client.on(WS_EVENTS.CASHOUT, async (payload: { playerGameId: string } & PartialCashoutRequest) => {
+      await this.handleCashoutAction(client, payload, userId, agentId, operatorId, gameCode, Date.now());
     });
 
-    client.on(WS_EVENTS.WITHDRAW, async (payload: { playerGameId: string }) => {
-      await this.handleCashoutAction(client, payload, userId, agentId, operatorId, gameCode);
+    client.on(WS_EVENTS.WITHDRAW, async (payload: { playerGameId: string } & PartialCashoutRequest) => {
+      await this.handleCashoutAction(client, payload, userId, agentId, operatorId, gameCode, Date.now());
     });
   }
 
@@ -313,7 +364,7 @@ export class SugarDaddyGameHandler implements IGameHandler {
       `[WS_BET] user=${userId} agent=${agentId} amount=${payload.betAmount} currency=${payload.currency}`,
     );
 
-    const result = await this.sugarDaddyGameBetService.placeBet(
+    const result = await this.crashGameBetService.placeBet(
       userId,
       agentId,
       operatorId,
@@ -354,7 +405,7 @@ export class SugarDaddyGameHandler implements IGameHandler {
     }
 
     if (result.success && result.bet) {
-      const gameState = await this.sugarDaddyGameService.getCurrentGameState();
+      const gameState = await this.crashGameService.getCurrentGameState();
       if (gameState) {
         this.broadcastGameStateChange(gameCode, gameState);
       }
@@ -363,11 +414,12 @@ export class SugarDaddyGameHandler implements IGameHandler {
 
   private async handleCashoutAction(
     client: Socket,
-    payload: { playerGameId: string },
+    payload: { playerGameId: string } & PartialCashoutRequest,
     userId: string,
     agentId: string,
     operatorId: string,
     gameCode: string,
+    receivedAt: number,
   ): Promise<void> {
     if (!userId || !agentId || !operatorId) {
       client.emit('gameService-onWithdrawGame', {
@@ -391,15 +443,39 @@ export class SugarDaddyGameHandler implements IGameHandler {
       `[WS_CASHOUT] user=${userId} playerGameId=${payload.playerGameId}`,
     );
 
-    const result = await this.sugarDaddyGameBetService.cashOut(
+    const result = await this.crashGameBetService.cashOut(
       userId,
       agentId,
       operatorId,
       gameCode,
       payload.playerGameId,
+      { receivedAt, rttMs: client.data?.rttMs ?? null },
+      this.getPartialCashoutRequest(payload),
     );
 
-    if (result.success && result.bet) {
+    if (result.success && result.bet && result.partialCashout) {
+      // Partial: the win is locked in and paid with the bet's final settlement, so no balance change yet
+      client.emit('gameService-onWithdrawGame', {
+        success: true,
+        isPartial: true,
+        result: result.partialCashout.winAmount,
+        coeffWin: result.partialCashout.coeff,
+        cashedOutBetAmount: result.partialCashout.betAmount,
+        remainingBetAmount: result.bet.remainingBetAmount,
+        currency: result.bet.currency,
+        userId: userId,
+        playerGameId: result.bet.playerGameId,
+      });
+
+      this.logger.log(
+        `[WS_CASHOUT_SUCCESS] Partial: user=${userId} playerGameId=${result.bet.playerGameId} stake=${result.partialCashout.betAmount} winAmount=${result.partialCashout.winAmount} remaining=${result.bet.remainingBetAmount}`,
+      );
+
+      const gameState = await this.crashGameService.getCurrentGameState();
+      if (gameState) {
+        this.broadcastGameStateChange(gameCode, gameState);
+      }
+    } else if (result.success && result.bet) {
       const winAmount = result.bet.winAmount || '0';
       const coeffWin = result.bet.coeffWin || '0';
       
@@ -410,6 +486,7 @@ export class SugarDaddyGameHandler implements IGameHandler {
         currency: result.bet.currency,
         userId: userId,
         playerGameId: result.bet.playerGameId,
+        ...(result.bet.maxWinCapped ? { maxWinCapped: true } : {}),
       });
       
       this.logger.log(
@@ -444,7 +521,7 @@ export class SugarDaddyGameHandler implements IGameHandler {
         );
       }
       
-      const gameState = await this.sugarDaddyGameService.getCurrentGameState();
+      const gameState = await this.crashGameService.getCurrentGameState();
       if (gameState) {
         this.broadcastGameStateChange(gameCode, gameState);
       }
@@ -457,6 +534,18 @@ export class SugarDaddyGameHandler implements IGameHandler {
     }
   }
 
+  /**
+   * Partial cashout part of a cashout payload (undefined for a full cashout)
+   */
+  private getPartialCashoutRequest(payload: PartialCashoutRequest): PartialCashoutRequest | undefined {
+    const hasFraction = payload.fraction !== undefined && payload.fraction !== null && payload.fraction !== '';
+    const hasAmount = payload.amount !== undefined && payload.amount !== null && payload.amount !== '';
+    if (!hasFraction && !hasAmount) {
+      return undefined;
+    }
+    return hasAmount ? { amount: payload.amount } : { fraction: payload.fraction };
+  }
+
   private async handleGetBetsHistory(
     client: Socket,
     userId: string,
@@ -477,7 +566,7 @@ export class SugarDaddyGameHandler implements IGameHandler {
     }
 
     try {
-      const betHistory = await this.sugarDaddyGameBetService.getUserBetsHistory(userId, gameCode);
+      const betHistory = await this.crashGameBetService.getUserBetsHistory(userId, gameCode);
       
       this.logger.log(
         `[WS_GET_BETS_HISTORY] user=${userId} found ${betHistory[0]?.length || 0} bets`,
@@ -514,7 +603,7 @@ export class SugarDaddyGameHandler implements IGameHandler {
     }
 
     try {
-      const seeds = await this.sugarDaddyGameService.getGameSeeds(userId);
+      const seeds = await this.crashGameService.getGameSeeds(userId);
       
       if (!seeds) {
         this.logger.warn(`[WS_GET_SEEDS] No active round found for userId=${userId}`);
@@ -581,7 +670,7 @@ export class SugarDaddyGameHandler implements IGameHandler {
       `[WS_CANCEL_BET] user=${userId} playerGameId=${payload.playerGameId} gameCode=${gameCode}`,
     );
 
-    const result = await this.sugarDaddyGameBetService.cancelBet(
+    const result = await this.crashGameBetService.cancelBet(
       userId,
       agentId,
       operatorId,
@@ -600,13 +689,106 @@ export class SugarDaddyGameHandler implements IGameHandler {
     }
 
     if (result.success) {
-      const gameState = await this.sugarDaddyGameService.getCurrentGameState();
+      const gameState = await this.crashGameService.getCurrentGameState();
       if (gameState) {
         this.broadcastGameStateChange(gameCode, gameState);
       }
     }
   }
 
+  private async handleStartAutobetAction(
+    client: Socket,
+    payload: Record<string, any>,
+    userId: string,
+    agentId: string,
+    operatorId: string,
+    gameCode: string,
+    authPayload: UserTokenPayload,
+  ): Promise<void> {
+    if (!userId || !agentId || !operatorId) {
+      client.emit(WS_EVENTS.AUTOBET_PROGRESS, {
+        success: false,
+        error: 'Missing user information',
+        code: CRASH_GAME_ERROR_CODES.MISSING_USER_INFO,
+      });
+      return;
+    }
+
+    this.logger.log(`[WS_AUTOBET_START] user=${userId} agent=${agentId} settings=${JSON.stringify(payload)}`);
+
+    const result = await this.crashGameAutobetService.startAutobet(
+      {
+        userId,
+        agentId,
+        operatorId,
+        gameCode,
+        nickname: (authPayload as any).nickname || `user${userId}`,
+        gameAvatar: (authPayload as any).gameAvatar || null,
+        userAvatar: (authPayload as any).userAvatar || null,
+      },
+      payload,
+    );
+
+    // Progress (including the first bet) is sent by the progress listener
+    if (!result.success) {
+      client.emit(WS_EVENTS.AUTOBET_PROGRESS, result);
+      return;
+    }
+
+    const gameState = await this.crashGameService.getCurrentGameState();
+    if (gameState) {
+      this.broadcastGameStateChange(gameCode, gameState);
+    }
+  }
+
+  private async handleCancelAutobetAction(
+    client: Socket,
+    betNumber: number | undefined,
+    userId: string,
+    agentId: string,
+  ): Promise<void> {
+    if (!userId || !agentId) {
+      client.emit(WS_EVENTS.AUTOBET_PROGRESS, {
+        success: false,
+        error: 'Missing user information',
+        code: CRASH_GAME_ERROR_CODES.MISSING_USER_INFO,
+      });
+      return;
+    }
+
+    this.logger.log(`[WS_AUTOBET_CANCEL] user=${userId} agent=${agentId} betNumber=${betNumber ?? 'all'}`);
+
+    const { cancelled, busy } = await this.crashGameAutobetService.cancelAutobet(userId, agentId, betNumber);
+    if (busy) {
+      client.emit(WS_EVENTS.AUTOBET_PROGRESS, {
+        success: false,
+        error: 'Autobet busy, try again',
+        code: CRASH_GAME_ERROR_CODES.AUTOBET_BUSY,
+      });
+    } else if (!cancelled.length) {
+      client.emit(WS_EVENTS.AUTOBET_PROGRESS, {
+        success: false,
+        error: 'No autobet running',
+        code: CRASH_GAME_ERROR_CODES.AUTOBET_NOT_FOUND,
+      });
+    }
+  }
+
+  /**
+   * Send a series' progress to every socket of its player
+   */
+  private sendAutobetProgress(series: AutobetSeries): void {
+    if (!this.server) {
+      return;
+    }
+
+    const { userId, agentId, operatorId, nickname, gameAvatar, userAvatar, ...progress } = series;
+    // Through the Redis adapter, so players connected to other pods get it too
+    this.server
+      .to(userRoom(series.gameCode, agentId, userId))
+      .emit(WS_EVENTS.AUTOBET_PROGRESS, { success: true, ...progress });
+  }
+
   broadcastCoefficientUpdate(gameCode: string | null, payload: CoefficientChangePayload): void {
     if (!this.server || !this.server.sockets) {
       return;
@@ -643,14 +825,14 @@ export class SugarDaddyGameHandler implements IGameHandler {
       return;
     }
 
-    const allUserBets = await this.sugarDaddyGameService.getUserBets(userId);
+    const allUserBets = await this.crashGameService.getUserBets(userId);
     
     const myBets = allUserBets.filter(bet => {
       const isCashedOut = bet.coeffWin && bet.winAmount;
       return !isCashedOut;
     });
 
-    const pendingBets = await this.sugarDaddyGameService.getAllPendingBetsForUser(userId);
+    const pendingBets = await this.crashGameService.getAllPendingBetsForUser(userId);
     const myNextGameBets: BetData[] = [];
 
     for (const pendingBet of pendingBets) {
@@ -671,8 +853,8 @@ export class SugarDaddyGameHandler implements IGameHandler {
 
     const isNextRoundBetExist = myNextGameBets.length > 0;
 
-    const gameState = await this.sugarDaddyGameService.getCurrentGameState();
-    const currentCoeff = await this.sugarDaddyGameService.getCurrentCoefficient();
+    const gameState = await this.crashGameService.getCurrentGameState();
+    const currentCoeff = await this.crashGameService.getCurrentCoefficient();
 
     const state = {
       bets: gameState?.bets || {
@@ -685,7 +867,7 @@ export class SugarDaddyGameHandler implements IGameHandler {
       coeffCrash: gameState?.coeffCrash ?? (currentCoeff?.coeff || null),
     };
 
-    let coefficients = await this.sugarDaddyGameService.getCoefficientsHistory(51);
+    let coefficients = await this.crashGameService.getCoefficientsHistory(51);
     
     // Ensure order is correct: oldest at index 0, newest at index 50
     // Verify by checking if the last item has a higher gameId than the first (newer rounds have higher gameIds)
@@ -715,12 +897,13 @@ export class SugarDaddyGameHandler implements IGameHandler {
   }
 
   private sendChatMessages(client: Socket, language: string): void {
-    const chatRoom = `sugar-daddy-chat-${language}`;
+    const theme = this.definition.theme;
+    const chatRoom = `${theme?.chatRoomPrefix || this.gameCode}-chat-${language}`;
     
     const messages: ChatMessage[] = [
       {
         chatRoom: chatRoom,
-        message: "Welcome to Sugar Daddy! Good luck! 🍀",
+        message: theme?.welcomeMessage || `Welcome to ${this.definition.gameName}! Good luck! 🍀`,
         author: {
           id: "system::system",
           userId: "system",
@@ -778,31 +961,32 @@ export class SugarDaddyGameHandler implements IGameHandler {
   }
 
   private async processCoefficientUpdate(gameCode: string | null): Promise<boolean> {
-          const activeRound = await this.sugarDaddyGameService.getActiveRound();
+    const activeRound = await this.crashGameService.getActiveRound();
 
     if (!activeRound || activeRound.status !== GameStatus.IN_GAME || !activeRound.isRunning) {
       this.stopCoefficientBroadcast();
       return false;
     }
 
-            const updated = await this.sugarDaddyGameService.updateCoefficient();
+    const updated = await this.crashGameService.updateCoefficient();
 
-            const coeff = await this.sugarDaddyGameService.getCurrentCoefficient();
-            if (coeff) {
-              this.broadcastCoefficientUpdate(gameCode, coeff);
-            }
+    const coeff = await this.crashGameService.getCurrentCoefficient();
+    if (coeff) {
+      this.broadcastCoefficientUpdate(gameCode, coeff);
+    }
 
     await this.processAutoCashouts(gameCode);
-    
+    await this.publishRoundExposure();
+
     return updated;
   }
 
   private async processAutoCashouts(gameCode: string | null): Promise<void> {
-            const autoCashoutBets = await this.sugarDaddyGameService.getAutoCashoutBets();
+    const autoCashoutBets = await this.crashGameService.getAutoCashoutBets();
     if (autoCashoutBets.length === 0) return;
 
-              for (const { playerGameId, bet, isMockBet } of autoCashoutBets) {
-                if (isMockBet) {
+    for (const { playerGameId, bet, isMockBet } of autoCashoutBets) {
+      if (isMockBet) {
         await this.processMockBetCashout(playerGameId, gameCode);
       } else {
         this.processAutoCashout(playerGameId, bet, gameCode).catch((error) => {
@@ -813,51 +997,68 @@ export class SugarDaddyGameHandler implements IGameHandler {
   }
 
   private async processMockBetCashout(playerGameId: string, gameCode: string | null): Promise<void> {
-                  const activeRound = await this.sugarDaddyGameService.getActiveRound();
+    const activeRound = await this.crashGameService.getActiveRound();
     if (!activeRound) return;
 
-                    const schedule = activeRound.mockBetsCashoutSchedule.get(playerGameId);
+    const schedule = activeRound.mockBetsCashoutSchedule.get(playerGameId);
     if (!schedule) return;
 
-                      const mockBet = activeRound.bets.get(playerGameId);
+    const mockBet = activeRound.bets.get(playerGameId);
     if (!mockBet || !mockBet.userId.startsWith('mock_')) return;
 
     mockBet.coeffWin = schedule.cashoutCoeff.toFixed(2);
-                        const betAmount = parseFloat(mockBet.betAmount || '0');
+    const betAmount = parseFloat(mockBet.betAmount || '0');
     mockBet.winAmount = Math.round(betAmount * schedule.cashoutCoeff).toString();
-                        activeRound.bets.set(playerGameId, mockBet);
-                        activeRound.mockBetsCashoutSchedule.delete(playerGameId);
-    
-                        await this.sugarDaddyGameService.saveActiveRoundToRedis();
-                        
-                        const gameState = await this.sugarDaddyGameService.getCurrentGameState();
-                        if (gameState) {
-                          this.broadcastGameStateChange(gameCode, gameState);
-                        }
-                      }
+    activeRound.bets.set(playerGameId, mockBet);
+    activeRound.mockBetsCashoutSchedule.delete(playerGameId);
+
+    await this.crashGameService.saveActiveRoundToRedis();
+
+    const gameState = await this.crashGameService.getCurrentGameState();
+    if (gameState) {
+      this.broadcastGameStateChange(gameCode, gameState);
+    }
+  }
 
   private async handleRoundEnd(gameCode: string | null): Promise<void> {
-              this.stopCoefficientBroadcast();
-              
-              const activeRound = await this.sugarDaddyGameService.getActiveRound();
+    this.stopCoefficientBroadcast();
+
+    const activeRound = await this.crashGameService.getActiveRound();
     if (!activeRound?.roundId) return;
 
-                try {
-      await this.sugarDaddyGameBetService.settleUncashedBets(
+    try {
+      await this.crashGameBetService.settleUncashedBets(
         activeRound.roundId,
-        gameCode || 'sugar-daddy',
-                  );
-                } catch (error) {
+        gameCode || this.gameCode,
+      );
+    } catch (error) {
       this.logger.error(`[COEFF_BROADCAST] Settlement error: ${(error as Error).message}`);
-              }
-              
-              const gameState = await this.sugarDaddyGameService.getCurrentGameState();
-              if (gameState) {
-                this.broadcastGameStateChange(gameCode, gameState);
-              }
-              
-              if (this.onRoundEndCallback) {
-                this.onRoundEndCallback();
+    }
+
+    try {
+      const settledRound = await this.crashGameService.getActiveRound();
+      if (settledRound?.roundId === activeRound.roundId) {
+        await this.crashGameAutobetService.onRoundFinished(settledRound.roundId, settledRound.bets);
+      }
+    } catch (error) {
+      this.logger.error(`[AUTOBET] Round end error: ${(error as Error).message}`);
+    }
+
+    const gameState = await this.crashGameService.getCurrentGameState();
+    if (gameState) {
+      this.broadcastGameStateChange(gameCode, gameState);
+    }
+
+    if (this.onRoundEndCallback) {
+      this.onRoundEndCallback();
+    }
+  }
+
+  private async publishRoundExposure(): Promise<void> {
+    try {
+      await this.crashGameService.publishRoundExposure();
+    } catch (error) {
+      this.logger.error(`[EXPOSURE] Publish error: ${(error as Error).message}`);
     }
   }
 
@@ -876,7 +1077,7 @@ export class SugarDaddyGameHandler implements IGameHandler {
 
       // Log removed to reduce log size - game state broadcast is working normally
       
-      this.sugarDaddyGameService.getCurrentGameState()
+      this.crashGameService.getCurrentGameState()
         .then((initialGameState) => {
           if (initialGameState) {
             this.broadcastGameStateChange(gameCode, initialGameState);
@@ -890,7 +1091,8 @@ export class SugarDaddyGameHandler implements IGameHandler {
 
       this.gameStateBroadcastInterval = setInterval(async () => {
         try {
-          const gameState = await this.sugarDaddyGameService.getCurrentGameState();
+          await this.publishRoundExposure();
+          const gameState = await this.crashGameService.getCurrentGameState();
           if (gameState) {
             // Skip broadcasting FINISH_GAME state in periodic interval to reduce redundant broadcasts
             // FINISH_GAME is already broadcasted explicitly by coefficient broadcast and scheduler's endRound
@@ -938,7 +1140,7 @@ export class SugarDaddyGameHandler implements IGameHandler {
         return;
       }
 
-      const activeRound = await this.sugarDaddyGameService.getActiveRound();
+      const activeRound = await this.crashGameService.getActiveRound();
       if (!activeRound) {
         return;
       }
@@ -962,7 +1164,7 @@ export class SugarDaddyGameHandler implements IGameHandler {
         `[AUTO_CASHOUT] Processing auto-cashout: userId=${bet.userId} playerGameId=${playerGameId} autoCoeff=${autoCoeff}`,
       );
 
-      const settleResult = await this.sugarDaddyGameBetService.cashOut(
+      const settleResult = await this.crashGameBetService.cashOut(
         bet.userId,
         bet.operatorId,
         bet.operatorId,
@@ -980,7 +1182,7 @@ export class SugarDaddyGameHandler implements IGameHandler {
         );
         this.sendAutoCashoutEvent(bet.userId, settleResult.bet, gameCode);
 
-        const gameState = await this.sugarDaddyGameService.getCurrentGameState();
+        const gameState = await this.crashGameService.getCurrentGameState();
         if (gameState) {
           this.broadcastGameStateChange(gameCode, gameState);
         }
@@ -1022,6 +1224,7 @@ export class SugarDaddyGameHandler implements IGameHandler {
       currency: bet.currency,
       userId: bet.userId,
       playerGameId: bet.playerGameId,
+      ...(bet.maxWinCapped ? { maxWinCapped: true } : {}),
     };
 
     let socketsMatched = 0;
@@ -1091,184 +1294,4 @@ export class SugarDaddyGameHandler implements IGameHandler {
       });
     }
   }
-
-  private getCurrencies(): Record<string, number> {
-    return {
-      "ADA": 2.493846558309699,
-      "AED": 3.6725,
-      "AFN": 70,
-      "ALL": 85.295,
-      "AMD": 383.82,
-      "ANG": 1.8022999999999998,
-      "AOA": 918.65,
-      "ARS": 1371.4821,
-      "AUD": 1.5559,
-      "AWG": 1.79,
-      "AZN": 1.7,
-      "BAM": 1.7004695059,
-      "BBD": 2.0181999999999998,
-      "BCH": 0.0020396093727826324,
-      "BDT": 122.24999999999999,
-      "BGN": 1.712,
-      "BHD": 0.377,
-      "BIF": 2981,
-      "BMD": 1,
-      "BNB": 0.0012299246747673688,
-      "BND": 1.2974999999999999,
-      "BOB": 6.907100000000001,
-      "BRL": 5.6015,
-      "BSD": 0.9997,
-      "BTC": 0.000012050399374548936,
-      "BTN": 89.6467799909,
-      "BUSD": 0.9996936638705801,
-      "BWP": 13.6553,
-      "BYN": 3.2712,
-      "BZD": 2.0078,
-      "CAD": 1.3858,
-      "CDF": 2277.4996633416,
-      "CHF": 0.8140000000000001,
-      "CLF": 0.0238335343,
-      "CLP": 972.65,
-      "COP": 4186.71,
-      "CRC": 505.29,
-      "CSC": 33830.23149660104,
-      "CUP": 23.990199999999998,
-      "CVE": 95.8727355712,
-      "CZK": 21.5136,
-      "DASH": 0.015423150141854353,
-      "DJF": 178.08,
-      "DKK": 6.5351,
-      "DLS": 33.333333333333336,
-      "DOGE": 7.249083135964963,
-      "DOP": 61,
-      "DZD": 130.923,
-      "EGP": 48.57,
-      "EOS": 1.2787330681036353,
-      "ERN": 15,
-      "ETB": 138.20000000000002,
-      "ETC": 0.07559846492841533,
-      "ETH": 0.00036986204295658424,
-      "EUR": 0.8755000000000001,
-      "FJD": 2.2723999999999998,
-      "FKP": 0.7642057337999999,
-      "GBP": 0.7571,
-      "GC": 1,
-      "GEL": 2.7035,
-      "GHS": 10.5,
-      "GIP": 0.7642057337999999,
-      "GMD": 72.815,
-      "GMS": 1,
-      "GNF": 8674.5,
-      "GTQ": 7.675,
-      "GYD": 209.143149197,
-      "HKD": 7.849799999999999,
-      "HNL": 26.2787,
-      "HRK": 6.550767445000001,
-      "HTG": 131.16899999999998,
-      "HUF": 350.19,
-      "IDR": 16443.4,
-      "ILS": 3.3960999999999997,
-      "INR": 1,
-      "IQD": 1310,
-      "IRR": 42112.5,
-      "ISK": 124.46999999999998,
-      "JMD": 159.94400000000002,
-      "JOD": 0.709,
-      "JPY": 150.81,
-      "KES": 129.2,
-      "KGS": 87.45,
-      "KHR": 4015,
-      "KMF": 431.5,
-      "KPW": 899.9849041373,
-      "KRW": 1392.51,
-      "KWD": 0.30610000000000004,
-      "KYD": 0.8315739408,
-      "KZT": 540.8199999999999,
-      "LAK": 21580,
-      "LBP": 89550,
-      "LKR": 302.25,
-      "LRD": 181.4831374426,
-      "LSL": 18.2179,
-      "LTC": 0.01219800670691517,
-      "LYD": 5.415,
-      "MAD": 9.154300000000001,
-      "MDL": 17.08,
-      "MGA": 4430,
-      "MKD": 52.885000000000005,
-      "MMK": 3247.961,
-      "MNT": 3590,
-      "MOP": 8.089,
-      "MRU": 39.626114384800005,
-      "MUR": 46.65,
-      "MVR": 15.459999999999999,
-      "MWK": 1733.67,
-      "MXN": 18.869,
-      "MYR": 4.265,
-      "MZN": 63.910000000000004,
-      "NAD": 18.2179,
-      "NGN": 1532.39,
-      "NIO": 36.75,
-      "NOK": 10.3276,
-      "NPR": 140.07,
-      "NZD": 1.6986,
-      "OMR": 0.385,
-      "PAB": 1.0009,
-      "PEN": 3.569,
-      "PGK": 4.1303,
-      "PHP": 58.27,
-      "PKR": 283.25,
-      "PLN": 3.7442,
-      "PYG": 7486.400000000001,
-      "QAR": 3.6408,
-      "R$": 476.1904761904762,
-      "RON": 4.440300000000001,
-      "RSD": 102.56500000000001,
-      "RUB": 79.87530000000001,
-      "RWF": 1440,
-      "SAR": 3.7513,
-      "SBD": 8.2464031996,
-      "SC": 1,
-      "SCR": 14.1448,
-      "SDG": 600.5,
-      "SEK": 9.7896,
-      "SGD": 1.2979,
-      "SHIB": 128205.1282051282,
-      "SHP": 0.7642057337999999,
-      "SLE": 22.830015851400002,
-      "SOL": 0.007978209381592608,
-      "SOS": 571.5,
-      "SRD": 38.553892635900006,
-      "SSP": 130.26,
-      "SVC": 8.7464,
-      "SYP": 13005,
-      "SZL": 18.01,
-      "THB": 32.752,
-      "TND": 2.88,
-      "TON": 0.6662012207757025,
-      "TRX": 3.6218917423077635,
-      "TRY": 40.6684,
-      "TWD": 29.918000000000003,
-      "TZS": 2570,
-      "UAH": 41.6966,
-      "uBTC": 12.050399374548936,
-      "UGX": 3583.3,
-      "USD": 1,
-      "USDC": 0.999303605303536,
-      "USDT": 1,
-      "UYU": 40.0886,
-      "UZS": 12605,
-      "VEF": 23922474.033511065,
-      "VES": 123.7216,
-      "VND": 26199,
-      "XAF": 573.151,
-      "XLM": 4.4032459143712215,
-      "XMR": 0.008457936691358008,
-      "XOF": 566.5,
-      "XRP": 0.5234373962121788,
-      "ZAR": 18.2178,
-      "ZEC": 0.0016208628014450959,
-      "ZMW": 23.1485244936,
-      "ZWL": 26.852999999999998,
-    };
-  }
 }
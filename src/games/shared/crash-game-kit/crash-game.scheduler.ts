@@ -1,15 +1,19 @@
-import { Injectable, Logger, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
-import { SugarDaddyGameService } from './sugar-daddy-game.service';
-import { SugarDaddyGameHandler } from './sugar-daddy-game.handler';
-import { SugarDaddyGameBetService } from './sugar-daddy-game-bet.service';
-import { GameStatus } from './DTO/game-state.dto';
-import { DEFAULTS } from '../../config/defaults.config';
+import { Inject, Injectable, Logger, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { CrashGameService } from './crash-game.service';
+import { CrashGameHandler } from './crash-game.handler';
+import { CrashGameBetService } from './crash-game-bet.service';
+import { MaintenanceService } from '../../../modules/maintenance/maintenance.service';
+import { GameAvailabilityService } from '../../../modules/game-availability/game-availability.service';
+import { DEFAULTS } from '../../../config/defaults.config';
+import { CRASH_GAME_DEFINITION } from './crash-game-definition';
+import type { CrashGameDefinition } from './crash-game-definition';
+import { GameStatus } from '../DTO/game-state.dto';
 import { v4 as uuidv4 } from 'uuid';
 
 @Injectable()
-export class SugarDaddyGameScheduler implements OnModuleInit, OnModuleDestroy {
-  private readonly logger = new Logger(SugarDaddyGameScheduler.name);
-  private readonly GAME_CODE = DEFAULTS.SUGAR_DADDY.GAME_CODE;
+export class CrashGameScheduler implements OnModuleInit, OnModuleDestroy {
+  private readonly logger: Logger;
+  private readonly GAME_CODE: string;
   private readonly WAIT_TIME_MS = 10000;
   private readonly RESULT_DISPLAY_TIME_MS = 3000;
   private readonly LEADER_RENEW_INTERVAL_MS = 15000;
@@ -23,18 +27,30 @@ export class SugarDaddyGameScheduler implements OnModuleInit, OnModuleDestroy {
   private mockBetsToAdd: Array<{ playerGameId: string; bet: any }> = [];
   private isRunning = false;
   private isLeader = false;
+  private isDrained = false; // No round started because of maintenance
+  private isOffSchedule = false; // No round started because the availability schedule is offline
 
   constructor(
-    private readonly sugarDaddyGameService: SugarDaddyGameService,
-    private readonly sugarDaddyGameHandler: SugarDaddyGameHandler,
-    private readonly sugarDaddyGameBetService: SugarDaddyGameBetService,
-  ) {}
+    private readonly crashGameService: CrashGameService,
+    private readonly crashGameHandler: CrashGameHandler,
+    private readonly crashGameBetService: CrashGameBetService,
+    private readonly maintenanceService: MaintenanceService,
+    private readonly gameAvailabilityService: GameAvailabilityService,
+    @Inject(CRASH_GAME_DEFINITION)
+    definition: CrashGameDefinition,
+  ) {
+    this.GAME_CODE = definition.gameCode;
+    this.logger = new Logger(`${CrashGameScheduler.name}[${this.GAME_CODE}]`);
+  }
 
   onModuleInit() {
     try {
-      this.sugarDaddyGameHandler.setOnRoundEndCallback(() => {
+      this.crashGameHandler.setOnRoundEndCallback(() => {
         this.onRoundEnded();
       });
+      this.maintenanceService.onChange(() => {
+        this.resumeAfterMaintenance();
+      });
       
       setTimeout(() => {
         this.startLeaderElection().catch((error) => {
@@ -53,7 +69,7 @@ export class SugarDaddyGameScheduler implements OnModuleInit, OnModuleDestroy {
       clearInterval(this.mockBetsAdditionTimer);
       this.mockBetsAdditionTimer = null;
     }
-    this.sugarDaddyGameService.releaseLeaderLock(this.POD_ID).catch((error) => {
+    this.crashGameService.releaseLeaderLock(this.POD_ID).catch((error) => {
       this.logger.error(`[LEADER_ELECTION] Error releasing lock on shutdown: ${error.message}`);
     });
   }
@@ -64,7 +80,7 @@ export class SugarDaddyGameScheduler implements OnModuleInit, OnModuleDestroy {
    */
   private async startLeaderElection(): Promise<void> {
     try {
-      const acquired = await this.sugarDaddyGameService.acquireLeaderLock(this.POD_ID);
+      const acquired = await this.crashGameService.acquireLeaderLock(this.POD_ID);
       
       if (acquired) {
         this.isLeader = true;
@@ -96,7 +112,7 @@ export class SugarDaddyGameScheduler implements OnModuleInit, OnModuleDestroy {
 
     this.leaderRenewTimer = setInterval(async () => {
       if (this.isLeader) {
-        const stillLeader = await this.sugarDaddyGameService.renewLeaderLock(this.POD_ID);
+        const stillLeader = await this.crashGameService.renewLeaderLock(this.POD_ID);
         if (!stillLeader) {
           this.isLeader = false;
           this.stopGameLoop();
@@ -138,8 +154,8 @@ export class SugarDaddyGameScheduler implements OnModuleInit, OnModuleDestroy {
   private stopGameLoop(): void {
     this.clearAllTimers();
     this.isRunning = false;
-    this.sugarDaddyGameHandler.stopCoefficientBroadcast();
-    this.sugarDaddyGameHandler.stopGameStateBroadcast();
+    this.crashGameHandler.stopCoefficientBroadcast();
+    this.crashGameHandler.stopGameStateBroadcast();
   }
 
   private clearAllTimers(): void {
@@ -185,26 +201,67 @@ export class SugarDaddyGameScheduler implements OnModuleInit, OnModuleDestroy {
     }, this.RESULT_DISPLAY_TIME_MS);
   }
 
+  /**
+   * Restart the game loop once maintenance of the game (and platform) has ended
+   */
+  private resumeAfterMaintenance(): void {
+    if (!this.isDrained || !this.isLeader || !this.isRunning) {
+      return;
+    }
+    if (this.maintenanceService.getMaintenance(this.GAME_CODE)) {
+      return;
+    }
+
+    this.logger.log('[SCHEDULER] Maintenance ended, resuming rounds');
+    this.isDrained = false;
+    this.startNewRound();
+  }
+
   private async startNewRound(): Promise<void> {
     if (!this.isLeader) {
       return;
     }
 
+    // Maintenance drains the game: the round that just ended was settled, the next one waits
+    if (this.maintenanceService.getMaintenance(this.GAME_CODE)) {
+      if (!this.isDrained) {
+        this.logger.warn('[SCHEDULER] Game in maintenance, not starting a new round');
+      }
+      this.isDrained = true;
+      return;
+    }
+
+    // Offline for every operator: check again later instead of starting a round
+    // (players of operators whose own schedule is offline are refused bets and disconnected)
+    const online = await this.gameAvailabilityService.isOnlineForAnyOperator(this.GAME_CODE);
+    if (!online) {
+      if (!this.isOffSchedule) {
+        this.logger.warn('[SCHEDULER] Game offline by availability schedule, not starting a new round');
+      }
+      this.isOffSchedule = true;
+      this.scheduleRetry(DEFAULTS.PLATFORM.AVAILABILITY.ROUND_RECHECK_MS);
+      return;
+    }
+    if (this.isOffSchedule) {
+      this.logger.log('[SCHEDULER] Game back online by availability schedule, resuming rounds');
+      this.isOffSchedule = false;
+    }
+
     try {
-      const activeRound = await this.sugarDaddyGameService.getActiveRound();
+      const activeRound = await this.crashGameService.getActiveRound();
       if (activeRound) {
         if (activeRound.status === GameStatus.FINISH_GAME) {
-          await this.sugarDaddyGameService.clearActiveRound();
+          await this.crashGameService.clearActiveRound();
         } else {
           await this.endRound();
           await new Promise(resolve => setTimeout(resolve, 1000));
-          await this.sugarDaddyGameService.clearActiveRound();
+          await this.crashGameService.clearActiveRound();
         }
       }
 
-      const round = await this.sugarDaddyGameService.startNewRound();
+      const round = await this.crashGameService.startNewRound();
 
-      const pendingBetsResult = await this.sugarDaddyGameBetService.processPendingBets(
+      const pendingBetsResult = await this.crashGameBetService.processPendingBets(
         round.roundId,
         round.gameUUID,
       );
@@ -213,13 +270,13 @@ export class SugarDaddyGameScheduler implements OnModuleInit, OnModuleDestroy {
         this.logger.warn(`[SCHEDULER] Pending bet errors: ${pendingBetsResult.errors.length}`);
       }
 
-      const gameState = await this.sugarDaddyGameService.getCurrentGameState();
+      const gameState = await this.crashGameService.getCurrentGameState();
       if (gameState) {
-        this.sugarDaddyGameHandler.broadcastGameStateChange(this.GAME_CODE, gameState);
+        this.crashGameHandler.broadcastGameStateChange(this.GAME_CODE, gameState);
       }
 
       this.startGradualMockBetsAddition();
-      this.sugarDaddyGameHandler.startGameStateBroadcast(this.GAME_CODE);
+      this.crashGameHandler.startGameStateBroadcast(this.GAME_CODE);
 
       if (this.waitTimer) {
         clearTimeout(this.waitTimer);
@@ -232,18 +289,23 @@ export class SugarDaddyGameScheduler implements OnModuleInit, OnModuleDestroy {
       }, this.WAIT_TIME_MS);
     } catch (error) {
       this.logger.error(`[SCHEDULER] Error starting round: ${(error as Error).message}`);
+      this.scheduleRetry(5000);
+    }
+  }
+
+  private scheduleRetry(delayMs: number): void {
+    if (!this.isLeader || !this.isRunning) {
+      return;
+    }
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+    }
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
       if (this.isLeader && this.isRunning) {
-        if (this.retryTimer) {
-          clearTimeout(this.retryTimer);
-        }
-        this.retryTimer = setTimeout(() => {
-          this.retryTimer = null;
-          if (this.isLeader && this.isRunning) {
-            this.startNewRound();
-          }
-        }, 5000);
+        this.startNewRound();
       }
-    }
+    }, delayMs);
   }
 
   private async endRound(): Promise<void> {
@@ -252,21 +314,21 @@ export class SugarDaddyGameScheduler implements OnModuleInit, OnModuleDestroy {
     }
 
     try {
-      const activeRound = await this.sugarDaddyGameService.getActiveRound();
+      const activeRound = await this.crashGameService.getActiveRound();
       if (!activeRound || activeRound.status === GameStatus.FINISH_GAME) {
         return;
       }
 
-      this.sugarDaddyGameHandler.stopCoefficientBroadcast();
+      this.crashGameHandler.stopCoefficientBroadcast();
 
       const roundId = activeRound.roundId;
-      await this.sugarDaddyGameService.endRound();
+      await this.crashGameService.endRound();
 
-      await this.sugarDaddyGameBetService.settleUncashedBets(roundId, this.GAME_CODE);
+      await this.crashGameBetService.settleUncashedBets(roundId, this.GAME_CODE);
 
-      const gameState = await this.sugarDaddyGameService.getCurrentGameState();
+      const gameState = await this.crashGameService.getCurrentGameState();
       if (gameState) {
-        this.sugarDaddyGameHandler.broadcastGameStateChange(this.GAME_CODE, gameState);
+        this.crashGameHandler.broadcastGameStateChange(this.GAME_CODE, gameState);
       }
     } catch (error) {
       this.logger.error(`[END_ROUND] Error: ${(error as Error).message}`);
@@ -279,7 +341,7 @@ export class SugarDaddyGameScheduler implements OnModuleInit, OnModuleDestroy {
       this.mockBetsAdditionTimer = null;
     }
 
-    const pendingMockBets = this.sugarDaddyGameService.getPendingMockBets();
+    const pendingMockBets = this.crashGameService.getPendingMockBets();
     if (pendingMockBets.length === 0) {
       return;
     }
@@ -293,13 +355,13 @@ export class SugarDaddyGameScheduler implements OnModuleInit, OnModuleDestroy {
         return;
       }
 
-      const activeRound = await this.sugarDaddyGameService.getActiveRound();
+      const activeRound = await this.crashGameService.getActiveRound();
       if (!activeRound || activeRound.status !== GameStatus.WAIT_GAME) {
         this.clearIntervalTimer(this.mockBetsAdditionTimer);
         return;
       }
 
-      const remainingBets = this.sugarDaddyGameService.getPendingMockBets();
+      const remainingBets = this.crashGameService.getPendingMockBets();
       if (remainingBets.length === 0) {
         this.clearIntervalTimer(this.mockBetsAdditionTimer);
         return;
@@ -308,12 +370,12 @@ export class SugarDaddyGameScheduler implements OnModuleInit, OnModuleDestroy {
       const batchSize = Math.min(Math.floor(Math.random() * 7) + 2, remainingBets.length);
       const batch = remainingBets.slice(0, batchSize);
       
-      await this.sugarDaddyGameService.addMockBetsBatch(batch);
-      this.sugarDaddyGameService.removePendingMockBets(batch);
+      await this.crashGameService.addMockBetsBatch(batch);
+      this.crashGameService.removePendingMockBets(batch);
 
-      const gameState = await this.sugarDaddyGameService.getCurrentGameState();
+      const gameState = await this.crashGameService.getCurrentGameState();
       if (gameState) {
-        this.sugarDaddyGameHandler.broadcastGameStateChange(this.GAME_CODE, gameState);
+        this.crashGameHandler.broadcastGameStateChange(this.GAME_CODE, gameState);
       }
 
       batchIndex++;
@@ -321,13 +383,13 @@ export class SugarDaddyGameScheduler implements OnModuleInit, OnModuleDestroy {
       if (remainingBets.length <= batchSize || batchIndex >= numBatches) {
         this.clearIntervalTimer(this.mockBetsAdditionTimer);
         
-        const finalRemaining = this.sugarDaddyGameService.getPendingMockBets();
+        const finalRemaining = this.crashGameService.getPendingMockBets();
         if (finalRemaining.length > 0) {
-          await this.sugarDaddyGameService.addMockBetsBatch(finalRemaining);
-          this.sugarDaddyGameService.removePendingMockBets(finalRemaining);
-          const finalGameState = await this.sugarDaddyGameService.getCurrentGameState();
+          await this.crashGameService.addMockBetsBatch(finalRemaining);
+          this.crashGameService.removePendingMockBets(finalRemaining);
+          const finalGameState = await this.crashGameService.getCurrentGameState();
           if (finalGameState) {
-            this.sugarDaddyGameHandler.broadcastGameStateChange(this.GAME_CODE, finalGameState);
+            this.crashGameHandler.broadcastGameStateChange(this.GAME_CODE, finalGameState);
           }
         }
       }
@@ -359,19 +421,19 @@ export class SugarDaddyGameScheduler implements OnModuleInit, OnModuleDestroy {
     }
 
     try {
-      const activeRound = await this.sugarDaddyGameService.getActiveRound();
+      const activeRound = await this.crashGameService.getActiveRound();
       if (!activeRound || activeRound.status !== GameStatus.WAIT_GAME) {
         return;
       }
       
-      await this.sugarDaddyGameService.startGame();
+      await this.crashGameService.startGame();
 
-      const gameState = await this.sugarDaddyGameService.getCurrentGameState();
+      const gameState = await this.crashGameService.getCurrentGameState();
       if (gameState) {
-        this.sugarDaddyGameHandler.broadcastGameStateChange(this.GAME_CODE, gameState);
+        this.crashGameHandler.broadcastGameStateChange(this.GAME_CODE, gameState);
       }
 
-      this.sugarDaddyGameHandler.startCoefficientBroadcast(this.GAME_CODE);
+      this.crashGameHandler.startCoefficientBroadcast(this.GAME_CODE);
     } catch (error) {
       this.logger.error(`[TRANSITION] Error: ${(error as Error).message}`);
     }
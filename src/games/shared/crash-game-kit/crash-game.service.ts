@@ -1,12 +1,47 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Inject, Injectable, Logger } from '@nestjs/common';
 import { v4 as uuidv4 } from 'uuid';
 import * as crypto from 'crypto';
-import { GameStatus, GameStateChangePayload, CoefficientChangePayload, BetData, CoefficientHistory, PendingBet } from './DTO/game-state.dto';
-import { RedisService } from '../../modules/redis/redis.service';
-import { DEFAULTS } from '../../config/defaults.config';
-import { GAME_CONSTANTS } from '../../common/game-constants';
-import { GameConfigService } from '../../modules/game-config/game-config.service';
-import { generateMockBets, scheduleMockBetsCashouts, MockBetsConfig } from '../shared/mock-bets.service';
+import { GameStatus, GameStateChangePayload, CoefficientChangePayload, BetData, CoefficientHistory, PendingBet } from '../DTO/game-state.dto';
+import { RedisService } from '../../../modules/redis/redis.service';
+import { GAME_CONSTANTS } from '../../../common/game-constants';
+import { GameConfigService } from '../../../modules/game-config/game-config.service';
+import { CrashRoundHistoryService } from '../../../modules/crash-round-history/crash-round-history.service';
+import { SeedChainService } from '../../../modules/seed-chain/seed-chain.service';
+import { capWinAmount } from '../../../modules/game-config/max-win.util';
+import { ConfigContext } from '../../../modules/game-config/config-resolver.util';
+import { BetLimitsService } from '../../../modules/bet-limits/bet-limits.service';
+import { UnsupportedCurrencyError } from '../../../modules/bet-limits/bet-limits.util';
+import { CurrencyRatesService } from '../../../modules/currency-rates/currency-rates.service';
+import { betLockedWin, betStakeInPlay } from '../crash-bet.util';
+import {
+  computeRoundExposure,
+  ExposureRates,
+  LiabilityLimit,
+  parseLiabilityLimit,
+  PublishedRoundExposure,
+  reachedLiabilityLimits,
+  RoundExposure,
+  roundExposureKey,
+} from '../crash-exposure.util';
+import { generateMockBets, scheduleMockBetsCashouts, MockBetsConfig } from '../mock-bets.service';
+import {
+  buildHouseEdgeDistribution,
+  CrashDistributionConfig,
+  crashDistributionErrors,
+  deriveCrashCoefficient,
+  parseCrashDistribution,
+  selectFairnessClientSeeds,
+  theoreticalCrashRtp,
+} from '../crash-fairness.util';
+import {
+  linearMultiplierCurve,
+  MultiplierCurve,
+  multiplierAt,
+  parseMultiplierCurve,
+  timeToMultiplier,
+} from '../crash-multiplier-curve.util';
+import { CRASH_GAME_DEFINITION, CrashBetConfig, CrashGameConstants } from './crash-game-definition';
+import type { CrashGameDefinition } from './crash-game-definition';
 
 interface ActiveRound {
   roundId: number;
@@ -24,35 +59,58 @@ interface ActiveRound {
     nickname: string;
     gameAvatar: number | null;
   }>;
+  fairnessSeeds: ActiveRound['clientsSeeds'] | null; // seeds hashed into the crash point, frozen when the round starts
   combinedHash: string;
   decimal: string;
+  distribution: CrashDistributionConfig | null;
+  multiplierCurve: MultiplierCurve | null; // fixed when the round starts
+  liabilityLimit: LiabilityLimit | null; // fixed when betting opens
+  exposureRates: ExposureRates | null; // fixed when betting opens; null on rounds saved before rates
+  seedChain: { chainId: string; index: number; salt?: string } | null; // salt missing on rounds saved before salts
   isRunning: boolean;
   version?: number;
   lastSavedAt?: number;
 }
 
+export interface AutoCashoutBet {
+  playerGameId: string;
+  bet: BetData;
+  isMockBet?: boolean;
+  forced?: 'max_win' | 'liability'; // cashed out at the current coefficient, not coeffAuto
+}
+
+export interface CashoutPrice {
+  coeff: number;
+  pricedAt: number; // epoch ms the price was taken at
+  crashAt: number; // epoch ms the round crashes at
+  tooLate: boolean; // request arrived at or after crashAt
+}
+
 @Injectable()
-export class SugarDaddyGameService {
-  private readonly logger = new Logger(SugarDaddyGameService.name);
+export class CrashGameService {
+  private readonly logger: Logger;
+  private readonly gameCode: string;
+  private readonly constants: CrashGameConstants;
   private activeRound: ActiveRound | null = null;
   private previousRoundBets: BetData[] = [];
   private roundCounter = 0;
   private pendingMockBets: BetData[] = [];
-  private readonly ROUND_DURATION_MS = GAME_CONSTANTS.SUGAR_DADDY.ROUND_DURATION_MS;
-  private readonly COEFF_UPDATE_INTERVAL_MS = GAME_CONSTANTS.SUGAR_DADDY.COEFF_UPDATE_INTERVAL_MS;
-  private readonly MIN_COEFF = GAME_CONSTANTS.SUGAR_DADDY.MIN_COEFF;
-  private readonly MAX_COEFF = GAME_CONSTANTS.SUGAR_DADDY.MAX_COEFF;
-  private readonly COEFF_INCREMENT = GAME_CONSTANTS.SUGAR_DADDY.COEFF_INCREMENT;
-  private readonly REDIS_KEY_PENDING_BETS = GAME_CONSTANTS.REDIS_KEYS.SUGAR_DADDY_PENDING_BETS;
-  private readonly PENDING_BET_TTL = GAME_CONSTANTS.SUGAR_DADDY.PENDING_BET_TTL;
-  private readonly REDIS_KEY_COEFFICIENT_HISTORY = GAME_CONSTANTS.REDIS_KEYS.SUGAR_DADDY_COEFFICIENT_HISTORY;
-  private readonly REDIS_KEY_CURRENT_STATE = GAME_CONSTANTS.REDIS_KEYS.SUGAR_DADDY_CURRENT_STATE;
-  private readonly REDIS_KEY_CURRENT_COEFF = GAME_CONSTANTS.REDIS_KEYS.SUGAR_DADDY_CURRENT_COEFF;
-  private readonly REDIS_KEY_ACTIVE_ROUND = GAME_CONSTANTS.REDIS_KEYS.SUGAR_DADDY_ACTIVE_ROUND;
-  private readonly REDIS_KEY_PREVIOUS_BETS = GAME_CONSTANTS.REDIS_KEYS.SUGAR_DADDY_PREVIOUS_BETS;
-  private readonly REDIS_KEY_LEADER_LOCK = GAME_CONSTANTS.REDIS_KEYS.SUGAR_DADDY_LEADER_LOCK;
-  private readonly COEFFICIENT_HISTORY_LIMIT = GAME_CONSTANTS.SUGAR_DADDY.COEFFICIENT_HISTORY_LIMIT;
-  private readonly LEADER_LOCK_TTL = GAME_CONSTANTS.SUGAR_DADDY.LEADER_LOCK_TTL;
+  private readonly ROUND_DURATION_MS: number;
+  private readonly COEFF_UPDATE_INTERVAL_MS: number;
+  private readonly MIN_COEFF: number;
+  private readonly MAX_COEFF: number;
+  private readonly COEFF_INCREMENT: number;
+  private readonly REDIS_KEY_PENDING_BETS: string;
+  private readonly PENDING_BET_TTL: number;
+  private readonly REDIS_KEY_COEFFICIENT_HISTORY: string;
+  private readonly REDIS_KEY_CURRENT_STATE: string;
+  private readonly REDIS_KEY_CURRENT_COEFF: string;
+  private readonly REDIS_KEY_ACTIVE_ROUND: string;
+  private readonly REDIS_KEY_PREVIOUS_BETS: string;
+  private readonly REDIS_KEY_LEADER_LOCK: string;
+  private readonly REDIS_KEY_ROUND_EXPOSURE: string;
+  private readonly COEFFICIENT_HISTORY_LIMIT: number;
+  private readonly LEADER_LOCK_TTL: number;
   private rtp: number | null = null;
   private redisLoadCache: {
     data: ActiveRound | null;
@@ -64,17 +122,47 @@ export class SugarDaddyGameService {
   constructor(
     private readonly redisService: RedisService,
     private readonly gameConfigService: GameConfigService,
-  ) { }
+    private readonly crashRoundHistoryService: CrashRoundHistoryService,
+    private readonly seedChainService: SeedChainService,
+    private readonly betLimitsService: BetLimitsService,
+    private readonly currencyRatesService: CurrencyRatesService,
+    @Inject(CRASH_GAME_DEFINITION)
+    private readonly definition: CrashGameDefinition,
+  ) {
+    this.gameCode = definition.gameCode;
+    this.constants = definition.constants;
+    this.logger = new Logger(`${CrashGameService.name}[${this.gameCode}]`);
+
+    this.ROUND_DURATION_MS = this.constants.ROUND_DURATION_MS;
+    this.COEFF_UPDATE_INTERVAL_MS = this.constants.COEFF_UPDATE_INTERVAL_MS;
+    this.MIN_COEFF = this.constants.MIN_COEFF;
+    this.MAX_COEFF = this.constants.MAX_COEFF;
+    this.COEFF_INCREMENT = this.constants.COEFF_INCREMENT;
+    this.PENDING_BET_TTL = this.constants.PENDING_BET_TTL;
+    this.COEFFICIENT_HISTORY_LIMIT = this.constants.COEFFICIENT_HISTORY_LIMIT;
+    this.LEADER_LOCK_TTL = this.constants.LEADER_LOCK_TTL;
+
+    // Redis keys are namespaced by game code: "<gameCode>:<name>"
+    this.REDIS_KEY_PENDING_BETS = `${this.gameCode}:pending_bets`;
+    this.REDIS_KEY_COEFFICIENT_HISTORY = `${this.gameCode}:coefficient_history`;
+    this.REDIS_KEY_CURRENT_STATE = `${this.gameCode}:current_state`;
+    this.REDIS_KEY_CURRENT_COEFF = `${this.gameCode}:current_coeff`;
+    this.REDIS_KEY_ACTIVE_ROUND = `${this.gameCode}:active_round`;
+    this.REDIS_KEY_PREVIOUS_BETS = `${this.gameCode}:previous_bets`;
+    this.REDIS_KEY_LEADER_LOCK = `${this.gameCode}:engine_lock`;
+    this.REDIS_KEY_ROUND_EXPOSURE = roundExposureKey(this.gameCode);
+  }
 
   async startNewRound(): Promise<ActiveRound> {
     if(this.rtp === null) {
-      await this.loadRTP('sugar-daddy');
+      await this.loadRTP(this.gameCode);
     }
 
     this.roundCounter++;
     const roundId = Date.now();
     const gameUUID = uuidv4();
-    const serverSeed = this.generateServerSeed();
+    const { serverSeed, seedChain } = await this.takeServerSeed();
+    const liabilityLimit = await this.loadLiabilityLimit(this.gameCode);
 
     this.activeRound = {
       roundId,
@@ -87,18 +175,25 @@ export class SugarDaddyGameService {
       mockBetsCashoutSchedule: new Map(),
       serverSeed,
       clientsSeeds: [],
+      fairnessSeeds: null,
       combinedHash: '',
       decimal: '',
+      distribution: null,
+      multiplierCurve: null,
+      liabilityLimit,
+      exposureRates: await this.loadExposureRates(liabilityLimit),
+      seedChain,
       isRunning: false,
       version: 0,
       lastSavedAt: Date.now(),
     };
 
-    this.activeRound.crashCoeff = await this.calculateCrashCoefficient(serverSeed);
+    // Crash coefficient is derived in startGame() once client seeds are final
 
     // Generate mock bets using shared service
     const mockBetsConfig: Partial<MockBetsConfig> = {
-      currency: 'INR',
+      currency: this.definition.defaults.currency,
+      ...this.definition.theme?.mockBets,
     };
     const mockBets = generateMockBets(mockBetsConfig);
     
@@ -108,12 +203,6 @@ export class SugarDaddyGameService {
       mockBets.push(...additionalBets.slice(0, 15 - mockBets.length));
     }
     
-    // Schedule cashouts for mock bets
-    if (this.activeRound.crashCoeff && mockBets.length > 0) {
-      const cashoutSchedule = scheduleMockBetsCashouts(mockBets, this.activeRound.crashCoeff);
-      this.activeRound.mockBetsCashoutSchedule = cashoutSchedule;
-    }
-    
     this.pendingMockBets = mockBets;
 
     await this.saveActiveRoundToRedis();
@@ -128,6 +217,17 @@ export class SugarDaddyGameService {
       throw new Error('Cannot start game: not in WAIT_GAME state');
     }
 
+    // Betting is closed - freeze the client seeds and derive the crash point from exactly those
+    this.activeRound.fairnessSeeds = selectFairnessClientSeeds(this.activeRound.clientsSeeds);
+    this.activeRound.crashCoeff = await this.calculateCrashCoefficient();
+
+    // Schedule cashouts for mock bets that made it into the round
+    const mockBets = Array.from(this.activeRound.bets.values()).filter((bet) => this.isMockBet(bet));
+    if (this.activeRound.crashCoeff && mockBets.length > 0) {
+      this.activeRound.mockBetsCashoutSchedule = scheduleMockBetsCashouts(mockBets, this.activeRound.crashCoeff);
+    }
+
+    this.activeRound.multiplierCurve = await this.loadMultiplierCurve(this.gameCode);
     this.activeRound.status = GameStatus.IN_GAME;
     this.activeRound.isRunning = true;
     this.activeRound.startTime = Date.now();
@@ -165,18 +265,9 @@ export class SugarDaddyGameService {
       return false;
     }
 
-    const elapsed = Date.now() - this.activeRound.startTime;
-    const elapsedSeconds = elapsed / 1000;
     const crashCoeff = this.activeRound.crashCoeff || this.MAX_COEFF;
 
-    const speed = await this.loadCoefficientSpeed('sugar-daddy');
-
-    const newCoeff = Math.min(
-      this.MIN_COEFF + (elapsedSeconds * speed),
-      crashCoeff,
-    );
-
-    this.activeRound.currentCoeff = parseFloat(newCoeff.toFixed(2));
+    this.activeRound.currentCoeff = await this.coefficientAt(this.activeRound, Date.now());
 
     await this.saveActiveRoundToRedis();
     await this.saveCurrentCoefficientToRedis();
@@ -189,11 +280,74 @@ export class SugarDaddyGameService {
     return true;
   }
 
+  /**
+   * Authoritative coefficient of the running round at a timestamp
+   * Derived from the round's multiplier curve, so it doesn't depend on when ticks happen
+   * @param timestamp - epoch milliseconds (server clock)
+   * @returns null when no round is running
+   */
+  async getCoefficientAt(timestamp: number): Promise<number | null> {
+    await this.loadActiveRoundFromRedis();
+
+    if (!this.activeRound || !this.activeRound.isRunning) {
+      return null;
+    }
+
+    return this.coefficientAt(this.activeRound, timestamp);
+  }
+
+  private async coefficientAt(round: ActiveRound, timestamp: number): Promise<number> {
+    // Rounds restored from before the curve existed get the curve resolved now
+    if (!round.multiplierCurve) {
+      round.multiplierCurve = await this.loadMultiplierCurve(this.gameCode);
+    }
+
+    const crashCoeff = round.crashCoeff || this.MAX_COEFF;
+    const coeff = Math.min(multiplierAt(round.multiplierCurve, timestamp - round.startTime), crashCoeff);
+    return parseFloat(Math.max(this.MIN_COEFF, coeff).toFixed(2));
+  }
+
+  /**
+   * Price a manual cashout from the time the server received it
+   * The price is taken at receivedAt minus the player's one-way latency (RTT / 2, capped at
+   * MAX_LATENCY_ALLOWANCE_MS) - the moment the player acted - and never depends on the last tick.
+   * A request that arrives at or after the crash timestamp is too late, even when the crash
+   * tick hasn't been broadcast yet.
+   * @param rttMs - client's measured round trip from gameService-latencyTest, if any
+   * @returns null when no round is running
+   */
+  async priceCashout(receivedAt: number, rttMs?: number | null): Promise<CashoutPrice | null> {
+    await this.loadActiveRoundFromRedis();
+
+    const round = this.activeRound;
+    if (!round || !round.isRunning || round.status !== GameStatus.IN_GAME) {
+      return null;
+    }
+    if (!round.multiplierCurve) {
+      round.multiplierCurve = await this.loadMultiplierCurve(this.gameCode);
+    }
+
+    const crashCoeff = round.crashCoeff || this.MAX_COEFF;
+    const crashAt = round.startTime + timeToMultiplier(round.multiplierCurve, crashCoeff);
+
+    const allowance = typeof rttMs === 'number' && isFinite(rttMs) && rttMs > 0
+      ? Math.min(rttMs / 2, this.constants.MAX_LATENCY_ALLOWANCE_MS)
+      : 0;
+    const pricedAt = Math.max(round.startTime, receivedAt - allowance);
+
+    // Floor, so a price just below the crash point can't round up to it
+    const raw = Math.min(multiplierAt(round.multiplierCurve, pricedAt - round.startTime), crashCoeff);
+    const precision = GAME_CONSTANTS.COEFFICIENT.ROUNDING_PRECISION;
+    const coeff = Math.max(this.MIN_COEFF, Math.floor(raw * precision) / precision);
+
+    return { coeff, pricedAt, crashAt, tooLate: receivedAt >= crashAt };
+  }
+
   /**
    * Check and return bets that should be auto-cashed out
    * Returns array of bets that need auto-cashout processing
    */
-  async getAutoCashoutBets(): Promise<Array<{ playerGameId: string; bet: BetData; isMockBet?: boolean }>> {
+  async getAutoCashoutBets(): Promise<AutoCashoutBet[]> {
     await this.loadActiveRoundFromRedis();
 
     if (!this.activeRound) {
@@ -201,7 +355,8 @@ export class SugarDaddyGameService {
     }
 
     const currentCoeff = this.activeRound.currentCoeff;
-    const autoCashoutBets: Array<{ playerGameId: string; bet: BetData; isMockBet?: boolean }> = [];
+    const autoCashoutBets: AutoCashoutBet[] = [];
+    const liabilityReached = this.getReachedLiabilityLimits();
 
     // Check all bets (real and mock) in the bets Map
     for (const [playerGameId, bet] of this.activeRound.bets.entries()) {
@@ -225,7 +380,22 @@ export class SugarDaddyGameService {
           }
         }
       } else {
-        if (bet.coeffAuto) {
+        // Reaching the payout cap forces a cashout, with or without auto cashout
+        const maxWinCoeff = this.getMaxWinCoefficient(bet);
+        if (maxWinCoeff !== null && currentCoeff >= maxWinCoeff) {
+          this.logger.log(
+            `[AUTO_CASHOUT_CHECK] Bet reached max win: playerGameId=${playerGameId} currentCoeff=${currentCoeff} maxWinAmount=${bet.maxWinAmount}`,
+          );
+          autoCashoutBets.push({ playerGameId, bet, isMockBet: false, forced: 'max_win' });
+        } else if (
+          liabilityReached &&
+          (liabilityReached.round || liabilityReached.operators.includes(bet.agentId || bet.operatorId))
+        ) {
+          this.logger.warn(
+            `[AUTO_CASHOUT_CHECK] Liability limit reached, forcing cashout: playerGameId=${playerGameId} currentCoeff=${currentCoeff}`,
+          );
+          autoCashoutBets.push({ playerGameId, bet, isMockBet: false, forced: 'liability' });
+        } else if (bet.coeffAuto) {
           const autoCoeff = parseFloat(bet.coeffAuto);
           const roundedCurrentCoeff = Math.round(currentCoeff * GAME_CONSTANTS.COEFFICIENT.ROUNDING_PRECISION) / GAME_CONSTANTS.COEFFICIENT.ROUNDING_PRECISION;
           const roundedAutoCoeff = Math.round(autoCoeff * GAME_CONSTANTS.COEFFICIENT.ROUNDING_PRECISION) / GAME_CONSTANTS.COEFFICIENT.ROUNDING_PRECISION;
@@ -243,6 +413,132 @@ export class SugarDaddyGameService {
     return autoCashoutBets;
   }
 
+  /**
+   * Limits the running round has reached when its behaviour is force_cashout
+   * @returns null when nothing has to be cashed out
+   */
+  private getReachedLiabilityLimits(): { round: boolean; operators: string[] } | null {
+    const limit = this.activeRound?.liabilityLimit;
+    if (!this.activeRound || !limit || limit.behaviour !== 'force_cashout' || this.activeRound.status !== GameStatus.IN_GAME) {
+      return null;
+    }
+
+    const reached = reachedLiabilityLimits(this.computeExposure(this.activeRound), limit);
+    return reached.round || reached.operators.length ? reached : null;
+  }
+
+  /**
+   * Liability check of a new bet (reject_bets behaviour, WAIT_GAME only)
+   * @returns Rejection reason, or null when the bet fits under the limits
+   */
+  async checkBetLiability(bet: BetData): Promise<string | null> {
+    await this.loadActiveRoundFromRedis();
+
+    const limit = this.activeRound?.liabilityLimit;
+    if (!this.activeRound || !limit || limit.behaviour !== 'reject_bets' || this.activeRound.status !== GameStatus.WAIT_GAME) {
+      return null;
+    }
+
+    const exposure = computeRoundExposure(
+      [...this.activeRound.bets.values(), bet],
+      this.activeRound.currentCoeff,
+      (b) => this.isMockBet(b),
+      this.activeRound.exposureRates,
+    );
+    const operatorId = bet.agentId || bet.operatorId;
+    const operatorLimit = limit.operators[operatorId];
+
+    if (limit.limit !== null && exposure.total > limit.limit) {
+      return `round exposure ${exposure.total} over limit ${limit.limit}`;
+    }
+    if (operatorLimit !== undefined && exposure.operators[operatorId] > operatorLimit) {
+      return `operator ${operatorId} exposure ${exposure.operators[operatorId]} over limit ${operatorLimit}`;
+    }
+    return null;
+  }
+
+  /**
+   * Current exposure of the round (zero once the round is over)
+   */
+  async getRoundExposure(): Promise<PublishedRoundExposure | null> {
+    await this.loadActiveRoundFromRedis();
+
+    if (!this.activeRound) {
+      return null;
+    }
+
+    const exposure = this.computeExposure(this.activeRound);
+    const limit = this.activeRound.liabilityLimit;
+    const reached = limit ? reachedLiabilityLimits(exposure, limit) : null;
+
+    return {
+      gameCode: this.gameCode,
+      roundId: this.activeRound.roundId,
+      status: this.activeRound.status,
+      currentCoeff: this.activeRound.currentCoeff,
+      ...exposure,
+      limit,
+      exceeded: !!reached && (reached.round || reached.operators.length > 0),
+      updatedAt: Date.now(),
+    };
+  }
+
+  /**
+   * Publish the round exposure to Redis (<gameCode>:round_exposure) for health / admin readers
+   */
+  async publishRoundExposure(): Promise<void> {
+    const exposure = await this.getRoundExposure();
+    if (!exposure) {
+      return;
+    }
+    await this.redisService.set(this.REDIS_KEY_ROUND_EXPOSURE, exposure, GAME_CONSTANTS.LIABILITY.EXPOSURE_TTL_SECONDS);
+  }
+
+  /**
+   * Last published round exposure (readable from any pod)
+   */
+  async getPublishedRoundExposure(): Promise<PublishedRoundExposure | null> {
+    return await this.redisService.get<PublishedRoundExposure>(this.REDIS_KEY_ROUND_EXPOSURE);
+  }
+
+  private computeExposure(round: ActiveRound): RoundExposure {
+    if (round.status === GameStatus.FINISH_GAME) {
+      return { currency: round.exposureRates?.currency ?? null, total: 0, atCurrentCoeff: 0, betCount: 0, operators: {} };
+    }
+    return computeRoundExposure(
+      round.bets.values(),
+      round.currentCoeff,
+      (bet) => this.isMockBet(bet),
+      round.exposureRates,
+    );
+  }
+
+  /**
+   * Coefficient at which a bet's win reaches its payout cap (null when uncapped)
+   */
+  private getMaxWinCoefficient(bet: BetData): number | null {
+    const maxWin = parseFloat(bet.maxWinAmount || '');
+    const stake = betStakeInPlay(bet);
+    if (!(maxWin > 0) || !(stake > 0)) {
+      return null;
+    }
+    return (maxWin - betLockedWin(bet)) / stake;
+  }
+
+  /**
+   * Payout cap of a new bet (operator = agentId), as stored on BetData
+   */
+  async getBetMaxWinAmount(currency: string, agentId: string): Promise<string | undefined> {
+    const betConfig = await this.getBetConfig(this.gameCode, { operatorId: agentId, currency });
+    const maxWin = await this.gameConfigService.getMaxWinAmount(
+      this.gameCode,
+      currency,
+      agentId,
+      betConfig.maxWinAmount,
+    );
+    return maxWin !== null ? maxWin.toFixed(2) : undefined;
+  }
+
   async markBetAsAutoCashedOut(playerGameId: string, coeffWin: string, winAmount: string): Promise<void> {
     await this.loadActiveRoundFromRedis();
 
@@ -299,11 +595,23 @@ export class SugarDaddyGameService {
         continue;
       }
 
-      if (bet.betNumber === 1 && bet.coeffAuto) {
+      const lockedWin = betLockedWin(bet);
+      if (lockedWin > 0) {
+        // The riding stake is lost, the partial cashouts still pay
+        bet.coeffWin = (lockedWin / parseFloat(bet.betAmount)).toFixed(2);
+        bet.winAmount = lockedWin.toFixed(2);
+      } else if (bet.betNumber === 1 && bet.coeffAuto) {
         const autoCoeff = parseFloat(bet.coeffAuto);
         if (autoCoeff <= crashCoeff) {
-          bet.coeffWin = bet.coeffAuto;
-          bet.winAmount = (parseFloat(bet.betAmount) * autoCoeff).toFixed(2);
+          // Capped like a manual cashout
+          const betAmount = parseFloat(bet.betAmount);
+          const maxWin = parseFloat(bet.maxWinAmount || '');
+          const { winAmount, capped } = capWinAmount(betAmount * autoCoeff, maxWin > 0 ? maxWin : null);
+          bet.coeffWin = capped ? (winAmount / betAmount).toFixed(2) : bet.coeffAuto;
+          bet.winAmount = winAmount.toFixed(2);
+          if (capped) {
+            bet.maxWinCapped = true;
+          }
         } else {
           bet.coeffWin = '0.00';
           bet.winAmount = '0.00';
@@ -360,18 +668,73 @@ export class SugarDaddyGameService {
       return bet;
     }
 
-    const winCoeff = currentCoeff;
-    const winAmount = parseFloat(bet.betAmount) * winCoeff;
+    // After partial cashouts the win covers the locked parts too, and coeffWin is the
+    // bet's overall coefficient on its original stake
+    const betAmount = parseFloat(bet.betAmount);
+    const lockedWin = betLockedWin(bet);
+    const maxWin = parseFloat(bet.maxWinAmount || '');
+    const { winAmount, capped } = capWinAmount(
+      lockedWin + betStakeInPlay(bet) * currentCoeff,
+      maxWin > 0 ? maxWin : null,
+    );
+    const winCoeff = capped || lockedWin > 0 ? winAmount / betAmount : currentCoeff;
 
     bet.coeffWin = winCoeff.toFixed(2);
     bet.winAmount = winAmount.toFixed(2);
+    if (capped) {
+      bet.maxWinCapped = true;
+    }
+    if (bet.remainingBetAmount !== undefined) {
+      bet.remainingBetAmount = '0.00';
+    }
+
+    this.activeRound.bets.set(playerGameId, bet);
+
+    await this.saveActiveRoundToRedis();
+
+    this.logger.log(
+      `[CASHOUT] Bet cashed out: playerGameId=${playerGameId} coeff=${winCoeff} winAmount=${winAmount}`,
+    );
+
+    return bet;
+  }
+
+  /**
+   * Take part of a bet's stake out at a coefficient; the rest keeps riding
+   * The part's win is locked in on the bet and paid with its final settlement
+   * @param stake - stake to take out, less than the stake in play (see resolvePartialStake)
+   * @returns null when the bet is not in play
+   */
+  async partialCashOutBet(playerGameId: string, currentCoeff: number, stake: number): Promise<BetData | null> {
+    await this.loadActiveRoundFromRedis();
+
+    if (!this.activeRound || this.activeRound.status !== GameStatus.IN_GAME) {
+      throw new Error('Cannot cash out: game not in IN_GAME state');
+    }
+
+    const bet = this.activeRound.bets.get(playerGameId);
+    if (!bet || (bet.coeffWin && bet.winAmount)) {
+      return null;
+    }
+
+    const stakeInPlay = betStakeInPlay(bet);
+    if (!(stake > 0) || stake >= stakeInPlay) {
+      throw new Error('Partial cashout must leave part of the stake in play');
+    }
+
+    const winAmount = stake * currentCoeff;
+    bet.partialCashouts = [
+      ...(bet.partialCashouts || []),
+      { betAmount: stake.toFixed(2), coeff: currentCoeff.toFixed(2), winAmount: winAmount.toFixed(2) },
+    ];
+    bet.remainingBetAmount = (stakeInPlay - stake).toFixed(2);
 
     this.activeRound.bets.set(playerGameId, bet);
 
     await this.saveActiveRoundToRedis();
 
     this.logger.log(
-      `[SUGAR_DADDY] Bet cashed out: playerGameId=${playerGameId} coeff=${winCoeff} winAmount=${winAmount}`,
+      `[PARTIAL_CASHOUT] playerGameId=${playerGameId} stake=${stake.toFixed(2)} coeff=${currentCoeff} winAmount=${winAmount.toFixed(2)} remaining=${bet.remainingBetAmount}`,
     );
 
     return bet;
@@ -402,6 +765,17 @@ export class SugarDaddyGameService {
     return userBets;
   }
 
+  /**
+   * Whether a player has bets in the running round or queued for the next one, i.e. not settled yet
+   */
+  async hasUnsettledBets(userId: string): Promise<boolean> {
+    const activeRound = await this.getActiveRound();
+    if (activeRound && activeRound.status !== GameStatus.FINISH_GAME && (await this.getUserBets(userId)).length) {
+      return true;
+    }
+    return (await this.getAllPendingBetsForUser(userId)).length > 0;
+  }
+
   /**
    * Get game seeds for a user (userSeed and hashedServerSeed)
    * Returns the user's client seed from the active round and the hashed server seed
@@ -420,6 +794,9 @@ export class SugarDaddyGameService {
     let userSeed: string;
     if (userClientSeed) {
       userSeed = userClientSeed.seed;
+    } else if (this.activeRound.status !== GameStatus.WAIT_GAME) {
+      // Seeds are frozen once the round starts; the player joins the next round's seeds
+      userSeed = '';
     } else {
       userSeed = crypto.randomBytes(8).toString('hex');
       
@@ -527,61 +904,52 @@ export class SugarDaddyGameService {
    * Distribution is configurable via database (coefficientDistribution key)
    * Falls back to defaults if not configured
    * 
-   * Uses cryptographically secure random number generation for fairness
+   * Provably fair: the random values are read from HMAC-SHA256(serverSeed, chain salt),
+   * both fixed before betting opens, so the result can be recomputed from coefficient
+   * history and the published chain (crash-fairness.util)
    */
-  private async calculateCrashCoefficient(serverSeed: string): Promise<number> {
-    // Load distribution config from database or use defaults
-    const distribution = await this.loadDistributionConfig('sugar-daddy');
-    
-    // Generate cryptographically secure random number [0, 1)
-    const randomBytes = crypto.randomBytes(8);
-    const randomValue = randomBytes.readUInt32BE(0) / (0xFFFFFFFF + 1);
-
-    // Select range based on cumulative weights
-    let cumulativeWeight = 0;
-    let selectedRange = distribution.ranges[0]; // Default to first range
-    
-    for (const range of distribution.ranges) {
-      cumulativeWeight += range.weight;
-      if (randomValue < cumulativeWeight) {
-        selectedRange = range;
-        break;
-      }
+  private async calculateCrashCoefficient(): Promise<number | null> {
+    if (!this.activeRound) {
+      return null;
     }
 
-    // Generate coefficient within selected range
-    // Use additional random bytes for range selection to ensure independence
-    const rangeRandomBytes = crypto.randomBytes(8);
-    const rangeRandom = rangeRandomBytes.readUInt32BE(0) / (0xFFFFFFFF + 1);
-    
-    let coeff: number;
-    if (distribution.distributionType === 'power') {
-      // Power distribution within range (biased toward lower end)
-      const rangeSize = selectedRange.max - selectedRange.min;
-      const powerExponent = 0.5; // Adjust for bias (0.5 = moderate bias toward lower)
-      const normalizedRandom = Math.pow(rangeRandom, powerExponent);
-      coeff = selectedRange.min + rangeSize * normalizedRandom;
-    } else {
-      // Uniform distribution within range (default)
-      const rangeSize = selectedRange.max - selectedRange.min;
-      coeff = selectedRange.min + rangeSize * rangeRandom;
-    }
+    // RTP-driven crash model (house edge), capped by the configured distribution
+    const distribution = await this.loadCrashModel(this.gameCode);
+    const clientSeeds = this.buildTopClientsSeeds().map((c) => c.seed);
 
-    // Ensure coefficient is within bounds
-    coeff = Math.max(selectedRange.min, Math.min(selectedRange.max, coeff));
+    const result = deriveCrashCoefficient(
+      {
+        serverSeed: this.activeRound.serverSeed,
+        clientSeeds,
+        roundId: this.activeRound.roundId,
+        salt: this.activeRound.seedChain?.salt ?? null,
+      },
+      distribution,
+    );
+
+    this.activeRound.combinedHash = result.combinedHash;
+    this.activeRound.decimal = result.decimal;
+    this.activeRound.distribution = distribution;
 
     this.logger.debug(
-      `[COEFF_DIST] Calculated crash coefficient: coeff=${coeff.toFixed(GAME_CONSTANTS.COEFFICIENT.DECIMAL_PLACES)} range=${selectedRange.name} (${selectedRange.min}-${selectedRange.max}x)`,
+      `[COEFF_DIST] Calculated crash coefficient: coeff=${result.crashCoeff} range=${result.rangeName} clientSeeds=${clientSeeds.length}`,
     );
 
-    return parseFloat(coeff.toFixed(GAME_CONSTANTS.COEFFICIENT.DECIMAL_PLACES));
+    return result.crashCoeff;
   }
 
   /**
-   * Generate cryptographically secure server seed for provably fair gaming
+   * Take the round's server seed from the pre-committed hash chain (provably fair)
+   * If the chain can't be reached, a random seed is used so rounds keep running
    */
-  private generateServerSeed(): string {
-    return crypto.randomBytes(32).toString('hex');
+  private async takeServerSeed(): Promise<{ serverSeed: string; seedChain: ActiveRound['seedChain'] }> {
+    try {
+      const { serverSeed, chainId, index, salt } = await this.seedChainService.nextServerSeed(this.gameCode);
+      return { serverSeed, seedChain: { chainId, index, salt } };
+    } catch (error) {
+      this.logger.error(`[SEED_CHAIN] Chain unavailable, using unchained random server seed: ${(error as Error).message}`);
+      return { serverSeed: crypto.randomBytes(32).toString('hex'), seedChain: null };
+    }
   }
 
   /**
@@ -668,13 +1036,6 @@ export class SugarDaddyGameService {
       }
 
       const topClientsSeeds = this.buildTopClientsSeeds();
-      const combinedHash = this.activeRound.combinedHash || this.calculateCombinedHash();
-      const decimal = this.activeRound.decimal || this.calculateDecimal(combinedHash);
-
-      if (!this.activeRound.combinedHash) {
-        this.activeRound.combinedHash = combinedHash;
-        this.activeRound.decimal = decimal;
-      }
 
       const historyEntry: CoefficientHistory = {
         coeff: this.activeRound.crashCoeff,
@@ -682,8 +1043,8 @@ export class SugarDaddyGameService {
         gameUUID: this.activeRound.gameUUID,
         serverSeed: this.activeRound.serverSeed,
         clientsSeeds: topClientsSeeds,
-        combinedHash: combinedHash,
-        decimal: decimal,
+        combinedHash: this.activeRound.combinedHash,
+        decimal: this.activeRound.decimal,
       };
 
       const redisClient = this.redisService.getClient();
@@ -691,79 +1052,32 @@ export class SugarDaddyGameService {
 
       await redisClient.rpush(historyKey, JSON.stringify(historyEntry));
       await redisClient.ltrim(historyKey, -this.COEFFICIENT_HISTORY_LIMIT, -1);
+
+      await this.crashRoundHistoryService.saveRound(
+        this.gameCode,
+        historyEntry,
+        this.activeRound.distribution,
+        this.activeRound.seedChain,
+      );
     } catch (error) {
       this.logger.error(`[COEFF_HISTORY] Error: ${(error as Error).message}`);
     }
   }
 
+  /**
+   * Client seeds published with the round in coefficient history
+   * These must be exactly the seeds mixed into the crash hash, otherwise the round can't be verified;
+   * chained rounds hash the server seed with the chain salt alone, so none are published with them
+   */
   buildTopClientsSeeds(): Array<{ userId: string; seed: string; nickname: string; gameAvatar: number | null }> {
-    if (!this.activeRound) return [];
-
-    const allWinners: Array<{ bet: BetData; winAmount: number }> = [];
-    
-    for (const bet of this.activeRound.bets.values()) {
-      if (bet.coeffWin && bet.winAmount) {
-        const winAmount = parseFloat(bet.winAmount || '0');
-        if (winAmount > 0) {
-          allWinners.push({ bet, winAmount });
-        }
-      }
-    }
-    
-    allWinners.sort((a, b) => b.winAmount - a.winAmount);
-    const top3Winners = allWinners.slice(0, 3);
-    
-    const topClientsSeeds: Array<{ userId: string; seed: string; nickname: string; gameAvatar: number | null }> = [];
-    const usedUserIds = new Set<string>();
-    
-    for (const { bet } of top3Winners) {
-      const existingSeed = this.activeRound.clientsSeeds.find(cs => cs.userId === bet.userId);
-      if (existingSeed) {
-        topClientsSeeds.push(existingSeed);
-        usedUserIds.add(bet.userId);
-      } else {
-        topClientsSeeds.push({
-          userId: bet.userId,
-          seed: crypto.randomBytes(8).toString('hex'),
-          nickname: bet.nickname || `user${bet.userId}`,
-          gameAvatar: bet.gameAvatar || null,
-        });
-        usedUserIds.add(bet.userId);
-      }
-    }
-    
-    if (topClientsSeeds.length < 3 && this.activeRound.clientsSeeds.length > 0) {
-      for (const clientSeed of this.activeRound.clientsSeeds) {
-        if (topClientsSeeds.length >= 3) break;
-        if (!usedUserIds.has(clientSeed.userId)) {
-          topClientsSeeds.push(clientSeed);
-          usedUserIds.add(clientSeed.userId);
-        }
-      }
-    }
-    
-    if (topClientsSeeds.length === 0) {
-      return this.getTopClientsSeeds(3);
-    }
-    
-    return topClientsSeeds;
-  }
-
-  private calculateCombinedHash(): string {
-    if (!this.activeRound) return '';
-    const seedString = this.activeRound.serverSeed + this.activeRound.clientsSeeds.map(c => c.seed).join('');
-    return crypto.createHash('sha256').update(seedString).digest('hex');
-  }
-
-  private calculateDecimal(combinedHash: string): string {
-    const hexValue = combinedHash.substring(0, 16);
-    return (parseInt(hexValue, 16) / Math.pow(16, 16)).toExponential();
+    if (!this.activeRound || this.activeRound.seedChain?.salt) return [];
+    return this.getTopClientsSeeds();
   }
 
   /**
    * Generate mock bets for display purposes
    * Target total: 15k-20k (90% of time), 20k-25k (10% of time)
-   * Individual bet amounts: 10-3,000 INR (multiples of 5)
+   * Individual bet amounts: 10-3,000 in the game's default currency (multiples of 5)
    * Minimum 15 bets always
    */
   // Mock bet generation methods moved to shared/mock-bets.service.ts
@@ -801,10 +1115,11 @@ export class SugarDaddyGameService {
   }
 
   /**
-   * Get top N clientsSeeds (first N available, no sorting)
-   * Returns top 3 (or fewer if less available) as they are
+   * Get the fairness clientsSeeds (first N by join order, no sorting)
+   * Returns top 3 (or fewer if less available) as they are; once the round has started,
+   * the seeds frozen by startGame() so later joiners can't change what gets published
    */
-  private getTopClientsSeeds(limit: number = 3): Array<{
+  private getTopClientsSeeds(): Array<{
     userId: string;
     seed: string;
     nickname: string;
@@ -815,40 +1130,7 @@ export class SugarDaddyGameService {
       return [];
     }
 
-    // If clientsSeeds exists and has data, return first N
-    if (this.activeRound.clientsSeeds && this.activeRound.clientsSeeds.length > 0) {
-      const topSeeds = this.activeRound.clientsSeeds.slice(0, limit);
-      this.logger.debug(
-        `[GET_TOP_CLIENTS_SEEDS] Returning ${topSeeds.length} clientsSeeds from activeRound (total: ${this.activeRound.clientsSeeds.length})`,
-      );
-      return topSeeds;
-    }
-
-    // Fallback: try to get from bets if clientsSeeds is empty
-    if (this.activeRound.bets && this.activeRound.bets.size > 0) {
-      const clientsSeedsMap = new Map<string, { userId: string; seed: string; nickname: string; gameAvatar: number | null }>();
-      
-      for (const bet of this.activeRound.bets.values()) {
-        if (!clientsSeedsMap.has(bet.userId) && clientsSeedsMap.size < limit) {
-          const userSeed = crypto.randomBytes(8).toString('hex');
-          clientsSeedsMap.set(bet.userId, {
-            userId: bet.userId,
-            seed: userSeed,
-            nickname: bet.nickname || `user${bet.userId}`,
-            gameAvatar: bet.gameAvatar || null,
-          });
-        }
-      }
-      
-      const topSeeds = Array.from(clientsSeedsMap.values());
-      this.logger.debug(
-        `[GET_TOP_CLIENTS_SEEDS] Generated ${topSeeds.length} clientsSeeds from bets (fallback)`,
-      );
-      return topSeeds;
-    }
-
-    this.logger.warn(`[GET_TOP_CLIENTS_SEEDS] No clientsSeeds available and no bets found`);
-    return [];
+    return this.activeRound.fairnessSeeds ?? selectFairnessClientSeeds(this.activeRound.clientsSeeds);
   }
 
   /**
@@ -966,6 +1248,8 @@ export class SugarDaddyGameService {
       playerGameId,
       coeffAuto: pendingBet.coeffAuto,
       userAvatar: pendingBet.userAvatar,
+      maxWinAmount: await this.getBetMaxWinAmount(pendingBet.currency, pendingBet.agentId),
+      agentId: pendingBet.agentId,
     };
 
     if (this.activeRound) {
@@ -1025,8 +1309,14 @@ export class SugarDaddyGameService {
         mockBetsCashoutSchedule: mockBetsCashoutScheduleArray,
         serverSeed: this.activeRound.serverSeed,
         clientsSeeds: this.activeRound.clientsSeeds,
+        fairnessSeeds: this.activeRound.fairnessSeeds,
         combinedHash: this.activeRound.combinedHash,
         decimal: this.activeRound.decimal,
+        distribution: this.activeRound.distribution,
+        multiplierCurve: this.activeRound.multiplierCurve,
+        liabilityLimit: this.activeRound.liabilityLimit,
+        exposureRates: this.activeRound.exposureRates,
+        seedChain: this.activeRound.seedChain,
         isRunning: this.activeRound.isRunning,
         version: this.activeRound.version,
         lastSavedAt: this.activeRound.lastSavedAt,
@@ -1122,8 +1412,14 @@ export class SugarDaddyGameService {
         mockBetsCashoutSchedule: mockBetsCashoutScheduleMap,
         serverSeed: roundData.serverSeed,
         clientsSeeds: clientsSeeds,
+        fairnessSeeds: Array.isArray(roundData.fairnessSeeds) ? roundData.fairnessSeeds : null,
         combinedHash: roundData.combinedHash || '',
         decimal: roundData.decimal || '',
+        distribution: roundData.distribution || null,
+        multiplierCurve: roundData.multiplierCurve || null,
+        liabilityLimit: roundData.liabilityLimit || null,
+        exposureRates: roundData.exposureRates || null,
+        seedChain: roundData.seedChain || null,
         isRunning: roundData.isRunning || false,
         version: roundData.version || 0,
         lastSavedAt: roundData.lastSavedAt || Date.now(),
@@ -1209,7 +1505,7 @@ export class SugarDaddyGameService {
     // Strip "mock_" prefix from userId for UI display (users shouldn't see it's a mock bet)
     const allBets: BetData[] = Array.from(this.activeRound.bets.values())
       .map(bet => {
-        const cleanBet = { ...bet };
+        const { maxWinAmount, agentId, ...cleanBet } = bet;
         if (cleanBet.userId.startsWith('mock_')) {
           cleanBet.userId = cleanBet.userId.replace(/^mock_/, '');
         }
@@ -1259,7 +1555,7 @@ export class SugarDaddyGameService {
     let waitTime: number | null = null;
     if (this.activeRound.status === GameStatus.WAIT_GAME) {
       const elapsed = Date.now() - this.activeRound.startTime;
-      const waitDuration = GAME_CONSTANTS.SUGAR_DADDY.WAIT_DURATION_MS;
+      const waitDuration = this.constants.WAIT_DURATION_MS;
       waitTime = Math.max(0, waitDuration - elapsed);
     }
 
@@ -1277,6 +1573,13 @@ export class SugarDaddyGameService {
       },
     };
 
+    if (this.activeRound.status === GameStatus.IN_GAME && this.activeRound.multiplierCurve) {
+      // Lets clients render m(now - startTime) themselves; serverTime is for clock offset
+      payload.multiplierCurve = this.activeRound.multiplierCurve;
+      payload.startTime = this.activeRound.startTime;
+      payload.serverTime = Date.now();
+    }
+
     if (this.activeRound && this.activeRound.status === GameStatus.FINISH_GAME && this.activeRound.crashCoeff) {
       const activeRound = this.activeRound; // Store reference to avoid null check issues
       const crashCoeff = activeRound.crashCoeff!; // Non-null assertion: we know it's not null from the condition
@@ -1285,54 +1588,8 @@ export class SugarDaddyGameService {
       // Fetch existing history
       const existingHistory = await this.getCoefficientsHistory(this.COEFFICIENT_HISTORY_LIMIT);
       
-      // Get top 3 clientsSeeds (same logic as storeFinishedRound)
-      let topClientsSeeds = this.getTopClientsSeeds(3);
-      
-      // Include top 3 mock bet winners (mixed with actual, prioritizing actual)
-      const allWinners: Array<{ bet: BetData; winAmount: number }> = [];
-      
-      // Collect all bet winners (real and mock)
-      for (const bet of activeRound.bets.values()) {
-        if (bet.coeffWin && bet.winAmount) {
-          const winAmount = parseFloat(bet.winAmount || '0');
-          allWinners.push({ bet, winAmount });
-        }
-      }
-      
-      // Sort by winAmount descending and take top 3
-      allWinners.sort((a, b) => b.winAmount - a.winAmount);
-      const top3Winners = allWinners.slice(0, 3);
-      
-      // Convert top 3 winners to clientsSeeds format, prioritizing actual bets
-      const top3ClientsSeeds: Array<{
-        userId: string;
-        seed: string;
-        nickname: string;
-        gameAvatar: number | null;
-      }> = [];
-      
-      for (const { bet } of top3Winners) {
-        // Check if this user already exists in topClientsSeeds (from actual bets)
-        const existingSeed = topClientsSeeds.find(cs => cs.userId === bet.userId);
-        if (existingSeed) {
-          top3ClientsSeeds.push(existingSeed);
-        } else {
-          // For mock bets or bets not in clientsSeeds, create entry
-          const userClientSeed = activeRound.clientsSeeds.find(cs => cs.userId === bet.userId);
-          top3ClientsSeeds.push({
-            userId: bet.userId,
-            seed: userClientSeed?.seed || crypto.randomBytes(8).toString('hex'),
-            nickname: bet.nickname || `user${bet.userId}`,
-            gameAvatar: bet.gameAvatar || null,
-          });
-        }
-      }
-      
-      // Use top 3 winners if we have any, otherwise fall back to original topClientsSeeds
-      if (top3ClientsSeeds.length > 0) {
-        topClientsSeeds = top3ClientsSeeds;
-      }
-      
+      // Same seeds as storeFinishedRound - the ones the crash point was derived from
+      const topClientsSeeds = this.buildTopClientsSeeds();
       
       // Construct current round's coefficient history entry
       const currentRoundEntry: CoefficientHistory = {
@@ -1490,30 +1747,49 @@ export class SugarDaddyGameService {
     }
   }
 
+  /**
+   * Bet limits and presets of a player: betConfig of the operator (agentId) / currency layer over
+   * the definition's defaults, converted to the player's currency (BetLimitsService)
+   */
+  async getBetConfig(gameCode: string, context: ConfigContext = {}): Promise<CrashBetConfig> {
+    return this.betLimitsService.getBetLimits(gameCode, this.definition.defaults.betConfig, context);
+  }
+
   /**
    * Get game config payload from database with fallback to defaults
    * Used by handler to get betConfig and RTP
+   * betConfig is the player's (operator / currency); RTP and theoreticalRtp belong to the round,
+   * which every operator shares, so they only come from the game layer
+   * theoreticalRtp is the RTP the live crash model actually pays out
    */
-  async getGameConfigPayload(gameCode: string): Promise<{
-    betConfig: any;
+  async getGameConfigPayload(gameCode: string, context: ConfigContext = {}): Promise<{
+    betConfig: CrashBetConfig;
     rtp: number;
+    theoreticalRtp: number;
   }> {
     try {
-      const betConfigRaw = await this.safeGetConfig(gameCode, 'betConfig');
+      const betConfig = await this.getBetConfig(gameCode, context);
       const rtpRaw = await this.safeGetConfig(gameCode, 'RTP');
 
-      const betConfig = this.tryParseJson(betConfigRaw) || {};
       const rtp = rtpRaw && rtpRaw !== '{}' ? parseFloat(rtpRaw) : null;
 
+      const theoreticalRtp = theoreticalCrashRtp(await this.loadCrashModel(gameCode));
+
       return {
-        betConfig: betConfig || DEFAULTS.GAMES.SUGAR_DADDY.BET_CONFIG,
-        rtp: rtp || DEFAULTS.GAMES.SUGAR_DADDY.RTP,
+        betConfig,
+        rtp: rtp || this.definition.defaults.rtp,
+        theoreticalRtp,
       };
     } catch (e: any) {
+      // No limits in a currency without a rate; the connection is refused
+      if (e instanceof UnsupportedCurrencyError) {
+        throw e;
+      }
       this.logger.error(`[getGameConfigPayload] Failed building game config payload for ${gameCode}: ${e.message}`);
       return {
-        betConfig: DEFAULTS.GAMES.SUGAR_DADDY.BET_CONFIG,
-        rtp: DEFAULTS.GAMES.SUGAR_DADDY.RTP,
+        betConfig: this.definition.defaults.betConfig,
+        rtp: this.definition.defaults.rtp,
+        theoreticalRtp: this.definition.defaults.rtp,
       };
     }
   }
@@ -1529,9 +1805,10 @@ export class SugarDaddyGameService {
       
       if (rtpRaw && rtpRaw !== '{}') {
         const rtp = parseFloat(rtpRaw);
-        if (!isNaN(rtp) && rtp >= 0 && rtp <= 100) {
+        // RTP 0 would crash every round at 1.00
+        if (rtp > 0 && rtp <= 100) {
           this.rtp = rtp;
-          this.logger.log(`[loadRTP] Loaded RTP=${this.rtp}% from database for gameCode=${gameCode}`);
+          this.logger.debug(`[loadRTP] Loaded RTP=${this.rtp}% from database for gameCode=${gameCode}`);
           return this.rtp;
         } else {
           this.logger.warn(`[loadRTP] Invalid RTP value in database: ${rtpRaw}, using default`);
@@ -1542,7 +1819,7 @@ export class SugarDaddyGameService {
     }
     
     // Fallback to default
-    this.rtp = DEFAULTS.GAMES.SUGAR_DADDY.RTP;
+    this.rtp = this.definition.defaults.rtp;
     this.logger.log(`[loadRTP] Using default RTP=${this.rtp}% for gameCode=${gameCode}`);
     return this.rtp;
   }
@@ -1574,41 +1851,95 @@ export class SugarDaddyGameService {
     }
     
     // Fallback to default
-    return GAME_CONSTANTS.SUGAR_DADDY.COEFF_SPEED_PER_SECOND;
+    return this.constants.COEFF_SPEED_PER_SECOND;
   }
 
   /**
-   * Load coefficient distribution config from database or use defaults
-   * @param gameCode - Game code
-   * @returns Distribution configuration object
+   * Load the multiplier curve of the game
+   * multiplierCurve config > definition default > linear curve at coefficientSpeed
    */
-  private async loadDistributionConfig(gameCode: string): Promise<{
-    ranges: Array<{ name: string; min: number; max: number; weight: number }>;
-    distributionType: 'uniform' | 'power';
-  }> {
+  private async loadMultiplierCurve(gameCode: string): Promise<MultiplierCurve> {
+    try {
+      const curveRaw = await this.gameConfigService.getConfig(gameCode, 'multiplierCurve');
+      const curve = parseMultiplierCurve(curveRaw);
+      if (curve) {
+        return curve;
+      }
+      if (curveRaw && curveRaw !== '{}') {
+        this.logger.warn(`[loadMultiplierCurve] Invalid multiplierCurve in database: ${curveRaw}, using default`);
+      }
+    } catch (error: any) {
+      this.logger.warn(
+        `[loadMultiplierCurve] Failed to load multiplierCurve from database: ${error.message}, using default`,
+      );
+    }
+
+    if (this.definition.defaults.multiplierCurve) {
+      return this.definition.defaults.multiplierCurve;
+    }
+    return linearMultiplierCurve(await this.loadCoefficientSpeed(gameCode));
+  }
+
+  /**
+   * Load the liabilityLimit config of the game
+   * @returns null when the game has no (valid) limit
+   */
+  private async loadLiabilityLimit(gameCode: string): Promise<LiabilityLimit | null> {
+    try {
+      const limitRaw = await this.gameConfigService.getConfig(gameCode, 'liabilityLimit');
+      const limit = parseLiabilityLimit(limitRaw);
+      if (!limit && limitRaw && limitRaw !== '{}') {
+        this.logger.warn(`[loadLiabilityLimit] Invalid liabilityLimit in database: ${limitRaw}, no limit applied`);
+      }
+      return limit;
+    } catch (error: any) {
+      this.logger.warn(`[loadLiabilityLimit] Failed to load liabilityLimit from database: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Currency the round's exposure is summed in (the liability limit's, else the game's default) and
+   * the exchange rates of the moment, so limits compare amounts in one currency
+   */
+  private async loadExposureRates(limit: LiabilityLimit | null): Promise<ExposureRates> {
+    return {
+      currency: limit?.currency ?? this.definition.defaults.currency,
+      rates: await this.currencyRatesService.getRates(),
+    };
+  }
+
+  /**
+   * Highest crash point of the live model; auto cashout targets above it could never pay
+   */
+  async getMaxCrashCoeff(): Promise<number> {
+    const configured = await this.loadDistributionConfig(this.gameCode);
+    return buildHouseEdgeDistribution(this.definition.defaults.rtp, configured, this.constants.CRASH_COEFF_MAX).maxCoeff!;
+  }
+
+  /**
+   * Live crash model: configured RTP on the house-edge curve
+   * The coefficientDistribution config only contributes its upper bound
+   */
+  private async loadCrashModel(gameCode: string): Promise<CrashDistributionConfig> {
+    const rtp = await this.loadRTP(gameCode);
+    const configured = await this.loadDistributionConfig(gameCode);
+    return buildHouseEdgeDistribution(rtp, configured, this.constants.CRASH_COEFF_MAX);
+  }
+
+  private async loadDistributionConfig(gameCode: string): Promise<CrashDistributionConfig> {
     try {
       const configRaw = await this.gameConfigService.getConfig(gameCode, 'coefficientDistribution');
       
       if (configRaw && configRaw !== '{}') {
-        const config = this.tryParseJson(configRaw);
-        
-        if (config && config.ranges && Array.isArray(config.ranges)) {
-          // Validate ranges
-          const totalWeight = config.ranges.reduce((sum: number, r: any) => sum + (r.weight || 0), 0);
-          if (Math.abs(totalWeight - 1.0) < 0.01) { // Allow small floating point errors
-            this.logger.debug(`[loadDistributionConfig] Loaded distribution from database for ${gameCode}`);
-            return {
-              ranges: config.ranges,
-              distributionType: config.distributionType || 'uniform',
-            };
-          } else {
-            this.logger.warn(
-              `[loadDistributionConfig] Distribution weights don't sum to 1.0 (sum=${totalWeight}), using defaults`,
-            );
-          }
-        } else {
-          this.logger.warn(`[loadDistributionConfig] Invalid distribution config format, using defaults`);
+        const errors = crashDistributionErrors(this.tryParseJson(configRaw));
+        if (!errors.length) {
+          this.logger.debug(`[loadDistributionConfig] Loaded distribution from database for ${gameCode}`);
+          return parseCrashDistribution(configRaw)!;
         }
+        this.logger.warn(
+          `[loadDistributionConfig] Invalid distribution config (${errors.join('; ')}), using defaults`,
+        );
       }
     } catch (error: any) {
       this.logger.warn(
@@ -1618,13 +1949,13 @@ export class SugarDaddyGameService {
     
     // Fallback to defaults (create mutable copy)
     return {
-      ranges: GAME_CONSTANTS.SUGAR_DADDY.DEFAULT_DISTRIBUTION.ranges.map(r => ({
+      ranges: this.constants.DEFAULT_DISTRIBUTION.ranges.map(r => ({
         name: r.name,
         min: r.min,
         max: r.max,
         weight: r.weight,
       })),
-      distributionType: GAME_CONSTANTS.SUGAR_DADDY.DEFAULT_DISTRIBUTION.distributionType,
+      distributionType: this.constants.DEFAULT_DISTRIBUTION.distributionType,
     };
   }
 }
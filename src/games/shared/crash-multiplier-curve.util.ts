@@ -0,0 +1,160 @@
+import { GAME_CONSTANTS } from '../../common/game-constants';
+
+/**
+ * Time-based crash multiplier
+ *
+ * The multiplier of a running round is a function of the time elapsed since the round
+ * started, not an accumulation of ticks: a late or skipped tick can't change a payout,
+ * and clients that know the curve and the start time can render it smoothly.
+ *
+ * Curves (time in seconds):
+ * - linear:      m(t) = 1 + speed * t
+ * - exponential: m(t) = e^(rate * t)                (rate 0.06 ~ the classic 1.00 -> 2.00x in 11.5s)
+ * - piecewise:   linear interpolation between points [{ t, m }, ...], starting at { t: 0, m: 1 };
+ *                after the last point the last segment's slope continues
+ */
+
+export interface LinearMultiplierCurve {
+  type: 'linear';
+  speed: number; // multiplier increase per second
+}
+
+export interface ExponentialMultiplierCurve {
+  type: 'exponential';
+  rate: number; // growth rate per second
+}
+
+export interface PiecewiseMultiplierCurve {
+  type: 'piecewise';
+  points: Array<{ t: number; m: number }>;
+}
+
+export type MultiplierCurve = LinearMultiplierCurve | ExponentialMultiplierCurve | PiecewiseMultiplierCurve;
+
+export function linearMultiplierCurve(speed: number): LinearMultiplierCurve {
+  return { type: 'linear', speed };
+}
+
+/**
+ * Raw multiplier at a point of the round (not rounded, never below 1)
+ */
+export function multiplierAt(curve: MultiplierCurve, elapsedMs: number): number {
+  const t = Math.max(0, elapsedMs) / 1000;
+
+  switch (curve.type) {
+    case 'linear':
+      return 1 + curve.speed * t;
+    case 'exponential':
+      return Math.exp(curve.rate * t);
+    case 'piecewise': {
+      const points = curve.points;
+      let i = 1;
+      while (i < points.length - 1 && t > points[i].t) {
+        i++;
+      }
+      const from = points[i - 1];
+      const to = points[i];
+      return from.m + ((t - from.t) * (to.m - from.m)) / (to.t - from.t);
+    }
+  }
+}
+
+/**
+ * Elapsed time at which the curve reaches a multiplier (inverse of multiplierAt)
+ * @returns Milliseconds since round start
+ */
+export function timeToMultiplier(curve: MultiplierCurve, multiplier: number): number {
+  if (multiplier <= 1) {
+    return 0;
+  }
+
+  switch (curve.type) {
+    case 'linear':
+      return ((multiplier - 1) / curve.speed) * 1000;
+    case 'exponential':
+      return (Math.log(multiplier) / curve.rate) * 1000;
+    case 'piecewise': {
+      const points = curve.points;
+      let i = 1;
+      while (i < points.length - 1 && multiplier > points[i].m) {
+        i++;
+      }
+      const from = points[i - 1];
+      const to = points[i];
+      return (from.t + ((multiplier - from.m) * (to.t - from.t)) / (to.m - from.m)) * 1000;
+    }
+  }
+}
+
+/**
+ * Reasons a multiplierCurve value can't be used (empty when valid)
+ */
+export function multiplierCurveErrors(config: unknown): string[] {
+  if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+    return ['multiplierCurve must be an object'];
+  }
+
+  const curve = config as Record<string, any>;
+  const limits = GAME_CONSTANTS.MULTIPLIER_CURVE;
+
+  switch (curve.type) {
+    case 'linear':
+      return typeof curve.speed === 'number' && curve.speed > 0 && curve.speed <= GAME_CONSTANTS.CONFIG_VALIDATION.COEFF_SPEED_MAX
+        ? []
+        : [`multiplierCurve.speed must be a number > 0 and <= ${GAME_CONSTANTS.CONFIG_VALIDATION.COEFF_SPEED_MAX}`];
+    case 'exponential':
+      return typeof curve.rate === 'number' && curve.rate > 0 && curve.rate <= limits.MAX_EXPONENTIAL_RATE
+        ? []
+        : [`multiplierCurve.rate must be a number > 0 and <= ${limits.MAX_EXPONENTIAL_RATE}`];
+    case 'piecewise': {
+      const points = curve.points;
+      if (!Array.isArray(points) || points.length < 2 || points.length > limits.MAX_PIECEWISE_POINTS) {
+        return [`multiplierCurve.points must be an array of 2 to ${limits.MAX_PIECEWISE_POINTS} points`];
+      }
+      const errors: string[] = [];
+      points.forEach((point: any, index: number) => {
+        if (typeof point?.t !== 'number' || typeof point?.m !== 'number') {
+          errors.push(`multiplierCurve.points[${index}] must have numeric t and m`);
+        } else if (index > 0 && !(point.t > points[index - 1].t && point.m > points[index - 1].m)) {
+          errors.push(`multiplierCurve.points[${index}] must have t and m greater than the previous point`);
+        }
+      });
+      if (!errors.length && (points[0].t !== 0 || points[0].m !== 1)) {
+        errors.push('multiplierCurve.points must start at { t: 0, m: 1 }');
+      }
+      return errors;
+    }
+    default:
+      return ['multiplierCurve.type must be one of linear, exponential, piecewise'];
+  }
+}
+
+/**
+ * Parse the multiplierCurve config row
+ * @returns null when missing or invalid (caller falls back to the linear default)
+ */
+export function parseMultiplierCurve(configRaw: string | null): MultiplierCurve | null {
+  if (!configRaw || configRaw === '{}') {
+    return null;
+  }
+
+  let config: any;
+  try {
+    config = JSON.parse(configRaw);
+  } catch {
+    return null;
+  }
+
+  if (multiplierCurveErrors(config).length > 0) {
+    return null;
+  }
+
+  switch (config.type) {
+    case 'linear':
+      return { type: 'linear', speed: config.speed };
+    case 'exponential':
+      return { type: 'exponential', rate: config.rate };
+    default:
+      return { type: 'piecewise', points: config.points.map((p: any) => ({ t: p.t, m: p.m })) };
+  }
+}
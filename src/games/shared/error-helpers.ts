@@ -14,6 +14,15 @@ export const CRASH_GAME_ERROR_CODES = {
   MISSING_PLAYER_GAME_ID: 'MISSING_PLAYER_GAME_ID',
   MISSING_GAME_CODE: 'MISSING_GAME_CODE',
   BET_HISTORY_ERROR: 'BET_HISTORY_ERROR',
+  CASHOUT_TOO_LATE: 'CASHOUT_TOO_LATE',
+  LIABILITY_LIMIT_REACHED: 'LIABILITY_LIMIT_REACHED',
+  INVALID_CASHOUT_AMOUNT: 'INVALID_CASHOUT_AMOUNT',
+  INVALID_AUTOBET: 'INVALID_AUTOBET',
+  AUTOBET_ALREADY_RUNNING: 'AUTOBET_ALREADY_RUNNING',
+  AUTOBET_NOT_FOUND: 'AUTOBET_NOT_FOUND',
+  AUTOBET_BUSY: 'AUTOBET_BUSY',
+  MAINTENANCE: 'MAINTENANCE',
+  GAME_OFFLINE: 'GAME_OFFLINE',
 } as const;
 
 export type CrashGameErrorCode = (typeof CRASH_GAME_ERROR_CODES)[keyof typeof CRASH_GAME_ERROR_CODES];
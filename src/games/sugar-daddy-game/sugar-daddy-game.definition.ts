@@ -0,0 +1,17 @@
+import { GAME_CONSTANTS } from '../../common/game-constants';
+import { DEFAULTS } from '../../config/defaults.config';
+import { CrashGameDefinition } from '../shared/crash-game-kit/crash-game-definition';
+
+export const SUGAR_DADDY_GAME: CrashGameDefinition = {
+  gameCode: DEFAULTS.SUGAR_DADDY.GAME_CODE,
+  gameName: DEFAULTS.SUGAR_DADDY.GAME_NAME,
+  platform: DEFAULTS.SUGAR_DADDY.PLATFORM,
+  gameType: DEFAULTS.SUGAR_DADDY.GAME_TYPE,
+  settleType: DEFAULTS.SUGAR_DADDY.GAME_PAYLOADS.SETTLE_TYPE,
+  constants: GAME_CONSTANTS.SUGAR_DADDY,
+  defaults: {
+    rtp: DEFAULTS.SUGAR_DADDY.RTP,
+    betConfig: DEFAULTS.SUGAR_DADDY.BET_CONFIG,
+    currency: DEFAULTS.SUGAR_DADDY.DEFAULT_CURRENCY,
+  },
+};
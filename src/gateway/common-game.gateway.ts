@@ -1,4 +1,4 @@
-import { Logger } from '@nestjs/common';
+import { Logger, OnModuleDestroy } from '@nestjs/common';
 import {
   OnGatewayConnection,
   OnGatewayDisconnect,
@@ -6,7 +6,7 @@ import {
   WebSocketGateway,
   WebSocketServer,
 } from '@nestjs/websockets';
-import { Server, Socket } from 'socket.io';
+import { DefaultEventsMap, RemoteSocket, Server, Socket } from 'socket.io';
 import {
   JwtTokenService,
   UserTokenPayload,
@@ -23,6 +23,9 @@ import {
 import { DEFAULTS } from '../config/defaults.config';
 import { CriticalHandlersService } from '../games/utils/critical-handlers.service';
 import { RedisService } from '../modules/redis/redis.service';
+import { MaintenanceNotice, MaintenanceService } from '../modules/maintenance/maintenance.service';
+import { GameAvailabilityService } from '../modules/game-availability/game-availability.service';
+import { UnsupportedCurrencyError } from '../modules/bet-limits/bet-limits.util';
 
 const CONNECTION_ERRORS = {
   MISSING_GAMECODE: 'MISSING_GAMECODE',
@@ -33,8 +36,14 @@ const CONNECTION_ERRORS = {
   GAME_NOT_ACTIVE: 'GAME_NOT_ACTIVE',
   AGENT_NO_ACCESS: 'AGENT_NO_ACCESS',
   GAME_HANDLER_NOT_FOUND: 'GAME_HANDLER_NOT_FOUND',
+  MAINTENANCE: 'MAINTENANCE',
+  GAME_OFFLINE: 'GAME_OFFLINE',
+  UNSUPPORTED_CURRENCY: 'UNSUPPORTED_CURRENCY',
 } as const;
 
+const MAINTENANCE_EVENT = 'maintenance';
+const AVAILABILITY_WARNING_EVENT = 'availability-warning';
+
 /**
  * Common WebSocket Gateway
  * 
@@ -56,12 +65,13 @@ const CONNECTION_ERRORS = {
   namespace: '/',
 })
 export class CommonGameGateway
-  implements OnGatewayConnection, OnGatewayDisconnect, OnGatewayInit
+  implements OnGatewayConnection, OnGatewayDisconnect, OnGatewayInit, OnModuleDestroy
 {
   @WebSocketServer()
   server: Server;
 
   private readonly logger = new Logger(CommonGameGateway.name);
+  private availabilityTimer?: NodeJS.Timeout;
 
   constructor(
     private readonly jwtTokens: JwtTokenService,
@@ -72,6 +82,8 @@ export class CommonGameGateway
     private readonly gameDispatcher: GameDispatcherService,
     private readonly criticalHandlersService: CriticalHandlersService,
     private readonly redisService: RedisService,
+    private readonly maintenanceService: MaintenanceService,
+    private readonly gameAvailabilityService: GameAvailabilityService,
   ) {}
 
   private firstOf(value: string | string[] | undefined): string | undefined {
@@ -81,7 +93,7 @@ export class CommonGameGateway
   }
 
   private emitAndDisconnect(
-    client: Socket,
+    client: Socket | RemoteSocket<DefaultEventsMap, any>,
     message: string,
     errorCode: string,
   ): void {
@@ -108,6 +120,25 @@ export class CommonGameGateway
       return;
     }
 
+    const maintenance = this.maintenanceService.getMaintenance(gameCode);
+    if (maintenance) {
+      this.logger.warn(
+        `[WS_CONNECT_FAILED] socketId=${client.id} reason=MAINTENANCE gameCode=${gameCode} eta=${maintenance.eta ?? 'unknown'}`,
+      );
+      client.emit(MAINTENANCE_EVENT, {
+        active: true,
+        gameCode,
+        eta: maintenance.eta,
+        message: maintenance.message,
+      } as MaintenanceNotice);
+      this.emitAndDisconnect(
+        client,
+        'Game is under maintenance',
+        CONNECTION_ERRORS.MAINTENANCE,
+      );
+      return;
+    }
+
     if (!operatorId) {
       this.emitAndDisconnect(
         client,
@@ -178,6 +209,18 @@ export class CommonGameGateway
         );
         return;
       }
+      const availability = await this.gameAvailabilityService.getAvailability(gameCode, agentId);
+      if (!availability.online) {
+        this.logger.warn(
+          `[WS_CONNECT_FAILED] socketId=${client.id} reason=GAME_OFFLINE gameCode=${gameCode} user=${userId} agent=${agentId}`,
+        );
+        this.emitAndDisconnect(
+          client,
+          'Game is not available at this time',
+          CONNECTION_ERRORS.GAME_OFFLINE,
+        );
+        return;
+      }
     } catch (error: any) {
       this.logger.warn(
         `[WS_CONNECT_FAILED] socketId=${client.id} reason=GAME_VALIDATION_ERROR gameCode=${gameCode} user=${userId} agent=${agentId} error=${error.message}`,
@@ -253,6 +296,17 @@ export class CommonGameGateway
       await handler.handleConnection(context);
       this.registerCriticalHandlers(handler, context);
     } catch (error: any) {
+      if (error instanceof UnsupportedCurrencyError) {
+        this.logger.warn(
+          `[WS_CONNECT_FAILED] socketId=${client.id} reason=UNSUPPORTED_CURRENCY gameCode=${gameCode} user=${userId} agent=${agentId} currency=${error.currency}`,
+        );
+        this.emitAndDisconnect(
+          client,
+          `Currency ${error.currency} is not supported`,
+          CONNECTION_ERRORS.UNSUPPORTED_CURRENCY,
+        );
+        return;
+      }
       this.logger.error(
         `[WS_CONNECT_ERROR] socketId=${client.id} gameCode=${gameCode} error=${error.message}`,
         error.stack,
@@ -325,6 +379,77 @@ export class CommonGameGateway
     this.logger.log('Common Game Gateway initialized');
     this.setupRedisAdapter(server);
     this.gameDispatcher.setGatewayServer(server);
+    this.maintenanceService.onChange((notice) => this.broadcastMaintenance(server, notice));
+    this.availabilityTimer = setInterval(() => {
+      this.enforceAvailability(server).catch((error) =>
+        this.logger.error(`[GATEWAY] Availability check failed: ${error.message}`, error.stack),
+      );
+    }, DEFAULTS.PLATFORM.AVAILABILITY.CHECK_INTERVAL_MS);
+  }
+
+  onModuleDestroy(): void {
+    if (this.availabilityTimer) {
+      clearInterval(this.availabilityTimer);
+      this.availabilityTimer = undefined;
+    }
+  }
+
+  /**
+   * Apply availability schedules to this pod's sockets
+   * Sockets are warned once per upcoming cutoff, and disconnected once their game is offline and the
+   * handler reports no play in progress (crash bets settle with their round first; new bets are
+   * refused). Chicken Road sessions can be resumed when the game is back.
+   */
+  private async enforceAvailability(server: Server): Promise<void> {
+    const sockets = await server.local.fetchSockets();
+    const now = new Date();
+    const checked = new Map<string, Promise<{ online: boolean; cutoffAt: Date | null }>>();
+
+    for (const socket of sockets) {
+      const { gameCode, agentId, userId } = socket.data ?? {};
+      if (!gameCode) continue;
+
+      const key = `${gameCode}:${agentId ?? ''}`;
+      if (!checked.has(key)) {
+        checked.set(key, this.gameAvailabilityService.getAvailability(gameCode, agentId, now));
+      }
+      const availability = await checked.get(key)!;
+
+      if (!availability.online) {
+        const handler = this.gameDispatcher.getHandler(gameCode);
+        if (await handler?.hasPlayInProgress?.({ userId, agentId, gameCode })) {
+          continue;
+        }
+        this.logger.log(
+          `[WS_DISCONNECT] socketId=${socket.id} reason=GAME_OFFLINE gameCode=${gameCode} agent=${agentId}`,
+        );
+        this.emitAndDisconnect(socket, 'Game is not available at this time', CONNECTION_ERRORS.GAME_OFFLINE);
+        continue;
+      }
+
+      const cutoffAt = availability.cutoffAt?.toISOString();
+      if (cutoffAt && socket.data.availabilityWarnedFor !== cutoffAt) {
+        socket.data.availabilityWarnedFor = cutoffAt;
+        socket.emit(AVAILABILITY_WARNING_EVENT, { gameCode, cutoffAt });
+      }
+    }
+  }
+
+  /**
+   * Tell this pod's sockets about a maintenance change
+   * Every pod receives the change, so the event is emitted locally to avoid duplicates through the adapter
+   */
+  private broadcastMaintenance(server: Server, notice: MaintenanceNotice): void {
+    try {
+      const io = server.local;
+      if (notice.gameCode) {
+        io.to(`game:${notice.gameCode}`).emit(MAINTENANCE_EVENT, notice);
+      } else {
+        io.emit(MAINTENANCE_EVENT, notice);
+      }
+    } catch (error) {
+      this.logger.error(`[GATEWAY] Failed to broadcast maintenance: ${(error as Error).message}`);
+    }
   }
 
   private setupRedisAdapter(server: Server): void {
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { GameConfigModule } from '../game-config/game-config.module';
+import { CurrencyRatesModule } from '../currency-rates/currency-rates.module';
+import { BetLimitsService } from './bet-limits.service';
+
+@Module({
+  imports: [GameConfigModule, CurrencyRatesModule],
+  providers: [BetLimitsService],
+  exports: [BetLimitsService],
+})
+export class BetLimitsModule {}
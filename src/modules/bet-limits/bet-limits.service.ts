@@ -0,0 +1,82 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { GameConfigService } from '../game-config/game-config.service';
+import { ConfigContext, normalizeCurrency } from '../game-config/config-resolver.util';
+import { DEFAULTS } from '../../config/defaults.config';
+import { BetLimits, convertBetLimits, parseBetLimitConversion, UnsupportedCurrencyError } from './bet-limits.util';
+import { CurrencyRatesService } from '../currency-rates/currency-rates.service';
+
+const BET_LIMITS_CONSTANTS = DEFAULTS.PLATFORM.BET_LIMITS;
+
+/**
+ * Amounts of a betConfig, all in its currency
+ */
+const BET_LIMIT_AMOUNT_FIELDS: (keyof BetLimits)[] = [
+  'minBetAmount',
+  'maxBetAmount',
+  'maxWinAmount',
+  'defaultBetAmount',
+  'betPresets',
+];
+
+/**
+ * BetLimitsService - Bet limits of a player in their currency
+ *
+ * betConfig is resolved for the operator (agentId) and currency like any config key, filled in
+ * from the game's defaults, then converted out of its base currency (bet-limits.util). Served
+ * as betsRanges / betConfig on connect and enforced when bets are placed. Without an exchange
+ * rate to the player's currency there are no limits: connections and bets are refused.
+ */
+@Injectable()
+export class BetLimitsService {
+  private readonly logger = new Logger(BetLimitsService.name);
+
+  constructor(
+    private readonly gameConfigService: GameConfigService,
+    private readonly currencyRatesService: CurrencyRatesService,
+  ) {}
+
+  /**
+   * @param defaults - the game's default betConfig (its currency is the base currency unless betConfig sets one)
+   * @param context - operator (agentId) and currency of the player; without a currency the base limits are returned
+   * @throws UnsupportedCurrencyError when there is no exchange rate from the base currency (also when a
+   * currency layer leaves amounts out and they have to be converted from the defaults)
+   */
+  async getBetLimits(gameCode: string, defaults: BetLimits, context: ConfigContext = {}): Promise<BetLimits> {
+    const resolved = await this.gameConfigService.resolveConfig(gameCode, 'betConfig', context);
+    const stored = (resolved && typeof resolved.value === 'object' && resolved.value !== null ? resolved.value : {}) as Partial<BetLimits>;
+    const base: BetLimits = { ...defaults, ...stored };
+    const currency = normalizeCurrency(context.currency) || base.currency;
+
+    // A currency layer holds amounts in that currency already; the amounts it leaves out
+    // come from the defaults converted into that currency, never from the base-currency figures
+    if (resolved?.source.currency) {
+      const complete = BET_LIMIT_AMOUNT_FIELDS.every((field) => stored[field] !== undefined);
+      const filler = complete ? defaults : await this.convertLimits(gameCode, defaults, currency, context);
+      return { ...filler, ...stored, currency };
+    }
+
+    return this.convertLimits(gameCode, base, currency, context);
+  }
+
+  private async convertLimits(
+    gameCode: string,
+    base: BetLimits,
+    currency: string,
+    context: ConfigContext,
+  ): Promise<BetLimits> {
+    if (currency === base.currency) {
+      return { ...base, currency };
+    }
+
+    const rate = await this.currencyRatesService.getRate(base.currency, currency);
+    if (rate === null) {
+      this.logger.warn(`[BET_LIMITS] No exchange rate ${base.currency}->${currency} for ${gameCode}`);
+      throw new UnsupportedCurrencyError(base.currency, currency);
+    }
+
+    const conversion = parseBetLimitConversion(
+      await this.gameConfigService.getConfig(gameCode, BET_LIMITS_CONSTANTS.CONVERSION_CONFIG_KEY, context),
+    );
+    return convertBetLimits(base, currency, rate, conversion, BET_LIMITS_CONSTANTS.NICE_STEPS);
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * Bet limits in the player's currency
+ *
+ * betConfig defines the limits once, in its base currency (betConfig.currency). Players of
+ * other currencies get them converted at the exchange rate and rounded as set by the optional
+ * betLimitConversion config key (platform, game or operator layer):
+ *
+ *   {
+ *     "rounding": "nice",
+ *     "niceSteps": [1, 2, 2.5, 5],
+ *     "decimalPlaces": { "JPY": 0, "BTC": 8 }
+ *   }
+ *
+ * - rounding "nice": amounts snap to a nice step x 10^n (0.25, 2, 50, 1000, ...);
+ *   "decimals": amounts are only rounded to the currency's decimal places
+ * - niceSteps: mantissas in [1, 10) amounts may snap to
+ * - decimalPlaces: per currency; other currencies keep betConfig.decimalPlaces
+ *
+ * Minimum bets round up, maximum bet and win round down, the default bet and presets go to
+ * the nearest amount inside the converted range. A betConfig stored in a currency layer is
+ * already in that currency and is not converted.
+ */
+
+export type BetLimitRounding = 'nice' | 'decimals';
+
+export interface BetLimitConversion {
+  rounding?: BetLimitRounding;
+  niceSteps?: number[];
+  decimalPlaces?: Record<string, number>;
+}
+
+export interface BetLimits {
+  minBetAmount: string;
+  maxBetAmount: string;
+  maxWinAmount: string;
+  defaultBetAmount: string;
+  betPresets: readonly string[];
+  decimalPlaces: string;
+  currency: string;
+}
+
+type RoundingDirection = 'up' | 'down' | 'nearest';
+
+/**
+ * Thrown by BetLimitsService when limits can't be converted to the player's currency
+ */
+export class UnsupportedCurrencyError extends Error {
+  constructor(readonly baseCurrency: string, readonly currency: string) {
+    super(`No exchange rate ${baseCurrency}->${currency}`);
+  }
+}
+
+const ROUNDINGS: BetLimitRounding[] = ['nice', 'decimals'];
+const EPSILON = 1e-9;
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function roundToDecimals(value: number, decimals: number, direction: RoundingDirection): number {
+  const factor = 10 ** decimals;
+  const scaled = value * factor;
+  const rounded =
+    direction === 'up' ? Math.ceil(scaled - EPSILON) : direction === 'down' ? Math.floor(scaled + EPSILON) : Math.round(scaled);
+  return rounded / factor;
+}
+
+function fitsDecimals(value: number, decimals: number): boolean {
+  const scaled = value * 10 ** decimals;
+  return Math.abs(scaled - Math.round(scaled)) < 1e-6;
+}
+
+/**
+ * Closest nice number (step x 10^n) in the given direction
+ * @param decimals - only nice numbers payable in this many decimal places are considered
+ */
+export function niceNumber(value: number, steps: number[], direction: RoundingDirection, decimals: number): number {
+  if (!(value > 0)) return value;
+  const magnitude = 10 ** Math.floor(Math.log10(value));
+  const candidates = [magnitude / 10, magnitude, magnitude * 10]
+    .flatMap((scale) => steps.map((step) => step * scale))
+    .filter((candidate) => fitsDecimals(candidate, decimals));
+
+  let best: number | null = null;
+  for (const candidate of candidates) {
+    if (direction === 'up' && candidate < value * (1 - EPSILON)) continue;
+    if (direction === 'down' && candidate > value * (1 + EPSILON)) continue;
+    if (
+      best === null ||
+      (direction === 'up' && candidate < best) ||
+      (direction === 'down' && candidate > best) ||
+      (direction === 'nearest' && Math.abs(candidate - value) < Math.abs(best - value))
+    ) {
+      best = candidate;
+    }
+  }
+  return best ?? value;
+}
+
+/**
+ * Convert base-currency bet limits into another currency
+ * @param rate - units of the target currency per unit of the base currency
+ * @param niceSteps - used when conversion.niceSteps is not set
+ */
+export function convertBetLimits(
+  base: BetLimits,
+  currency: string,
+  rate: number,
+  conversion: BetLimitConversion,
+  niceSteps: readonly number[],
+): BetLimits {
+  const decimals = conversion.decimalPlaces?.[currency] ?? (parseInt(base.decimalPlaces, 10) || 0);
+  const steps = conversion.niceSteps?.length ? conversion.niceSteps : [...niceSteps];
+  const smallestUnit = 10 ** -decimals;
+
+  const convert = (amount: string, direction: RoundingDirection): number => {
+    const converted = parseFloat(amount) * rate;
+    const snapped = conversion.rounding === 'decimals' ? converted : niceNumber(converted, steps, direction, decimals);
+    return roundToDecimals(snapped, decimals, direction);
+  };
+  const clamp = (amount: number, min: number, max: number) => Math.min(Math.max(amount, min), max);
+
+  const minBet = Math.max(convert(base.minBetAmount, 'up'), smallestUnit);
+  const maxBet = Math.max(convert(base.maxBetAmount, 'down'), minBet);
+  const maxWin = Math.max(convert(base.maxWinAmount, 'down'), maxBet);
+  const defaultBet = clamp(convert(base.defaultBetAmount, 'nearest'), minBet, maxBet);
+  const presets = base.betPresets.map((preset) => clamp(convert(preset, 'nearest'), minBet, maxBet));
+
+  return {
+    minBetAmount: minBet.toFixed(decimals),
+    maxBetAmount: maxBet.toFixed(decimals),
+    maxWinAmount: maxWin.toFixed(decimals),
+    defaultBetAmount: defaultBet.toFixed(decimals),
+    // Presets that collapse onto the same amount after rounding are listed once
+    betPresets: [...new Set(presets.map((preset) => preset.toFixed(decimals)))],
+    decimalPlaces: String(decimals),
+    currency,
+  };
+}
+
+/**
+ * Reasons a betLimitConversion value can't be used (empty when valid)
+ */
+export function betLimitConversionErrors(config: unknown): string[] {
+  if (!isPlainObject(config)) {
+    return ['betLimitConversion must be an object'];
+  }
+
+  const errors: string[] = [];
+  if (config.rounding !== undefined && !ROUNDINGS.includes(config.rounding)) {
+    errors.push(`betLimitConversion.rounding must be one of ${ROUNDINGS.join(', ')}`);
+  }
+  if (config.niceSteps !== undefined) {
+    if (!Array.isArray(config.niceSteps) || config.niceSteps.length === 0) {
+      errors.push('betLimitConversion.niceSteps must be a non-empty array');
+    } else if (config.niceSteps.some((step: unknown) => typeof step !== 'number' || step < 1 || step >= 10)) {
+      errors.push('betLimitConversion.niceSteps must be numbers from 1 up to (not including) 10');
+    }
+  }
+  if (config.decimalPlaces !== undefined) {
+    if (!isPlainObject(config.decimalPlaces)) {
+      errors.push('betLimitConversion.decimalPlaces must be an object of currency -> decimal places');
+    } else {
+      for (const [currency, decimals] of Object.entries(config.decimalPlaces)) {
+        if (!Number.isInteger(decimals) || (decimals as number) < 0 || (decimals as number) > 8) {
+          errors.push(`betLimitConversion.decimalPlaces.${currency} must be an integer from 0 to 8`);
+        }
+      }
+    }
+  }
+  return errors;
+}
+
+/**
+ * Parse the betLimitConversion config value; invalid or missing values give the defaults
+ */
+export function parseBetLimitConversion(configRaw: string | null): BetLimitConversion {
+  if (!configRaw || configRaw === '{}') {
+    return {};
+  }
+
+  let config: any;
+  try {
+    config = JSON.parse(configRaw);
+  } catch {
+    return {};
+  }
+  return betLimitConversionErrors(config).length ? {} : config;
+}
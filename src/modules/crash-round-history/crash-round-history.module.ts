@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { CrashRound } from '../../entities/crash-round.entity';
+import { CrashRoundHistoryService } from './crash-round-history.service';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([CrashRound])],
+  providers: [CrashRoundHistoryService],
+  exports: [CrashRoundHistoryService],
+})
+export class CrashRoundHistoryModule {}
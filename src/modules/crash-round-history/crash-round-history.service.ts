@@ -0,0 +1,58 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import * as crypto from 'crypto';
+import { CrashRound } from '../../entities/crash-round.entity';
+import { CoefficientHistory } from '../../games/shared/DTO/game-state.dto';
+import { CrashDistributionConfig } from '../../games/shared/crash-fairness.util';
+
+/**
+ * CrashRoundHistoryService - Durable storage of finished crash rounds
+ * The Redis coefficient history is capped (~50 entries); this keeps every round for verification
+ */
+@Injectable()
+export class CrashRoundHistoryService {
+  private readonly logger = new Logger(CrashRoundHistoryService.name);
+
+  constructor(
+    @InjectRepository(CrashRound)
+    private readonly crashRoundRepository: Repository<CrashRound>,
+  ) {}
+
+  /**
+   * Persist a finished round
+   * Never throws - a failed write must not break the game loop
+   */
+  async saveRound(
+    gameCode: string,
+    entry: CoefficientHistory,
+    distribution: CrashDistributionConfig | null,
+    seedChain: { chainId: string; index: number } | null = null,
+  ): Promise<void> {
+    try {
+      const round = this.crashRoundRepository.create({
+        gameCode,
+        gameUUID: entry.gameUUID,
+        roundId: String(entry.gameId),
+        crashCoeff: entry.coeff.toFixed(2),
+        serverSeed: entry.serverSeed,
+        hashedServerSeed: crypto.createHash('sha256').update(entry.serverSeed).digest('hex'),
+        clientsSeeds: entry.clientsSeeds,
+        combinedHash: entry.combinedHash,
+        decimal: entry.decimal,
+        distribution,
+        seedChainId: seedChain?.chainId ?? null,
+        seedChainIndex: seedChain?.index ?? null,
+      });
+      await this.crashRoundRepository.save(round);
+    } catch (error: any) {
+      this.logger.error(
+        `[CRASH_ROUND_HISTORY] Failed to save round: gameCode=${gameCode} gameUUID=${entry.gameUUID} error=${error?.message || error}`,
+      );
+    }
+  }
+
+  async findByGameUUID(gameCode: string, gameUUID: string): Promise<CrashRound | null> {
+    return this.crashRoundRepository.findOne({ where: { gameCode, gameUUID } });
+  }
+}
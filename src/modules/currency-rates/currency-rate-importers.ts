@@ -0,0 +1,48 @@
+import { Injectable } from '@nestjs/common';
+import * as fs from 'fs';
+import * as path from 'path';
+import { DEFAULTS } from '../../config/defaults.config';
+import { CurrencyRateInput, currencyRatesFromCsv, currencyRatesFromJson } from './currency-rates.util';
+import { REFERENCE_CURRENCY_RATES } from './reference-currency-rates';
+
+/**
+ * Source of exchange rates, run through POST /api/admin/currency-rates/import/:name
+ *
+ * Built-in importers are registered by CurrencyRatesService; a live feed can be added with
+ * CurrencyRatesService.registerImporter(). Returned rows are validated before they are stored.
+ */
+export interface CurrencyRateImporter {
+  readonly name: string;
+  fetchRates(): Promise<CurrencyRateInput[]>;
+}
+
+/**
+ * Stub feed: the static reference snapshot, quoted at the time of the import
+ */
+@Injectable()
+export class ReferenceCurrencyRateImporter implements CurrencyRateImporter {
+  readonly name = 'reference';
+
+  async fetchRates(): Promise<CurrencyRateInput[]> {
+    return currencyRatesFromJson(REFERENCE_CURRENCY_RATES);
+  }
+}
+
+/**
+ * Local file in the upload format (currency-rates.util); .csv files are read as CSV, others as JSON
+ */
+@Injectable()
+export class FileCurrencyRateImporter implements CurrencyRateImporter {
+  readonly name = 'file';
+
+  async fetchRates(): Promise<CurrencyRateInput[]> {
+    const filePath = path.resolve(
+      process.cwd(),
+      process.env.CURRENCY_RATES_FILE || DEFAULTS.PLATFORM.CURRENCY_RATES.FILE_PATH,
+    );
+    const content = await fs.promises.readFile(filePath, 'utf-8');
+    return path.extname(filePath).toLowerCase() === '.csv'
+      ? currencyRatesFromCsv(content)
+      : currencyRatesFromJson(JSON.parse(content));
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { CurrencyRate } from '../../entities/currency-rate.entity';
+import { RedisModule } from '../redis/redis.module';
+import { CurrencyRatesService } from './currency-rates.service';
+import { FileCurrencyRateImporter, ReferenceCurrencyRateImporter } from './currency-rate-importers';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([CurrencyRate]), RedisModule],
+  providers: [CurrencyRatesService, ReferenceCurrencyRateImporter, FileCurrencyRateImporter],
+  exports: [CurrencyRatesService],
+})
+export class CurrencyRatesModule {}
@@ -0,0 +1,216 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Not, Repository } from 'typeorm';
+import { DEFAULTS } from '../../config/defaults.config';
+import { CurrencyRate } from '../../entities/currency-rate.entity';
+import { RedisService } from '../redis/redis.service';
+import {
+  CurrencyRateImporter,
+  FileCurrencyRateImporter,
+  ReferenceCurrencyRateImporter,
+} from './currency-rate-importers';
+import { CurrencyRateInput, currencyRateErrors, InvalidCurrencyRatesError } from './currency-rates.util';
+import { REFERENCE_CURRENCY_RATES } from './reference-currency-rates';
+
+/**
+ * Rates served to games: units of each currency per 1 USD
+ */
+export interface CurrencyRateSnapshot {
+  rates: Record<string, number>;
+  oldestFetchedAt: string | null; // null while the built-in reference rates are served
+}
+
+export interface CurrencyRatesUpdate {
+  source: string;
+  saved: number;
+  removed: number; // rows dropped by a replace
+}
+
+/**
+ * Source recorded for rates of the admin bulk upload
+ */
+export const UPLOAD_RATE_SOURCE = 'upload';
+
+const CURRENCY_RATES_CONSTANTS = DEFAULTS.PLATFORM.CURRENCY_RATES;
+
+/**
+ * CurrencyRatesService - Exchange rates of the platform
+ *
+ * Rates live in the currency_rates table and are cached in Redis as one snapshot
+ * (CACHE_TTL_SECONDS), so every pod serves the same map. Writes through uploadRates() and
+ * runImporter() drop the cached snapshot. While the table is empty the built-in reference
+ * rates are served. Rates are sent to clients as `currencies` on connect and convert bet
+ * limits out of their base currency (BetLimitsService).
+ */
+@Injectable()
+export class CurrencyRatesService {
+  private readonly logger = new Logger(CurrencyRatesService.name);
+  private readonly importers = new Map<string, CurrencyRateImporter>();
+
+  constructor(
+    @InjectRepository(CurrencyRate)
+    private readonly rateRepository: Repository<CurrencyRate>,
+    private readonly redisService: RedisService,
+    referenceImporter: ReferenceCurrencyRateImporter,
+    fileImporter: FileCurrencyRateImporter,
+  ) {
+    this.registerImporter(referenceImporter);
+    this.registerImporter(fileImporter);
+  }
+
+  /**
+   * Make an importer available to runImporter() (replaces one of the same name)
+   */
+  registerImporter(importer: CurrencyRateImporter): void {
+    this.importers.set(importer.name, importer);
+  }
+
+  getImporterNames(): string[] {
+    return [...this.importers.keys()];
+  }
+
+  /**
+   * Units of each currency per 1 USD; never throws (falls back to the reference rates)
+   */
+  async getRates(): Promise<Record<string, number>> {
+    return (await this.getSnapshot()).rates;
+  }
+
+  /**
+   * Units of `to` per unit of `from`, or null when either currency has no rate
+   */
+  async getRate(from: string, to: string): Promise<number | null> {
+    const rates = await this.getRates();
+    const fromRate = rates[from];
+    const toRate = rates[to];
+    return fromRate > 0 && toRate > 0 ? toRate / fromRate : null;
+  }
+
+  async getSnapshot(): Promise<CurrencyRateSnapshot> {
+    try {
+      const cached = await this.redisService.get<CurrencyRateSnapshot>(CURRENCY_RATES_CONSTANTS.CACHE_KEY);
+      if (cached) {
+        return cached;
+      }
+    } catch (error) {
+      this.logger.warn(`[CURRENCY_RATES] Redis read failed, loading from the database: ${(error as Error).message}`);
+    }
+
+    const snapshot = await this.loadSnapshot();
+    try {
+      await this.redisService.set(
+        CURRENCY_RATES_CONSTANTS.CACHE_KEY,
+        snapshot,
+        CURRENCY_RATES_CONSTANTS.CACHE_TTL_SECONDS,
+      );
+    } catch (error) {
+      this.logger.warn(`[CURRENCY_RATES] Failed to cache rates: ${(error as Error).message}`);
+    }
+    return snapshot;
+  }
+
+  /**
+   * Stored rates with their source and freshness (uncached)
+   */
+  async listRates(): Promise<CurrencyRate[]> {
+    return this.rateRepository.find({ order: { currency: 'ASC' } });
+  }
+
+  /**
+   * Validate and store rates; currencies not listed keep their rate unless replace is set
+   * @throws InvalidCurrencyRatesError when any row is invalid (nothing is stored)
+   */
+  async uploadRates(
+    rates: CurrencyRateInput[],
+    source: string = UPLOAD_RATE_SOURCE,
+    replace: boolean = false,
+  ): Promise<CurrencyRatesUpdate> {
+    const errors = currencyRateErrors(rates);
+    if (errors.length) {
+      throw new InvalidCurrencyRatesError(errors);
+    }
+
+    const now = new Date();
+    const rows = rates.map(({ currency, rate, fetchedAt }) => ({
+      currency,
+      rate,
+      source,
+      fetchedAt: fetchedAt ? new Date(fetchedAt) : now,
+    }));
+    const currencies = rows.map((row) => row.currency);
+
+    const removed = await this.rateRepository.manager.transaction(async (manager) => {
+      await manager.getRepository(CurrencyRate).upsert(rows, ['currency']);
+      if (!replace) {
+        return 0;
+      }
+      const result = await manager.getRepository(CurrencyRate).delete({ currency: Not(In(currencies)) });
+      return result.affected ?? 0;
+    });
+    await this.invalidate();
+
+    this.logger.log(`[CURRENCY_RATES] Stored ${rows.length} rate(s) from ${source}, removed ${removed}`);
+    return { source, saved: rows.length, removed };
+  }
+
+  /**
+   * Fetch rates from a registered importer and store them
+   * @returns null when no importer has that name
+   * @throws InvalidCurrencyRatesError when the importer fails or returns invalid rows
+   */
+  async runImporter(name: string, replace: boolean = false): Promise<CurrencyRatesUpdate | null> {
+    const importer = this.importers.get(name);
+    if (!importer) {
+      return null;
+    }
+
+    let rates: CurrencyRateInput[];
+    try {
+      rates = await importer.fetchRates();
+    } catch (error) {
+      throw new InvalidCurrencyRatesError([`${name} importer failed: ${(error as Error).message}`]);
+    }
+    return this.uploadRates(rates, name, replace);
+  }
+
+  /**
+   * Drop the cached snapshot (after editing rows directly in the database)
+   */
+  async invalidate(): Promise<void> {
+    try {
+      await this.redisService.del(CURRENCY_RATES_CONSTANTS.CACHE_KEY);
+    } catch (error) {
+      // Pods pick the new rates up when the cached snapshot expires
+      this.logger.error(`[CURRENCY_RATES] Failed to drop cached rates: ${(error as Error).message}`);
+    }
+  }
+
+  private async loadSnapshot(): Promise<CurrencyRateSnapshot> {
+    let rows: CurrencyRate[];
+    try {
+      rows = await this.rateRepository.find();
+    } catch (error) {
+      this.logger.error(`[CURRENCY_RATES] Failed to load rates, using reference rates: ${(error as Error).message}`);
+      return { rates: { ...REFERENCE_CURRENCY_RATES }, oldestFetchedAt: null };
+    }
+    if (rows.length === 0) {
+      return { rates: { ...REFERENCE_CURRENCY_RATES }, oldestFetchedAt: null };
+    }
+
+    const staleBefore = Date.now() - CURRENCY_RATES_CONSTANTS.STALE_AFTER_HOURS * 3600 * 1000;
+    const stale = rows.filter((row) => new Date(row.fetchedAt).getTime() < staleBefore);
+    if (stale.length) {
+      this.logger.warn(
+        `[CURRENCY_RATES] ${stale.length} rate(s) older than ${CURRENCY_RATES_CONSTANTS.STALE_AFTER_HOURS}h: ${stale
+          .map((row) => row.currency)
+          .join(', ')}`,
+      );
+    }
+
+    const oldest = Math.min(...rows.map((row) => new Date(row.fetchedAt).getTime()));
+    return {
+      rates: Object.fromEntries(rows.map((row) => [row.currency, row.rate])),
+      oldestFetchedAt: new Date(oldest).toISOString(),
+    };
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * Exchange-rate uploads and importer output
+ *
+ * Rates are units of the currency per 1 USD. JSON uploads are either a map or a list:
+ *
+ *   { "EUR": 0.8755, "INR": 87.503 }
+ *   [{ "currency": "EUR", "rate": 0.8755, "fetchedAt": "2026-10-19T08:00:00Z" }]
+ *
+ * CSV uploads have one currency per line, with an optional header line:
+ *
+ *   currency,rate,fetchedAt
+ *   EUR,0.8755,2026-10-19T08:00:00Z
+ *   INR,87.503
+ *
+ * fetchedAt (ISO 8601) is when the source quoted the rate; rows without one are stamped with
+ * the time of the upload.
+ */
+
+export interface CurrencyRateInput {
+  currency: string;
+  rate: number;
+  fetchedAt?: string;
+}
+
+const CURRENCY_CODE = /^[A-Z0-9]{2,10}$/;
+const CSV_HEADER = /^\s*currency\s*,/i;
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Thrown by CurrencyRatesService when an upload or an importer yields unusable rates
+ */
+export class InvalidCurrencyRatesError extends Error {
+  constructor(readonly errors: string[]) {
+    super(`Invalid currency rates: ${errors.join('; ')}`);
+  }
+}
+
+/**
+ * Rates of a JSON upload (map or list); anything else gives an empty list
+ */
+export function currencyRatesFromJson(value: unknown): CurrencyRateInput[] {
+  if (Array.isArray(value)) {
+    return value.map((row) => ({
+      currency: String(row?.currency ?? '').trim().toUpperCase(),
+      rate: typeof row?.rate === 'string' ? Number(row.rate) : row?.rate,
+      fetchedAt: row?.fetchedAt ?? undefined,
+    }));
+  }
+  if (isPlainObject(value)) {
+    return Object.entries(value).map(([currency, rate]) => ({
+      currency: currency.trim().toUpperCase(),
+      rate: typeof rate === 'string' ? Number(rate) : (rate as number),
+    }));
+  }
+  return [];
+}
+
+/**
+ * Rates of a CSV upload; blank lines and the header line are skipped
+ */
+export function currencyRatesFromCsv(csv: string): CurrencyRateInput[] {
+  const lines = csv.split(/\r?\n/).filter((line) => line.trim() !== '');
+  if (lines.length && CSV_HEADER.test(lines[0])) {
+    lines.shift();
+  }
+
+  return lines.map((line) => {
+    const [currency = '', rate = '', fetchedAt = ''] = line.split(',').map((cell) => cell.trim());
+    return {
+      currency: currency.toUpperCase(),
+      rate: rate === '' ? NaN : Number(rate),
+      fetchedAt: fetchedAt || undefined,
+    };
+  });
+}
+
+/**
+ * Reasons a list of rates can't be stored (empty when valid)
+ */
+export function currencyRateErrors(rates: CurrencyRateInput[]): string[] {
+  if (rates.length === 0) {
+    return ['no currency rates given'];
+  }
+
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  rates.forEach(({ currency, rate, fetchedAt }, index) => {
+    const label = currency || `row ${index + 1}`;
+    if (!CURRENCY_CODE.test(currency)) {
+      errors.push(`${label}: currency must be 2-10 letters or digits`);
+    } else if (seen.has(currency)) {
+      errors.push(`${label}: listed more than once`);
+    }
+    seen.add(currency);
+
+    if (typeof rate !== 'number' || !Number.isFinite(rate) || rate <= 0) {
+      errors.push(`${label}: rate must be a positive number`);
+    }
+    if (fetchedAt !== undefined && Number.isNaN(Date.parse(fetchedAt))) {
+      errors.push(`${label}: fetchedAt must be an ISO 8601 date`);
+    }
+  });
+  return errors;
+}
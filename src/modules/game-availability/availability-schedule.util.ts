@@ -0,0 +1,207 @@
+/**
+ * Scheduled availability of a game
+ *
+ * The optional availabilitySchedule config key of a game limits when it is online:
+ *
+ *   {
+ *     "utcOffsetMinutes": 330,
+ *     "launchAt": "2026-11-01T00:00:00Z",
+ *     "endAt": "2026-12-01T00:00:00Z",
+ *     "weekly": [{ "days": [1, 2, 3, 4, 5], "from": "08:00", "to": "23:00" }],
+ *     "closedDates": ["2026-12-25"],
+ *     "operators": { "<agentId>": { "weekly": [{ "days": [0, 6], "from": "10:00", "to": "02:00" }] } }
+ *   }
+ *
+ * - launchAt / endAt: the game is offline before launchAt and from endAt (time-boxed launches)
+ * - weekly: windows in local time (utcOffsetMinutes), days 0 = Sunday; a window whose `to` is
+ *   before its `from` runs past midnight. Without weekly windows the game is online all day.
+ * - closedDates: local dates (YYYY-MM-DD) the game is offline
+ * - operators: replaces the game's rules for one agentId; crash rounds, shared by every
+ *   operator, run while the game's rules or any operator's rules are online
+ *
+ * No schedule means the game is always online (games.isActive still applies).
+ */
+
+export interface WeeklyWindow {
+  days: number[];
+  from: string; // HH:mm
+  to: string; // HH:mm, 24:00 allowed
+}
+
+export interface AvailabilityRules {
+  utcOffsetMinutes?: number;
+  launchAt?: string;
+  endAt?: string;
+  weekly?: WeeklyWindow[];
+  closedDates?: string[];
+}
+
+export interface AvailabilitySchedule extends AvailabilityRules {
+  operators?: Record<string, AvailabilityRules>;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MINUTES = 24 * 60;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$|^24:00$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function rulesErrors(field: string, rules: Record<string, any>, errors: string[]): void {
+  if (rules.utcOffsetMinutes !== undefined &&
+      (!Number.isInteger(rules.utcOffsetMinutes) || Math.abs(rules.utcOffsetMinutes) > 14 * 60)) {
+    errors.push(`${field}.utcOffsetMinutes must be an integer between -840 and 840`);
+  }
+  for (const key of ['launchAt', 'endAt']) {
+    if (rules[key] !== undefined && (typeof rules[key] !== 'string' || isNaN(Date.parse(rules[key])))) {
+      errors.push(`${field}.${key} must be an ISO 8601 date`);
+    }
+  }
+  if (rules.launchAt !== undefined && rules.endAt !== undefined &&
+      Date.parse(rules.launchAt) >= Date.parse(rules.endAt)) {
+    errors.push(`${field}.endAt must be after launchAt`);
+  }
+
+  if (rules.weekly !== undefined) {
+    if (!Array.isArray(rules.weekly) || rules.weekly.length === 0) {
+      errors.push(`${field}.weekly must be a non-empty array`);
+    } else {
+      rules.weekly.forEach((window: any, index: number) => {
+        const windowField = `${field}.weekly[${index}]`;
+        if (!isPlainObject(window)) {
+          errors.push(`${windowField} must be an object`);
+          return;
+        }
+        if (!Array.isArray(window.days) || window.days.length === 0 ||
+            window.days.some((day: unknown) => !Number.isInteger(day) || (day as number) < 0 || (day as number) > 6)) {
+          errors.push(`${windowField}.days must be a non-empty array of 0 (Sunday) to 6`);
+        }
+        if (typeof window.from !== 'string' || !TIME_PATTERN.test(window.from) || window.from === '24:00') {
+          errors.push(`${windowField}.from must be HH:mm`);
+        }
+        if (typeof window.to !== 'string' || !TIME_PATTERN.test(window.to)) {
+          errors.push(`${windowField}.to must be HH:mm`);
+        }
+        if (window.from === window.to) {
+          errors.push(`${windowField} must not start and end at the same time`);
+        }
+      });
+    }
+  }
+
+  if (rules.closedDates !== undefined &&
+      (!Array.isArray(rules.closedDates) ||
+       rules.closedDates.some((date: unknown) => typeof date !== 'string' || !DATE_PATTERN.test(date) || isNaN(Date.parse(date))))) {
+    errors.push(`${field}.closedDates must be an array of YYYY-MM-DD dates`);
+  }
+}
+
+/**
+ * Reasons an availabilitySchedule value can't be used (empty when valid)
+ */
+export function availabilityScheduleErrors(config: unknown): string[] {
+  if (!isPlainObject(config)) {
+    return ['availabilitySchedule must be an object'];
+  }
+
+  const errors: string[] = [];
+  rulesErrors('availabilitySchedule', config, errors);
+  if (config.operators !== undefined) {
+    if (!isPlainObject(config.operators)) {
+      errors.push('availabilitySchedule.operators must be an object of agentId -> schedule');
+    } else {
+      for (const [agentId, rules] of Object.entries(config.operators)) {
+        if (!isPlainObject(rules)) {
+          errors.push(`availabilitySchedule.operators.${agentId} must be an object`);
+        } else {
+          rulesErrors(`availabilitySchedule.operators.${agentId}`, rules, errors);
+        }
+      }
+    }
+  }
+  return errors;
+}
+
+/**
+ * Parse the availabilitySchedule config row
+ * @returns null when missing or invalid (always online)
+ */
+export function parseAvailabilitySchedule(configRaw: string | null): AvailabilitySchedule | null {
+  if (!configRaw || configRaw === '{}') {
+    return null;
+  }
+
+  let config: any;
+  try {
+    config = JSON.parse(configRaw);
+  } catch {
+    return null;
+  }
+  return availabilityScheduleErrors(config).length ? null : config;
+}
+
+/**
+ * Rules that apply to an operator: its own when set, else the game's
+ */
+export function rulesForOperator(
+  schedule: AvailabilitySchedule,
+  agentId?: string | null,
+): AvailabilityRules {
+  return (agentId && schedule.operators?.[agentId]) || schedule;
+}
+
+/**
+ * True when the game's rules or any operator's rules are online
+ */
+export function isAnyScheduleOnline(schedule: AvailabilitySchedule, at: Date): boolean {
+  return [schedule, ...Object.values(schedule.operators ?? {})].some((rules) => isOnlineAt(rules, at));
+}
+
+export function isOnlineAt(rules: AvailabilityRules, at: Date): boolean {
+  const time = at.getTime();
+  if (rules.launchAt && time < Date.parse(rules.launchAt)) return false;
+  if (rules.endAt && time >= Date.parse(rules.endAt)) return false;
+
+  // Local wall-clock time expressed through the UTC getters
+  const local = new Date(time + (rules.utcOffsetMinutes ?? 0) * MINUTE_MS);
+  if (rules.closedDates?.includes(local.toISOString().slice(0, 10))) return false;
+  if (!rules.weekly) return true;
+
+  const day = local.getUTCDay();
+  const previousDay = (day + 6) % 7;
+  const minute = local.getUTCHours() * 60 + local.getUTCMinutes();
+  return rules.weekly.some((window) => {
+    const from = toMinutes(window.from);
+    const to = window.to === '24:00' ? DAY_MINUTES : toMinutes(window.to);
+    if (from < to) {
+      return window.days.includes(day) && minute >= from && minute < to;
+    }
+    return (window.days.includes(day) && minute >= from) || (window.days.includes(previousDay) && minute < to);
+  });
+}
+
+/**
+ * First minute within the horizon at which an online game goes offline
+ * @returns null when it stays online for the whole horizon (or is already offline)
+ */
+export function nextCutoff(rules: AvailabilityRules, from: Date, horizonMs: number): Date | null {
+  if (!isOnlineAt(rules, from)) return null;
+
+  // endAt may fall between two minutes; everything else changes on whole minutes
+  const end = from.getTime() + horizonMs;
+  const endAt = rules.endAt ? Date.parse(rules.endAt) : Infinity;
+  const start = Math.floor(from.getTime() / MINUTE_MS + 1) * MINUTE_MS;
+  for (let time = start; time <= Math.min(end, endAt); time += MINUTE_MS) {
+    if (!isOnlineAt(rules, new Date(time))) {
+      return new Date(time);
+    }
+  }
+  return endAt <= end ? new Date(endAt) : null;
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { GameConfigModule } from '../game-config/game-config.module';
+import { GameAvailabilityService } from './game-availability.service';
+
+@Module({
+  imports: [GameConfigModule],
+  providers: [GameAvailabilityService],
+  exports: [GameAvailabilityService],
+})
+export class GameAvailabilityModule {}
@@ -0,0 +1,72 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { GameConfigService } from '../game-config/game-config.service';
+import { DEFAULTS } from '../../config/defaults.config';
+import {
+  AvailabilitySchedule,
+  isAnyScheduleOnline,
+  isOnlineAt,
+  nextCutoff,
+  parseAvailabilitySchedule,
+  rulesForOperator,
+} from './availability-schedule.util';
+
+export interface GameAvailability {
+  online: boolean;
+  cutoffAt: Date | null; // when an online game goes offline within the warning window
+}
+
+const AVAILABILITY_CONSTANTS = DEFAULTS.PLATFORM.AVAILABILITY;
+
+/**
+ * GameAvailabilityService - Scheduled availability of games (availabilitySchedule config key)
+ *
+ * Evaluated when a socket connects, at launch (doLoginAndLaunchGame) and before each crash round;
+ * games.isActive remains the manual switch on top of it.
+ */
+@Injectable()
+export class GameAvailabilityService {
+  private readonly logger = new Logger(GameAvailabilityService.name);
+
+  constructor(private readonly gameConfigService: GameConfigService) {}
+
+  /**
+   * Availability of a game for an operator (the game's own schedule without agentId)
+   * A schedule that can't be read leaves the game online
+   */
+  async getAvailability(
+    gameCode: string,
+    agentId?: string | null,
+    at: Date = new Date(),
+  ): Promise<GameAvailability> {
+    const schedule = await this.loadSchedule(gameCode);
+    if (!schedule) {
+      return { online: true, cutoffAt: null };
+    }
+
+    const rules = rulesForOperator(schedule, agentId);
+    const online = isOnlineAt(rules, at);
+    return {
+      online,
+      cutoffAt: online ? nextCutoff(rules, at, AVAILABILITY_CONSTANTS.WARNING_MINUTES * 60 * 1000) : null,
+    };
+  }
+
+  /**
+   * Whether the game is online for at least one operator (the game's schedule or an operator's)
+   * Crash rounds are shared by every operator, so the scheduler runs them while this holds
+   */
+  async isOnlineForAnyOperator(gameCode: string, at: Date = new Date()): Promise<boolean> {
+    const schedule = await this.loadSchedule(gameCode);
+    return !schedule || isAnyScheduleOnline(schedule, at);
+  }
+
+  private async loadSchedule(gameCode: string): Promise<AvailabilitySchedule | null> {
+    let raw: string | null = null;
+    try {
+      raw = await this.gameConfigService.getConfig(gameCode, AVAILABILITY_CONSTANTS.CONFIG_KEY);
+    } catch (error) {
+      this.logger.warn(`Failed to load availability schedule for ${gameCode}: ${(error as Error).message}`);
+    }
+    return parseAvailabilitySchedule(raw);
+  }
+}
@@ -0,0 +1,44 @@
+import { GameConfigDiffEntry } from '../../entities/game-config-revision.entity';
+
+/**
+ * Differences between two stored config values, for the audit trail
+ *
+ * JSON objects are compared field by field (dot paths); arrays and scalars are compared
+ * as a whole. Values that aren't JSON are compared as text.
+ */
+
+function parseStored(value: string | null): unknown {
+  if (value === null) return undefined;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function collectDiff(path: string, from: unknown, to: unknown, diff: GameConfigDiffEntry[]): void {
+  if (isPlainObject(from) && isPlainObject(to)) {
+    const keys = new Set([...Object.keys(from), ...Object.keys(to)]);
+    for (const key of keys) {
+      collectDiff(path ? `${path}.${key}` : key, from[key], to[key], diff);
+    }
+    return;
+  }
+  if (JSON.stringify(from) !== JSON.stringify(to)) {
+    diff.push({ path, from: from ?? null, to: to ?? null });
+  }
+}
+
+/**
+ * @param before - stored value before the change, null when the key didn't exist
+ * @param after - stored value after the change, null when the key was deleted
+ */
+export function diffConfigValues(before: string | null, after: string | null): GameConfigDiffEntry[] {
+  const diff: GameConfigDiffEntry[] = [];
+  collectDiff('', parseStored(before), parseStored(after), diff);
+  return diff;
+}
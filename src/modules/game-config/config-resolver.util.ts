@@ -0,0 +1,135 @@
+import { ConfigEntry, ConfigScope } from '../../entities/config-entry.entity';
+
+/**
+ * Layered config resolution
+ *
+ * A key resolves to its most specific entry, in this order:
+ *   operator + currency > operator > currency > game > platform
+ * Callers fall back to their DEFAULTS when no layer has the key.
+ */
+
+export const PLATFORM_GAME_CODE = 'platform';
+
+/**
+ * Keys shared by every operator of a game: read once per crash round or hazard rotation, or
+ * already holding their own per-operator map (Chicken Road coefficients are overridden per
+ * operator through difficultyOverrides). Only the game and platform layers apply.
+ */
+export const GAME_WIDE_CONFIG_KEYS = [
+  'RTP',
+  'coefficientSpeed',
+  'multiplierCurve',
+  'coefficientDistribution',
+  'liabilityLimit',
+  'hazardConfig',
+  'coefficients',
+  'maxWinCaps',
+  'difficultyOverrides',
+  'availabilitySchedule',
+];
+
+/**
+ * Who a value is resolved for; without it only the game and platform layers apply
+ */
+export interface ConfigContext {
+  operatorId?: string | null;
+  currency?: string | null;
+}
+
+/**
+ * Row a write goes to (operatorId / currency omitted for the game layer)
+ */
+export interface ConfigTarget extends ConfigContext {
+  gameCode: string;
+}
+
+export interface ConfigSource {
+  scope: ConfigScope;
+  gameCode: string;
+  operatorId: string | null;
+  currency: string | null;
+}
+
+export interface ResolvedConfig {
+  value: unknown;
+  /** Value as stored (JSON text, or the string itself) */
+  raw: string;
+  source: ConfigSource;
+}
+
+/**
+ * True when the target is an operator or currency layer
+ */
+export function isOverrideTarget(target: ConfigContext): boolean {
+  return !!(target.operatorId || target.currency);
+}
+
+/**
+ * Currency of a layer as stored ('' when none); codes are matched in upper case
+ */
+export function normalizeCurrency(currency?: string | null): string {
+  return currency ? currency.toUpperCase() : '';
+}
+
+export function scopeOf(target: ConfigTarget): ConfigScope {
+  if (target.gameCode === PLATFORM_GAME_CODE) return ConfigScope.PLATFORM;
+  if (target.operatorId) return ConfigScope.OPERATOR;
+  if (target.currency) return ConfigScope.CURRENCY;
+  return ConfigScope.GAME;
+}
+
+/**
+ * Stored text -> typed value (JSON when it parses, else the string)
+ */
+export function parseStoredValue(raw: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+}
+
+/**
+ * Rank of an entry for a context; -1 when it doesn't apply
+ */
+function layerRank(entry: ConfigEntry, gameCode: string, context: ConfigContext): number {
+  if (entry.gameCode === PLATFORM_GAME_CODE) {
+    return entry.operatorId || entry.currency ? -1 : 0;
+  }
+  if (entry.gameCode !== gameCode) return -1;
+  if (entry.operatorId && entry.operatorId !== context.operatorId) return -1;
+  if (entry.currency && entry.currency !== normalizeCurrency(context.currency)) return -1;
+  return 1 + (entry.currency ? 1 : 0) + (entry.operatorId ? 2 : 0);
+}
+
+/**
+ * Pick the effective entry among the entries of one key
+ * @param entries - entries of the key for the game and the platform
+ */
+export function resolveLayers(
+  entries: ConfigEntry[],
+  gameCode: string,
+  context: ConfigContext = {},
+): ResolvedConfig | null {
+  let best: ConfigEntry | null = null;
+  let bestRank = -1;
+  for (const entry of entries) {
+    const rank = layerRank(entry, gameCode, context);
+    if (rank > bestRank) {
+      best = entry;
+      bestRank = rank;
+    }
+  }
+  if (!best) return null;
+
+  return {
+    value: parseStoredValue(best.value),
+    raw: best.value,
+    source: {
+      scope: best.scope,
+      gameCode: best.gameCode,
+      operatorId: best.operatorId || null,
+      currency: best.currency || null,
+    },
+  };
+}
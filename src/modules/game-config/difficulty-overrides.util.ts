@@ -0,0 +1,51 @@
+/**
+ * Per-operator Chicken Road difficulty tables
+ *
+ * The optional difficultyOverrides config key replaces parts of the game's difficulty
+ * setup for one operator (agentId):
+ *
+ *   {
+ *     "<agentId>": {
+ *       "coefficients": { "EASY": ["1.02", ...] },
+ *       "hazards": { "EASY": 2 },
+ *       "totalColumns": { "EASY": 24 },
+ *       "difficulties": ["EASY", "MEDIUM"]
+ *     }
+ *   }
+ *
+ * A lane has one column per coefficient, so totalColumns only pins the expected length of the
+ * operator's coefficient array and is checked when the key is written. Difficulties left out of
+ * `difficulties` are hidden from the operator's config payload and rejected at bet time.
+ */
+
+export interface OperatorDifficultyOverride {
+  coefficients?: Record<string, readonly string[]>;
+  hazards?: Record<string, number>;
+  totalColumns?: Record<string, number>;
+  difficulties?: string[];
+}
+
+export type DifficultyOverrides = Record<string, OperatorDifficultyOverride>;
+
+export function isDifficultyEnabled(override: OperatorDifficultyOverride | null, difficulty: string): boolean {
+  return !override?.difficulties || override.difficulties.includes(difficulty);
+}
+
+/**
+ * Coefficient tables an operator plays with: game tables, replaced per difficulty by the
+ * override and limited to its enabled difficulties
+ */
+export function applyCoefficientOverride(
+  coefficients: Record<string, readonly string[]>,
+  override: OperatorDifficultyOverride | null,
+): Record<string, readonly string[]> {
+  if (!override) return coefficients;
+
+  const merged: Record<string, readonly string[]> = { ...coefficients, ...(override.coefficients || {}) };
+  for (const difficulty of Object.keys(merged)) {
+    if (!isDifficultyEnabled(override, difficulty)) {
+      delete merged[difficulty];
+    }
+  }
+  return merged;
+}
@@ -0,0 +1,615 @@
+import { GAME_CONSTANTS } from '../../common/game-constants';
+import { DEFAULTS } from '../../config/defaults.config';
+import { Difficulty } from '../../games/chicken-road-game/DTO/bet-payload.dto';
+import { hazardSurvivalProbability } from '../../games/chicken-road-game/modules/fairness/fairness.service';
+import { multiplierCurveErrors } from '../../games/shared/crash-multiplier-curve.util';
+import { liabilityLimitErrors } from '../../games/shared/crash-exposure.util';
+import { maxWinCapsErrors } from './max-win.util';
+import { OperatorDifficultyOverride } from './difficulty-overrides.util';
+import { abandonedSessionPolicyErrors } from '../../games/chicken-road-game/abandoned-session.util';
+import { availabilityScheduleErrors } from '../game-availability/availability-schedule.util';
+import { betLimitConversionErrors } from '../bet-limits/bet-limits.util';
+
+/**
+ * Write-time validation of game config rows
+ *
+ * Every key that a game service parses has a schema here. The loaders fall back to defaults
+ * on bad values, so an invalid row would otherwise go live silently; validating before the
+ * write turns that into an explicit rejection with a list of errors.
+ *
+ * Cross-key rules (hazardConfig.totalColumns vs coefficients lengths, operator overrides vs the
+ * game's tables) are checked against the effective value of the other keys, which the caller
+ * passes in as `related`.
+ */
+
+export type ValidatedConfigKey =
+  | 'betConfig'
+  | 'coefficients'
+  | 'hazardConfig'
+  | 'coefficientDistribution'
+  | 'RTP'
+  | 'coefficientSpeed'
+  | 'multiplierCurve'
+  | 'maxWinCaps'
+  | 'liabilityLimit'
+  | 'difficultyOverrides'
+  | 'abandonedSessionPolicy'
+  | 'availabilitySchedule'
+  | 'betLimitConversion'
+  | 'email_notification_config'
+  | 'dashboard_credentials';
+
+export const VALIDATED_CONFIG_KEYS: ValidatedConfigKey[] = [
+  'betConfig',
+  'coefficients',
+  'hazardConfig',
+  'coefficientDistribution',
+  'RTP',
+  'coefficientSpeed',
+  'multiplierCurve',
+  'maxWinCaps',
+  'liabilityLimit',
+  'difficultyOverrides',
+  'abandonedSessionPolicy',
+  'availabilitySchedule',
+  'betLimitConversion',
+  'email_notification_config',
+  'dashboard_credentials',
+];
+
+export interface ChickenRoadDifficultyRtp {
+  totalColumns: number;
+  hazardCount: number;
+  /** RTP (percent) of cashing out after each step, index 0 = after the first step */
+  stepRtp: number[];
+  minRtp: number;
+  maxRtp: number;
+  maxRtpStep: number;
+}
+
+export interface RelatedConfig {
+  coefficients?: Record<string, readonly string[]>;
+  hazardConfig?: { totalColumns?: Record<string, number> | number; hazards?: Record<string, number> };
+}
+
+export interface ConfigValidationResult {
+  key: string;
+  valid: boolean;
+  errors: string[];
+  warnings: string[];
+  /** Value as it will be stored (JSON keys are serialized) */
+  storedValue: string;
+}
+
+export interface GameConfigValidationReport extends ConfigValidationResult {
+  gameCode: string;
+  /** Chicken Road keys: RTP per difficulty after the change; RTP key: the configured RTP */
+  theoreticalRtp: Record<string, ChickenRoadDifficultyRtp> | number | null;
+}
+
+/**
+ * Thrown by GameConfigService.setConfig() when a value fails its schema
+ */
+export class InvalidGameConfigError extends Error {
+  constructor(readonly report: GameConfigValidationReport) {
+    super(`Invalid ${report.key} for ${report.gameCode}: ${report.errors.join('; ')}`);
+  }
+}
+
+const BET_AMOUNT_FIELDS = ['minBetAmount', 'maxBetAmount', 'maxWinAmount', 'defaultBetAmount'];
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toNumber(value: unknown): number {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '') return Number(value);
+  return NaN;
+}
+
+/**
+ * Parse a raw value into the shape the services read
+ * Config rows are strings; JSON keys accept either the JSON text or the already-parsed value
+ */
+function parseJsonValue(value: unknown, errors: string[]): any {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    errors.push('value is not valid JSON');
+    return undefined;
+  }
+}
+
+function validateBetConfig(value: unknown, errors: string[], warnings: string[]): void {
+  const config = parseJsonValue(value, errors);
+  if (config === undefined) return;
+  if (!isPlainObject(config)) {
+    errors.push('betConfig must be an object');
+    return;
+  }
+
+  const amounts: Record<string, number> = {};
+  for (const field of BET_AMOUNT_FIELDS) {
+    if (config[field] === undefined) continue;
+    const amount = toNumber(config[field]);
+    if (!isFinite(amount) || amount <= 0) {
+      errors.push(`betConfig.${field} must be a positive number`);
+      continue;
+    }
+    amounts[field] = amount;
+  }
+
+  const { minBetAmount, maxBetAmount, maxWinAmount, defaultBetAmount } = amounts;
+  if (minBetAmount !== undefined && maxBetAmount !== undefined && minBetAmount > maxBetAmount) {
+    errors.push('betConfig.minBetAmount must not exceed maxBetAmount');
+  }
+  if (maxBetAmount !== undefined && maxWinAmount !== undefined && maxWinAmount < maxBetAmount) {
+    errors.push('betConfig.maxWinAmount must not be lower than maxBetAmount');
+  }
+  if (defaultBetAmount !== undefined) {
+    if ((minBetAmount !== undefined && defaultBetAmount < minBetAmount) ||
+        (maxBetAmount !== undefined && defaultBetAmount > maxBetAmount)) {
+      errors.push('betConfig.defaultBetAmount must be between minBetAmount and maxBetAmount');
+    }
+  }
+
+  if (config.betPresets !== undefined) {
+    if (!Array.isArray(config.betPresets) || config.betPresets.length === 0) {
+      errors.push('betConfig.betPresets must be a non-empty array');
+    } else {
+      config.betPresets.forEach((preset: unknown, index: number) => {
+        const amount = toNumber(preset);
+        if (!isFinite(amount) || amount <= 0) {
+          errors.push(`betConfig.betPresets[${index}] must be a positive number`);
+        } else if ((minBetAmount !== undefined && amount < minBetAmount) ||
+                   (maxBetAmount !== undefined && amount > maxBetAmount)) {
+          warnings.push(`betConfig.betPresets[${index}]=${preset} is outside the bet range`);
+        }
+      });
+    }
+  }
+
+  if (config.decimalPlaces !== undefined) {
+    const places = toNumber(config.decimalPlaces);
+    if (!Number.isInteger(places) || places < 0 || places > GAME_CONSTANTS.CONFIG_VALIDATION.MAX_DECIMAL_PLACES) {
+      errors.push(`betConfig.decimalPlaces must be an integer between 0 and ${GAME_CONSTANTS.CONFIG_VALIDATION.MAX_DECIMAL_PLACES}`);
+    }
+  }
+
+  if (config.currency !== undefined && (typeof config.currency !== 'string' || config.currency.trim() === '')) {
+    errors.push('betConfig.currency must be a non-empty string');
+  }
+}
+
+function validateDifficultyKeys(field: string, map: Record<string, unknown>, errors: string[]): void {
+  const allowed = Object.values(Difficulty) as string[];
+  for (const key of Object.keys(map)) {
+    if (!allowed.includes(key)) {
+      errors.push(`${field}.${key} is not a difficulty (expected one of ${allowed.join(', ')})`);
+    }
+  }
+}
+
+function validateCoefficients(
+  value: unknown,
+  errors: string[],
+  field: string = 'coefficients',
+): Record<string, string[]> | undefined {
+  const config = parseJsonValue(value, errors);
+  if (config === undefined) return undefined;
+  if (!isPlainObject(config) || Object.keys(config).length === 0) {
+    errors.push(`${field} must be a non-empty object keyed by difficulty`);
+    return undefined;
+  }
+
+  validateDifficultyKeys(field, config, errors);
+  for (const [difficulty, list] of Object.entries(config)) {
+    if (!Array.isArray(list) || list.length < 2) {
+      errors.push(`${field}.${difficulty} must be an array with at least 2 entries`);
+      continue;
+    }
+    let previous = 0;
+    list.forEach((coeff: unknown, index: number) => {
+      const parsed = toNumber(coeff);
+      if (!isFinite(parsed) || parsed < 1) {
+        errors.push(`${field}.${difficulty}[${index}] must be a number >= 1`);
+        return;
+      }
+      if (parsed <= previous) {
+        errors.push(`${field}.${difficulty}[${index}] must be greater than the previous step`);
+      }
+      previous = parsed;
+    });
+  }
+  return config;
+}
+
+function validateHazardConfig(value: unknown, errors: string[]): RelatedConfig['hazardConfig'] | undefined {
+  const config = parseJsonValue(value, errors);
+  if (config === undefined) return undefined;
+  if (!isPlainObject(config)) {
+    errors.push('hazardConfig must be an object');
+    return undefined;
+  }
+
+  const { totalColumns, hazards, hazardRefreshMs } = config;
+
+  if (typeof totalColumns === 'number') {
+    if (!Number.isInteger(totalColumns) || totalColumns < 2) {
+      errors.push('hazardConfig.totalColumns must be an integer >= 2');
+    }
+  } else if (isPlainObject(totalColumns)) {
+    validateDifficultyKeys('hazardConfig.totalColumns', totalColumns, errors);
+    for (const [difficulty, columns] of Object.entries(totalColumns)) {
+      if (!Number.isInteger(columns) || (columns as number) < 2) {
+        errors.push(`hazardConfig.totalColumns.${difficulty} must be an integer >= 2`);
+      }
+    }
+  } else if (totalColumns !== undefined) {
+    errors.push('hazardConfig.totalColumns must be a number or an object keyed by difficulty');
+  }
+
+  if (hazards !== undefined) {
+    if (!isPlainObject(hazards)) {
+      errors.push('hazardConfig.hazards must be an object keyed by difficulty');
+    } else {
+      validateDifficultyKeys('hazardConfig.hazards', hazards, errors);
+      for (const [difficulty, count] of Object.entries(hazards)) {
+        if (!Number.isInteger(count) || (count as number) < 1) {
+          errors.push(`hazardConfig.hazards.${difficulty} must be an integer >= 1`);
+          continue;
+        }
+        const columns = typeof totalColumns === 'number' ? totalColumns : totalColumns?.[difficulty];
+        if (Number.isInteger(columns) && (count as number) >= columns) {
+          errors.push(`hazardConfig.hazards.${difficulty} must be lower than totalColumns (${columns})`);
+        }
+      }
+    }
+  }
+
+  if (hazardRefreshMs !== undefined) {
+    const { HAZARD_REFRESH_MIN_MS, HAZARD_REFRESH_MAX_MS } = DEFAULTS.GAMES.CHICKEN_ROAD.GAME;
+    if (!Number.isInteger(hazardRefreshMs) || hazardRefreshMs < HAZARD_REFRESH_MIN_MS || hazardRefreshMs > HAZARD_REFRESH_MAX_MS) {
+      errors.push(`hazardConfig.hazardRefreshMs must be an integer between ${HAZARD_REFRESH_MIN_MS} and ${HAZARD_REFRESH_MAX_MS}`);
+    }
+  }
+
+  return config;
+}
+
+function validateDifficultyCounts(field: string, value: unknown, min: number, errors: string[]): void {
+  if (value === undefined) return;
+  if (!isPlainObject(value)) {
+    errors.push(`${field} must be an object keyed by difficulty`);
+    return;
+  }
+  validateDifficultyKeys(field, value, errors);
+  for (const [difficulty, count] of Object.entries(value)) {
+    if (!Number.isInteger(count) || (count as number) < min) {
+      errors.push(`${field}.${difficulty} must be an integer >= ${min}`);
+    }
+  }
+}
+
+/**
+ * Operator overrides are checked against the game's coefficients: each overridden difficulty
+ * must keep coefficients, totalColumns and hazards consistent for that operator
+ */
+function validateDifficultyOverrides(
+  value: unknown,
+  related: RelatedConfig,
+  errors: string[],
+): Record<string, OperatorDifficultyOverride> | undefined {
+  const config = parseJsonValue(value, errors);
+  if (config === undefined) return undefined;
+  if (!isPlainObject(config)) {
+    errors.push('difficultyOverrides must be an object of agentId -> override');
+    return undefined;
+  }
+
+  const allowed = Object.values(Difficulty) as string[];
+  for (const [agentId, override] of Object.entries(config)) {
+    const field = `difficultyOverrides.${agentId}`;
+    if (!isPlainObject(override)) {
+      errors.push(`${field} must be an object`);
+      continue;
+    }
+
+    const coefficients = override.coefficients !== undefined
+      ? validateCoefficients(override.coefficients, errors, `${field}.coefficients`)
+      : undefined;
+    validateDifficultyCounts(`${field}.totalColumns`, override.totalColumns, 2, errors);
+    validateDifficultyCounts(`${field}.hazards`, override.hazards, 1, errors);
+
+    if (override.difficulties !== undefined) {
+      if (!Array.isArray(override.difficulties) || override.difficulties.length === 0 ||
+          override.difficulties.some((difficulty: unknown) => !allowed.includes(difficulty as string))) {
+        errors.push(`${field}.difficulties must be a non-empty array of ${allowed.join(', ')}`);
+      }
+    }
+
+    const difficulties = new Set([
+      ...Object.keys(isPlainObject(override.coefficients) ? override.coefficients : {}),
+      ...Object.keys(isPlainObject(override.totalColumns) ? override.totalColumns : {}),
+      ...Object.keys(isPlainObject(override.hazards) ? override.hazards : {}),
+    ]);
+    for (const difficulty of difficulties) {
+      const list = coefficients?.[difficulty] ?? related.coefficients?.[difficulty];
+      const columns = override.totalColumns?.[difficulty] ?? (Array.isArray(list) ? list.length : undefined);
+      if (Array.isArray(list) && override.totalColumns?.[difficulty] !== undefined && columns !== list.length) {
+        errors.push(`${field}.totalColumns.${difficulty} (${columns}) must equal the number of coefficients (${list.length})`);
+      }
+      const hazards = override.hazards?.[difficulty];
+      if (Number.isInteger(hazards) && Number.isInteger(columns) && hazards >= columns) {
+        errors.push(`${field}.hazards.${difficulty} must be lower than totalColumns (${columns})`);
+      }
+    }
+  }
+
+  return config;
+}
+
+/**
+ * Same acceptance rules as parseCrashDistribution(), but reporting why a value is rejected
+ */
+function validateCoefficientDistribution(value: unknown, errors: string[], warnings: string[]): void {
+  const config = parseJsonValue(value, errors);
+  if (config === undefined) return;
+  if (!isPlainObject(config)) {
+    errors.push('coefficientDistribution must be an object');
+    return;
+  }
+
+  if (config.distributionType === 'house-edge') {
+    const rtp = toNumber(config.rtp);
+    const maxCoeff = toNumber(config.maxCoeff);
+    if (!(rtp > 0 && rtp <= 100)) {
+      errors.push('coefficientDistribution.rtp must be in (0, 100]');
+    }
+    if (!(maxCoeff >= 1)) {
+      errors.push('coefficientDistribution.maxCoeff must be >= 1');
+    }
+    return;
+  }
+
+  if (config.distributionType !== undefined && !['uniform', 'power'].includes(config.distributionType)) {
+    errors.push('coefficientDistribution.distributionType must be one of uniform, power, house-edge');
+  }
+  if (!Array.isArray(config.ranges) || config.ranges.length === 0) {
+    errors.push('coefficientDistribution.ranges must be a non-empty array');
+    return;
+  }
+
+  let totalWeight = 0;
+  config.ranges.forEach((range: any, index: number) => {
+    const prefix = `coefficientDistribution.ranges[${index}]`;
+    if (!isPlainObject(range)) {
+      errors.push(`${prefix} must be an object`);
+      return;
+    }
+    if (typeof range.min !== 'number' || typeof range.max !== 'number' || range.min < 1 || range.max <= range.min) {
+      errors.push(`${prefix} must have numeric min >= 1 and max > min`);
+    }
+    if (typeof range.weight !== 'number' || range.weight < 0) {
+      errors.push(`${prefix}.weight must be a non-negative number`);
+    } else {
+      totalWeight += range.weight;
+    }
+  });
+
+  if (Math.abs(totalWeight - 1.0) >= GAME_CONSTANTS.CONFIG_VALIDATION.WEIGHT_TOLERANCE) {
+    errors.push(`coefficientDistribution weights must sum to 1.0 (got ${parseFloat(totalWeight.toFixed(4))})`);
+  }
+  // Since the RTP-driven crash model only the upper bound of the ranges affects live rounds
+  warnings.push('range distributions only contribute their highest max as the crash cap; odds come from RTP');
+}
+
+/**
+ * Platform keys (game_config_platform) read by WalletNotificationService and the dashboard
+ */
+function validateEmailNotificationConfig(value: unknown, errors: string[]): void {
+  const config = parseJsonValue(value, errors);
+  if (config === undefined) return;
+  if (!isPlainObject(config)) {
+    errors.push('email_notification_config must be an object');
+    return;
+  }
+  if (typeof config.to !== 'string' || config.to === '') {
+    errors.push('email_notification_config.to is required');
+  }
+  if (!isPlainObject(config.smtp)) {
+    errors.push('email_notification_config.smtp must be an object');
+    return;
+  }
+  for (const field of ['host', 'user', 'pass']) {
+    if (typeof config.smtp[field] !== 'string' || config.smtp[field] === '') {
+      errors.push(`email_notification_config.smtp.${field} is required`);
+    }
+  }
+  if (config.smtp.port !== undefined && (!Number.isInteger(config.smtp.port) || config.smtp.port <= 0)) {
+    errors.push('email_notification_config.smtp.port must be a positive integer');
+  }
+}
+
+function validateDashboardCredentials(value: unknown, errors: string[]): void {
+  const credentials = parseJsonValue(value, errors);
+  if (credentials === undefined) return;
+  if (!isPlainObject(credentials)) {
+    errors.push('dashboard_credentials must be an object');
+    return;
+  }
+  for (const field of ['userId', 'agentId', 'cert']) {
+    if (credentials[field] !== undefined && typeof credentials[field] !== 'string') {
+      errors.push(`dashboard_credentials.${field} must be a string`);
+    }
+  }
+}
+
+function validateNumberInRange(
+  key: string,
+  value: unknown,
+  min: number,
+  max: number,
+  minInclusive: boolean,
+  errors: string[],
+): void {
+  const parsed = toNumber(value);
+  const aboveMin = minInclusive ? parsed >= min : parsed > min;
+  if (!isFinite(parsed) || !aboveMin || parsed > max) {
+    errors.push(`${key} must be a number ${minInclusive ? '>=' : '>'} ${min} and <= ${max}`);
+  }
+}
+
+/**
+ * Validate one config value
+ * @param related - effective coefficients / hazardConfig of the game, for cross-key checks
+ */
+export function validateConfigValue(key: string, value: unknown, related: RelatedConfig = {}): ConfigValidationResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const storedValue = typeof value === 'string' ? value : JSON.stringify(value);
+  const limits = GAME_CONSTANTS.CONFIG_VALIDATION;
+
+  switch (key) {
+    case 'betConfig':
+      validateBetConfig(value, errors, warnings);
+      break;
+    case 'coefficients': {
+      const coefficients = validateCoefficients(value, errors);
+      if (coefficients && related.hazardConfig) {
+        checkColumnsMatch(coefficients, related.hazardConfig, errors);
+      }
+      break;
+    }
+    case 'hazardConfig': {
+      const hazardConfig = validateHazardConfig(value, errors);
+      if (hazardConfig && related.coefficients) {
+        checkColumnsMatch(related.coefficients, hazardConfig, errors);
+      }
+      break;
+    }
+    case 'coefficientDistribution':
+      validateCoefficientDistribution(value, errors, warnings);
+      break;
+    case 'RTP':
+      validateNumberInRange(key, value, limits.RTP_MIN, limits.RTP_MAX, false, errors);
+      break;
+    case 'coefficientSpeed':
+      validateNumberInRange(key, value, 0, limits.COEFF_SPEED_MAX, false, errors);
+      break;
+    case 'multiplierCurve': {
+      const curve = parseJsonValue(value, errors);
+      if (curve !== undefined) {
+        errors.push(...multiplierCurveErrors(curve));
+      }
+      break;
+    }
+    case 'maxWinCaps': {
+      const caps = parseJsonValue(value, errors);
+      if (caps !== undefined) {
+        errors.push(...maxWinCapsErrors(caps));
+      }
+      break;
+    }
+    case 'liabilityLimit': {
+      const limit = parseJsonValue(value, errors);
+      if (limit !== undefined) {
+        errors.push(...liabilityLimitErrors(limit));
+      }
+      break;
+    }
+    case 'difficultyOverrides':
+      validateDifficultyOverrides(value, related, errors);
+      break;
+    case 'abandonedSessionPolicy': {
+      const policy = parseJsonValue(value, errors);
+      if (policy !== undefined) {
+        errors.push(...abandonedSessionPolicyErrors(policy));
+      }
+      break;
+    }
+    case 'availabilitySchedule': {
+      const schedule = parseJsonValue(value, errors);
+      if (schedule !== undefined) {
+        errors.push(...availabilityScheduleErrors(schedule));
+      }
+      break;
+    }
+    case 'betLimitConversion': {
+      const conversion = parseJsonValue(value, errors);
+      if (conversion !== undefined) {
+        errors.push(...betLimitConversionErrors(conversion));
+      }
+      break;
+    }
+    case 'email_notification_config':
+      validateEmailNotificationConfig(value, errors);
+      break;
+    case 'dashboard_credentials':
+      validateDashboardCredentials(value, errors);
+      break;
+    default:
+      warnings.push(`no schema for key "${key}"; value is stored unchecked`);
+  }
+
+  return { key, valid: errors.length === 0, errors, warnings, storedValue };
+}
+
+/**
+ * hazardConfig.totalColumns must equal the coefficient count of each difficulty;
+ * bets are played over the coefficient array while the rotating pattern uses totalColumns
+ */
+function checkColumnsMatch(
+  coefficients: Record<string, readonly string[]>,
+  hazardConfig: NonNullable<RelatedConfig['hazardConfig']>,
+  errors: string[],
+): void {
+  const { totalColumns } = hazardConfig;
+  if (totalColumns === undefined) return;
+
+  for (const [difficulty, list] of Object.entries(coefficients)) {
+    if (!Array.isArray(list)) continue;
+    const columns = typeof totalColumns === 'number' ? totalColumns : totalColumns[difficulty];
+    if (columns !== undefined && columns !== list.length) {
+      errors.push(
+        `hazardConfig.totalColumns.${difficulty} (${columns}) must equal the number of coefficients (${list.length})`,
+      );
+    }
+  }
+}
+
+/**
+ * Theoretical RTP of each Chicken Road difficulty under the per-bet hazard model
+ * Cashing out after step k pays coefficient[k - 1] with probability survival(k)
+ */
+export function chickenRoadTheoreticalRtp(
+  coefficients: Record<string, readonly string[]>,
+  hazards: Record<string, number>,
+): Record<string, ChickenRoadDifficultyRtp> {
+  const report: Record<string, ChickenRoadDifficultyRtp> = {};
+
+  for (const [difficulty, list] of Object.entries(coefficients)) {
+    const hazardCount = hazards[difficulty];
+    if (!Array.isArray(list) || list.length === 0 || hazardCount === undefined) continue;
+
+    const totalColumns = list.length;
+    const stepRtp = list.map((coeff, index) => {
+      const rtp = toNumber(coeff) * hazardSurvivalProbability(hazardCount, totalColumns, index + 1) * 100;
+      return parseFloat(rtp.toFixed(4));
+    });
+    const maxRtp = Math.max(...stepRtp);
+
+    report[difficulty] = {
+      totalColumns,
+      hazardCount,
+      stepRtp,
+      minRtp: Math.min(...stepRtp),
+      maxRtp,
+      maxRtpStep: stepRtp.indexOf(maxRtp) + 1,
+    };
+  }
+
+  return report;
+}
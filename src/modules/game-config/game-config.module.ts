@@ -1,8 +1,14 @@
-import { Module } from '@nestjs/common';
+import { forwardRef, Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { GameConfigRevision } from '../../entities/game-config-revision.entity';
+import { ConfigEntry } from '../../entities/config-entry.entity';
 import { GameConfigService } from './game-config.service';
+import { LegacyConfigImportService } from './legacy-config-import.service';
+import { RedisModule } from '../redis/redis.module';
 
 @Module({
-  providers: [GameConfigService],
-  exports: [GameConfigService],
+  imports: [TypeOrmModule.forFeature([ConfigEntry, GameConfigRevision]), forwardRef(() => RedisModule)],
+  providers: [GameConfigService, LegacyConfigImportService],
+  exports: [GameConfigService, LegacyConfigImportService],
 })
 export class GameConfigModule {}
@@ -1,82 +1,538 @@
-import { Injectable, Logger } from '@nestjs/common';
-import { InjectDataSource } from '@nestjs/typeorm';
-import { DataSource } from 'typeorm';
+import { forwardRef, Inject, Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
 import { DEFAULTS } from '../../config/defaults.config';
+import { PubSubService } from '../redis/pub-sub.service';
+import { GameConfigRevision, GameConfigRevisionAction } from '../../entities/game-config-revision.entity';
+import { ConfigEntry } from '../../entities/config-entry.entity';
+import { diffConfigValues } from './config-diff.util';
+import {
+  ConfigContext,
+  ConfigTarget,
+  GAME_WIDE_CONFIG_KEYS,
+  isOverrideTarget,
+  normalizeCurrency,
+  PLATFORM_GAME_CODE,
+  ResolvedConfig,
+  resolveLayers,
+  scopeOf,
+} from './config-resolver.util';
+import { GAME_CONSTANTS } from '../../common/game-constants';
+import {
+  chickenRoadTheoreticalRtp,
+  GameConfigValidationReport,
+  InvalidGameConfigError,
+  RelatedConfig,
+  validateConfigValue,
+} from './game-config-validation.util';
+import { MaxWinCaps, maxWinCapsErrors, resolveMaxWinAmount } from './max-win.util';
+import { applyCoefficientOverride, DifficultyOverrides, OperatorDifficultyOverride } from './difficulty-overrides.util';
+
+/**
+ * Config change broadcast to every pod (key null: all keys of the game)
+ */
+export interface GameConfigChange {
+  gameCode: string;
+  key: string | null;
+}
+
+/**
+ * Stored value of a key in one layer
+ */
+export interface GameConfigEntry {
+  key: string;
+  value: string;
+}
+
+/**
+ * Stored value of an operator or currency layer ('' when the layer isn't narrowed by it)
+ */
+export interface GameConfigOverride extends GameConfigEntry {
+  operatorId: string;
+  currency: string;
+}
+
+export type GameConfigChangeListener = (change: GameConfigChange) => void | Promise<void>;
+
+const CONFIG_CACHE_CONSTANTS = DEFAULTS.PLATFORM.CONFIG_CACHE;
 
 /**
  * GameConfigService - Generic service for fetching game configs from database
- * Works for all games by querying game_config_{normalizedGameCode} tables
+ * Works for all games through the unified config store (config_entries): platform, game,
+ * operator and currency layers, resolved by config-resolver.util
+ *
+ * The entries of a key (all layers) are cached in memory for CONFIG_CACHE.TTL_MS. Writes through
+ * setConfig() and invalidate() are broadcast over Redis pub/sub, so every pod drops its copy and
+ * runs the onConfigChange() listeners right away; rows edited directly in the database are picked
+ * up when the cached value expires.
  */
 @Injectable()
-export class GameConfigService {
+export class GameConfigService implements OnModuleInit {
   private readonly logger = new Logger(GameConfigService.name);
+  private readonly cache = new Map<string, { entries: ConfigEntry[]; expiresAt: number }>();
+  private readonly listeners = new Set<GameConfigChangeListener>();
 
   constructor(
-    @InjectDataSource()
-    private readonly dataSource: DataSource,
+    @InjectRepository(ConfigEntry)
+    private readonly entryRepository: Repository<ConfigEntry>,
+    @Inject(forwardRef(() => PubSubService))
+    private readonly pubSubService: PubSubService,
+    @InjectRepository(GameConfigRevision)
+    private readonly revisionRepository: Repository<GameConfigRevision>,
   ) {}
 
+  async onModuleInit() {
+    try {
+      await this.pubSubService.subscribe(CONFIG_CACHE_CONSTANTS.CHANNEL, (message: string) => {
+        this.onChangeMessage(message);
+      });
+    } catch (error) {
+      this.logger.error(`Failed to subscribe to config changes: ${(error as Error).message}`);
+    }
+  }
+
   /**
-   * Normalize gameCode for table names
-   * Example: 'sugar-daddy' → 'sugar_daddy'
-   * Example: 'chicken-road-two' → 'chicken_road_two'
+   * Get config value for a game
+   * @param gameCode - Game code (e.g., 'sugar-daddy', 'chicken-road-two'), or 'platform'
+   * @param key - Config key (e.g., 'betConfig', 'RTP', 'coefficients', 'frontend.host')
+   * @param context - operator (agentId) / currency of the player; their override layers win over the game's value
+   * @returns Config value as string, or null if not found (allows graceful fallback to defaults)
    */
-  private normalizeGameCode(gameCode: string): string {
-    return gameCode.toLowerCase().replace(/-/g, '_');
+  async getConfig(gameCode: string, key: string, context: ConfigContext = {}): Promise<string | null> {
+    // Log removed to reduce log size - config retrieval is working normally
+    const resolved = await this.resolveConfig(gameCode, key, context);
+    return resolved ? resolved.raw : null;
   }
 
   /**
-   * Get config from specific game's config table
-   * Returns null if table doesn't exist or key not found (for graceful fallback)
+   * Effective value of a key and the layer it came from
+   * @returns null when no layer has the key (callers use their defaults)
    */
-  private async getConfigFromTable(gameCode: string, key: string): Promise<{ key: string; value: string } | null> {
-    const normalizedGameCode = this.normalizeGameCode(gameCode);
-    const tableName = `game_config_${normalizedGameCode}`;
+  async resolveConfig(gameCode: string, key: string, context: ConfigContext = {}): Promise<ResolvedConfig | null> {
+    const entries = await this.getKeyEntries(gameCode, key);
+    return resolveLayers(entries, gameCode, context);
+  }
 
+  /**
+   * Drop cached values on every pod and notify the config-change listeners
+   * @param key - Config key, or all keys of the game when omitted
+   */
+  async invalidate(gameCode: string, key?: string | null): Promise<void> {
+    const change: GameConfigChange = { gameCode, key: key ?? null };
+    this.evict(change);
     try {
-      const result = await this.dataSource.query(
-        `SELECT * FROM \`${tableName}\` WHERE \`key\` = ? LIMIT 1`,
-        [key]
+      await this.pubSubService.publish(CONFIG_CACHE_CONSTANTS.CHANNEL, change);
+    } catch (error) {
+      // Other pods pick the change up when their cached value expires
+      this.logger.error(`Failed to broadcast config change for ${gameCode}: ${(error as Error).message}`);
+      this.notifyListeners(change);
+    }
+  }
+
+  /**
+   * Register a callback run on every pod after a config value changes
+   */
+  onConfigChange(listener: GameConfigChangeListener): void {
+    this.listeners.add(listener);
+  }
+
+  /**
+   * Validate a config value against its schema without writing it
+   * Cross-key rules use the game's current effective coefficients / hazardConfig;
+   * Chicken Road keys also report the theoretical RTP per difficulty after the change
+   * @param context - operator / currency layer the value is written to (game layer when empty)
+   */
+  async validateConfig(
+    gameCode: string,
+    key: string,
+    value: unknown,
+    context: ConfigContext = {},
+  ): Promise<GameConfigValidationReport> {
+    const isChickenRoadKey = key === 'coefficients' || key === 'hazardConfig';
+    const related: RelatedConfig = {};
+    if (key === 'hazardConfig' || key === 'difficultyOverrides') {
+      related.coefficients = await this.getEffectiveJson(gameCode, 'coefficients', DEFAULTS.GAMES.CHICKEN_ROAD.coefficients);
+    }
+    if (key === 'coefficients' || key === 'difficultyOverrides') {
+      related.hazardConfig = await this.getEffectiveJson(gameCode, 'hazardConfig', DEFAULTS.GAMES.CHICKEN_ROAD.hazardConfig);
+    }
+
+    const result = validateConfigValue(key, value, related);
+    if (isOverrideTarget(context)) {
+      result.errors.push(...this.overrideErrors(gameCode, key));
+      result.valid = result.errors.length === 0;
+    }
+    const report: GameConfigValidationReport = { ...result, gameCode, theoreticalRtp: null };
+
+    if (result.valid && key === 'RTP') {
+      report.theoreticalRtp = parseFloat(result.storedValue);
+    }
+
+    if (result.valid && isChickenRoadKey) {
+      const candidate = JSON.parse(result.storedValue);
+      const coefficients = key === 'coefficients' ? candidate : related.coefficients!;
+      const hazardConfig = key === 'hazardConfig' ? candidate : related.hazardConfig!;
+      const rtp = chickenRoadTheoreticalRtp(
+        coefficients,
+        hazardConfig.hazards || DEFAULTS.GAMES.CHICKEN_ROAD.hazardConfig.hazards,
       );
+      for (const [difficulty, { maxRtp, maxRtpStep }] of Object.entries(rtp)) {
+        if (maxRtp > GAME_CONSTANTS.CONFIG_VALIDATION.RTP_WARNING_THRESHOLD) {
+          report.warnings.push(`${difficulty}: cashing out after step ${maxRtpStep} returns ${maxRtp}%`);
+        }
+      }
+      report.theoreticalRtp = rtp;
+    }
 
-      if (!result || result.length === 0) {
-        this.logger.debug(`Config key "${key}" not found in table ${tableName} for game ${gameCode}`);
-        return null;
+    if (result.valid && key === 'difficultyOverrides') {
+      const overrides: DifficultyOverrides = JSON.parse(result.storedValue);
+      const baseHazards = related.hazardConfig!.hazards || DEFAULTS.GAMES.CHICKEN_ROAD.hazardConfig.hazards;
+      for (const [agentId, override] of Object.entries(overrides)) {
+        const rtp = chickenRoadTheoreticalRtp(
+          applyCoefficientOverride(related.coefficients!, override),
+          { ...baseHazards, ...(override.hazards || {}) },
+        );
+        for (const [difficulty, { maxRtp, maxRtpStep }] of Object.entries(rtp)) {
+          if (maxRtp > GAME_CONSTANTS.CONFIG_VALIDATION.RTP_WARNING_THRESHOLD) {
+            report.warnings.push(`${agentId} ${difficulty}: cashing out after step ${maxRtpStep} returns ${maxRtp}%`);
+          }
+        }
       }
+    }
+
+    return report;
+  }
+
+  /**
+   * All values stored in one layer (uncached); gameCode 'platform' lists the platform keys
+   * @param context - operator / currency layer, the game layer when empty
+   */
+  async listConfigs(gameCode: string, context: ConfigContext = {}): Promise<GameConfigEntry[]> {
+    const entries = await this.entryRepository.find({
+      where: { gameCode, operatorId: context.operatorId || '', currency: normalizeCurrency(context.currency) },
+      order: { key: 'ASC' },
+    });
+    return entries.map((entry) => ({ key: entry.key, value: entry.value }));
+  }
+
+  /**
+   * Every operator and currency override of a game (uncached)
+   */
+  async listOverrides(gameCode: string): Promise<GameConfigOverride[]> {
+    const entries = await this.entryRepository.find({
+      where: { gameCode },
+      order: { key: 'ASC', operatorId: 'ASC', currency: 'ASC' },
+    });
+    return entries
+      .filter((entry) => isOverrideTarget(entry))
+      .map((entry) => ({
+        key: entry.key,
+        value: entry.value,
+        operatorId: entry.operatorId,
+        currency: entry.currency,
+      }));
+  }
+
+  /**
+   * Stored value of a key in one layer (uncached)
+   * @param context - operator / currency layer, the game layer when empty
+   * @returns null when the key has no entry
+   */
+  async getStoredConfig(gameCode: string, key: string, context: ConfigContext = {}): Promise<GameConfigEntry | null> {
+    const entry = await this.findEntry({ gameCode, ...context }, key);
+    return entry ? { key, value: entry.value } : null;
+  }
 
-      return {
-        key: result[0].key,
-        value: result[0].value,
-      };
+  /**
+   * Copy the game-layer values of one game to another (onboarding)
+   * Keys the target already has are kept
+   * @returns number of keys copied
+   */
+  async copyGameConfig(fromGameCode: string, toGameCode: string, author: string = 'system'): Promise<number> {
+    let copied = 0;
+    for (const { key, value } of await this.listConfigs(fromGameCode)) {
+      if (await this.findEntry({ gameCode: toGameCode }, key)) continue;
+      await this.writeConfig({ gameCode: toGameCode }, key, value, author, GameConfigRevisionAction.SET);
+      copied++;
+    }
+    return copied;
+  }
+
+  /**
+   * Validate and write a config value (insert or update of the key's row)
+   * @param author - recorded in the audit trail (game_config_revisions)
+   * @param context - operator (agentId) / currency override layer to write, the game layer when empty
+   * @throws InvalidGameConfigError when the value fails validation - nothing is written
+   */
+  async setConfig(
+    gameCode: string,
+    key: string,
+    value: unknown,
+    author: string = 'system',
+    context: ConfigContext = {},
+  ): Promise<GameConfigValidationReport> {
+    const target: ConfigTarget = { gameCode, ...context };
+    const report = await this.validateConfig(gameCode, key, value, context);
+    if (!report.valid) {
+      this.logger.warn(`[CONFIG_VALIDATION] Rejected ${key} for ${this.describeTarget(target)}: ${report.errors.join('; ')}`);
+      throw new InvalidGameConfigError(report);
+    }
+
+    await this.writeConfig(target, key, report.storedValue, author, GameConfigRevisionAction.SET);
+    this.logger.log(`[CONFIG_VALIDATION] Stored ${key} for ${this.describeTarget(target)} warnings=${report.warnings.length}`);
+    return report;
+  }
+
+  /**
+   * Delete a config row; the key falls back to the next layer (operator -> game -> defaults)
+   * @returns the audit record, or null when the key had no row
+   */
+  async deleteConfig(
+    gameCode: string,
+    key: string,
+    author: string = 'system',
+    context: ConfigContext = {},
+  ): Promise<GameConfigRevision | null> {
+    const target: ConfigTarget = { gameCode, ...context };
+    if (!(await this.findEntry(target, key))) {
+      return null;
+    }
+    const revision = await this.writeConfig(target, key, null, author, GameConfigRevisionAction.DELETE);
+    this.logger.log(`[CONFIG] Deleted ${key} for ${this.describeTarget(target)} by ${author}`);
+    return revision;
+  }
+
+  /**
+   * Audit trail of a game's config, newest first
+   * @param key - only revisions of this key when set
+   */
+  async getConfigHistory(gameCode: string, key?: string, limit: number = 50): Promise<GameConfigRevision[]> {
+    return this.revisionRepository.find({
+      where: key ? { gameCode, key } : { gameCode },
+      order: { createdAt: 'DESC' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Restore the value a key held after a recorded revision (deleting the row when that revision was a delete)
+   * The revert goes to the layer the revision was written to, and is validated like any other write
+   * @returns the audit record of the revert, or null when the revision doesn't belong to the key
+   * @throws InvalidGameConfigError when the old value no longer passes validation
+   */
+  async revertConfig(
+    gameCode: string,
+    key: string,
+    revisionId: string,
+    author: string = 'system',
+  ): Promise<GameConfigRevision | null> {
+    const target = await this.revisionRepository.findOne({ where: { id: revisionId, gameCode, key } });
+    if (!target) {
+      return null;
+    }
+
+    const layer: ConfigTarget = { gameCode, operatorId: target.operatorId, currency: target.currency };
+    if (target.newValue !== null) {
+      const report = await this.validateConfig(gameCode, key, target.newValue, layer);
+      if (!report.valid) {
+        this.logger.warn(`[CONFIG_VALIDATION] Rejected revert of ${key} for ${this.describeTarget(layer)}: ${report.errors.join('; ')}`);
+        throw new InvalidGameConfigError(report);
+      }
+    }
+
+    const revision = await this.writeConfig(layer, key, target.newValue, author, GameConfigRevisionAction.REVERT, target.id);
+    this.logger.log(`[CONFIG] Reverted ${key} for ${this.describeTarget(layer)} to revision ${target.id} by ${author}`);
+    return revision;
+  }
+
+  /**
+   * Payout cap of a bet: maxWinCaps (operator / currency) over the player's bet limits
+   * @param betMaxWin - maxWinAmount of the player's bet limits, in the bet currency (BetLimitsService)
+   * @returns Cap in the bet currency, or null when uncapped
+   */
+  async getMaxWinAmount(
+    gameCode: string,
+    currency: string,
+    operatorId: string | null | undefined,
+    betMaxWin: unknown,
+  ): Promise<number | null> {
+    const caps = await this.getEffectiveJson<MaxWinCaps | null>(gameCode, 'maxWinCaps', null);
+    const validCaps = caps && maxWinCapsErrors(caps).length === 0 ? caps : null;
+    return resolveMaxWinAmount(validCaps, currency, operatorId, betMaxWin);
+  }
+
+  /**
+   * Chicken Road difficulty override of an operator (difficultyOverrides key)
+   * @returns null when the operator plays the game's own tables
+   */
+  async getDifficultyOverride(
+    gameCode: string,
+    operatorId: string | null | undefined,
+  ): Promise<OperatorDifficultyOverride | null> {
+    if (!operatorId) return null;
+    const overrides = await this.getEffectiveJson<DifficultyOverrides>(gameCode, 'difficultyOverrides', {});
+    return overrides[operatorId] ?? null;
+  }
+
+  /**
+   * Insert, update or delete (value null) an entry and record it in the audit trail
+   * @param value - stored text (JSON text for JSON keys)
+   */
+  async writeConfig(
+    target: ConfigTarget,
+    key: string,
+    value: string | null,
+    author: string,
+    action: GameConfigRevisionAction,
+    revertedFromId: string | null = null,
+  ): Promise<GameConfigRevision> {
+    const existing = await this.findEntry(target, key);
+    const previousValue = existing ? existing.value : null;
+
+    if (value === null) {
+      if (existing) {
+        await this.entryRepository.delete({ id: existing.id });
+      }
+    } else if (existing) {
+      await this.entryRepository.update({ id: existing.id }, { value });
+    } else {
+      await this.entryRepository.save(
+        this.entryRepository.create({
+          scope: scopeOf(target),
+          gameCode: target.gameCode,
+          operatorId: target.operatorId || '',
+          currency: normalizeCurrency(target.currency),
+          key,
+          value,
+        }),
+      );
+    }
+    await this.invalidate(target.gameCode, key);
+
+    return this.revisionRepository.save(
+      this.revisionRepository.create({
+        gameCode: target.gameCode,
+        operatorId: target.operatorId || '',
+        currency: normalizeCurrency(target.currency),
+        key,
+        action,
+        previousValue,
+        newValue: value,
+        diff: diffConfigValues(previousValue, value),
+        author,
+        revertedFromId,
+      }),
+    );
+  }
+
+  private findEntry(target: ConfigTarget, key: string): Promise<ConfigEntry | null> {
+    return this.entryRepository.findOne({
+      where: {
+        gameCode: target.gameCode,
+        operatorId: target.operatorId || '',
+        currency: normalizeCurrency(target.currency),
+        key,
+      },
+    });
+  }
+
+  /**
+   * Why a key can't be overridden per operator / currency (empty when it can)
+   */
+  private overrideErrors(gameCode: string, key: string): string[] {
+    if (gameCode === PLATFORM_GAME_CODE) {
+      return ['platform config has no operator or currency overrides'];
+    }
+    if (GAME_WIDE_CONFIG_KEYS.includes(key)) {
+      return [`${key} is shared by every operator of the game and can only be set for the whole game`];
+    }
+    return [];
+  }
+
+  private describeTarget(target: ConfigTarget): string {
+    const layer = [target.operatorId && `operator=${target.operatorId}`, target.currency && `currency=${target.currency}`]
+      .filter(Boolean)
+      .join(' ');
+    return layer ? `${target.gameCode} (${layer})` : target.gameCode;
+  }
+
+  /**
+   * Entries of a key in every layer of a game (and the platform), cached
+   */
+  private async getKeyEntries(gameCode: string, key: string): Promise<ConfigEntry[]> {
+    const cacheKey = this.cacheKey(gameCode, key);
+    const cached = this.cache.get(cacheKey);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.entries;
+    }
+
+    let entries: ConfigEntry[] = [];
+    try {
+      entries = await this.entryRepository.find({
+        where: { key, gameCode: In([gameCode, PLATFORM_GAME_CODE]) },
+      });
     } catch (error: any) {
-      // Check if it's a table doesn't exist error
-      if (error.code === 'ER_NO_SUCH_TABLE' || error.message?.includes("doesn't exist")) {
-        this.logger.warn(
-          `Config table ${tableName} does not exist for game ${gameCode}. Will use defaults.`,
-        );
-        return null; // Return null instead of throwing for graceful fallback
+      // Callers fall back to their defaults; not cached so the next call retries
+      this.logger.error(`Error getting config ${key} for ${gameCode}: ${error.message || error}`);
+      return [];
+    }
+    this.cache.set(cacheKey, { entries, expiresAt: Date.now() + CONFIG_CACHE_CONSTANTS.TTL_MS });
+    return entries;
+  }
+
+  private cacheKey(gameCode: string, key: string): string {
+    return `${gameCode}:${key}`;
+  }
+
+  private evict(change: GameConfigChange): void {
+    // Platform values are a layer of every game
+    if (change.gameCode === PLATFORM_GAME_CODE && !change.key) {
+      this.cache.clear();
+      return;
+    }
+    for (const cacheKey of this.cache.keys()) {
+      const separator = cacheKey.indexOf(':');
+      const gameCode = cacheKey.slice(0, separator);
+      const key = cacheKey.slice(separator + 1);
+      const gameMatches = change.gameCode === PLATFORM_GAME_CODE || gameCode === change.gameCode;
+      if (gameMatches && (!change.key || key === change.key)) {
+        this.cache.delete(cacheKey);
       }
-      this.logger.error(`Error getting config from table ${tableName}: ${error.message || error}`);
-      return null; // Return null on error for graceful fallback
     }
   }
 
+  private onChangeMessage(message: string): void {
+    let change: GameConfigChange;
+    try {
+      change = JSON.parse(message);
+    } catch {
+      this.logger.warn(`Ignoring malformed config change message: ${message}`);
+      return;
+    }
+    this.evict(change);
+    this.logger.log(`Config changed: gameCode=${change.gameCode} key=${change.key ?? '*'}`);
+    this.notifyListeners(change);
+  }
+
+  private notifyListeners(change: GameConfigChange): void {
+    this.listeners.forEach((listener) => {
+      Promise.resolve()
+        .then(() => listener(change))
+        .catch((error) => this.logger.error(`Config change listener failed: ${(error as Error).message}`));
+    });
+  }
+
   /**
-   * Get config value for a game
-   * @param gameCode - Game code (e.g., 'sugar-daddy', 'chicken-road-two')
-   * @param key - Config key (e.g., 'betConfig', 'RTP', 'coefficients', 'frontend.host')
-   * @returns Config value as string, or null if not found (allows graceful fallback to defaults)
+   * Parsed JSON config value, or the fallback the game services would use
    */
-  async getConfig(gameCode: string, key: string): Promise<string | null> {
-    // Log removed to reduce log size - config retrieval is working normally
-    
-    // Try fetching from game-specific config table first
-    const config = await this.getConfigFromTable(gameCode, key);
-    if (config) {
-      return config.value;
+  private async getEffectiveJson<T>(gameCode: string, key: string, fallback: T): Promise<T> {
+    const raw = await this.getConfig(gameCode, key);
+    if (!raw) return fallback;
+    try {
+      const parsed = JSON.parse(raw);
+      return parsed && Object.keys(parsed).length > 0 ? parsed : fallback;
+    } catch {
+      return fallback;
     }
-    
-    // Return null if not found (allows graceful fallback to defaults in calling code)
-    return null;
   }
-}
\ No newline at end of file
+}
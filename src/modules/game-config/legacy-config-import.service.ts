@@ -0,0 +1,121 @@
+import { forwardRef, Inject, Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { InjectDataSource } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
+import { ConfigEntry } from '../../entities/config-entry.entity';
+import { GameConfigRevisionAction } from '../../entities/game-config-revision.entity';
+import { DEFAULTS } from '../../config/defaults.config';
+import { RedisService } from '../redis/redis.service';
+import { GameConfigService } from './game-config.service';
+import { PLATFORM_GAME_CODE } from './config-resolver.util';
+
+const LEGACY_TABLE_PREFIX = 'game_config_';
+const LEGACY_IMPORT_CONSTANTS = DEFAULTS.PLATFORM.LEGACY_CONFIG_IMPORT;
+
+export interface LegacyTableImport {
+  table: string;
+  gameCode: string;
+  imported: number;
+  skipped: number; // keys already in the config store
+}
+
+/**
+ * LegacyConfigImportService - One-off import of the game_config_<gameCode> tables into config_entries
+ *
+ * Runs on its own at startup while config_entries is empty (one pod, under a Redis lock), and
+ * on demand through POST /api/admin/configs/import-legacy. Table names lost the hyphens of the
+ * game code, so each table is matched against the games table; unmatched tables fall back to
+ * hyphenating the suffix. Values already in the store are kept unless overwrite is set. The
+ * legacy tables are left in place.
+ */
+@Injectable()
+export class LegacyConfigImportService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(LegacyConfigImportService.name);
+
+  constructor(
+    @InjectDataSource()
+    private readonly dataSource: DataSource,
+    private readonly gameConfigService: GameConfigService,
+    @Inject(forwardRef(() => RedisService))
+    private readonly redisService: RedisService,
+  ) {}
+
+  /**
+   * After every module's onModuleInit, so the games table already lists each registered game
+   */
+  async onApplicationBootstrap(): Promise<void> {
+    const lockAcquired = await this.redisService.acquireLock(
+      LEGACY_IMPORT_CONSTANTS.LOCK_KEY,
+      LEGACY_IMPORT_CONSTANTS.LOCK_TTL_SECONDS,
+    );
+    if (!lockAcquired) {
+      this.logger.debug('[CONFIG_IMPORT] Another instance is checking the config store');
+      return;
+    }
+
+    try {
+      const stored = await this.dataSource.getRepository(ConfigEntry).count();
+      if (stored > 0) {
+        return;
+      }
+      this.logger.log('[CONFIG_IMPORT] Config store is empty, importing the legacy config tables');
+      await this.importLegacyTables(LEGACY_IMPORT_CONSTANTS.AUTHOR);
+    } catch (error) {
+      // Values fall back to defaults until the import is run through the admin endpoint
+      this.logger.error(`[CONFIG_IMPORT] Startup import failed: ${(error as Error).message}`);
+    } finally {
+      await this.redisService.releaseLock(LEGACY_IMPORT_CONSTANTS.LOCK_KEY);
+    }
+  }
+
+  async importLegacyTables(author: string, overwrite: boolean = false): Promise<LegacyTableImport[]> {
+    const tables: string[] = (
+      await this.dataSource.query(`SHOW TABLES LIKE 'game\\_config\\_%'`)
+    ).map((row: Record<string, string>) => Object.values(row)[0]);
+
+    const games: { gameCode: string }[] = await this.dataSource.query('SELECT `gameCode` FROM `games`');
+    const gameCodeByTable = new Map(
+      games.map(({ gameCode }) => [`${LEGACY_TABLE_PREFIX}${gameCode.toLowerCase().replace(/-/g, '_')}`, gameCode]),
+    );
+
+    const results: LegacyTableImport[] = [];
+    for (const table of tables) {
+      const suffix = table.slice(LEGACY_TABLE_PREFIX.length);
+      const gameCode =
+        suffix === PLATFORM_GAME_CODE ? PLATFORM_GAME_CODE : gameCodeByTable.get(table) ?? suffix.replace(/_/g, '-');
+      if (!gameCodeByTable.has(table) && gameCode !== PLATFORM_GAME_CODE) {
+        this.logger.warn(`[CONFIG_IMPORT] No game matches ${table}, importing as ${gameCode}`);
+      }
+      results.push(await this.importTable(table, gameCode, author, overwrite));
+    }
+
+    this.logger.log(
+      `[CONFIG_IMPORT] Imported ${results.reduce((sum, r) => sum + r.imported, 0)} value(s) from ${results.length} table(s)`,
+    );
+    return results;
+  }
+
+  private async importTable(
+    table: string,
+    gameCode: string,
+    author: string,
+    overwrite: boolean,
+  ): Promise<LegacyTableImport> {
+    const rows: { key: string; value: string }[] = await this.dataSource.query(
+      `SELECT \`key\`, \`value\` FROM \`${table}\``,
+    );
+    const result: LegacyTableImport = { table, gameCode, imported: 0, skipped: 0 };
+
+    for (const row of rows) {
+      const stored = await this.gameConfigService.getStoredConfig(gameCode, row.key);
+      if (row.value === null || (stored && (!overwrite || stored.value === row.value))) {
+        result.skipped++;
+        continue;
+      }
+      await this.gameConfigService.writeConfig({ gameCode }, row.key, row.value, author, GameConfigRevisionAction.IMPORT);
+      result.imported++;
+    }
+
+    this.logger.log(`[CONFIG_IMPORT] ${table} -> ${gameCode}: imported=${result.imported} skipped=${result.skipped}`);
+    return result;
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * Payout caps (maxWinAmount)
+ *
+ * The base cap of a bet is betConfig.maxWinAmount converted to the bet currency (bet-limits.util).
+ * The optional maxWinCaps config key refines it per currency and per operator (agentId):
+ *
+ *   {
+ *     "currencies": { "USD": "500" },
+ *     "operators": { "<agentId>": { "default": "5000", "currencies": { "USD": "200" } } }
+ *   }
+ *
+ * Resolution: operator + currency > operator default > currency > betConfig.maxWinAmount
+ */
+
+export interface MaxWinCaps {
+  currencies?: Record<string, string | number>;
+  operators?: Record<string, { default?: string | number; currencies?: Record<string, string | number> }>;
+}
+
+export interface CappedWin {
+  winAmount: number;
+  capped: boolean;
+}
+
+function toCap(value: unknown): number | null {
+  const cap = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  return isFinite(cap) && cap > 0 ? cap : null;
+}
+
+/**
+ * @param fallback - betConfig.maxWinAmount in the bet currency
+ * @returns Cap in the bet currency, or null when the game has none
+ */
+export function resolveMaxWinAmount(
+  caps: MaxWinCaps | null,
+  currency: string,
+  operatorId: string | null | undefined,
+  fallback: unknown,
+): number | null {
+  const currencyKey = (currency || '').toUpperCase();
+  const operator = operatorId ? caps?.operators?.[operatorId] : undefined;
+
+  return (
+    toCap(operator?.currencies?.[currencyKey]) ??
+    toCap(operator?.default) ??
+    toCap(caps?.currencies?.[currencyKey]) ??
+    toCap(fallback)
+  );
+}
+
+/**
+ * Clamp a win to the cap
+ */
+export function capWinAmount(winAmount: number, maxWinAmount: number | null): CappedWin {
+  if (maxWinAmount !== null && winAmount >= maxWinAmount) {
+    return { winAmount: maxWinAmount, capped: true };
+  }
+  return { winAmount, capped: false };
+}
+
+/**
+ * Reasons a maxWinCaps value can't be used (empty when valid)
+ */
+export function maxWinCapsErrors(config: unknown): string[] {
+  const isObject = (value: unknown): value is Record<string, any> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+  if (!isObject(config)) {
+    return ['maxWinCaps must be an object'];
+  }
+
+  const errors: string[] = [];
+  const checkCurrencies = (field: string, currencies: unknown) => {
+    if (currencies === undefined) return;
+    if (!isObject(currencies)) {
+      errors.push(`${field} must be an object of currency -> amount`);
+      return;
+    }
+    for (const [currency, amount] of Object.entries(currencies)) {
+      if (toCap(amount) === null) {
+        errors.push(`${field}.${currency} must be a positive amount`);
+      }
+    }
+  };
+
+  checkCurrencies('maxWinCaps.currencies', config.currencies);
+
+  if (config.operators !== undefined) {
+    if (!isObject(config.operators)) {
+      errors.push('maxWinCaps.operators must be an object of agentId -> caps');
+    } else {
+      for (const [operatorId, operator] of Object.entries(config.operators)) {
+        const field = `maxWinCaps.operators.${operatorId}`;
+        if (!isObject(operator)) {
+          errors.push(`${field} must be an object`);
+          continue;
+        }
+        if (operator.default !== undefined && toCap(operator.default) === null) {
+          errors.push(`${field}.default must be a positive amount`);
+        }
+        checkCurrencies(`${field}.currencies`, operator.currencies);
+      }
+    }
+  }
+
+  return errors;
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { RedisModule } from '../redis/redis.module';
+import { MaintenanceService } from './maintenance.service';
+
+@Module({
+  imports: [RedisModule],
+  providers: [MaintenanceService],
+  exports: [MaintenanceService],
+})
+export class MaintenanceModule {}
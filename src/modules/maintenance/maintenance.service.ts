@@ -0,0 +1,169 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { RedisService } from '../redis/redis.service';
+import { PubSubService } from '../redis/pub-sub.service';
+import { DEFAULTS } from '../../config/defaults.config';
+
+export interface MaintenanceWindow {
+  eta: string | null; // expected end (ISO 8601), null when unknown
+  message: string | null;
+  startedAt: string;
+}
+
+/**
+ * Maintenance flags: whole platform and per game code
+ */
+export interface MaintenanceState {
+  platform: MaintenanceWindow | null;
+  games: Record<string, MaintenanceWindow>;
+}
+
+/**
+ * Payload of the `maintenance` socket event
+ */
+export interface MaintenanceNotice {
+  active: boolean;
+  gameCode: string | null; // null for the whole platform
+  eta: string | null;
+  message: string | null;
+}
+
+export type MaintenanceListener = (notice: MaintenanceNotice) => void;
+
+const MAINTENANCE_CONSTANTS = DEFAULTS.PLATFORM.MAINTENANCE;
+
+/**
+ * MaintenanceService - Graceful maintenance mode
+ *
+ * While a game (or the platform) is in maintenance, new sockets and new bets are refused;
+ * crash rounds already running finish and settle, and no new round starts. Chicken Road
+ * sessions may still step and cash out.
+ *
+ * The state is stored in Redis and every change is published on a channel, so each pod
+ * keeps a local copy and checks are synchronous on the hot paths.
+ */
+@Injectable()
+export class MaintenanceService implements OnModuleInit {
+  private readonly logger = new Logger(MaintenanceService.name);
+  private state: MaintenanceState = { platform: null, games: {} };
+  private readonly listeners = new Set<MaintenanceListener>();
+
+  constructor(
+    private readonly redisService: RedisService,
+    private readonly pubSubService: PubSubService,
+  ) {}
+
+  async onModuleInit() {
+    try {
+      await this.loadState();
+      await this.pubSubService.subscribe(MAINTENANCE_CONSTANTS.CHANNEL, (message: string) => {
+        this.onChangeMessage(message).catch((error) =>
+          this.logger.error(`Failed to apply maintenance change: ${error.message}`, error.stack),
+        );
+      });
+    } catch (error) {
+      this.logger.error(`Failed to initialize maintenance state: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Maintenance window that applies to a game (the platform's first)
+   * @returns null when the game is open
+   */
+  getMaintenance(gameCode?: string | null): MaintenanceWindow | null {
+    return this.state.platform ?? (gameCode ? this.state.games[gameCode] ?? null : null);
+  }
+
+  getState(): MaintenanceState {
+    return this.state;
+  }
+
+  /**
+   * Register a callback run on every pod when maintenance starts or ends
+   */
+  onChange(listener: MaintenanceListener): void {
+    this.listeners.add(listener);
+  }
+
+  /**
+   * Put a game, or the whole platform when gameCode is null, into maintenance
+   */
+  async startMaintenance(
+    gameCode: string | null,
+    eta?: string | null,
+    message?: string | null,
+  ): Promise<MaintenanceState> {
+    const window: MaintenanceWindow = {
+      eta: eta ?? null,
+      message: message ?? null,
+      startedAt: new Date().toISOString(),
+    };
+
+    const state = await this.readState();
+    if (gameCode) {
+      state.games[gameCode] = window;
+    } else {
+      state.platform = window;
+    }
+    await this.writeState(state, { active: true, gameCode, eta: window.eta, message: window.message });
+
+    this.logger.warn(`[MAINTENANCE] Started: scope=${gameCode ?? 'platform'} eta=${window.eta ?? 'unknown'}`);
+    return state;
+  }
+
+  /**
+   * End the maintenance of a game, or of the platform when gameCode is null
+   */
+  async endMaintenance(gameCode: string | null): Promise<MaintenanceState> {
+    const state = await this.readState();
+    if (gameCode) {
+      delete state.games[gameCode];
+    } else {
+      state.platform = null;
+    }
+    await this.writeState(state, { active: false, gameCode, eta: null, message: null });
+
+    this.logger.warn(`[MAINTENANCE] Ended: scope=${gameCode ?? 'platform'}`);
+    return state;
+  }
+
+  private async loadState(): Promise<void> {
+    this.state = await this.readState();
+  }
+
+  private async readState(): Promise<MaintenanceState> {
+    const stored = await this.redisService.getClient().get(MAINTENANCE_CONSTANTS.STATE_KEY);
+    if (!stored) {
+      return { platform: null, games: {} };
+    }
+    try {
+      const parsed = JSON.parse(stored);
+      return { platform: parsed.platform ?? null, games: parsed.games ?? {} };
+    } catch {
+      this.logger.warn('Stored maintenance state is not valid JSON, treating as no maintenance');
+      return { platform: null, games: {} };
+    }
+  }
+
+  private async writeState(state: MaintenanceState, notice: MaintenanceNotice): Promise<void> {
+    // No TTL: maintenance lasts until it is ended explicitly
+    await this.redisService.getClient().set(MAINTENANCE_CONSTANTS.STATE_KEY, JSON.stringify(state));
+    this.state = state;
+    await this.pubSubService.publish(MAINTENANCE_CONSTANTS.CHANNEL, notice);
+  }
+
+  private async onChangeMessage(message: string): Promise<void> {
+    const notice: MaintenanceNotice = JSON.parse(message);
+    await this.loadState();
+    this.logger.log(
+      `Maintenance ${notice.active ? 'started' : 'ended'}: scope=${notice.gameCode ?? 'platform'}`,
+    );
+
+    this.listeners.forEach((listener) => {
+      try {
+        listener(notice);
+      } catch (error) {
+        this.logger.error(`Maintenance listener failed: ${(error as Error).message}`);
+      }
+    });
+  }
+}
@@ -1,11 +1,11 @@
-import { Module } from '@nestjs/common';
+import { forwardRef, Module } from '@nestjs/common';
 import { PubSubService } from './pub-sub.service';
 import { RedisProvider } from './redis.provider';
 import { RedisService } from './redis.service';
 import { GameConfigModule } from '../game-config/game-config.module';
 
 @Module({
-  imports: [GameConfigModule],
+  imports: [forwardRef(() => GameConfigModule)],
   providers: [
     RedisProvider,
     RedisService,
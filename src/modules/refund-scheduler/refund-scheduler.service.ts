@@ -13,12 +13,16 @@ import { DEFAULTS } from '../../config/defaults.config';
  * Scheduled service that periodically refunds bets in PLACED status
  * that are older than the Redis session TTL.
  * Runs every (Redis TTL + 2 minutes) to ensure all expired sessions are processed.
+ *
+ * Chicken Road sessions are normally settled before they expire by ChickenRoadSessionExpiryService
+ * (abandonedSessionPolicy); this is the fallback for sessions lost before that sweep reached them.
  */
 @Injectable()
 export class RefundSchedulerService implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(RefundSchedulerService.name);
   private intervalTimer?: NodeJS.Timeout;
   private readonly BUFFER_MINUTES = 2; // 2 minutes buffer as requested
+  private readonly SETTLE_TYPE = 'expired_refund'; // Reason code on the bet record
 
   constructor(
     private readonly betService: BetService,
@@ -186,7 +190,7 @@ export class RefundSchedulerService implements OnModuleInit, OnModuleDestroy {
    * Check if an active game session exists in Redis for the specific bet
    * Only returns true if:
    * 1. Session exists
-   * 2. Session is active (isActive === true)
+   * 2. Session is active (isActive === true), or is an abandoned session the wallet already settled
    * 3. Session's platformBetTxId matches the bet's externalPlatformTxId
    * 
    * This prevents skipping refunds when:
@@ -215,6 +219,14 @@ export class RefundSchedulerService implements OnModuleInit, OnModuleDestroy {
         return false;
       }
 
+      // Abandoned session the wallet already settled - its bet record is still being written
+      if (session.walletSettled && session.platformBetTxId === betExternalPlatformTxId) {
+        this.logger.debug(
+          `Wallet already settled abandoned session for bet ${betExternalPlatformTxId}, skipping refund`,
+        );
+        return true;
+      }
+
       // Session exists but is inactive - can refund
       if (session.isActive !== true) {
         this.logger.debug(
@@ -316,14 +328,21 @@ export class RefundSchedulerService implements OnModuleInit, OnModuleDestroy {
         );
       }
 
-      // Update all bet statuses to REFUNDED
-      const updatePromises = bets.map((bet) =>
-        this.betService.updateStatus({
+      // Record the reason code, then update all bet statuses to REFUNDED
+      const updatePromises = bets.map(async (bet) => {
+        await this.betService.recordSettlement({
+          externalPlatformTxId: bet.externalPlatformTxId,
+          winAmount: String(bet.betAmount),
+          settleType: this.SETTLE_TYPE,
+          settledAt: new Date(),
+          updatedBy: 'refund-scheduler',
+        });
+        await this.betService.updateStatus({
           externalPlatformTxId: bet.externalPlatformTxId,
           status: BetStatus.REFUNDED,
           updatedBy: 'refund-scheduler',
-        }),
-      );
+        });
+      });
 
       await Promise.all(updatePromises);
 
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ServerSeedChain } from '../../entities/server-seed-chain.entity';
+import { RedisModule } from '../redis/redis.module';
+import { SeedChainService } from './seed-chain.service';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([ServerSeedChain]), RedisModule],
+  providers: [SeedChainService],
+  exports: [SeedChainService],
+})
+export class SeedChainModule {}
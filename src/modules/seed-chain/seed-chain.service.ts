@@ -0,0 +1,247 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import * as crypto from 'crypto';
+import { ServerSeedChain, ServerSeedChainStatus } from '../../entities/server-seed-chain.entity';
+import { RedisService } from '../redis/redis.service';
+import { GAME_CONSTANTS } from '../../common/game-constants';
+
+export interface ChainServerSeed {
+  serverSeed: string;
+  chainId: string;
+  index: number;
+  salt: string;
+}
+
+/**
+ * Public view of a chain - never contains the chain seed or checkpoints
+ */
+export interface SeedChainSummary {
+  chainId: string;
+  gameCode: string;
+  status: ServerSeedChainStatus;
+  length: number;
+  consumed: number;
+  remaining: number;
+  terminalHash: string;
+  salt: string | null;
+  createdAt: Date;
+  retiredAt: Date | null;
+}
+
+function sha256(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+/**
+ * SeedChainService - Pre-committed server seeds for crash games
+ *
+ * Each game code has one active chain. Its terminal hash and salt are published before
+ * the first round, and every round's server seed hashes to the previous round's seed.
+ * The crash point depends on nothing else, so no outcome can be picked after bets are seen.
+ *
+ * The position lives in the database and is advanced with a compare-and-set, so a
+ * new leader continues where the previous one stopped and a seed is never reused.
+ */
+@Injectable()
+export class SeedChainService {
+  private readonly logger = new Logger(SeedChainService.name);
+
+  // Hashes of the segment currently being consumed, per chain
+  private segments = new Map<string, { start: number; hashes: string[] }>();
+
+  constructor(
+    @InjectRepository(ServerSeedChain)
+    private readonly chainRepository: Repository<ServerSeedChain>,
+    private readonly redisService: RedisService,
+  ) {}
+
+  /**
+   * Take the next server seed of the game's active chain
+   * Creates the first chain on demand and rolls over to a new chain when exhausted
+   */
+  async nextServerSeed(gameCode: string): Promise<ChainServerSeed> {
+    for (let attempt = 0; attempt < GAME_CONSTANTS.SEED_CHAIN.CONSUME_RETRIES; attempt++) {
+      let chain = await this.getActiveChain(gameCode);
+
+      if (!chain || chain.consumed >= chain.length || !chain.salt) {
+        if (chain) {
+          this.logger.warn(
+            `[SEED_CHAIN] Chain ${chain.salt ? 'exhausted' : 'has no salt'}, rolling a new one: gameCode=${gameCode} chainId=${chain.id} length=${chain.length}`,
+          );
+        }
+        chain = await this.createChain(gameCode);
+      }
+
+      const result = await this.chainRepository.update(
+        { id: chain.id, consumed: chain.consumed, status: ServerSeedChainStatus.ACTIVE },
+        { consumed: chain.consumed + 1 },
+      );
+      if (!result.affected) {
+        this.logger.debug(
+          `[SEED_CHAIN] Position moved concurrently, retrying: gameCode=${gameCode} chainId=${chain.id} consumed=${chain.consumed}`,
+        );
+        continue;
+      }
+
+      const index = chain.length - chain.consumed - 1;
+      return {
+        serverSeed: this.hashAt(chain, index),
+        chainId: chain.id,
+        index,
+        salt: chain.salt!, // set on every chain that reaches this point
+      };
+    }
+
+    throw new Error(`Failed to take a server seed from the chain of ${gameCode}`);
+  }
+
+  /**
+   * Start replacing the active chain of a game with a freshly generated one
+   * A long chain takes seconds to hash, so it is generated in the background; the new chain
+   * appears in the chain summaries once it is saved
+   * @returns false when a chain is already being generated for the game
+   */
+  async rollChain(gameCode: string, length?: number): Promise<boolean> {
+    const lockKey = this.getCreateLockKey(gameCode);
+    const lockAcquired = await this.redisService.acquireLock(lockKey, GAME_CONSTANTS.SEED_CHAIN.CREATE_LOCK_TTL);
+    if (!lockAcquired) {
+      return false;
+    }
+
+    void this.generateChain(gameCode, length)
+      .catch((error) => {
+        this.logger.error(`[SEED_CHAIN] Rolling chain failed: gameCode=${gameCode} error=${(error as Error).message}`);
+      })
+      .finally(() => this.redisService.releaseLock(lockKey));
+
+    return true;
+  }
+
+  async getChainSummaries(gameCode: string): Promise<SeedChainSummary[]> {
+    const chains = await this.chainRepository.find({
+      where: { gameCode },
+      order: { createdAt: 'DESC' },
+    });
+    return chains.map((chain) => this.toSummary(chain));
+  }
+
+  async findChainSummary(chainId: string): Promise<SeedChainSummary | null> {
+    const chain = await this.chainRepository.findOne({ where: { id: chainId } });
+    return chain ? this.toSummary(chain) : null;
+  }
+
+  private async getActiveChain(gameCode: string): Promise<ServerSeedChain | null> {
+    return this.chainRepository.findOne({
+      where: { gameCode, status: ServerSeedChainStatus.ACTIVE },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  /**
+   * Generate a chain under the creation lock
+   */
+  private async createChain(gameCode: string, length?: number): Promise<ServerSeedChain> {
+    const lockKey = this.getCreateLockKey(gameCode);
+    const lockAcquired = await this.redisService.acquireLock(lockKey, GAME_CONSTANTS.SEED_CHAIN.CREATE_LOCK_TTL);
+    if (!lockAcquired) {
+      throw new Error(`Seed chain creation already in progress for ${gameCode}`);
+    }
+
+    try {
+      return await this.generateChain(gameCode, length);
+    } finally {
+      await this.redisService.releaseLock(lockKey);
+    }
+  }
+
+  private getCreateLockKey(gameCode: string): string {
+    return `seed-chain-create:${gameCode}`;
+  }
+
+  /**
+   * Generate a chain and make it the active one, retiring the previous chain in the same transaction
+   * The hashes are generated before the swap, so rounds keep using the old chain meanwhile
+   * Callers hold the creation lock
+   */
+  private async generateChain(gameCode: string, length?: number): Promise<ServerSeedChain> {
+    const chainLength = length ?? GAME_CONSTANTS.SEED_CHAIN.LENGTH;
+    const checkpointInterval = GAME_CONSTANTS.SEED_CHAIN.CHECKPOINT_INTERVAL;
+    const chainSeed = crypto.randomBytes(32).toString('hex');
+    const salt = crypto.randomBytes(GAME_CONSTANTS.SEED_CHAIN.SALT_BYTES).toString('hex');
+    const startedAt = Date.now();
+
+    const checkpoints: string[] = [];
+    let hash = chainSeed;
+    for (let i = 0; i < chainLength; i++) {
+      if (i % checkpointInterval === 0) {
+        checkpoints.push(hash);
+        // Yield between segments - a full chain takes a few seconds to hash
+        await new Promise((resolve) => setImmediate(resolve));
+      }
+      hash = sha256(hash);
+    }
+
+    const saved = await this.chainRepository.manager.transaction(async (manager) => {
+      await manager.update(
+        ServerSeedChain,
+        { gameCode, status: ServerSeedChainStatus.ACTIVE },
+        { status: ServerSeedChainStatus.RETIRED, retiredAt: new Date() },
+      );
+      return manager.save(
+        manager.create(ServerSeedChain, {
+          gameCode,
+          status: ServerSeedChainStatus.ACTIVE,
+          length: chainLength,
+          checkpointInterval,
+          chainSeed,
+          checkpoints,
+          terminalHash: hash,
+          salt,
+          consumed: 0,
+        }),
+      );
+    });
+
+    this.logger.log(
+      `[SEED_CHAIN] Created chain: gameCode=${gameCode} chainId=${saved.id} length=${chainLength} terminalHash=${saved.terminalHash} took=${Date.now() - startedAt}ms`,
+    );
+
+    return saved;
+  }
+
+  /**
+   * h(index) of a chain, hashed forward from the nearest checkpoint below it
+   */
+  private hashAt(chain: ServerSeedChain, index: number): string {
+    const start = Math.floor(index / chain.checkpointInterval) * chain.checkpointInterval;
+    let segment = this.segments.get(chain.id);
+
+    if (!segment || segment.start !== start) {
+      const end = Math.min(start + chain.checkpointInterval, chain.length);
+      const hashes: string[] = [chain.checkpoints[start / chain.checkpointInterval]];
+      for (let i = start + 1; i < end; i++) {
+        hashes.push(sha256(hashes[hashes.length - 1]));
+      }
+      segment = { start, hashes };
+      this.segments.set(chain.id, segment);
+    }
+
+    return segment.hashes[index - start];
+  }
+
+  private toSummary(chain: ServerSeedChain): SeedChainSummary {
+    return {
+      chainId: chain.id,
+      gameCode: chain.gameCode,
+      status: chain.status,
+      length: chain.length,
+      consumed: chain.consumed,
+      remaining: chain.length - chain.consumed,
+      terminalHash: chain.terminalHash,
+      salt: chain.salt ?? null,
+      createdAt: chain.createdAt,
+      retiredAt: chain.retiredAt ?? null,
+    };
+  }
+}
@@ -49,7 +49,7 @@ export class WalletNotificationService {
       
       if (!configValue) {
         this.logger.error(
-          '[WALLET_NOTIFICATION] Email notification config not found in game_config_platform table. Key: email_notification_config',
+          '[WALLET_NOTIFICATION] Email notification config not found in platform config. Key: email_notification_config',
         );
         this.configLoadAttempted = true;
         return null;
@@ -0,0 +1,11 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsDefined } from 'class-validator';
+
+export class ConfigValueDto {
+  @ApiProperty({
+    description: 'Config value - JSON keys accept an object or its JSON text',
+    example: { minBetAmount: '0.01', maxBetAmount: '200.00', maxWinAmount: '20000.00' },
+  })
+  @IsDefined()
+  value: unknown;
+}
@@ -0,0 +1,36 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsBoolean, IsDefined, IsIn, IsOptional } from 'class-validator';
+
+export class UploadCurrencyRatesDto {
+  @ApiPropertyOptional({ enum: ['json', 'csv'], default: 'json' })
+  @IsOptional()
+  @IsIn(['json', 'csv'])
+  format?: 'json' | 'csv';
+
+  @ApiProperty({
+    description:
+      'Units of each currency per 1 USD. json: a currency -> rate map or a list of { currency, rate, fetchedAt? }; ' +
+      'csv: text with lines "currency,rate[,fetchedAt]" (header line optional)',
+    example: { EUR: 0.8755, INR: 87.503 },
+  })
+  @IsDefined()
+  rates: unknown;
+
+  @ApiPropertyOptional({
+    description: 'Delete stored currencies missing from the upload (default: keep them)',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  replace?: boolean;
+}
+
+export class ImportCurrencyRatesDto {
+  @ApiPropertyOptional({
+    description: 'Delete stored currencies the importer did not return (default: keep them)',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  replace?: boolean;
+}
@@ -0,0 +1,12 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsBoolean, IsOptional } from 'class-validator';
+
+export class ImportLegacyConfigDto {
+  @ApiPropertyOptional({
+    description: 'Replace values already in the config store (default: keep them)',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  overwrite?: boolean;
+}
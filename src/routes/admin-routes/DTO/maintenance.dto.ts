@@ -0,0 +1,36 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsISO8601, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class StartMaintenanceDto {
+  @ApiPropertyOptional({
+    description: 'Game code to put into maintenance; omit for the whole platform',
+    example: 'sugar-daddy',
+  })
+  @IsOptional()
+  @IsString()
+  gameCode?: string;
+
+  @ApiPropertyOptional({
+    description: 'Expected end of the maintenance (ISO 8601), sent to connected clients',
+    example: '2026-10-19T12:30:00Z',
+  })
+  @IsOptional()
+  @IsISO8601()
+  eta?: string;
+
+  @ApiPropertyOptional({ description: 'Message shown to players', example: 'Scheduled upgrade' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  message?: string;
+}
+
+export class EndMaintenanceDto {
+  @ApiPropertyOptional({
+    description: 'Game code to reopen; omit to end the platform maintenance',
+    example: 'sugar-daddy',
+  })
+  @IsOptional()
+  @IsString()
+  gameCode?: string;
+}
@@ -0,0 +1,11 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsUUID } from 'class-validator';
+
+export class RevertConfigDto {
+  @ApiProperty({
+    description: 'Revision (from the key history) whose value is restored',
+    example: '0b9f8a52-3c55-4a37-9d0e-7a1f3f2d9c11',
+  })
+  @IsUUID()
+  revisionId: string;
+}
@@ -0,0 +1,22 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+import { GAME_CONSTANTS } from '../../../common/game-constants';
+
+export class RollSeedChainDto {
+  @ApiPropertyOptional({
+    description: 'Number of rounds the new chain covers',
+    example: GAME_CONSTANTS.SEED_CHAIN.LENGTH,
+    default: GAME_CONSTANTS.SEED_CHAIN.LENGTH,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(GAME_CONSTANTS.SEED_CHAIN.MAX_LENGTH)
+  length?: number;
+}
+
+export interface RollSeedChainResponse {
+  gameCode: string;
+  length: number;
+  status: 'generating'; // the new chain is listed in /api/fairness/:gameCode/seed-chains once saved
+}
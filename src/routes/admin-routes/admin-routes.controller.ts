@@ -0,0 +1,219 @@
+import { Body, Controller, Delete, Get, Headers, HttpCode, Param, Post, Put, Query, UseGuards } from '@nestjs/common';
+import { ApiHeader, ApiOperation, ApiQuery, ApiTags } from '@nestjs/swagger';
+import { AdminApiKeyGuard, ADMIN_API_KEY_HEADER, ADMIN_USER_HEADER } from '../../common/guards/admin-api-key.guard';
+import { AdminRoutesService } from './admin-routes.service';
+import { RollSeedChainDto, RollSeedChainResponse } from './DTO/roll-seed-chain.dto';
+import { ConfigValueDto } from './DTO/config-value.dto';
+import { GameConfigValidationReport } from '../../modules/game-config/game-config-validation.util';
+import { GameConfigEntry, GameConfigOverride } from '../../modules/game-config/game-config.service';
+import { GameConfigRevision } from '../../entities/game-config-revision.entity';
+import { RevertConfigDto } from './DTO/revert-config.dto';
+import { ImportLegacyConfigDto } from './DTO/import-legacy-config.dto';
+import { LegacyTableImport } from '../../modules/game-config/legacy-config-import.service';
+import { ResolvedConfig } from '../../modules/game-config/config-resolver.util';
+import type { MaintenanceState } from '../../modules/maintenance/maintenance.service';
+import { EndMaintenanceDto, StartMaintenanceDto } from './DTO/maintenance.dto';
+import { ImportCurrencyRatesDto, UploadCurrencyRatesDto } from './DTO/currency-rates.dto';
+import { CurrencyRatesUpdate } from '../../modules/currency-rates/currency-rates.service';
+import { CurrencyRate } from '../../entities/currency-rate.entity';
+
+/**
+ * Operational endpoints - require the admin key
+ */
+@ApiTags('admin')
+@ApiHeader({ name: ADMIN_API_KEY_HEADER, required: true })
+@ApiHeader({ name: ADMIN_USER_HEADER, required: false, description: 'Author claimed for the config audit trail (recorded as unverified)' })
+@UseGuards(AdminApiKeyGuard)
+@Controller('api/admin')
+export class AdminRoutesController {
+  constructor(private readonly service: AdminRoutesService) {}
+
+  @Post('seed-chains/:gameCode/roll')
+  @HttpCode(202)
+  @ApiOperation({
+    summary: 'Start generating a new server seed chain for a crash game; it replaces the active chain once saved',
+  })
+  async rollSeedChain(
+    @Param('gameCode') gameCode: string,
+    @Body() body: RollSeedChainDto,
+  ): Promise<RollSeedChainResponse> {
+    return this.service.rollSeedChain(gameCode, body);
+  }
+
+  @Get('configs/:gameCode')
+  @ApiOperation({ summary: 'List the stored config keys and values of a game (gameCode "platform" for platform keys)' })
+  @ApiQuery({ name: 'operatorId', required: false, description: 'Operator (agentId) override layer' })
+  @ApiQuery({ name: 'currency', required: false, description: 'Currency override layer' })
+  async listConfigs(
+    @Param('gameCode') gameCode: string,
+    @Query('operatorId') operatorId?: string,
+    @Query('currency') currency?: string,
+  ): Promise<GameConfigEntry[]> {
+    return this.service.listConfigs(gameCode, operatorId, currency);
+  }
+
+  @Get('configs/:gameCode/overrides')
+  @ApiOperation({ summary: 'List every operator and currency override of a game' })
+  async listOverrides(@Param('gameCode') gameCode: string): Promise<GameConfigOverride[]> {
+    return this.service.listOverrides(gameCode);
+  }
+
+  @Get('configs/:gameCode/:key')
+  @ApiOperation({ summary: 'Read a stored config value; 404 when the key has no row (defaults apply)' })
+  @ApiQuery({ name: 'operatorId', required: false, description: 'Operator (agentId) override layer' })
+  @ApiQuery({ name: 'currency', required: false, description: 'Currency override layer' })
+  async getConfig(
+    @Param('gameCode') gameCode: string,
+    @Param('key') key: string,
+    @Query('operatorId') operatorId?: string,
+    @Query('currency') currency?: string,
+  ): Promise<GameConfigEntry> {
+    return this.service.getConfig(gameCode, key, operatorId, currency);
+  }
+
+  @Get('configs/:gameCode/:key/effective')
+  @ApiOperation({ summary: 'Effective value of a key for an operator / currency and the layer it came from' })
+  @ApiQuery({ name: 'operatorId', required: false })
+  @ApiQuery({ name: 'currency', required: false })
+  async resolveConfig(
+    @Param('gameCode') gameCode: string,
+    @Param('key') key: string,
+    @Query('operatorId') operatorId?: string,
+    @Query('currency') currency?: string,
+  ): Promise<ResolvedConfig> {
+    return this.service.resolveConfig(gameCode, key, operatorId, currency);
+  }
+
+  @Get('configs/:gameCode/:key/history')
+  @ApiOperation({ summary: 'Revisions of a config key in every layer, newest first (author, timestamp, diff)' })
+  async getConfigHistory(
+    @Param('gameCode') gameCode: string,
+    @Param('key') key: string,
+  ): Promise<GameConfigRevision[]> {
+    return this.service.getConfigHistory(gameCode, key);
+  }
+
+  @Post('configs/:gameCode/:key/validate')
+  @ApiOperation({ summary: 'Validate a config value without storing it (includes theoretical RTP for Chicken Road keys)' })
+  @ApiQuery({ name: 'operatorId', required: false, description: 'Operator (agentId) override layer' })
+  @ApiQuery({ name: 'currency', required: false, description: 'Currency override layer' })
+  async validateConfig(
+    @Param('gameCode') gameCode: string,
+    @Param('key') key: string,
+    @Body() body: ConfigValueDto,
+    @Query('operatorId') operatorId?: string,
+    @Query('currency') currency?: string,
+  ): Promise<GameConfigValidationReport> {
+    return this.service.validateConfig(gameCode, key, body.value, operatorId, currency);
+  }
+
+  @Put('configs/:gameCode/:key')
+  @ApiOperation({
+    summary: 'Validate and store a config value (game layer, or an operator / currency override); invalid values are rejected with 400',
+  })
+  @ApiQuery({ name: 'operatorId', required: false, description: 'Operator (agentId) override layer' })
+  @ApiQuery({ name: 'currency', required: false, description: 'Currency override layer' })
+  async setConfig(
+    @Param('gameCode') gameCode: string,
+    @Param('key') key: string,
+    @Body() body: ConfigValueDto,
+    @Headers(ADMIN_USER_HEADER) author?: string,
+    @Query('operatorId') operatorId?: string,
+    @Query('currency') currency?: string,
+  ): Promise<GameConfigValidationReport> {
+    return this.service.setConfig(gameCode, key, body.value, author, operatorId, currency);
+  }
+
+  @Delete('configs/:gameCode/:key')
+  @ApiOperation({ summary: 'Delete a config key so it falls back to the next layer (override -> game -> defaults)' })
+  @ApiQuery({ name: 'operatorId', required: false, description: 'Operator (agentId) override layer' })
+  @ApiQuery({ name: 'currency', required: false, description: 'Currency override layer' })
+  async deleteConfig(
+    @Param('gameCode') gameCode: string,
+    @Param('key') key: string,
+    @Headers(ADMIN_USER_HEADER) author?: string,
+    @Query('operatorId') operatorId?: string,
+    @Query('currency') currency?: string,
+  ): Promise<GameConfigRevision> {
+    return this.service.deleteConfig(gameCode, key, author, operatorId, currency);
+  }
+
+  @Post('configs/:gameCode/:key/revert')
+  @ApiOperation({
+    summary: 'Restore the value a key held after one of its revisions, in the layer of that revision (validated like an update)',
+  })
+  async revertConfig(
+    @Param('gameCode') gameCode: string,
+    @Param('key') key: string,
+    @Body() body: RevertConfigDto,
+    @Headers(ADMIN_USER_HEADER) author?: string,
+  ): Promise<GameConfigRevision> {
+    return this.service.revertConfig(gameCode, key, body.revisionId, author);
+  }
+
+  @Post('configs/import-legacy')
+  @ApiOperation({ summary: 'One-off import of the legacy game_config_<gameCode> tables into the config store' })
+  async importLegacyConfig(
+    @Body() body: ImportLegacyConfigDto,
+    @Headers(ADMIN_USER_HEADER) author?: string,
+  ): Promise<LegacyTableImport[]> {
+    return this.service.importLegacyConfig(body.overwrite ?? false, author);
+  }
+
+  @Post('configs/:gameCode/invalidate')
+  @HttpCode(204)
+  @ApiOperation({ summary: 'Drop cached config values of a game on every pod (after editing rows directly in the database)' })
+  @ApiQuery({ name: 'key', required: false, description: 'Config key; all keys of the game when omitted' })
+  async invalidateConfig(
+    @Param('gameCode') gameCode: string,
+    @Query('key') key?: string,
+  ): Promise<void> {
+    await this.service.invalidateConfig(gameCode, key);
+  }
+
+  @Get('maintenance')
+  @ApiOperation({ summary: 'Current maintenance state of the platform and games' })
+  getMaintenance(): MaintenanceState {
+    return this.service.getMaintenance();
+  }
+
+  @Put('maintenance')
+  @ApiOperation({ summary: 'Put a game (or the platform) into maintenance; running crash rounds finish and settle' })
+  async startMaintenance(@Body() body: StartMaintenanceDto): Promise<MaintenanceState> {
+    return this.service.startMaintenance(body);
+  }
+
+  @Delete('maintenance')
+  @ApiOperation({ summary: 'End the maintenance of a game (or the platform)' })
+  async endMaintenance(@Body() body: EndMaintenanceDto): Promise<MaintenanceState> {
+    return this.service.endMaintenance(body);
+  }
+
+  @Get('currency-rates')
+  @ApiOperation({ summary: 'Stored exchange rates (units per 1 USD) with their source and fetchedAt' })
+  async listCurrencyRates(): Promise<CurrencyRate[]> {
+    return this.service.listCurrencyRates();
+  }
+
+  @Put('currency-rates')
+  @ApiOperation({ summary: 'Bulk upload exchange rates as JSON or CSV; invalid uploads are rejected with 400' })
+  async uploadCurrencyRates(@Body() body: UploadCurrencyRatesDto): Promise<CurrencyRatesUpdate> {
+    return this.service.uploadCurrencyRates(body);
+  }
+
+  @Post('currency-rates/import/:importer')
+  @ApiOperation({ summary: 'Fetch and store exchange rates from an importer ("reference" stub feed, "file")' })
+  async importCurrencyRates(
+    @Param('importer') importer: string,
+    @Body() body: ImportCurrencyRatesDto,
+  ): Promise<CurrencyRatesUpdate> {
+    return this.service.importCurrencyRates(importer, body.replace ?? false);
+  }
+
+  @Post('currency-rates/invalidate')
+  @HttpCode(204)
+  @ApiOperation({ summary: 'Drop the cached exchange rates (after editing rows directly in the database)' })
+  async invalidateCurrencyRates(): Promise<void> {
+    await this.service.invalidateCurrencyRates();
+  }
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { SeedChainModule } from '../../modules/seed-chain/seed-chain.module';
+import { GameConfigModule } from '../../modules/game-config/game-config.module';
+import { MaintenanceModule } from '../../modules/maintenance/maintenance.module';
+import { CurrencyRatesModule } from '../../modules/currency-rates/currency-rates.module';
+import { AdminApiKeyGuard } from '../../common/guards/admin-api-key.guard';
+import { AdminRoutesController } from './admin-routes.controller';
+import { AdminRoutesService } from './admin-routes.service';
+
+@Module({
+  imports: [SeedChainModule, GameConfigModule, MaintenanceModule, CurrencyRatesModule],
+  controllers: [AdminRoutesController],
+  providers: [AdminRoutesService, AdminApiKeyGuard],
+})
+export class AdminRoutesModule {}
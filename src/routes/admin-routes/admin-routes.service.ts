@@ -0,0 +1,276 @@
+import { BadRequestException, ConflictException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { SeedChainService } from '../../modules/seed-chain/seed-chain.service';
+import {
+  GameConfigEntry,
+  GameConfigOverride,
+  GameConfigService,
+} from '../../modules/game-config/game-config.service';
+import {
+  LegacyConfigImportService,
+  LegacyTableImport,
+} from '../../modules/game-config/legacy-config-import.service';
+import { ResolvedConfig } from '../../modules/game-config/config-resolver.util';
+import {
+  GameConfigValidationReport,
+  InvalidGameConfigError,
+} from '../../modules/game-config/game-config-validation.util';
+import { MaintenanceService, MaintenanceState } from '../../modules/maintenance/maintenance.service';
+import {
+  CurrencyRatesService,
+  CurrencyRatesUpdate,
+  UPLOAD_RATE_SOURCE,
+} from '../../modules/currency-rates/currency-rates.service';
+import {
+  CurrencyRateInput,
+  currencyRatesFromCsv,
+  currencyRatesFromJson,
+  InvalidCurrencyRatesError,
+} from '../../modules/currency-rates/currency-rates.util';
+import { CurrencyRate } from '../../entities/currency-rate.entity';
+import { GameConfigRevision } from '../../entities/game-config-revision.entity';
+import { CrashGameRegistryService } from '../../games/shared/crash-game-kit/crash-game-registry.service';
+import { RollSeedChainDto, RollSeedChainResponse } from './DTO/roll-seed-chain.dto';
+import { GAME_CONSTANTS } from '../../common/game-constants';
+import { EndMaintenanceDto, StartMaintenanceDto } from './DTO/maintenance.dto';
+import { UploadCurrencyRatesDto } from './DTO/currency-rates.dto';
+
+/**
+ * Author recorded for config changes made with the admin key
+ */
+const DEFAULT_CONFIG_AUTHOR = 'admin-api';
+const MAX_CLAIMED_AUTHOR_LENGTH = 100;
+
+/**
+ * Audit author of a config change
+ * Anyone holding the shared key can send any x-admin-user, so the name is kept only as an unverified claim
+ */
+function configAuthor(claimed?: string): string {
+  const name = claimed?.trim().slice(0, MAX_CLAIMED_AUTHOR_LENGTH);
+  return name ? `${DEFAULT_CONFIG_AUTHOR} (unverified: ${name})` : DEFAULT_CONFIG_AUTHOR;
+}
+
+function describeLayer(gameCode: string, operatorId?: string, currency?: string): string {
+  const layer = [operatorId && `operator ${operatorId}`, currency && `currency ${currency}`].filter(Boolean);
+  return layer.length ? `${gameCode} (${layer.join(', ')})` : gameCode;
+}
+
+@Injectable()
+export class AdminRoutesService {
+  private readonly logger = new Logger(AdminRoutesService.name);
+
+  constructor(
+    private readonly seedChainService: SeedChainService,
+    private readonly gameConfigService: GameConfigService,
+    private readonly legacyConfigImportService: LegacyConfigImportService,
+    private readonly maintenanceService: MaintenanceService,
+    private readonly currencyRatesService: CurrencyRatesService,
+    private readonly crashGameRegistry: CrashGameRegistryService,
+  ) {}
+
+  /**
+   * Replace the active seed chain of a game
+   * The chain is generated in the background; once saved its terminal hash is published and
+   * the next round uses it
+   * Every registered crash game draws its server seeds from a chain
+   */
+  async rollSeedChain(gameCode: string, dto: RollSeedChainDto): Promise<RollSeedChainResponse> {
+    if (!this.crashGameRegistry.getDefinition(gameCode)) {
+      throw new BadRequestException(`Seed chains are not supported for game ${gameCode}`);
+    }
+
+    const length = dto.length ?? GAME_CONSTANTS.SEED_CHAIN.LENGTH;
+    this.logger.log(`[ADMIN] Rolling seed chain: gameCode=${gameCode} length=${length}`);
+    if (!(await this.seedChainService.rollChain(gameCode, length))) {
+      throw new ConflictException(`A seed chain is already being generated for ${gameCode}`);
+    }
+    return { gameCode, length, status: 'generating' };
+  }
+
+  async listConfigs(gameCode: string, operatorId?: string, currency?: string): Promise<GameConfigEntry[]> {
+    return this.gameConfigService.listConfigs(gameCode, { operatorId, currency });
+  }
+
+  async listOverrides(gameCode: string): Promise<GameConfigOverride[]> {
+    return this.gameConfigService.listOverrides(gameCode);
+  }
+
+  async getConfig(gameCode: string, key: string, operatorId?: string, currency?: string): Promise<GameConfigEntry> {
+    const entry = await this.gameConfigService.getStoredConfig(gameCode, key, { operatorId, currency });
+    if (!entry) {
+      throw new NotFoundException(`Config key ${key} is not set for ${describeLayer(gameCode, operatorId, currency)}`);
+    }
+    return entry;
+  }
+
+  async resolveConfig(
+    gameCode: string,
+    key: string,
+    operatorId?: string,
+    currency?: string,
+  ): Promise<ResolvedConfig> {
+    const resolved = await this.gameConfigService.resolveConfig(gameCode, key, { operatorId, currency });
+    if (!resolved) {
+      throw new NotFoundException(`Config key ${key} is not set for ${gameCode} (defaults apply)`);
+    }
+    return resolved;
+  }
+
+  async importLegacyConfig(overwrite: boolean, author?: string): Promise<LegacyTableImport[]> {
+    const by = configAuthor(author);
+    this.logger.log(`[ADMIN] Importing legacy config tables: overwrite=${overwrite} author=${by}`);
+    return this.legacyConfigImportService.importLegacyTables(by, overwrite);
+  }
+
+  async getConfigHistory(gameCode: string, key: string): Promise<GameConfigRevision[]> {
+    return this.gameConfigService.getConfigHistory(gameCode, key);
+  }
+
+  async validateConfig(
+    gameCode: string,
+    key: string,
+    value: unknown,
+    operatorId?: string,
+    currency?: string,
+  ): Promise<GameConfigValidationReport> {
+    return this.gameConfigService.validateConfig(gameCode, key, value, { operatorId, currency });
+  }
+
+  async setConfig(
+    gameCode: string,
+    key: string,
+    value: unknown,
+    author?: string,
+    operatorId?: string,
+    currency?: string,
+  ): Promise<GameConfigValidationReport> {
+    const by = configAuthor(author);
+    this.logger.log(
+      `[ADMIN] Updating config: gameCode=${gameCode} key=${key} operatorId=${operatorId ?? '-'} currency=${currency ?? '-'} author=${by}`,
+    );
+    try {
+      return await this.gameConfigService.setConfig(gameCode, key, value, by, { operatorId, currency });
+    } catch (error) {
+      throw this.toHttpError(error);
+    }
+  }
+
+  async deleteConfig(
+    gameCode: string,
+    key: string,
+    author?: string,
+    operatorId?: string,
+    currency?: string,
+  ): Promise<GameConfigRevision> {
+    const by = configAuthor(author);
+    this.logger.log(
+      `[ADMIN] Deleting config: gameCode=${gameCode} key=${key} operatorId=${operatorId ?? '-'} currency=${currency ?? '-'} author=${by}`,
+    );
+    const revision = await this.gameConfigService.deleteConfig(gameCode, key, by, { operatorId, currency });
+    if (!revision) {
+      throw new NotFoundException(`Config key ${key} is not set for ${describeLayer(gameCode, operatorId, currency)}`);
+    }
+    return revision;
+  }
+
+  async revertConfig(
+    gameCode: string,
+    key: string,
+    revisionId: string,
+    author?: string,
+  ): Promise<GameConfigRevision> {
+    const by = configAuthor(author);
+    this.logger.log(`[ADMIN] Reverting config: gameCode=${gameCode} key=${key} revision=${revisionId} author=${by}`);
+    let revision: GameConfigRevision | null;
+    try {
+      revision = await this.gameConfigService.revertConfig(gameCode, key, revisionId, by);
+    } catch (error) {
+      throw this.toHttpError(error);
+    }
+    if (!revision) {
+      throw new NotFoundException(`Revision ${revisionId} not found for ${gameCode} ${key}`);
+    }
+    return revision;
+  }
+
+  async invalidateConfig(gameCode: string, key?: string): Promise<void> {
+    this.logger.log(`[ADMIN] Invalidating config cache: gameCode=${gameCode} key=${key ?? '*'}`);
+    await this.gameConfigService.invalidate(gameCode, key);
+  }
+
+  getMaintenance(): MaintenanceState {
+    return this.maintenanceService.getState();
+  }
+
+  async startMaintenance(dto: StartMaintenanceDto): Promise<MaintenanceState> {
+    this.logger.log(`[ADMIN] Starting maintenance: scope=${dto.gameCode ?? 'platform'} eta=${dto.eta ?? 'unknown'}`);
+    return this.maintenanceService.startMaintenance(dto.gameCode ?? null, dto.eta, dto.message);
+  }
+
+  async endMaintenance(dto: EndMaintenanceDto): Promise<MaintenanceState> {
+    this.logger.log(`[ADMIN] Ending maintenance: scope=${dto.gameCode ?? 'platform'}`);
+    return this.maintenanceService.endMaintenance(dto.gameCode ?? null);
+  }
+
+  async listCurrencyRates(): Promise<CurrencyRate[]> {
+    return this.currencyRatesService.listRates();
+  }
+
+  async uploadCurrencyRates(dto: UploadCurrencyRatesDto): Promise<CurrencyRatesUpdate> {
+    const format = dto.format ?? 'json';
+    let rates: CurrencyRateInput[];
+    if (format === 'csv') {
+      if (typeof dto.rates !== 'string') {
+        throw new BadRequestException('CSV rates must be sent as text');
+      }
+      rates = currencyRatesFromCsv(dto.rates);
+    } else {
+      rates = currencyRatesFromJson(typeof dto.rates === 'string' ? this.parseJson(dto.rates) : dto.rates);
+    }
+
+    this.logger.log(`[ADMIN] Uploading currency rates: format=${format} rows=${rates.length} replace=${dto.replace ?? false}`);
+    try {
+      return await this.currencyRatesService.uploadRates(rates, UPLOAD_RATE_SOURCE, dto.replace ?? false);
+    } catch (error) {
+      throw this.toHttpError(error);
+    }
+  }
+
+  async importCurrencyRates(importer: string, replace: boolean): Promise<CurrencyRatesUpdate> {
+    this.logger.log(`[ADMIN] Importing currency rates: importer=${importer} replace=${replace}`);
+    let update: CurrencyRatesUpdate | null;
+    try {
+      update = await this.currencyRatesService.runImporter(importer, replace);
+    } catch (error) {
+      throw this.toHttpError(error);
+    }
+    if (!update) {
+      throw new NotFoundException(
+        `Unknown currency rate importer ${importer} (available: ${this.currencyRatesService.getImporterNames().join(', ')})`,
+      );
+    }
+    return update;
+  }
+
+  async invalidateCurrencyRates(): Promise<void> {
+    this.logger.log('[ADMIN] Invalidating cached currency rates');
+    await this.currencyRatesService.invalidate();
+  }
+
+  private parseJson(text: string): unknown {
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new BadRequestException('JSON rates are not valid JSON');
+    }
+  }
+
+  private toHttpError(error: unknown): unknown {
+    if (error instanceof InvalidGameConfigError) {
+      return new BadRequestException({ message: 'invalid_config', ...error.report });
+    }
+    if (error instanceof InvalidCurrencyRatesError) {
+      return new BadRequestException({ message: 'invalid_currency_rates', errors: error.errors });
+    }
+    return error;
+  }
+}
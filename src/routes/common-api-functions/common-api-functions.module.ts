@@ -4,12 +4,13 @@ import { AgentsModule, JwtTokenModule, UserModule, AgentAuthGuard } from '@games
 import { GameConfigModule } from '../../modules/game-config/game-config.module';
 import { UserSessionModule } from '../../modules/user-session/user-session.module';
 import { GameModule } from '../../modules/games/game.module';
+import { GameAvailabilityModule } from '../../modules/game-availability/game-availability.module';
 
 import { CommonApiFunctionsController } from './common-api-functions.controller';
 import { CommonApiFunctionsService } from './common-api-functions.service';
 
 @Module({
-  imports: [AgentsModule, GameConfigModule, UserModule, JwtTokenModule, UserSessionModule, GameModule],
+  imports: [AgentsModule, GameConfigModule, UserModule, JwtTokenModule, UserSessionModule, GameModule, GameAvailabilityModule],
   controllers: [CommonApiFunctionsController],
   providers: [CommonApiFunctionsService, AgentAuthGuard],
   exports: [],
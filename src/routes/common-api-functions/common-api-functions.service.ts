@@ -5,6 +5,7 @@ import { UserSessionService } from '../../modules/user-session/user-session.serv
 import { CreateMemberBodyDto } from './DTO/create-member.dto';
 import { DEFAULTS } from '../../config/defaults.config';
 import { GameService } from '../../modules/games/game.service';
+import { GameAvailabilityService } from '../../modules/game-availability/game-availability.service';
 
 import { ERROR_CODES } from '../../common/constants';
 
@@ -19,6 +20,7 @@ export class CommonApiFunctionsService {
     private readonly userSessionService: UserSessionService,
     private readonly gameService: GameService,
     private readonly agentsService: AgentsService,
+    private readonly gameAvailabilityService: GameAvailabilityService,
   ) {}
 
   async createMember(
@@ -172,7 +174,7 @@ export class CommonApiFunctionsService {
       };
     }
 
-    const host = await this.resolveHost(gameCode);
+    const host = await this.resolveHost(gameCode, agentId);
     this.logger.log(
       `[loginMember] Generating JWT token - userId: ${userId}, agentId: ${agentId}, host: ${host}`,
     );
@@ -294,6 +296,18 @@ export class CommonApiFunctionsService {
       };
     }
     
+    const availability = await this.gameAvailabilityService.getAvailability(dto.gameCode, dto.agentId);
+    if (!availability.online) {
+      this.logger.warn(
+        `[loginAndLaunchGame] Game is offline by schedule - gameCode: ${dto.gameCode}, agentId: ${dto.agentId}`,
+      );
+      return {
+        status: ERROR_CODES.UNABLE_TO_PROCEED,
+        extension: [],
+        desc: 'Game is not available at this time',
+      };
+    }
+
     return this.loginMember(agent, dto.userId, dto.agentId, dto.gameCode);
   }
 
@@ -343,16 +357,16 @@ export class CommonApiFunctionsService {
 
   /**
    * Resolve frontend host for a specific game
-   * Uses game-specific config if available, otherwise falls back to defaults
+   * Uses the operator's or the game's config if available, otherwise falls back to defaults
    */
-  private async resolveHost(gameCode: string): Promise<string> {
+  private async resolveHost(gameCode: string, agentId: string): Promise<string> {
     // Try to get from game config first
     const candidateKey = 'frontend.host';
     try {
-      const value = await this.gameConfigService.getConfig(gameCode, candidateKey);
+      const value = await this.gameConfigService.getConfig(gameCode, candidateKey, { operatorId: agentId });
       if (typeof value === 'string' && value.trim()) {
         this.logger.debug(
-          `[resolveHost] Using configured host for ${gameCode}: ${value.trim()}`,
+          `[resolveHost] Using configured host for ${gameCode} agent=${agentId}: ${value.trim()}`,
         );
         return value.trim();
       }
@@ -0,0 +1,91 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsArray, IsNotEmpty, IsNumber, IsObject, IsOptional, IsString } from 'class-validator';
+
+export class VerifyCrashSeedsDto {
+  @ApiProperty({
+    description: 'Revealed server seed of the round',
+    example: '3f1c9a0d5b7e4f2a8c6d1e0b9a7f5c3d2e1f0a9b8c7d6e5f4a3b2c1d0e9f8a7b',
+  })
+  @IsString()
+  @IsNotEmpty()
+  serverSeed: string;
+
+  @ApiPropertyOptional({
+    description: 'Public salt of the seed chain the round used; chained rounds are HMAC-SHA256(serverSeed, salt)',
+    example: '9f2b6c1d0e8a7b3c5d4e6f7a8b9c0d1e',
+  })
+  @IsOptional()
+  @IsString()
+  salt?: string;
+
+  @ApiPropertyOptional({
+    description: 'Rounds without a salt only: client seeds mixed into the round hash, in join order',
+    example: ['a1b2c3d4e5f60718', '0f1e2d3c4b5a6978'],
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  clientSeeds?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Rounds without a salt only: round number (gameId in coefficient history)',
+    example: 1767225600000,
+  })
+  @IsOptional()
+  @IsNumber()
+  roundId?: number;
+
+  @ApiPropertyOptional({
+    description: 'Coefficient distribution to use. Defaults to the game\'s current distribution',
+  })
+  @IsOptional()
+  @IsObject()
+  distribution?: Record<string, any>;
+}
+
+export interface CrashSeedsVerificationResponse {
+  gameCode: string;
+  serverSeed: string;
+  hashedServerSeed: string;
+  clientSeeds: string[];
+  roundId: number;
+  salt: string | null;
+  formula: string; // how combinedHash was computed: chained (salt) or seeded rounds
+  combinedHash: string;
+  decimal: string;
+  crashCoeff: number;
+}
+
+export interface CrashRoundVerificationResponse {
+  gameCode: string;
+  gameUUID: string;
+  roundId: number;
+  serverSeed: string;
+  hashedServerSeed: string;
+  clientsSeeds: Array<{
+    userId: string;
+    seed: string;
+    nickname: string;
+    gameAvatar: number | null;
+  }>;
+  formula: string; // how combinedHash was computed: chained (salt) or seeded rounds
+  combinedHash: string;
+  decimal: string;
+  crashCoeff: number;
+  recomputed: {
+    combinedHash: string;
+    decimal: string;
+    crashCoeff: number;
+  };
+  match: boolean;
+  // SHA-256 applied (length - index) times to serverSeed yields the chain's terminalHash
+  seedChain: {
+    chainId: string;
+    index: number;
+    length: number;
+    terminalHash: string;
+    salt: string | null;
+  } | null;
+  finishedAt: Date;
+}
@@ -0,0 +1,42 @@
+import { Body, Controller, Get, Param, Post } from '@nestjs/common';
+import { ApiOperation, ApiTags } from '@nestjs/swagger';
+import { FairnessRoutesService } from './fairness-routes.service';
+import { SeedChainSummary } from '../../modules/seed-chain/seed-chain.service';
+import {
+  CrashRoundVerificationResponse,
+  CrashSeedsVerificationResponse,
+  VerifyCrashSeedsDto,
+} from './DTO/verify-crash-round.dto';
+
+/**
+ * Public provably-fair verification endpoints (no authentication)
+ */
+@ApiTags('fairness')
+@Controller('api/fairness')
+export class FairnessRoutesController {
+  constructor(private readonly service: FairnessRoutesService) {}
+
+  @Get(':gameCode/rounds/:gameUUID')
+  @ApiOperation({ summary: 'Reveal seeds of a finished crash round and recompute its crash coefficient' })
+  async getRoundVerification(
+    @Param('gameCode') gameCode: string,
+    @Param('gameUUID') gameUUID: string,
+  ): Promise<CrashRoundVerificationResponse> {
+    return this.service.getCrashRoundVerification(gameCode, gameUUID);
+  }
+
+  @Get(':gameCode/seed-chains')
+  @ApiOperation({ summary: 'List the pre-committed server seed chains (terminal hashes) of a crash game' })
+  async getSeedChains(@Param('gameCode') gameCode: string): Promise<SeedChainSummary[]> {
+    return this.service.getSeedChains(gameCode);
+  }
+
+  @Post(':gameCode/verify')
+  @ApiOperation({ summary: 'Compute the crash coefficient for arbitrary seeds' })
+  async verifySeeds(
+    @Param('gameCode') gameCode: string,
+    @Body() body: VerifyCrashSeedsDto,
+  ): Promise<CrashSeedsVerificationResponse> {
+    return this.service.verifyCrashSeeds(gameCode, body);
+  }
+}
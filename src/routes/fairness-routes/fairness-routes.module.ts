@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { GameConfigModule } from '../../modules/game-config/game-config.module';
+import { CrashRoundHistoryModule } from '../../modules/crash-round-history/crash-round-history.module';
+import { SeedChainModule } from '../../modules/seed-chain/seed-chain.module';
+import { FairnessRoutesController } from './fairness-routes.controller';
+import { FairnessRoutesService } from './fairness-routes.service';
+
+@Module({
+  imports: [GameConfigModule, CrashRoundHistoryModule, SeedChainModule],
+  controllers: [FairnessRoutesController],
+  providers: [FairnessRoutesService],
+})
+export class FairnessRoutesModule {}
@@ -0,0 +1,178 @@
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import * as crypto from 'crypto';
+import { GameConfigService } from '../../modules/game-config/game-config.service';
+import { CrashRoundHistoryService } from '../../modules/crash-round-history/crash-round-history.service';
+import { SeedChainService, SeedChainSummary } from '../../modules/seed-chain/seed-chain.service';
+import {
+  buildHouseEdgeDistribution,
+  combinedHashFormula,
+  CrashDistributionConfig,
+  crashDistributionErrors,
+  deriveCrashCoefficient,
+  parseCrashDistribution,
+} from '../../games/shared/crash-fairness.util';
+import { CrashGameRegistryService } from '../../games/shared/crash-game-kit/crash-game-registry.service';
+import type { CrashGameDefinition } from '../../games/shared/crash-game-kit/crash-game-definition';
+import {
+  CrashRoundVerificationResponse,
+  CrashSeedsVerificationResponse,
+  VerifyCrashSeedsDto,
+} from './DTO/verify-crash-round.dto';
+
+@Injectable()
+export class FairnessRoutesService {
+  private readonly logger = new Logger(FairnessRoutesService.name);
+
+  constructor(
+    private readonly crashRoundHistoryService: CrashRoundHistoryService,
+    private readonly gameConfigService: GameConfigService,
+    private readonly seedChainService: SeedChainService,
+    private readonly crashGameRegistry: CrashGameRegistryService,
+  ) {}
+
+  /**
+   * Reveal and re-verify a finished crash round
+   * Only finished rounds are ever persisted, so unrevealed server seeds can't leak here
+   */
+  async getCrashRoundVerification(gameCode: string, gameUUID: string): Promise<CrashRoundVerificationResponse> {
+    this.assertCrashGame(gameCode);
+
+    const round = await this.crashRoundHistoryService.findByGameUUID(gameCode, gameUUID);
+    if (!round) {
+      throw new NotFoundException(`Round ${gameUUID} not found for game ${gameCode}`);
+    }
+
+    const roundId = Number(round.roundId);
+    const crashCoeff = parseFloat(round.crashCoeff);
+    const distribution = round.distribution || (await this.loadCurrentDistribution(gameCode));
+    const chain = round.seedChainId
+      ? await this.seedChainService.findChainSummary(round.seedChainId)
+      : null;
+    // Chained rounds never took client seeds, even where older history stored the players' seeds
+    const clientsSeeds = chain?.salt ? [] : round.clientsSeeds || [];
+
+    const recomputed = deriveCrashCoefficient(
+      {
+        serverSeed: round.serverSeed,
+        clientSeeds: clientsSeeds.map((c) => c.seed),
+        roundId,
+        salt: chain?.salt ?? null,
+      },
+      distribution,
+    );
+
+    const match =
+      recomputed.combinedHash === round.combinedHash &&
+      recomputed.crashCoeff === crashCoeff;
+
+    if (!match) {
+      this.logger.warn(
+        `[FAIRNESS] Verification mismatch: gameCode=${gameCode} gameUUID=${gameUUID} stored=${crashCoeff} recomputed=${recomputed.crashCoeff}`,
+      );
+    }
+
+    return {
+      gameCode,
+      gameUUID: round.gameUUID,
+      roundId,
+      serverSeed: round.serverSeed,
+      hashedServerSeed: round.hashedServerSeed,
+      clientsSeeds,
+      formula: combinedHashFormula(chain?.salt),
+      combinedHash: round.combinedHash,
+      decimal: round.decimal,
+      crashCoeff,
+      recomputed: {
+        combinedHash: recomputed.combinedHash,
+        decimal: recomputed.decimal,
+        crashCoeff: recomputed.crashCoeff,
+      },
+      match,
+      seedChain: chain && round.seedChainIndex != null
+        ? {
+            chainId: chain.chainId,
+            index: round.seedChainIndex,
+            length: chain.length,
+            terminalHash: chain.terminalHash,
+            salt: chain.salt,
+          }
+        : null,
+      finishedAt: round.createdAt,
+    };
+  }
+
+  /**
+   * Published seed chains of a game, newest first
+   * The terminal hash of a chain is public from the moment it is created
+   */
+  async getSeedChains(gameCode: string): Promise<SeedChainSummary[]> {
+    this.assertCrashGame(gameCode);
+    return this.seedChainService.getChainSummaries(gameCode);
+  }
+
+  /**
+   * Standalone verifier - compute the crash coefficient for arbitrary seeds
+   */
+  async verifyCrashSeeds(gameCode: string, dto: VerifyCrashSeedsDto): Promise<CrashSeedsVerificationResponse> {
+    this.assertCrashGame(gameCode);
+
+    let distribution: CrashDistributionConfig;
+    if (dto.distribution) {
+      const errors = crashDistributionErrors(dto.distribution);
+      if (errors.length) {
+        throw new BadRequestException(`Invalid distribution: ${errors.join('; ')}`);
+      }
+      distribution = parseCrashDistribution(JSON.stringify(dto.distribution))!;
+    } else {
+      distribution = await this.loadCurrentDistribution(gameCode);
+    }
+
+    const result = deriveCrashCoefficient(
+      {
+        serverSeed: dto.serverSeed,
+        clientSeeds: dto.clientSeeds ?? [],
+        roundId: dto.roundId ?? 0,
+        salt: dto.salt ?? null,
+      },
+      distribution,
+    );
+
+    return {
+      gameCode,
+      serverSeed: dto.serverSeed,
+      hashedServerSeed: crypto.createHash('sha256').update(dto.serverSeed).digest('hex'),
+      clientSeeds: dto.salt ? [] : dto.clientSeeds ?? [],
+      roundId: dto.roundId ?? 0,
+      salt: dto.salt ?? null,
+      formula: combinedHashFormula(dto.salt),
+      combinedHash: result.combinedHash,
+      decimal: result.decimal,
+      crashCoeff: result.crashCoeff,
+    };
+  }
+
+  /**
+   * Every registered crash game supports provably fair verification
+   */
+  private assertCrashGame(gameCode: string): CrashGameDefinition {
+    const definition = this.crashGameRegistry.getDefinition(gameCode);
+    if (!definition) {
+      throw new BadRequestException(`Fairness verification is not supported for game ${gameCode}`);
+    }
+    return definition;
+  }
+
+  /**
+   * The crash model the game runs right now (same resolution as the game services)
+   */
+  private async loadCurrentDistribution(gameCode: string): Promise<CrashDistributionConfig> {
+    const definition = this.assertCrashGame(gameCode);
+    const configRaw = await this.gameConfigService.getConfig(gameCode, 'coefficientDistribution');
+    const rtpRaw = await this.gameConfigService.getConfig(gameCode, 'RTP');
+
+    const configuredRtp = rtpRaw ? parseFloat(rtpRaw) : NaN;
+    const rtp = configuredRtp > 0 && configuredRtp <= 100 ? configuredRtp : definition.defaults.rtp;
+
+    return buildHouseEdgeDistribution(rtp, parseCrashDistribution(configRaw), definition.constants.CRASH_COEFF_MAX);
+  }
+}
@@ -1,4 +1,4 @@
-import { ApiProperty } from '@nestjs/swagger';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { IsNotEmpty, IsOptional, IsString, IsBoolean } from 'class-validator';
 
 export class CreateGameDto {
@@ -44,6 +44,14 @@ export class CreateGameDto {
   @IsString()
   @IsNotEmpty()
   settleType: string;
+
+  @ApiPropertyOptional({
+    description: 'Existing game whose config values are copied to the new game (defaults apply otherwise)',
+    example: 'chicken-road-two',
+  })
+  @IsOptional()
+  @IsString()
+  copyConfigFrom?: string;
 }
 
 export interface CreateGameResponse {
@@ -58,7 +66,7 @@ export interface CreateGameResponse {
     settleType: string;
     isActive: boolean;
   };
-  configTableCreated: boolean;
+  configTableCreated: boolean; // Always false: configs live in config_entries, kept for existing clients
   configsCopied: number;
   hazardsInitialized: boolean;
 }
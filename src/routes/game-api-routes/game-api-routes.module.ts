@@ -4,12 +4,13 @@ import { UserSessionModule } from '../../modules/user-session/user-session.modul
 import { GameModule } from '../../modules/games/game.module';
 import { GameConfigModule } from '../../modules/game-config/game-config.module';
 import { GamesModule } from '../../games/games.module';
+import { RedisModule } from '../../modules/redis/redis.module';
 import { GameApiRoutesController } from './game-api-routes.controller';
 import { GameApiRoutesService } from './game-api-routes.service';
 import { GamesHealthController } from './games/games-health.controller';
 
 @Module({
-  imports: [JwtTokenModule, UserSessionModule, GameModule, GameConfigModule, GamesModule],
+  imports: [JwtTokenModule, UserSessionModule, GameModule, GameConfigModule, GamesModule, RedisModule],
   controllers: [GameApiRoutesController, GamesHealthController],
   providers: [GameApiRoutesService],
   exports: [GameApiRoutesService],
@@ -254,17 +254,10 @@ export class GameApiRoutesService {
     };
   }
 
-  /**
-   * Normalize gameCode for table names (hyphens to underscores)
-   */
-  private normalizeGameCode(gameCode: string): string {
-    return gameCode.toLowerCase().replace(/-/g, '_');
-  }
-
   /**
    * Create a new game with automatic onboarding:
    * 1. Create game in games table
-   * 2. Create config table (optional, can be skipped for now)
+   * 2. Copy config values from an existing game (optional; keys without a value use defaults)
    * Note: Hazard initialization is chicken-road specific, so we skip it here
    */
   async createGameWithOnboarding(dto: CreateGameDto): Promise<CreateGameResponse> {
@@ -283,6 +276,14 @@ export class GameApiRoutesService {
       });
       this.logger.log(`[createGameWithOnboarding] Game created: ${game.id}`);
 
+      // Step 2: Copy config values (config store, no per-game table needed)
+      let configsCopied = 0;
+      if (dto.copyConfigFrom) {
+        this.logger.log(`[createGameWithOnboarding] Step 2: Copying config from ${dto.copyConfigFrom}`);
+        configsCopied = await this.gameConfigService.copyGameConfig(dto.copyConfigFrom, dto.gameCode, 'onboarding');
+        this.logger.log(`[createGameWithOnboarding] Copied ${configsCopied} config value(s)`);
+      }
+
       this.logger.log(`[createGameWithOnboarding] ✅ Game onboarding completed: ${dto.gameCode}`);
 
       return {
@@ -297,8 +298,8 @@ export class GameApiRoutesService {
           settleType: game.settleType,
           isActive: game.isActive,
         },
-        configTableCreated: false, // Config tables are optional
-        configsCopied: 0,
+        configTableCreated: false, // No per-game config tables any more
+        configsCopied,
         hazardsInitialized: false, // Hazards are chicken-road specific
       };
     } catch (error) {
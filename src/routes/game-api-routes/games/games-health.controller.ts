@@ -1,6 +1,8 @@
-import { Controller, Get } from '@nestjs/common';
+import { Controller, Get, Param } from '@nestjs/common';
 import { GameRegistryService } from '../../../games/game-registry.service';
 import { GameDispatcherService } from '../../../games/game-dispatcher.service';
+import { RedisService } from '../../../modules/redis/redis.service';
+import { PublishedRoundExposure, roundExposureKey } from '../../../games/shared/crash-exposure.util';
 
 /**
  * Games Health Controller
@@ -13,6 +15,7 @@ export class GamesHealthController {
   constructor(
     private readonly gameRegistry: GameRegistryService,
     private readonly gameDispatcher: GameDispatcherService,
+    private readonly redisService: RedisService,
   ) {}
 
   /**
@@ -71,6 +74,27 @@ export class GamesHealthController {
     };
   }
 
+  /**
+   * Get the current round exposure of a crash game, as published by its engine leader
+   * GET /games/health/:gameCode/exposure
+   */
+  @Get(':gameCode/exposure')
+  async getRoundExposure(@Param('gameCode') gameCode: string) {
+    const exposure = await this.redisService.get<PublishedRoundExposure>(roundExposureKey(gameCode));
+
+    if (!exposure) {
+      return {
+        error: 'No exposure published',
+        gameCode,
+      };
+    }
+
+    return {
+      timestamp: new Date().toISOString(),
+      ...exposure,
+    };
+  }
+
   /**
    * Get detailed information about a specific game
    * GET /games/health/:gameCode
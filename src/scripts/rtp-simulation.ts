@@ -0,0 +1,385 @@
+import * as crypto from 'crypto';
+import { DEFAULTS } from '../config/defaults.config';
+import { GAME_CONSTANTS } from '../common/game-constants';
+import {
+  buildHouseEdgeDistribution,
+  CrashDistributionConfig,
+  deriveCrashCoefficient,
+  parseCrashDistribution,
+  theoreticalCrashRtp,
+} from '../games/shared/crash-fairness.util';
+import {
+  linearMultiplierCurve,
+  MultiplierCurve,
+  multiplierAt,
+  parseMultiplierCurve,
+} from '../games/shared/crash-multiplier-curve.util';
+import {
+  deriveHazardColumns,
+  hazardSurvivalProbability,
+} from '../games/chicken-road-game/modules/fairness/fairness.service';
+import { Difficulty } from '../games/chicken-road-game/DTO/bet-payload.dto';
+
+/**
+ * Offline RTP simulation
+ *
+ * Resolves a game's effective config from raw config rows (same keys, same parsing and
+ * same fallbacks as the game services) and plays rounds with the production outcome
+ * functions - no Redis or MySQL involved.
+ */
+
+/**
+ * Raw config values of one game, as returned by GameConfigService.getConfig() (key -> value)
+ * Values may be the stored strings or already-parsed JSON
+ */
+export type RawGameConfig = Record<string, unknown>;
+
+export type GameKind = 'crash' | 'chicken-road';
+
+export const SIMULATED_GAMES: Record<string, GameKind> = {
+  [DEFAULTS.SUGAR_DADDY.GAME_CODE]: 'crash',
+  [DEFAULTS.DIVER.GAME_CODE]: 'crash',
+  [DEFAULTS.GAMES.CHICKEN_ROAD.GAME_CODE]: 'chicken-road',
+  'chicken-road-vegas': 'chicken-road',
+};
+
+const CRASH_DEFAULTS: Record<string, { rtp: number; speed: number; crashCoeffMax: number; betConfig: any }> = {
+  [DEFAULTS.SUGAR_DADDY.GAME_CODE]: {
+    rtp: DEFAULTS.SUGAR_DADDY.RTP,
+    speed: GAME_CONSTANTS.SUGAR_DADDY.COEFF_SPEED_PER_SECOND,
+    crashCoeffMax: GAME_CONSTANTS.SUGAR_DADDY.CRASH_COEFF_MAX,
+    betConfig: DEFAULTS.SUGAR_DADDY.BET_CONFIG,
+  },
+  [DEFAULTS.DIVER.GAME_CODE]: {
+    rtp: DEFAULTS.DIVER.RTP,
+    speed: GAME_CONSTANTS.DIVER.COEFF_SPEED_PER_SECOND,
+    crashCoeffMax: GAME_CONSTANTS.DIVER.CRASH_COEFF_MAX,
+    betConfig: DEFAULTS.DIVER.BET_CONFIG,
+  },
+};
+
+export interface CrashEffectiveConfig {
+  model: CrashDistributionConfig;
+  multiplierCurve: MultiplierCurve;
+  maxWinAmount: number | null;
+}
+
+export interface ChickenRoadEffectiveConfig {
+  coefficients: Record<string, string[]>;
+  hazards: Record<string, number>;
+  maxWinAmount: number | null;
+}
+
+export interface SimulationResult {
+  gameCode: string;
+  difficulty: string | null;
+  strategy: string;
+  rounds: number;
+  betAmount: number;
+  rtp: number;
+  theoreticalRtp: number | null;
+  ci95: number;
+  hitRate: number;
+  maxWinAmount: number;
+  maxWinFrequency: number;
+  variance: number;
+  stdDev: number;
+  durationMs: number;
+}
+
+function rawString(raw: RawGameConfig, key: string): string | null {
+  const value = raw[key];
+  if (value === undefined || value === null) return null;
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function rawJson(raw: RawGameConfig, key: string): any {
+  const value = rawString(raw, key);
+  if (!value) return undefined;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
+
+function parseMaxWin(betConfig: any): number | null {
+  const maxWin = parseFloat(betConfig?.maxWinAmount);
+  return isFinite(maxWin) && maxWin > 0 ? maxWin : null;
+}
+
+/**
+ * Effective crash config - mirrors loadRTP / loadDistributionConfig / loadMultiplierCurve / loadCrashModel
+ */
+export function resolveCrashConfig(gameCode: string, raw: RawGameConfig): CrashEffectiveConfig {
+  const defaults = CRASH_DEFAULTS[gameCode];
+
+  const rtpValue = parseFloat(rawString(raw, 'RTP') || '');
+  const rtp = !isNaN(rtpValue) && rtpValue >= 0 && rtpValue <= 100 ? rtpValue : defaults.rtp;
+
+  const speedValue = parseFloat(rawString(raw, 'coefficientSpeed') || '');
+  const coefficientSpeed = !isNaN(speedValue) && speedValue > 0 && speedValue <= 10 ? speedValue : defaults.speed;
+
+  const multiplierCurve =
+    parseMultiplierCurve(rawString(raw, 'multiplierCurve')) ?? linearMultiplierCurve(coefficientSpeed);
+
+  const configured = parseCrashDistribution(rawString(raw, 'coefficientDistribution'));
+  const model = buildHouseEdgeDistribution(rtp, configured, defaults.crashCoeffMax);
+
+  return {
+    model,
+    multiplierCurve,
+    maxWinAmount: parseMaxWin(rawJson(raw, 'betConfig') ?? defaults.betConfig),
+  };
+}
+
+/**
+ * Effective Chicken Road config - mirrors getGameConfigPayload and HazardSchedulerService.loadGameConfig
+ */
+export function resolveChickenRoadConfig(raw: RawGameConfig): ChickenRoadEffectiveConfig {
+  const parsedCoefficients = rawJson(raw, 'coefficients');
+  const coefficients =
+    parsedCoefficients && Object.keys(parsedCoefficients).length > 0
+      ? parsedCoefficients
+      : DEFAULTS.GAMES.CHICKEN_ROAD.coefficients;
+
+  const hazardConfig = rawJson(raw, 'hazardConfig') || {};
+  const configuredHazards = hazardConfig.hazards || DEFAULTS.GAMES.CHICKEN_ROAD.hazardConfig.hazards;
+  const hazards: Record<string, number> = {};
+  for (const difficulty of Object.values(Difficulty)) {
+    hazards[difficulty] = configuredHazards[difficulty] || DEFAULTS.GAMES.CHICKEN_ROAD.hazardConfig.hazards[difficulty];
+  }
+
+  return {
+    coefficients,
+    hazards,
+    maxWinAmount: parseMaxWin(rawJson(raw, 'betConfig') ?? DEFAULTS.GAMES.CHICKEN_ROAD.betConfig),
+  };
+}
+
+/**
+ * Small seeded PRNG for strategy decisions (mulberry32), so runs are reproducible
+ */
+function createRandom(seed: string): () => number {
+  let state = parseInt(crypto.createHash('sha256').update(seed).digest('hex').slice(0, 8), 16);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+class ReturnAccumulator {
+  private rounds = 0;
+  private sum = 0;
+  private sumSq = 0;
+  private hits = 0;
+  private maxWins = 0;
+
+  add(returnMultiplier: number, isMaxWin: boolean): void {
+    this.rounds++;
+    this.sum += returnMultiplier;
+    this.sumSq += returnMultiplier * returnMultiplier;
+    if (returnMultiplier > 0) this.hits++;
+    if (isMaxWin) this.maxWins++;
+  }
+
+  summary(): Pick<SimulationResult, 'rounds' | 'rtp' | 'ci95' | 'hitRate' | 'maxWinFrequency' | 'variance' | 'stdDev'> {
+    const mean = this.sum / this.rounds;
+    const variance = Math.max(0, this.sumSq / this.rounds - mean * mean);
+    const stdDev = Math.sqrt(variance);
+    return {
+      rounds: this.rounds,
+      rtp: round(mean * 100, 4),
+      ci95: round((1.96 * stdDev * 100) / Math.sqrt(this.rounds), 4),
+      hitRate: round(this.hits / this.rounds, 6),
+      maxWinFrequency: round(this.maxWins / this.rounds, 8),
+      variance: round(variance, 6),
+      stdDev: round(stdDev, 6),
+    };
+  }
+}
+
+function round(value: number, digits: number): number {
+  return parseFloat(value.toFixed(digits));
+}
+
+/**
+ * Crash strategies:
+ * - target:<coeff>    cash out at a fixed coefficient (auto cashout)
+ * - time:<seconds>    cash out after N seconds of flight (on the game's multiplier curve)
+ * - random:<min>-<max> uniformly random target per round
+ */
+function crashTarget(strategy: string, config: CrashEffectiveConfig, random: () => number): () => number {
+  const [name, arg = ''] = strategy.split(':');
+  const precision = GAME_CONSTANTS.COEFFICIENT.ROUNDING_PRECISION;
+
+  if (name === 'target') {
+    const target = parseFloat(arg);
+    if (!(target >= 1)) throw new Error(`Invalid crash strategy "${strategy}": target must be >= 1`);
+    return () => target;
+  }
+  if (name === 'time') {
+    const seconds = parseFloat(arg);
+    if (!(seconds > 0)) throw new Error(`Invalid crash strategy "${strategy}": seconds must be > 0`);
+    const target = Math.round(multiplierAt(config.multiplierCurve, seconds * 1000) * precision) / precision;
+    return () => target;
+  }
+  if (name === 'random') {
+    const [min, max] = arg.split('-').map(parseFloat);
+    if (!(min >= 1) || !(max > min)) throw new Error(`Invalid crash strategy "${strategy}": expected random:<min>-<max>`);
+    return () => Math.round((min + random() * (max - min)) * precision) / precision;
+  }
+  throw new Error(`Unknown crash strategy "${strategy}"`);
+}
+
+export function simulateCrash(
+  gameCode: string,
+  config: CrashEffectiveConfig,
+  strategy: string,
+  rounds: number,
+  betAmount: number,
+  seed: string,
+): SimulationResult {
+  const startedAt = Date.now();
+  const random = createRandom(`${seed}:${strategy}`);
+  const nextTarget = crashTarget(strategy, config, random);
+  const serverSeed = crypto.createHash('sha256').update(`${seed}:${gameCode}`).digest('hex');
+  const maxCoeff = config.model.maxCoeff!;
+  const maxWinAmount = config.maxWinAmount ?? betAmount * maxCoeff;
+  const accumulator = new ReturnAccumulator();
+
+  for (let roundId = 1; roundId <= rounds; roundId++) {
+    const { crashCoeff } = deriveCrashCoefficient({ serverSeed, clientSeeds: [], roundId }, config.model);
+    const target = nextTarget();
+    const returnMultiplier = target <= crashCoeff ? target : 0;
+    accumulator.add(returnMultiplier, returnMultiplier * betAmount >= maxWinAmount);
+  }
+
+  return {
+    gameCode,
+    difficulty: null,
+    strategy,
+    betAmount,
+    theoreticalRtp: strategy.startsWith('random') ? null : theoreticalCrashRtp(config.model),
+    maxWinAmount,
+    ...accumulator.summary(),
+    durationMs: Date.now() - startedAt,
+  };
+}
+
+/**
+ * Chicken Road strategies:
+ * - steps:<n|all>   cross n lines then cash out (all = finish the road)
+ * - multiplier:<x>  cash out on the first line whose coefficient is >= x
+ * - random          uniformly random number of lines per session
+ */
+function chickenRoadSteps(strategy: string, coefficients: string[], random: () => number): () => number {
+  const [name, arg = ''] = strategy.split(':');
+  const totalColumns = coefficients.length;
+
+  if (name === 'steps') {
+    const steps = arg === 'all' ? totalColumns : parseInt(arg, 10);
+    if (!(steps >= 1)) throw new Error(`Invalid Chicken Road strategy "${strategy}": steps must be >= 1`);
+    const capped = Math.min(steps, totalColumns);
+    return () => capped;
+  }
+  if (name === 'multiplier') {
+    const target = parseFloat(arg);
+    const index = coefficients.findIndex((c) => parseFloat(c) >= target);
+    const steps = index === -1 ? totalColumns : index + 1;
+    return () => steps;
+  }
+  if (name === 'random') {
+    return () => 1 + Math.floor(random() * totalColumns);
+  }
+  throw new Error(`Unknown Chicken Road strategy "${strategy}"`);
+}
+
+export function simulateChickenRoad(
+  gameCode: string,
+  difficulty: Difficulty,
+  config: ChickenRoadEffectiveConfig,
+  strategy: string,
+  sessions: number,
+  betAmount: number,
+  seed: string,
+): SimulationResult {
+  const startedAt = Date.now();
+  const coefficients = config.coefficients[difficulty] || [];
+  if (coefficients.length === 0) {
+    throw new Error(`No coefficients configured for ${gameCode} ${difficulty}`);
+  }
+
+  const random = createRandom(`${seed}:${difficulty}:${strategy}`);
+  const nextSteps = chickenRoadSteps(strategy, coefficients, random);
+  const serverSeed = crypto.createHash('sha256').update(`${seed}:${gameCode}`).digest('hex');
+  const userSeed = serverSeed.slice(0, DEFAULTS.GAMES.CHICKEN_ROAD.FAIRNESS.CLIENT_SEED_LENGTH);
+  const hazardCount = config.hazards[difficulty];
+  const totalColumns = coefficients.length;
+  const topCoeff = parseFloat(coefficients[totalColumns - 1]);
+  const maxWinAmount = config.maxWinAmount ?? betAmount * topCoeff;
+  const accumulator = new ReturnAccumulator();
+
+  for (let nonce = 0; nonce < sessions; nonce++) {
+    const hazards = deriveHazardColumns(userSeed, serverSeed, nonce, hazardCount, totalColumns);
+    const steps = nextSteps();
+    // Lines 0 .. steps-1 are crossed; hazards are sorted so the first one decides
+    const survived = hazards.length === 0 || hazards[0] >= steps;
+    const returnMultiplier = survived ? parseFloat(coefficients[steps - 1]) : 0;
+    accumulator.add(returnMultiplier, returnMultiplier * betAmount >= maxWinAmount);
+  }
+
+  return {
+    gameCode,
+    difficulty,
+    strategy,
+    betAmount,
+    theoreticalRtp: chickenRoadStrategyRtp(strategy, coefficients, hazardCount),
+    maxWinAmount,
+    ...accumulator.summary(),
+    durationMs: Date.now() - startedAt,
+  };
+}
+
+/**
+ * Expected RTP (percent) of a Chicken Road strategy; random averages over every cashout step
+ */
+function chickenRoadStrategyRtp(strategy: string, coefficients: string[], hazardCount: number): number {
+  const totalColumns = coefficients.length;
+  const stepRtp = (steps: number) =>
+    parseFloat(coefficients[steps - 1]) * hazardSurvivalProbability(hazardCount, totalColumns, steps) * 100;
+
+  if (strategy === 'random') {
+    let sum = 0;
+    for (let steps = 1; steps <= totalColumns; steps++) sum += stepRtp(steps);
+    return round(sum / totalColumns, 4);
+  }
+  return round(stepRtp(chickenRoadSteps(strategy, coefficients, () => 0)()), 4);
+}
+
+export const CSV_COLUMNS: Array<keyof SimulationResult> = [
+  'gameCode',
+  'difficulty',
+  'strategy',
+  'rounds',
+  'betAmount',
+  'rtp',
+  'theoreticalRtp',
+  'ci95',
+  'hitRate',
+  'maxWinAmount',
+  'maxWinFrequency',
+  'variance',
+  'stdDev',
+  'durationMs',
+];
+
+export function toCsv(results: SimulationResult[]): string {
+  const lines = [CSV_COLUMNS.join(',')];
+  for (const result of results) {
+    lines.push(CSV_COLUMNS.map((column) => (result[column] === null ? '' : String(result[column]))).join(','));
+  }
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,162 @@
+/**
+ * Monte Carlo RTP simulator (offline - no Redis / MySQL)
+ *
+ * Usage:
+ *   npm run simulate:rtp -- --game sugar-daddy --rounds 1000000 --strategy target:2 --strategy time:4
+ *   npm run simulate:rtp -- --game chicken-road-two --difficulty HARD --strategy steps:5 --strategy multiplier:3
+ *   npm run simulate:rtp -- --game all --config ./configs.json --out ./reports/rtp
+ *
+ * Options:
+ *   --game        game code or "all" (default: all)
+ *   --difficulty  Chicken Road difficulty or "all" (default: all)
+ *   --rounds      rounds (crash) / sessions (Chicken Road) per strategy (default: 1000000)
+ *   --strategy    repeatable; crash: target:<coeff> | time:<seconds> | random:<min>-<max>
+ *                 Chicken Road: steps:<n|all> | multiplier:<x> | random
+ *   --bet         bet amount used for max-win detection (default: 1)
+ *   --seed        seed for the simulated server seeds and strategy randomness (default: random)
+ *   --config      JSON file with raw config rows: { "<gameCode>": { "<key>": <value> } }
+ *   --out         output path prefix; writes <out>.json and <out>.csv (default: JSON to stdout)
+ */
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Difficulty } from '../games/chicken-road-game/DTO/bet-payload.dto';
+import {
+  RawGameConfig,
+  resolveChickenRoadConfig,
+  resolveCrashConfig,
+  SIMULATED_GAMES,
+  SimulationResult,
+  simulateChickenRoad,
+  simulateCrash,
+  toCsv,
+} from './rtp-simulation';
+
+const DEFAULT_CRASH_STRATEGIES = ['target:1.5', 'target:2', 'target:5', 'time:4'];
+const DEFAULT_CHICKEN_ROAD_STRATEGIES = ['steps:1', 'steps:5', 'steps:all', 'random'];
+
+interface CliOptions {
+  games: string[];
+  difficulties: Difficulty[];
+  rounds: number;
+  strategies: string[];
+  bet: number;
+  seed: string;
+  configFile: string | null;
+  out: string | null;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const values: Record<string, string[]> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      throw new Error(`Unexpected argument "${arg}"`);
+    }
+    const [name, inline] = arg.slice(2).split('=', 2);
+    const value = inline ?? argv[++i];
+    if (value === undefined) {
+      throw new Error(`Missing value for --${name}`);
+    }
+    (values[name] = values[name] || []).push(value);
+  }
+
+  const game = values.game?.[0] ?? 'all';
+  const games = game === 'all' ? Object.keys(SIMULATED_GAMES) : [game];
+  for (const gameCode of games) {
+    if (!SIMULATED_GAMES[gameCode]) {
+      throw new Error(`Unsupported game "${gameCode}". Supported: ${Object.keys(SIMULATED_GAMES).join(', ')}`);
+    }
+  }
+
+  const difficulty = (values.difficulty?.[0] ?? 'all').toUpperCase();
+  const difficulties = difficulty === 'ALL' ? Object.values(Difficulty) : [difficulty as Difficulty];
+  for (const d of difficulties) {
+    if (!Object.values(Difficulty).includes(d)) {
+      throw new Error(`Unsupported difficulty "${d}"`);
+    }
+  }
+
+  const rounds = parseInt(values.rounds?.[0] ?? '1000000', 10);
+  if (!(rounds > 0)) {
+    throw new Error('--rounds must be a positive integer');
+  }
+
+  const bet = parseFloat(values.bet?.[0] ?? '1');
+  if (!(bet > 0)) {
+    throw new Error('--bet must be positive');
+  }
+
+  return {
+    games,
+    difficulties,
+    rounds,
+    strategies: values.strategy ?? [],
+    bet,
+    seed: values.seed?.[0] ?? crypto.randomBytes(16).toString('hex'),
+    configFile: values.config?.[0] ?? null,
+    out: values.out?.[0] ?? null,
+  };
+}
+
+function loadRawConfigs(configFile: string | null): Record<string, RawGameConfig> {
+  if (!configFile) return {};
+  return JSON.parse(fs.readFileSync(configFile, 'utf8'));
+}
+
+function run(options: CliOptions): SimulationResult[] {
+  const rawConfigs = loadRawConfigs(options.configFile);
+  const results: SimulationResult[] = [];
+
+  for (const gameCode of options.games) {
+    const raw = rawConfigs[gameCode] || {};
+
+    if (SIMULATED_GAMES[gameCode] === 'crash') {
+      const config = resolveCrashConfig(gameCode, raw);
+      const strategies = options.strategies.length ? options.strategies : DEFAULT_CRASH_STRATEGIES;
+      for (const strategy of strategies) {
+        results.push(simulateCrash(gameCode, config, strategy, options.rounds, options.bet, options.seed));
+        process.stderr.write(`[RTP_SIM] ${gameCode} ${strategy} done\n`);
+      }
+      continue;
+    }
+
+    const config = resolveChickenRoadConfig(raw);
+    const strategies = options.strategies.length ? options.strategies : DEFAULT_CHICKEN_ROAD_STRATEGIES;
+    for (const difficulty of options.difficulties) {
+      for (const strategy of strategies) {
+        results.push(
+          simulateChickenRoad(gameCode, difficulty, config, strategy, options.rounds, options.bet, options.seed),
+        );
+        process.stderr.write(`[RTP_SIM] ${gameCode} ${difficulty} ${strategy} done\n`);
+      }
+    }
+  }
+
+  return results;
+}
+
+function main(): void {
+  let options: CliOptions;
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    process.stderr.write(`[RTP_SIM] ${(error as Error).message}\n`);
+    process.exit(1);
+  }
+
+  const results = run(options);
+  const report = { seed: options.seed, rounds: options.rounds, results };
+
+  if (!options.out) {
+    process.stdout.write(JSON.stringify(report, null, 2) + '\n');
+    return;
+  }
+
+  fs.mkdirSync(path.dirname(path.resolve(options.out)), { recursive: true });
+  fs.writeFileSync(`${options.out}.json`, JSON.stringify(report, null, 2) + '\n');
+  fs.writeFileSync(`${options.out}.csv`, toCsv(results));
+  process.stderr.write(`[RTP_SIM] Wrote ${options.out}.json and ${options.out}.csv\n`);
+}
+
+main();